@@ -14,6 +14,9 @@
 -- Enable UUID extension
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 
+-- Needed for the transaction number exclusion constraint on sales
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
 -- ============================================
 -- CORE TABLES
 -- ============================================
@@ -24,8 +27,8 @@ CREATE TABLE IF NOT EXISTS products (
   name TEXT NOT NULL,
   image_url TEXT,
   unit_type TEXT NOT NULL CHECK (unit_type IN ('weight', 'quantity', 'volume')),
-  qty DECIMAL(10, 2) NOT NULL DEFAULT 0,
-  cost DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  qty DECIMAL(12, 4) NOT NULL DEFAULT 0,
+  cost DECIMAL(12, 6) NOT NULL DEFAULT 0,
   selling_price DECIMAL(10, 2) NOT NULL DEFAULT 0,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
@@ -47,7 +50,7 @@ CREATE TABLE IF NOT EXISTS product_ingredients (
   id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
   product_id UUID NOT NULL REFERENCES finished_products(id) ON DELETE CASCADE,
   item_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
-  qty DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  qty DECIMAL(12, 4) NOT NULL DEFAULT 0,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
@@ -71,7 +74,18 @@ CREATE TABLE IF NOT EXISTS sales (
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   earnings_datetime TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   cancelled BOOLEAN DEFAULT FALSE,
-  cancelled_at TIMESTAMP WITH TIME ZONE
+  cancelled_at TIMESTAMP WITH TIME ZONE,
+  void_reason TEXT,
+  voided_by TEXT
+);
+
+-- Ingredients deducted for each sale line (in storage units), so a void restores exactly what was taken
+CREATE TABLE IF NOT EXISTS sale_deductions (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  sale_id UUID NOT NULL REFERENCES sales(id) ON DELETE CASCADE,
+  item_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  qty DECIMAL(12, 4) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
 -- Payment methods table
@@ -116,6 +130,592 @@ CREATE TABLE IF NOT EXISTS opex_settings (
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- ============================================
+-- UPGRADES (columns added to existing tables; safe to re-run)
+-- ============================================
+
+ALTER TABLE sales ADD COLUMN IF NOT EXISTS void_reason TEXT;
+ALTER TABLE sales ADD COLUMN IF NOT EXISTS voided_by TEXT;
+-- The cashier who rang up the sale (set by process_checkout)
+ALTER TABLE sales ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Transaction number counters (one row per prefix scope and period)
+CREATE TABLE IF NOT EXISTS transaction_counters (
+  scope TEXT NOT NULL DEFAULT '',
+  period TEXT NOT NULL,
+  last_value INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (scope, period)
+);
+
+-- Every transaction number ever issued, for uniqueness and gap reporting
+CREATE TABLE IF NOT EXISTS transaction_numbers (
+  transaction_number TEXT PRIMARY KEY,
+  transaction_id UUID NOT NULL UNIQUE,
+  scope TEXT NOT NULL DEFAULT '',
+  period TEXT NOT NULL,
+  seq INTEGER NOT NULL,
+  issued_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (scope, period, seq)
+);
+
+-- Staff accounts, one per Supabase Auth user (created by the on_auth_user_created trigger)
+CREATE TABLE IF NOT EXISTS profiles (
+  id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  username TEXT NOT NULL UNIQUE,
+  email TEXT,
+  role TEXT NOT NULL DEFAULT 'cashier' CHECK (role IN ('owner', 'manager', 'cashier')),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Roles added after the profiles table was first created
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_role_check;
+ALTER TABLE profiles ADD CONSTRAINT profiles_role_check CHECK (role IN ('owner', 'manager', 'cashier'));
+
+-- Permission toggles for non-owner roles (owners always have every permission)
+CREATE TABLE IF NOT EXISTS role_permissions (
+  role TEXT NOT NULL CHECK (role IN ('manager', 'cashier')),
+  permission TEXT NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT false,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (role, permission)
+);
+
+-- Permissions added after the role_permissions table was first created
+ALTER TABLE role_permissions DROP CONSTRAINT IF EXISTS role_permissions_permission_check;
+ALTER TABLE role_permissions ADD CONSTRAINT role_permissions_permission_check CHECK (permission IN (
+  'view_reports', 'void_sales', 'edit_report_date', 'archive_reports',
+  'manage_inventory', 'edit_recipes', 'view_earnings', 'manage_opex',
+  'apply_discounts', 'log_waste', 'count_stock'
+));
+
+-- Sales removed from the live table by archive_sales, kept whole for audit
+CREATE TABLE IF NOT EXISTS sales_archive (
+  id UUID PRIMARY KEY,
+  transaction_id UUID,
+  transaction_number TEXT,
+  sale JSONB NOT NULL,
+  archived_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  archived_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  archived_by_name TEXT
+);
+
+-- Promotions applied at checkout. A promotion with a product_id discounts that
+-- product's line; without one it discounts the whole order. Promotions without a
+-- code apply automatically while active; coded ones only when the code is entered.
+-- value is a percentage for 'percent', pesos per unit (line) or per order for
+-- 'fixed', and unused for 'bxgy' (buy buy_qty, get get_qty free).
+CREATE TABLE IF NOT EXISTS promotions (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  name TEXT NOT NULL,
+  code TEXT UNIQUE,
+  discount_type TEXT NOT NULL CHECK (discount_type IN ('percent', 'fixed', 'bxgy')),
+  value DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (value >= 0),
+  product_id UUID REFERENCES finished_products(id) ON DELETE CASCADE,
+  buy_qty INTEGER,
+  get_qty INTEGER,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  starts_at TIMESTAMP WITH TIME ZONE,
+  ends_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (discount_type <> 'percent' OR value <= 100),
+  CHECK (discount_type <> 'bxgy' OR (product_id IS NOT NULL AND buy_qty > 0 AND get_qty > 0))
+);
+
+-- Discounts recorded per sale line; total is the line's net amount after discount
+ALTER TABLE sales ADD COLUMN IF NOT EXISTS discount_amount DECIMAL(10, 2) NOT NULL DEFAULT 0;
+ALTER TABLE sales ADD COLUMN IF NOT EXISTS discount_reason TEXT;
+ALTER TABLE sales ADD COLUMN IF NOT EXISTS promotion_id UUID REFERENCES promotions(id) ON DELETE SET NULL;
+
+-- VAT treatment of each product; selling prices are VAT-inclusive
+ALTER TABLE finished_products ADD COLUMN IF NOT EXISTS vat_status TEXT NOT NULL DEFAULT 'vatable';
+ALTER TABLE finished_products DROP CONSTRAINT IF EXISTS finished_products_vat_status_check;
+ALTER TABLE finished_products ADD CONSTRAINT finished_products_vat_status_check
+  CHECK (vat_status IN ('vatable', 'exempt', 'zero_rated'));
+
+-- Customer types that receive the Senior Citizen / PWD statutory discount
+-- (existing installs get it switched on for Senior the first time this runs)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'customer_types' AND column_name = 'statutory_discount'
+  ) THEN
+    ALTER TABLE customer_types ADD COLUMN statutory_discount BOOLEAN NOT NULL DEFAULT false;
+    UPDATE customer_types SET statutory_discount = true WHERE name IN ('Senior', 'PWD');
+  END IF;
+END $$;
+
+-- VAT breakdown per sale line. vatable_sales excludes the VAT in vat_amount;
+-- vat_exemption is the VAT removed for a Senior/PWD customer before their
+-- statutory_discount, so total = selling_price * qty - discount_amount - vat_exemption
+-- (discount_amount includes statutory_discount). The ID is captured per transaction.
+ALTER TABLE sales ADD COLUMN IF NOT EXISTS vat_status TEXT;
+ALTER TABLE sales ADD COLUMN IF NOT EXISTS vatable_sales DECIMAL(10, 2) NOT NULL DEFAULT 0;
+ALTER TABLE sales ADD COLUMN IF NOT EXISTS vat_amount DECIMAL(10, 2) NOT NULL DEFAULT 0;
+ALTER TABLE sales ADD COLUMN IF NOT EXISTS vat_exempt_sales DECIMAL(10, 2) NOT NULL DEFAULT 0;
+ALTER TABLE sales ADD COLUMN IF NOT EXISTS zero_rated_sales DECIMAL(10, 2) NOT NULL DEFAULT 0;
+ALTER TABLE sales ADD COLUMN IF NOT EXISTS vat_exemption DECIMAL(10, 2) NOT NULL DEFAULT 0;
+ALTER TABLE sales ADD COLUMN IF NOT EXISTS statutory_discount DECIMAL(10, 2) NOT NULL DEFAULT 0;
+ALTER TABLE sales ADD COLUMN IF NOT EXISTS statutory_id_number TEXT;
+ALTER TABLE sales ADD COLUMN IF NOT EXISTS statutory_id_name TEXT;
+
+-- Payment methods that take cash; change is only ever given from cash tenders
+-- (existing installs get it switched on for Cash the first time this runs)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'payment_methods' AND column_name = 'is_cash'
+  ) THEN
+    ALTER TABLE payment_methods ADD COLUMN is_cash BOOLEAN NOT NULL DEFAULT false;
+    UPDATE payment_methods SET is_cash = true WHERE name = 'Cash';
+  END IF;
+END $$;
+
+-- Tenders of each transaction. tendered is what the customer handed over,
+-- change_given the part of it returned (cash tenders only) and amount what the
+-- tender actually paid (tendered - change_given). The tenders' amounts add up
+-- to the transaction total.
+CREATE TABLE IF NOT EXISTS sale_payments (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  transaction_id UUID NOT NULL,
+  transaction_number TEXT,
+  payment_method TEXT NOT NULL,
+  amount DECIMAL(10, 2) NOT NULL CHECK (amount >= 0),
+  tendered DECIMAL(10, 2) NOT NULL CHECK (tendered >= 0),
+  change_given DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (change_given >= 0),
+  reference_number TEXT,
+  cancelled BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Tenders of archived transactions, kept with each archived sale row
+ALTER TABLE sales_archive ADD COLUMN IF NOT EXISTS payments JSONB;
+
+-- Size variants of a finished product (e.g. Regular, Large). price_delta is
+-- added to the product's selling_price; a product with variants is always sold
+-- as one of them.
+CREATE TABLE IF NOT EXISTS product_variants (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  product_id UUID NOT NULL REFERENCES finished_products(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  price_delta DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (product_id, name)
+);
+
+-- Modifier groups of a finished product (e.g. Milk, Add-ons). Each sale line
+-- picks between min_select and max_select of the group's options; a group with
+-- min_select above zero is required.
+CREATE TABLE IF NOT EXISTS modifier_groups (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  product_id UUID NOT NULL REFERENCES finished_products(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  min_select INTEGER NOT NULL DEFAULT 0 CHECK (min_select >= 0),
+  max_select INTEGER NOT NULL DEFAULT 1 CHECK (max_select >= 1),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (product_id, name),
+  CHECK (min_select <= max_select)
+);
+
+CREATE TABLE IF NOT EXISTS modifier_options (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  group_id UUID NOT NULL REFERENCES modifier_groups(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  price_delta DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (group_id, name)
+);
+
+-- Recipe changes of a variant or modifier option, in recipe units (g/ml/pcs)
+-- per unit sold, on top of product_ingredients. Negative quantities use less of
+-- an ingredient (e.g. a Small size, or "No milk").
+CREATE TABLE IF NOT EXISTS option_ingredients (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  variant_id UUID REFERENCES product_variants(id) ON DELETE CASCADE,
+  modifier_option_id UUID REFERENCES modifier_options(id) ON DELETE CASCADE,
+  item_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  qty DECIMAL(12, 4) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (num_nonnulls(variant_id, modifier_option_id) = 1)
+);
+
+-- Variant and modifiers chosen on each sale line, as they were named and priced
+-- at the time: modifiers is [{ id, group, name, price_delta }]. selling_price
+-- already includes their price deltas.
+ALTER TABLE sales ADD COLUMN IF NOT EXISTS variant_id UUID REFERENCES product_variants(id) ON DELETE SET NULL;
+ALTER TABLE sales ADD COLUMN IF NOT EXISTS variant_name TEXT;
+ALTER TABLE sales ADD COLUMN IF NOT EXISTS modifiers JSONB NOT NULL DEFAULT '[]'::JSONB;
+
+-- Finished products that make up a bundle (e.g. meal = burger + fries + drink),
+-- qty per bundle sold. The bundle's selling_price is the bundle price; its own
+-- product_ingredients (packaging, say) are used on top of the components'.
+-- Components are made to their base recipe and may not be bundles themselves.
+CREATE TABLE IF NOT EXISTS bundle_components (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  bundle_id UUID NOT NULL REFERENCES finished_products(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES finished_products(id) ON DELETE CASCADE,
+  qty INTEGER NOT NULL DEFAULT 1 CHECK (qty > 0),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (bundle_id <> product_id)
+);
+
+-- Products the till may swap in for a component (e.g. iced tea for the soda).
+-- price_delta is added to the bundle price once per bundle.
+CREATE TABLE IF NOT EXISTS bundle_substitutes (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  component_id UUID NOT NULL REFERENCES bundle_components(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES finished_products(id) ON DELETE CASCADE,
+  price_delta DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (component_id, product_id)
+);
+
+-- Components of each bundle sale line as they were made:
+-- [{ component_id, product_id, name, qty, price_delta }] per bundle, with any
+-- substitutions applied. The line itself stays one bundle line.
+ALTER TABLE sales ADD COLUMN IF NOT EXISTS bundle_items JSONB NOT NULL DEFAULT '[]'::JSONB;
+
+-- Prep items are inventory items made in-house (sauces, syrups, dough) from
+-- other inventory items, prep items included. batch_yield is how much one batch
+-- of prep_ingredients makes, in recipe units (g/ml/pcs). Finished products use
+-- them like any other ingredient.
+ALTER TABLE products ADD COLUMN IF NOT EXISTS is_prep BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE products ADD COLUMN IF NOT EXISTS batch_yield DECIMAL(12, 4) CHECK (batch_yield > 0);
+
+-- Recipe of one batch of a prep item, in recipe units (g/ml/pcs)
+CREATE TABLE IF NOT EXISTS prep_ingredients (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  prep_item_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  item_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  qty DECIMAL(12, 4) NOT NULL CHECK (qty > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (prep_item_id, item_id)
+);
+
+-- One production run of a prep item (see produce_prep). Quantities are in
+-- recipe units (g/ml/pcs): expected_qty is what the recipe says the batches
+-- make, actual_qty what came out, and yield_pct the one over the other.
+-- consumed is [{ item_id, name, unit_type, qty, cost }] as taken from stock.
+CREATE TABLE IF NOT EXISTS production_runs (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  item_id UUID REFERENCES products(id) ON DELETE SET NULL,
+  item_name TEXT NOT NULL,
+  unit_type TEXT NOT NULL CHECK (unit_type IN ('weight', 'quantity', 'volume')),
+  batches DECIMAL(12, 4) NOT NULL CHECK (batches > 0),
+  expected_qty DECIMAL(12, 4) NOT NULL CHECK (expected_qty > 0),
+  actual_qty DECIMAL(12, 4) NOT NULL CHECK (actual_qty > 0),
+  yield_pct DECIMAL(7, 2) NOT NULL,
+  total_cost DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  unit_cost DECIMAL(12, 6) NOT NULL DEFAULT 0,
+  consumed JSONB NOT NULL DEFAULT '[]',
+  notes TEXT,
+  produced_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  produced_by_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Every change to products.qty, in storage units (kg/L/pcs), written by the
+-- log_stock_movement trigger and never changed afterwards. movement_type and
+-- reference_id (the transaction, production run, ...) come from
+-- set_stock_movement; a change made outside one is an 'adjustment'.
+CREATE TABLE IF NOT EXISTS stock_movements (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  item_id UUID REFERENCES products(id) ON DELETE SET NULL,
+  item_name TEXT NOT NULL,
+  unit_type TEXT NOT NULL CHECK (unit_type IN ('weight', 'quantity', 'volume')),
+  movement_type TEXT NOT NULL CHECK (movement_type IN (
+    'sale', 'void', 'purchase', 'adjustment', 'waste', 'production', 'transfer'
+  )),
+  qty_before DECIMAL(12, 4) NOT NULL,
+  qty_after DECIMAL(12, 4) NOT NULL,
+  qty_change DECIMAL(12, 4) NOT NULL,
+  reference_id UUID,
+  note TEXT,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  username TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE stock_movements ADD COLUMN IF NOT EXISTS value_change DECIMAL(12, 2) NOT NULL DEFAULT 0;
+
+-- Stock on hand of each item split into the receipts it came from, oldest
+-- first. Quantities are in storage units (kg/L/pcs) and unit_cost is per recipe
+-- unit, like products. Kept by log_stock_movement under either costing method;
+-- with costing_method 'fifo' decreases are valued from the oldest layers.
+CREATE TABLE IF NOT EXISTS cost_layers (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  item_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  movement_id UUID REFERENCES stock_movements(id) ON DELETE SET NULL,
+  qty_received DECIMAL(12, 4) NOT NULL,
+  qty_remaining DECIMAL(12, 4) NOT NULL CHECK (qty_remaining >= 0),
+  unit_cost DECIMAL(12, 6) NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT clock_timestamp()
+);
+
+-- Stock that predates cost layers becomes one opening layer at its current cost
+INSERT INTO cost_layers (item_id, qty_received, qty_remaining, unit_cost)
+SELECT p.id, p.qty, p.qty, p.cost
+FROM products p
+WHERE p.qty > 0
+  AND NOT EXISTS (SELECT 1 FROM cost_layers l WHERE l.item_id = p.id);
+
+-- What each sale line's ingredients cost when they left stock
+ALTER TABLE sale_deductions ADD COLUMN IF NOT EXISTS cost DECIMAL(12, 4);
+
+-- Days stock of an item keeps once received or produced; sets the expiry of
+-- lots added without an expiry date. NULL for stock that does not expire.
+ALTER TABLE products ADD COLUMN IF NOT EXISTS shelf_life_days INTEGER CHECK (shelf_life_days > 0);
+
+-- Stock on hand of each item by lot, in storage units (kg/L/pcs). Kept by
+-- log_stock_movement: stock added becomes a lot (see set_stock_lot) and stock
+-- taken out comes from the lots expiring first. Lots past their expiry date are
+-- written off as waste by expire_stock_lots.
+CREATE TABLE IF NOT EXISTS stock_lots (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  item_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  movement_id UUID REFERENCES stock_movements(id) ON DELETE SET NULL,
+  lot_code TEXT,
+  expiry_date DATE,
+  qty_received DECIMAL(12, 4) NOT NULL,
+  qty_remaining DECIMAL(12, 4) NOT NULL CHECK (qty_remaining >= 0),
+  received_at TIMESTAMP WITH TIME ZONE DEFAULT clock_timestamp()
+);
+
+-- Stock that predates lots becomes one opening lot without an expiry date
+INSERT INTO stock_lots (item_id, qty_received, qty_remaining)
+SELECT p.id, p.qty, p.qty
+FROM products p
+WHERE p.qty > 0
+  AND NOT EXISTS (SELECT 1 FROM stock_lots l WHERE l.item_id = p.id);
+
+-- How much of each lot a stock movement took out, so a void can put a sale's
+-- stock back into the lots it came from
+CREATE TABLE IF NOT EXISTS stock_lot_consumptions (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  lot_id UUID NOT NULL REFERENCES stock_lots(id) ON DELETE CASCADE,
+  movement_id UUID NOT NULL REFERENCES stock_movements(id) ON DELETE CASCADE,
+  qty DECIMAL(12, 4) NOT NULL CHECK (qty > 0)
+);
+
+-- Suppliers inventory items are bought from
+CREATE TABLE IF NOT EXISTS suppliers (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  name TEXT NOT NULL,
+  contact_name TEXT,
+  phone TEXT,
+  email TEXT,
+  notes TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE SEQUENCE IF NOT EXISTS purchase_order_number_seq;
+
+-- Purchase orders: 'draft' while being written, 'ordered' once sent to the
+-- supplier, 'partial' after a delivery that left something outstanding, and
+-- 'received' once everything arrived or the rest is no longer expected
+CREATE TABLE IF NOT EXISTS purchase_orders (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  po_number TEXT NOT NULL UNIQUE DEFAULT 'PO-' || LPAD(nextval('purchase_order_number_seq')::TEXT, 5, '0'),
+  supplier_id UUID NOT NULL REFERENCES suppliers(id) ON DELETE RESTRICT,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'ordered', 'partial', 'received', 'cancelled')),
+  expected_date DATE,
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_by_name TEXT,
+  ordered_at TIMESTAMP WITH TIME ZONE,
+  closed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Expected lines of a purchase order, in storage units (kg/L/pcs) with the
+-- agreed price per storage unit
+CREATE TABLE IF NOT EXISTS purchase_order_lines (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  purchase_order_id UUID NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+  item_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  qty_ordered DECIMAL(12, 4) NOT NULL CHECK (qty_ordered > 0),
+  unit_cost DECIMAL(12, 4) NOT NULL DEFAULT 0 CHECK (unit_cost >= 0),
+  qty_received DECIMAL(12, 4) NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (purchase_order_id, item_id)
+);
+
+-- Deliveries against a purchase order (see receive_purchase_order), with the
+-- actual quantity and price per storage unit of each line
+CREATE TABLE IF NOT EXISTS goods_receipts (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  purchase_order_id UUID NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+  notes TEXT,
+  received_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  received_by_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS goods_receipt_lines (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  receipt_id UUID NOT NULL REFERENCES goods_receipts(id) ON DELETE CASCADE,
+  line_id UUID NOT NULL REFERENCES purchase_order_lines(id) ON DELETE CASCADE,
+  item_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  qty DECIMAL(12, 4) NOT NULL CHECK (qty > 0),
+  unit_cost DECIMAL(12, 4) NOT NULL CHECK (unit_cost >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE goods_receipt_lines ADD COLUMN IF NOT EXISTS lot_code TEXT;
+ALTER TABLE goods_receipt_lines ADD COLUMN IF NOT EXISTS expiry_date DATE;
+
+-- Stock spoiled, spilled or given away (see log_waste): an inventory item, qty
+-- in recipe units (g/ml/pcs), or a finished product, qty in units, whose
+-- ingredients are taken out. consumed lists the inventory items taken out and
+-- cost what they were worth under the costing method.
+CREATE TABLE IF NOT EXISTS waste_entries (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  item_id UUID REFERENCES products(id) ON DELETE SET NULL,
+  product_id UUID REFERENCES finished_products(id) ON DELETE SET NULL,
+  variant_id UUID REFERENCES product_variants(id) ON DELETE SET NULL,
+  name TEXT NOT NULL,
+  unit_type TEXT NOT NULL CHECK (unit_type IN ('weight', 'quantity', 'volume')),
+  qty DECIMAL(12, 4) NOT NULL CHECK (qty > 0),
+  reason TEXT NOT NULL CHECK (reason IN ('spoiled', 'spilled', 'expired', 'damaged', 'comped', 'other')),
+  notes TEXT,
+  cost DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  consumed JSONB NOT NULL DEFAULT '[]',
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  username TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Physical stock counts (stocktakes). Starting a count snapshots every item's
+-- stock and cost; staff enter what they counted, then submit the count for
+-- the owner to approve, which posts the variances to stock (see
+-- review_stock_count).
+CREATE SEQUENCE IF NOT EXISTS stock_count_number_seq;
+
+CREATE TABLE IF NOT EXISTS stock_counts (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  count_number TEXT NOT NULL UNIQUE DEFAULT 'SC-' || LPAD(nextval('stock_count_number_seq')::TEXT, 5, '0'),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'submitted', 'approved', 'cancelled')),
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_by_name TEXT,
+  submitted_at TIMESTAMP WITH TIME ZONE,
+  submitted_by_name TEXT,
+  approved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  approved_by_name TEXT,
+  closed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One line per item at the start of the count. expected_qty and counted_qty
+-- are in storage units (kg/L/pcs); unit_cost is the item's cost per recipe
+-- unit at the start. variance_qty and variance_value are filled in when the
+-- count is approved from the adjustment actually posted.
+CREATE TABLE IF NOT EXISTS stock_count_lines (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  count_id UUID NOT NULL REFERENCES stock_counts(id) ON DELETE CASCADE,
+  item_id UUID REFERENCES products(id) ON DELETE SET NULL,
+  item_name TEXT NOT NULL,
+  unit_type TEXT NOT NULL CHECK (unit_type IN ('weight', 'quantity', 'volume')),
+  expected_qty DECIMAL(12, 4) NOT NULL,
+  counted_qty DECIMAL(12, 4) CHECK (counted_qty >= 0),
+  unit_cost DECIMAL(12, 6) NOT NULL DEFAULT 0,
+  variance_qty DECIMAL(12, 4),
+  variance_value DECIMAL(12, 2),
+  UNIQUE (count_id, item_id)
+);
+
+-- Restocking levels, in storage units (kg/L/pcs): an item is low once its
+-- stock is at or below reorder_point, and is restocked up to par_level (see
+-- low_stock_items). NULL reorder_point: not watched.
+ALTER TABLE products ADD COLUMN IF NOT EXISTS reorder_point DECIMAL(12, 4) CHECK (reorder_point >= 0);
+ALTER TABLE products ADD COLUMN IF NOT EXISTS par_level DECIMAL(12, 4) CHECK (par_level >= 0);
+
+-- Units an item can be bought or measured in besides its own (g/ml/pcs):
+-- purchase units like a case of 24 or a 5kg sack, and recipe units like a
+-- tbsp or a shot. factor is how many recipe units (g/ml/pcs) one of the unit
+-- holds. Units without an item_id are shared by every item of that unit_type.
+-- Quantities are always stored converted, so unit_id on a recipe or purchase
+-- order line only records which unit it was entered in.
+CREATE TABLE IF NOT EXISTS units_of_measure (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  item_id UUID REFERENCES products(id) ON DELETE CASCADE,
+  unit_type TEXT NOT NULL CHECK (unit_type IN ('weight', 'quantity', 'volume')),
+  name TEXT NOT NULL,
+  factor DECIMAL(14, 6) NOT NULL CHECK (factor > 0),
+  kind TEXT NOT NULL CHECK (kind IN ('purchase', 'recipe')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_units_of_measure_name
+  ON units_of_measure (COALESCE(item_id, '00000000-0000-0000-0000-000000000000'::UUID), unit_type, lower(name));
+
+ALTER TABLE product_ingredients ADD COLUMN IF NOT EXISTS unit_id UUID REFERENCES units_of_measure(id) ON DELETE SET NULL;
+ALTER TABLE prep_ingredients ADD COLUMN IF NOT EXISTS unit_id UUID REFERENCES units_of_measure(id) ON DELETE SET NULL;
+ALTER TABLE purchase_order_lines ADD COLUMN IF NOT EXISTS unit_id UUID REFERENCES units_of_measure(id) ON DELETE SET NULL;
+
+-- What each finished product's recipe cost, and what it sold for, over time
+-- (see record_product_costs). ingredient_cost is at the ingredients' costs at
+-- recorded_at; net_price is the selling price before VAT, and food_cost_pct
+-- the ingredient cost as a percentage of it (NULL with no price). The latest
+-- row is the product's current figure.
+CREATE TABLE IF NOT EXISTS product_cost_history (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  product_id UUID NOT NULL REFERENCES finished_products(id) ON DELETE CASCADE,
+  ingredient_cost DECIMAL(12, 4) NOT NULL,
+  selling_price DECIMAL(10, 2) NOT NULL,
+  net_price DECIMAL(10, 2) NOT NULL,
+  food_cost_pct DECIMAL(12, 2),
+  recorded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Quantities are kept to 4 decimal places, so 5 g of salt (0.005 kg) is not
+-- rounded away; costs per recipe unit to 6, so a ₱0.003/g cost is not 0.00;
+-- purchase prices per storage unit to 4. Money stays at 2 decimal places.
+-- Widens the columns of databases created before this; a no-op afterwards.
+-- The stock movement and product cost triggers name products.qty and
+-- products.cost, so they are dropped first and created again in the TRIGGERS
+-- section.
+DROP TRIGGER IF EXISTS log_stock_movements ON products;
+DROP TRIGGER IF EXISTS track_product_costs ON products;
+ALTER TABLE products ALTER COLUMN qty TYPE DECIMAL(12, 4), ALTER COLUMN cost TYPE DECIMAL(12, 6),
+  ALTER COLUMN batch_yield TYPE DECIMAL(12, 4);
+ALTER TABLE product_ingredients ALTER COLUMN qty TYPE DECIMAL(12, 4);
+ALTER TABLE option_ingredients ALTER COLUMN qty TYPE DECIMAL(12, 4);
+ALTER TABLE prep_ingredients ALTER COLUMN qty TYPE DECIMAL(12, 4);
+ALTER TABLE production_runs ALTER COLUMN batches TYPE DECIMAL(12, 4), ALTER COLUMN expected_qty TYPE DECIMAL(12, 4),
+  ALTER COLUMN actual_qty TYPE DECIMAL(12, 4), ALTER COLUMN unit_cost TYPE DECIMAL(12, 6);
+ALTER TABLE stock_movements ALTER COLUMN qty_before TYPE DECIMAL(12, 4), ALTER COLUMN qty_after TYPE DECIMAL(12, 4),
+  ALTER COLUMN qty_change TYPE DECIMAL(12, 4);
+ALTER TABLE cost_layers ALTER COLUMN unit_cost TYPE DECIMAL(12, 6);
+ALTER TABLE purchase_order_lines ALTER COLUMN qty_ordered TYPE DECIMAL(12, 4), ALTER COLUMN unit_cost TYPE DECIMAL(12, 4),
+  ALTER COLUMN qty_received TYPE DECIMAL(12, 4);
+ALTER TABLE goods_receipt_lines ALTER COLUMN qty TYPE DECIMAL(12, 4), ALTER COLUMN unit_cost TYPE DECIMAL(12, 4);
+ALTER TABLE waste_entries ALTER COLUMN qty TYPE DECIMAL(12, 4);
+ALTER TABLE stock_count_lines ALTER COLUMN unit_cost TYPE DECIMAL(12, 6);
+
+-- A transaction number may only ever belong to one transaction
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'sales_transaction_number_one_transaction') THEN
+    ALTER TABLE sales ADD CONSTRAINT sales_transaction_number_one_transaction
+      EXCLUDE USING gist (transaction_number WITH =, transaction_id WITH <>);
+  END IF;
+EXCEPTION WHEN others THEN
+  RAISE NOTICE 'Could not add sales_transaction_number_one_transaction (%). Resolve duplicate transaction numbers and re-run.', SQLERRM;
+END $$;
+
 -- ============================================
 -- FUNCTIONS & TRIGGERS
 -- ============================================
@@ -140,106 +740,3159 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql;
 
--- Function to restore inventory (used when cancelling sales)
-CREATE OR REPLACE FUNCTION restore_inventory(p_product_id UUID, p_qty DECIMAL)
+-- Label the stock changes made by the rest of the current transaction (see
+-- stock_movements)
+CREATE OR REPLACE FUNCTION set_stock_movement(p_type TEXT, p_reference_id UUID DEFAULT NULL, p_note TEXT DEFAULT NULL)
 RETURNS VOID AS $$
 BEGIN
-  UPDATE products
-  SET qty = qty + p_qty
-  WHERE id = p_product_id;
+  PERFORM set_config('app.stock_movement_type', p_type, TRUE);
+  PERFORM set_config('app.stock_movement_reference', COALESCE(p_reference_id::TEXT, ''), TRUE);
+  PERFORM set_config('app.stock_movement_note', COALESCE(p_note, ''), TRUE);
+  PERFORM set_config('app.stock_layer_cost', '', TRUE);
+  PERFORM set_config('app.stock_lot_code', '', TRUE);
+  PERFORM set_config('app.stock_lot_expiry', '', TRUE);
 END;
 $$ LANGUAGE plpgsql;
 
--- Add triggers for updated_at
-DROP TRIGGER IF EXISTS update_products_updated_at ON products;
-CREATE TRIGGER update_products_updated_at
-  BEFORE UPDATE ON products
-  FOR EACH ROW
-  EXECUTE FUNCTION update_updated_at_column();
+-- Lot code and expiry date of the stock added by the next change; without an
+-- expiry date it expires after the item's shelf_life_days
+CREATE OR REPLACE FUNCTION set_stock_lot(p_lot_code TEXT, p_expiry_date DATE)
+RETURNS VOID AS $$
+BEGIN
+  PERFORM set_config('app.stock_lot_code', COALESCE(trim(p_lot_code), ''), TRUE);
+  PERFORM set_config('app.stock_lot_expiry', COALESCE(p_expiry_date::TEXT, ''), TRUE);
+END;
+$$ LANGUAGE plpgsql;
 
-DROP TRIGGER IF EXISTS update_finished_products_updated_at ON finished_products;
-CREATE TRIGGER update_finished_products_updated_at
-  BEFORE UPDATE ON finished_products
-  FOR EACH ROW
-  EXECUTE FUNCTION update_updated_at_column();
+-- Today in the store's timezone
+CREATE OR REPLACE FUNCTION store_today()
+RETURNS DATE AS $$
+BEGIN
+  RETURN (NOW() AT TIME ZONE get_setting('timezone', 'Asia/Manila'))::DATE;
+END;
+$$ LANGUAGE plpgsql STABLE;
 
-DROP TRIGGER IF EXISTS update_settings_updated_at ON settings;
-CREATE TRIGGER update_settings_updated_at
-  BEFORE UPDATE ON settings
-  FOR EACH ROW
-  EXECUTE FUNCTION update_updated_at_column();
+-- Cost per recipe unit of the stock added by the next change (a delivery at its
+-- invoice price, a void at what the sale took out); the item's cost otherwise
+CREATE OR REPLACE FUNCTION set_stock_layer_cost(p_unit_cost DECIMAL)
+RETURNS VOID AS $$
+BEGIN
+  PERFORM set_config('app.stock_layer_cost', COALESCE(p_unit_cost::TEXT, ''), TRUE);
+END;
+$$ LANGUAGE plpgsql;
 
-DROP TRIGGER IF EXISTS update_opex_updated_at ON opex;
-CREATE TRIGGER update_opex_updated_at
-  BEFORE UPDATE ON opex
-  FOR EACH ROW
-  EXECUTE FUNCTION update_updated_at_column();
+-- Cost per recipe unit of p_qty_before storage units at p_cost after p_add_qty
+-- storage units worth p_add_value are added; stock below zero adds no value
+CREATE OR REPLACE FUNCTION weighted_average_cost(
+  p_qty_before DECIMAL,
+  p_cost DECIMAL,
+  p_factor DECIMAL,
+  p_add_qty DECIMAL,
+  p_add_value DECIMAL
+)
+RETURNS DECIMAL AS $$
+  SELECT CASE
+    WHEN GREATEST(p_qty_before, 0) + p_add_qty <= 0 THEN p_cost
+    ELSE (GREATEST(p_qty_before, 0) * p_factor * p_cost + p_add_value)
+      / ((GREATEST(p_qty_before, 0) + p_add_qty) * p_factor)
+  END;
+$$ LANGUAGE sql IMMUTABLE;
 
-DROP TRIGGER IF EXISTS update_opex_settings_updated_at ON opex_settings;
-CREATE TRIGGER update_opex_settings_updated_at
-  BEFORE UPDATE ON opex_settings
-  FOR EACH ROW
-  EXECUTE FUNCTION update_updated_at_column();
+-- Take p_qty storage units of an item out of its cost layers, oldest first, and
+-- return what they cost. Anything beyond the layers (stock going below zero) is
+-- valued at p_fallback_cost.
+CREATE OR REPLACE FUNCTION consume_cost_layers(p_item_id UUID, p_qty DECIMAL, p_factor DECIMAL, p_fallback_cost DECIMAL)
+RETURNS DECIMAL AS $$
+DECLARE
+  v_layer RECORD;
+  v_left DECIMAL := p_qty;
+  v_take DECIMAL;
+  v_value DECIMAL := 0;
+BEGIN
+  FOR v_layer IN
+    SELECT id, qty_remaining, unit_cost
+    FROM cost_layers
+    WHERE item_id = p_item_id AND qty_remaining > 0
+    ORDER BY created_at, id
+    FOR UPDATE
+  LOOP
+    EXIT WHEN v_left <= 0;
+    v_take := LEAST(v_left, v_layer.qty_remaining);
+    UPDATE cost_layers SET qty_remaining = qty_remaining - v_take WHERE id = v_layer.id;
+    v_value := v_value + v_take * p_factor * v_layer.unit_cost;
+    v_left := v_left - v_take;
+  END LOOP;
 
-DROP TRIGGER IF EXISTS set_earnings_datetime_trigger ON sales;
-CREATE TRIGGER set_earnings_datetime_trigger
-  BEFORE INSERT ON sales
-  FOR EACH ROW
-  EXECUTE FUNCTION set_earnings_datetime();
+  RETURN v_value + GREATEST(v_left, 0) * p_factor * p_fallback_cost;
+END;
+$$ LANGUAGE plpgsql;
 
--- ============================================
--- ROW LEVEL SECURITY (RLS)
--- ============================================
+-- Take p_qty storage units of an item out of its lots, the ones expiring first
+-- first (lots without an expiry date last), recording what came out of each
+-- lot against movement p_movement_id
+DROP FUNCTION IF EXISTS consume_stock_lots(UUID, DECIMAL);
+CREATE OR REPLACE FUNCTION consume_stock_lots(p_item_id UUID, p_qty DECIMAL, p_movement_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_lot RECORD;
+  v_left DECIMAL := p_qty;
+  v_take DECIMAL;
+BEGIN
+  FOR v_lot IN
+    SELECT id, qty_remaining
+    FROM stock_lots
+    WHERE item_id = p_item_id AND qty_remaining > 0
+    ORDER BY expiry_date NULLS LAST, received_at, id
+    FOR UPDATE
+  LOOP
+    EXIT WHEN v_left <= 0;
+    v_take := LEAST(v_left, v_lot.qty_remaining);
+    UPDATE stock_lots SET qty_remaining = qty_remaining - v_take WHERE id = v_lot.id;
+    INSERT INTO stock_lot_consumptions (lot_id, movement_id, qty) VALUES (v_lot.id, p_movement_id, v_take);
+    v_left := v_left - v_take;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
 
--- Enable RLS on all tables
-ALTER TABLE products ENABLE ROW LEVEL SECURITY;
-ALTER TABLE finished_products ENABLE ROW LEVEL SECURITY;
-ALTER TABLE product_ingredients ENABLE ROW LEVEL SECURITY;
-ALTER TABLE sales ENABLE ROW LEVEL SECURITY;
-ALTER TABLE payment_methods ENABLE ROW LEVEL SECURITY;
-ALTER TABLE customer_types ENABLE ROW LEVEL SECURITY;
-ALTER TABLE settings ENABLE ROW LEVEL SECURITY;
-ALTER TABLE opex ENABLE ROW LEVEL SECURITY;
-ALTER TABLE opex_settings ENABLE ROW LEVEL SECURITY;
+-- Put up to p_qty storage units of an item back into the lots the sale
+-- movements of p_reference_id took them from, keeping their lot codes and
+-- expiry dates; returns how much could not be put back
+CREATE OR REPLACE FUNCTION restore_stock_lots(p_item_id UUID, p_qty DECIMAL, p_reference_id UUID)
+RETURNS DECIMAL AS $$
+DECLARE
+  v_consumption RECORD;
+  v_left DECIMAL := p_qty;
+  v_put DECIMAL;
+BEGIN
+  IF p_reference_id IS NULL THEN
+    RETURN v_left;
+  END IF;
 
--- Create policies for public access
--- Note: In production, implement proper authentication
+  FOR v_consumption IN
+    SELECT c.id, c.lot_id, c.qty
+    FROM stock_lot_consumptions c
+    JOIN stock_movements m ON m.id = c.movement_id
+    WHERE m.item_id = p_item_id AND m.reference_id = p_reference_id AND m.movement_type = 'sale'
+    ORDER BY c.id
+    FOR UPDATE OF c
+  LOOP
+    EXIT WHEN v_left <= 0;
+    v_put := LEAST(v_left, v_consumption.qty);
+    UPDATE stock_lots SET qty_remaining = qty_remaining + v_put WHERE id = v_consumption.lot_id;
+    IF v_put = v_consumption.qty THEN
+      DELETE FROM stock_lot_consumptions WHERE id = v_consumption.id;
+    ELSE
+      UPDATE stock_lot_consumptions SET qty = qty - v_put WHERE id = v_consumption.id;
+    END IF;
+    v_left := v_left - v_put;
+  END LOOP;
 
-DROP POLICY IF EXISTS "Allow all operations on products" ON products;
-CREATE POLICY "Allow all operations on products" ON products
-  FOR ALL USING (true) WITH CHECK (true);
+  RETURN v_left;
+END;
+$$ LANGUAGE plpgsql;
 
-DROP POLICY IF EXISTS "Allow all operations on finished_products" ON finished_products;
-CREATE POLICY "Allow all operations on finished_products" ON finished_products
-  FOR ALL USING (true) WITH CHECK (true);
+-- Record a change to an item's stock in stock_movements and keep its cost
+-- layers and lots in step. value_change is what the change added to or took from the
+-- stock value: decreases are valued from the oldest layers under FIFO and at
+-- the item's cost under weighted average; increases at set_stock_layer_cost.
+-- A void puts the stock back into the lots the sale took it from.
+-- Under FIFO the item's cost follows the layers still on hand. A cost edited by
+-- hand (an 'adjustment') revalues every layer on hand.
+CREATE OR REPLACE FUNCTION log_stock_movement()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_before DECIMAL := CASE WHEN TG_OP = 'INSERT' THEN 0 ELSE OLD.qty END;
+  v_type TEXT := COALESCE(NULLIF(current_setting('app.stock_movement_type', TRUE), ''), 'adjustment');
+  v_factor DECIMAL := unit_storage_factor(NEW.unit_type);
+  v_fifo BOOLEAN := get_setting('costing_method', 'weighted_average') = 'fifo';
+  v_layer_cost DECIMAL;
+  v_value DECIMAL;
+  v_movement_id UUID;
+  v_lot_qty DECIMAL;
+BEGIN
+  IF TG_OP = 'UPDATE' AND v_type = 'adjustment' AND NEW.cost <> OLD.cost THEN
+    UPDATE cost_layers SET unit_cost = NEW.cost WHERE item_id = NEW.id AND qty_remaining > 0;
+  END IF;
 
-DROP POLICY IF EXISTS "Allow all operations on product_ingredients" ON product_ingredients;
-CREATE POLICY "Allow all operations on product_ingredients" ON product_ingredients
-  FOR ALL USING (true) WITH CHECK (true);
+  IF NEW.qty = v_before THEN
+    RETURN NEW;
+  END IF;
 
-DROP POLICY IF EXISTS "Allow all operations on sales" ON sales;
-CREATE POLICY "Allow all operations on sales" ON sales
-  FOR ALL USING (true) WITH CHECK (true);
+  IF NEW.qty < v_before THEN
+    v_value := consume_cost_layers(NEW.id, v_before - NEW.qty, v_factor, NEW.cost);
+    IF NOT v_fifo THEN
+      v_value := (v_before - NEW.qty) * v_factor * NEW.cost;
+    END IF;
+    v_value := -v_value;
+  ELSE
+    v_layer_cost := COALESCE(NULLIF(current_setting('app.stock_layer_cost', TRUE), '')::DECIMAL, NEW.cost);
+    v_value := (NEW.qty - v_before) * v_factor * v_layer_cost;
+  END IF;
 
-DROP POLICY IF EXISTS "Allow all operations on payment_methods" ON payment_methods;
-CREATE POLICY "Allow all operations on payment_methods" ON payment_methods
-  FOR ALL USING (true) WITH CHECK (true);
+  INSERT INTO stock_movements (
+    item_id, item_name, unit_type, movement_type, qty_before, qty_after, qty_change, value_change,
+    reference_id, note, user_id, username
+  )
+  VALUES (
+    NEW.id, NEW.name, NEW.unit_type, v_type,
+    v_before, NEW.qty, NEW.qty - v_before, v_value,
+    NULLIF(current_setting('app.stock_movement_reference', TRUE), '')::UUID,
+    NULLIF(current_setting('app.stock_movement_note', TRUE), ''),
+    auth.uid(), (SELECT username FROM profiles WHERE id = auth.uid())
+  )
+  RETURNING id INTO v_movement_id;
 
-DROP POLICY IF EXISTS "Allow all operations on customer_types" ON customer_types;
-CREATE POLICY "Allow all operations on customer_types" ON customer_types
-  FOR ALL USING (true) WITH CHECK (true);
+  IF NEW.qty < v_before THEN
+    PERFORM consume_stock_lots(NEW.id, v_before - NEW.qty, v_movement_id);
+  END IF;
 
-DROP POLICY IF EXISTS "Allow all operations on settings" ON settings;
-CREATE POLICY "Allow all operations on settings" ON settings
-  FOR ALL USING (true) WITH CHECK (true);
+  -- Stock below zero was already sold; only what is left over becomes a layer
+  IF NEW.qty > GREATEST(v_before, 0) THEN
+    INSERT INTO cost_layers (item_id, movement_id, qty_received, qty_remaining, unit_cost)
+    VALUES (NEW.id, v_movement_id, NEW.qty - GREATEST(v_before, 0), NEW.qty - GREATEST(v_before, 0), v_layer_cost);
 
-DROP POLICY IF EXISTS "Allow all operations on opex" ON opex;
-CREATE POLICY "Allow all operations on opex" ON opex
-  FOR ALL USING (true) WITH CHECK (true);
+    v_lot_qty := NEW.qty - GREATEST(v_before, 0);
+    IF v_type = 'void' THEN
+      v_lot_qty := restore_stock_lots(
+        NEW.id, v_lot_qty, NULLIF(current_setting('app.stock_movement_reference', TRUE), '')::UUID
+      );
+    END IF;
 
+    IF v_lot_qty > 0 THEN
+      INSERT INTO stock_lots (item_id, movement_id, lot_code, expiry_date, qty_received, qty_remaining)
+      VALUES (
+        NEW.id, v_movement_id,
+        NULLIF(current_setting('app.stock_lot_code', TRUE), ''),
+        COALESCE(NULLIF(current_setting('app.stock_lot_expiry', TRUE), '')::DATE, store_today() + NEW.shelf_life_days),
+        v_lot_qty, v_lot_qty
+      );
+    END IF;
+  END IF;
+
+  -- Not an update of qty, so this does not fire the trigger again
+  IF v_fifo THEN
+    UPDATE products
+    SET cost = COALESCE((
+      SELECT SUM(qty_remaining * unit_cost) / NULLIF(SUM(qty_remaining), 0)
+      FROM cost_layers
+      WHERE item_id = NEW.id AND qty_remaining > 0
+    ), NEW.cost)
+    WHERE id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+-- Function to restore inventory (legacy; voids now go through void_transaction)
+CREATE OR REPLACE FUNCTION restore_inventory(p_product_id UUID, p_qty DECIMAL)
+RETURNS VOID AS $$
+BEGIN
+  PERFORM set_stock_movement('void');
+
+  UPDATE products
+  SET qty = qty + p_qty
+  WHERE id = p_product_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Read a value from the settings table
+CREATE OR REPLACE FUNCTION get_setting(p_key TEXT, p_default TEXT DEFAULT NULL)
+RETURNS TEXT AS $$
+  SELECT COALESCE((SELECT value FROM settings WHERE key = p_key), p_default)
+$$ LANGUAGE sql STABLE;
+
+-- Issue the next transaction number for a transaction.
+-- The format comes from the 'transaction_number_format' setting and may use
+-- {PREFIX}, {YYYY}, {YY}, {MM} and {SEQ} (5 digits). Each prefix gets its own
+-- counter only when {PREFIX} is part of the format, and counters reset per month
+-- (or per year) when {MM} (or only the year) appears in it.
+-- The counter row stays locked until the calling transaction ends, so concurrent
+-- checkouts queue up and a rolled back checkout gives its number back.
+CREATE OR REPLACE FUNCTION next_transaction_number(p_transaction_id UUID, p_prefix TEXT DEFAULT '')
+RETURNS TEXT AS $$
+DECLARE
+  v_format TEXT := get_setting('transaction_number_format', '{YY}-{MM}-{SEQ}');
+  v_now TIMESTAMP := NOW() AT TIME ZONE get_setting('timezone', 'Asia/Manila');
+  v_prefix TEXT := COALESCE(trim(p_prefix), '');
+  v_scope TEXT;
+  v_period TEXT;
+  v_seq INTEGER;
+  v_number TEXT;
+BEGIN
+  IF position('{SEQ}' IN v_format) = 0 THEN
+    RAISE EXCEPTION 'Transaction number format "%" must contain {SEQ}', v_format;
+  END IF;
+
+  IF v_prefix !~ '^[A-Za-z0-9_-]{0,12}$' THEN
+    RAISE EXCEPTION 'Invalid terminal prefix "%"', v_prefix;
+  END IF;
+
+  v_scope := CASE WHEN position('{PREFIX}' IN v_format) > 0 THEN v_prefix ELSE '' END;
+  v_period := CASE
+    WHEN position('{MM}' IN v_format) > 0 THEN to_char(v_now, 'YYYY-MM')
+    WHEN position('{YY' IN v_format) > 0 THEN to_char(v_now, 'YYYY')
+    ELSE 'all'
+  END;
+
+  INSERT INTO transaction_counters (scope, period, last_value)
+  VALUES (v_scope, v_period, 1)
+  ON CONFLICT (scope, period)
+  DO UPDATE SET last_value = transaction_counters.last_value + 1, updated_at = NOW()
+  RETURNING last_value INTO v_seq;
+
+  v_number := v_format;
+  IF v_prefix = '' THEN
+    v_number := replace(v_number, '{PREFIX}-', '');
+  END IF;
+  v_number := replace(v_number, '{PREFIX}', v_prefix);
+  v_number := replace(v_number, '{YYYY}', to_char(v_now, 'YYYY'));
+  v_number := replace(v_number, '{YY}', to_char(v_now, 'YY'));
+  v_number := replace(v_number, '{MM}', to_char(v_now, 'MM'));
+  v_number := replace(v_number, '{SEQ}', lpad(v_seq::TEXT, 5, '0'));
+
+  INSERT INTO transaction_numbers (transaction_number, transaction_id, scope, period, seq)
+  VALUES (v_number, p_transaction_id, v_scope, v_period, v_seq);
+
+  RETURN v_number;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Sequence audit: every number in each counter's range that was never issued
+-- ('missing') or whose sale rows are gone without passing through archive_sales
+-- ('no_sales').
+-- p_period is 'YYYY-MM', 'YYYY' or 'all'; NULL reports every period.
+CREATE OR REPLACE FUNCTION transaction_number_gaps(p_period TEXT DEFAULT NULL)
+RETURNS TABLE (scope TEXT, period TEXT, seq INTEGER, transaction_number TEXT, status TEXT) AS $$
+  SELECT c.scope, c.period, g.seq, tn.transaction_number,
+    CASE WHEN tn.transaction_number IS NULL THEN 'missing' ELSE 'no_sales' END
+  FROM transaction_counters c
+  CROSS JOIN LATERAL generate_series(1, c.last_value) AS g(seq)
+  LEFT JOIN transaction_numbers tn
+    ON tn.scope = c.scope AND tn.period = c.period AND tn.seq = g.seq
+  WHERE (p_period IS NULL OR c.period = p_period)
+    AND (
+      tn.transaction_number IS NULL
+      OR (
+        NOT EXISTS (SELECT 1 FROM sales s WHERE s.transaction_id = tn.transaction_id)
+        AND NOT EXISTS (SELECT 1 FROM sales_archive a WHERE a.transaction_id = tn.transaction_id)
+      )
+    )
+  ORDER BY c.period, c.scope, g.seq
+$$ LANGUAGE sql STABLE;
+
+-- Recipe quantities are stored in g/ml/pcs while stock is stored in kg/L/pcs
+CREATE OR REPLACE FUNCTION unit_storage_factor(p_unit_type TEXT)
+RETURNS DECIMAL AS $$
+  SELECT CASE WHEN p_unit_type IN ('weight', 'volume') THEN 1000 ELSE 1 END::DECIMAL
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Modifier option ids from a cart item's modifier_ids (["<uuid>", ...]) or a
+-- sale line's modifiers ([{ "id": "<uuid>", ... }, ...])
+CREATE OR REPLACE FUNCTION modifier_ids(p_modifiers JSONB)
+RETURNS UUID[] AS $$
+  SELECT COALESCE(array_agg(DISTINCT COALESCE(m->>'id', m #>> '{}')::UUID), '{}')
+  FROM jsonb_array_elements(CASE WHEN jsonb_typeof(p_modifiers) = 'array' THEN p_modifiers ELSE '[]'::JSONB END) AS m
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Bundles are one level deep: a bundle's components and substitutes may not be
+-- bundles, and a product used in a bundle may not become one
+CREATE OR REPLACE FUNCTION check_bundle_component()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM bundle_components WHERE bundle_id = NEW.product_id) THEN
+    RAISE EXCEPTION 'A bundle cannot contain another bundle';
+  END IF;
+
+  IF TG_TABLE_NAME = 'bundle_components' THEN
+    IF EXISTS (SELECT 1 FROM bundle_components WHERE product_id = NEW.bundle_id)
+      OR EXISTS (SELECT 1 FROM bundle_substitutes WHERE product_id = NEW.bundle_id) THEN
+      RAISE EXCEPTION 'A bundle cannot contain another bundle';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- A prep item may not be made from itself, directly or through other prep items
+CREATE OR REPLACE FUNCTION check_prep_ingredient()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    WITH RECURSIVE used(item_id) AS (
+      SELECT NEW.item_id
+      UNION
+      SELECT pi.item_id FROM prep_ingredients pi JOIN used u ON pi.prep_item_id = u.item_id
+    )
+    SELECT 1 FROM used WHERE item_id = NEW.prep_item_id
+  ) THEN
+    RAISE EXCEPTION 'A prep item cannot be made from itself';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Ingredients (in recipe units) for one unit of a product made as p_variant_id
+-- with p_modifier_ids: the base recipe plus each option's changes, plus the base
+-- recipes of the bundle components in p_bundle_items ([{ product_id, qty }]).
+-- An ingredient never goes below zero.
+DROP FUNCTION IF EXISTS line_ingredients(UUID, UUID, UUID[]);
+
+CREATE OR REPLACE FUNCTION line_ingredients(
+  p_product_id UUID,
+  p_variant_id UUID DEFAULT NULL,
+  p_modifier_ids UUID[] DEFAULT '{}',
+  p_bundle_items JSONB DEFAULT '[]'
+)
+RETURNS TABLE (item_id UUID, qty DECIMAL) AS $$
+  SELECT x.item_id, SUM(x.qty)
+  FROM (
+    SELECT pi.item_id, pi.qty FROM product_ingredients pi WHERE pi.product_id = p_product_id
+    UNION ALL
+    SELECT oi.item_id, oi.qty FROM option_ingredients oi WHERE oi.variant_id = p_variant_id
+    UNION ALL
+    SELECT oi.item_id, oi.qty FROM option_ingredients oi WHERE oi.modifier_option_id = ANY(p_modifier_ids)
+    UNION ALL
+    SELECT pi.item_id, pi.qty * b.qty
+    FROM jsonb_to_recordset(
+      CASE WHEN jsonb_typeof(p_bundle_items) = 'array' THEN p_bundle_items ELSE '[]'::JSONB END
+    ) AS b(product_id UUID, qty DECIMAL)
+    JOIN product_ingredients pi ON pi.product_id = b.product_id
+  ) x
+  GROUP BY x.item_id
+  HAVING SUM(x.qty) > 0
+$$ LANGUAGE sql STABLE;
+
+-- Checks a cart item's variant and modifiers against its product: a product
+-- with variants needs one of its own, every modifier must belong to one of the
+-- product's groups and each group's min_select/max_select must be met. A
+-- bundle's bundle_choices ([{ component_id, product_id }]) may only swap a
+-- component for one of its substitutes.
+-- Returns { variant_id, variant_name, modifiers, bundle_items, price_delta }
+-- where modifiers is [{ id, group, name, price_delta }], bundle_items is every
+-- component as made ([{ component_id, product_id, name, qty, price_delta }])
+-- and price_delta is what the options and substitutions add to the selling price.
+CREATE OR REPLACE FUNCTION cart_line_options(p_item JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_product_id UUID := (p_item->>'product_id')::UUID;
+  v_variant_id UUID := NULLIF(p_item->>'variant_id', '')::UUID;
+  v_modifier_ids UUID[] := modifier_ids(p_item->'modifier_ids');
+  v_product_name TEXT;
+  v_variant product_variants%ROWTYPE;
+  v_group RECORD;
+  v_modifiers JSONB;
+  v_modifier_delta DECIMAL;
+  v_choices JSONB := CASE WHEN jsonb_typeof(p_item->'bundle_choices') = 'array' THEN p_item->'bundle_choices' ELSE '[]'::JSONB END;
+  v_bundle_items JSONB;
+  v_bundle_delta DECIMAL;
+BEGIN
+  SELECT name INTO v_product_name FROM finished_products WHERE id = v_product_id;
+
+  IF v_variant_id IS NOT NULL THEN
+    SELECT * INTO v_variant FROM product_variants WHERE id = v_variant_id AND product_id = v_product_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Unknown size for %', v_product_name;
+    END IF;
+  ELSIF EXISTS (SELECT 1 FROM product_variants WHERE product_id = v_product_id) THEN
+    RAISE EXCEPTION 'Choose a size for %', v_product_name;
+  END IF;
+
+  IF (
+    SELECT COUNT(*)
+    FROM modifier_options mo
+    JOIN modifier_groups mg ON mg.id = mo.group_id
+    WHERE mo.id = ANY(v_modifier_ids) AND mg.product_id = v_product_id
+  ) <> COALESCE(array_length(v_modifier_ids, 1), 0) THEN
+    RAISE EXCEPTION 'Unknown option for %', v_product_name;
+  END IF;
+
+  FOR v_group IN
+    SELECT mg.name, mg.min_select, mg.max_select, COUNT(mo.id) AS chosen
+    FROM modifier_groups mg
+    LEFT JOIN modifier_options mo ON mo.group_id = mg.id AND mo.id = ANY(v_modifier_ids)
+    WHERE mg.product_id = v_product_id
+    GROUP BY mg.id
+  LOOP
+    IF v_group.chosen < v_group.min_select THEN
+      RAISE EXCEPTION 'Choose at least % from % for %', v_group.min_select, v_group.name, v_product_name;
+    END IF;
+    IF v_group.chosen > v_group.max_select THEN
+      RAISE EXCEPTION 'Choose at most % from % for %', v_group.max_select, v_group.name, v_product_name;
+    END IF;
+  END LOOP;
+
+  SELECT
+    COALESCE(jsonb_agg(jsonb_build_object(
+      'id', mo.id, 'group', mg.name, 'name', mo.name, 'price_delta', mo.price_delta
+    ) ORDER BY mg.sort_order, mg.name, mo.sort_order, mo.name), '[]'::JSONB),
+    COALESCE(SUM(mo.price_delta), 0)
+  INTO v_modifiers, v_modifier_delta
+  FROM modifier_options mo
+  JOIN modifier_groups mg ON mg.id = mo.group_id
+  WHERE mo.id = ANY(v_modifier_ids);
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(v_choices) AS ch(component_id UUID, product_id UUID)
+    LEFT JOIN bundle_components bc ON bc.id = ch.component_id AND bc.bundle_id = v_product_id
+    LEFT JOIN bundle_substitutes bs ON bs.component_id = bc.id AND bs.product_id = ch.product_id
+    WHERE bc.id IS NULL OR (ch.product_id IS DISTINCT FROM bc.product_id AND bs.id IS NULL)
+  ) THEN
+    RAISE EXCEPTION 'Unknown substitute for %', v_product_name;
+  END IF;
+
+  SELECT
+    COALESCE(jsonb_agg(jsonb_build_object(
+      'component_id', bc.id, 'product_id', fp.id, 'name', fp.name, 'qty', bc.qty,
+      'price_delta', COALESCE(bs.price_delta, 0)
+    ) ORDER BY bc.sort_order, bc.created_at), '[]'::JSONB),
+    COALESCE(SUM(bs.price_delta), 0)
+  INTO v_bundle_items, v_bundle_delta
+  FROM bundle_components bc
+  LEFT JOIN LATERAL (
+    SELECT (ch->>'product_id')::UUID AS product_id
+    FROM jsonb_array_elements(v_choices) AS ch
+    WHERE (ch->>'component_id')::UUID = bc.id
+    LIMIT 1
+  ) chosen ON TRUE
+  LEFT JOIN bundle_substitutes bs ON bs.component_id = bc.id AND bs.product_id = chosen.product_id
+  JOIN finished_products fp ON fp.id = COALESCE(bs.product_id, bc.product_id)
+  WHERE bc.bundle_id = v_product_id;
+
+  RETURN jsonb_build_object(
+    'variant_id', v_variant.id,
+    'variant_name', v_variant.name,
+    'modifiers', v_modifiers,
+    'bundle_items', v_bundle_items,
+    'price_delta', COALESCE(v_variant.price_delta, 0) + v_modifier_delta + v_bundle_delta
+  );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Ingredient requirements (in recipe units) for a cart
+-- p_items: [{ "product_id": "<uuid>", "qty": <number>, "variant_id", "modifier_ids", "bundle_choices" }, ...]
+CREATE OR REPLACE FUNCTION checkout_requirements(p_items JSONB)
+RETURNS TABLE (item_id UUID, required DECIMAL) AS $$
+  SELECT li.item_id, SUM(li.qty * (c->>'qty')::DECIMAL)
+  FROM jsonb_array_elements(p_items) AS c
+  CROSS JOIN LATERAL line_ingredients(
+    (c->>'product_id')::UUID, (c->>'variant_id')::UUID, modifier_ids(c->'modifier_ids'),
+    cart_line_options(c)->'bundle_items'
+  ) li
+  GROUP BY li.item_id
+$$ LANGUAGE sql STABLE;
+
+-- Promotions that are switched on and inside their start/end window
+CREATE OR REPLACE FUNCTION active_promotions()
+RETURNS SETOF promotions AS $$
+  SELECT *
+  FROM promotions
+  WHERE is_active
+    AND (starts_at IS NULL OR starts_at <= NOW())
+    AND (ends_at IS NULL OR ends_at > NOW())
+$$ LANGUAGE sql STABLE;
+
+-- Amount of a manual discount { "type": "percent" | "fixed", "value", "reason" }
+-- against p_base, never more than p_base
+CREATE OR REPLACE FUNCTION manual_discount_amount(p_discount JSONB, p_base DECIMAL)
+RETURNS DECIMAL AS $$
+DECLARE
+  v_type TEXT := p_discount->>'type';
+  v_value DECIMAL := (p_discount->>'value')::DECIMAL;
+BEGIN
+  IF v_type IS NULL OR v_type NOT IN ('percent', 'fixed') OR v_value IS NULL OR v_value < 0
+    OR (v_type = 'percent' AND v_value > 100) THEN
+    RAISE EXCEPTION 'Invalid discount %', p_discount::TEXT;
+  END IF;
+
+  IF COALESCE(trim(p_discount->>'reason'), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required for manual discounts';
+  END IF;
+
+  IF v_type = 'percent' THEN
+    RETURN round(p_base * v_value / 100, 2);
+  END IF;
+  RETURN LEAST(round(v_value, 2), p_base);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Prices a cart. A line's unit price is the product's selling_price plus the
+-- price deltas of its variant, modifiers and bundle substitutions
+-- (cart_line_options). Each line gets
+-- a manual discount (p_items[].discount) or else
+-- the best live promotion for its product; then one order discount (p_discount,
+-- or else the best order-wide promotion) is spread across the lines in
+-- proportion to their net amounts, the last line taking the rounding remainder.
+-- Promotions with a code only count when the code is in p_promo_codes; unknown
+-- or expired codes are rejected. Manual discounts need apply_discounts.
+-- p_apply_promotions = false skips automatic promotions (Senior/PWD sales).
+-- Returns [{ product_id, qty, selling_price, gross, discount_amount,
+-- discount_reason, promotion_id, variant_id, variant_name, modifiers,
+-- bundle_items }, ...]
+-- in cart order.
+DROP FUNCTION IF EXISTS price_cart(JSONB, JSONB, TEXT[]);
+
+CREATE OR REPLACE FUNCTION price_cart(
+  p_items JSONB,
+  p_discount JSONB DEFAULT NULL,
+  p_promo_codes TEXT[] DEFAULT '{}',
+  p_apply_promotions BOOLEAN DEFAULT TRUE
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_codes TEXT[];
+  v_code TEXT;
+  v_item JSONB;
+  v_price DECIMAL;
+  v_qty DECIMAL;
+  v_gross DECIMAL;
+  v_amount DECIMAL;
+  v_reason TEXT;
+  v_promotion_id UUID;
+  v_manual BOOLEAN := FALSE;
+  v_lines JSONB := '[]'::JSONB;
+  v_priced JSONB := '[]'::JSONB;
+  v_line JSONB;
+  v_net DECIMAL;
+  v_subtotal DECIMAL;
+  v_order_amount DECIMAL := 0;
+  v_order_reason TEXT;
+  v_order_promotion_id UUID;
+  v_allocated DECIMAL := 0;
+  v_share DECIMAL;
+  v_last INTEGER;
+  v_index INTEGER := 0;
+  v_options JSONB;
+BEGIN
+  SELECT COALESCE(array_agg(DISTINCT upper(trim(c))), '{}')
+  INTO v_codes
+  FROM unnest(COALESCE(p_promo_codes, '{}'::TEXT[])) AS c
+  WHERE trim(c) <> '';
+
+  FOREACH v_code IN ARRAY v_codes LOOP
+    IF NOT EXISTS (SELECT 1 FROM active_promotions() ap WHERE upper(ap.code) = v_code) THEN
+      RAISE EXCEPTION 'Promo code % is not valid', v_code;
+    END IF;
+  END LOOP;
+
+  -- Line discounts
+  FOR v_item IN SELECT e FROM jsonb_array_elements(p_items) AS e LOOP
+    SELECT fp.selling_price INTO v_price
+    FROM finished_products fp
+    WHERE fp.id = (v_item->>'product_id')::UUID;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Cart contains an unknown product';
+    END IF;
+
+    v_options := cart_line_options(v_item);
+    v_price := v_price + (v_options->>'price_delta')::DECIMAL;
+    v_qty := (v_item->>'qty')::DECIMAL;
+    v_gross := round(v_qty * v_price, 2);
+    v_amount := 0;
+    v_reason := NULL;
+    v_promotion_id := NULL;
+
+    IF jsonb_typeof(v_item->'discount') = 'object' THEN
+      v_manual := TRUE;
+      v_amount := manual_discount_amount(v_item->'discount', v_gross);
+      v_reason := trim(v_item->'discount'->>'reason');
+    ELSE
+      SELECT best.amount, best.name, best.id
+      INTO v_amount, v_reason, v_promotion_id
+      FROM (
+        SELECT ap.id, ap.name, LEAST(v_gross, CASE ap.discount_type
+          WHEN 'percent' THEN round(v_gross * ap.value / 100, 2)
+          WHEN 'fixed' THEN round(ap.value * v_qty, 2)
+          ELSE floor(v_qty / (ap.buy_qty + ap.get_qty)) * ap.get_qty * v_price
+        END) AS amount
+        FROM active_promotions() ap
+        WHERE p_apply_promotions
+          AND ap.product_id = (v_item->>'product_id')::UUID
+          AND (ap.code IS NULL OR upper(ap.code) = ANY(v_codes))
+      ) best
+      WHERE best.amount > 0
+      ORDER BY best.amount DESC, best.name
+      LIMIT 1;
+
+      v_amount := COALESCE(v_amount, 0);
+    END IF;
+
+    v_lines := v_lines || jsonb_build_array(jsonb_build_object(
+      'product_id', v_item->>'product_id',
+      'qty', v_qty,
+      'selling_price', v_price,
+      'gross', v_gross,
+      'discount_amount', v_amount,
+      'discount_reason', v_reason,
+      'promotion_id', v_promotion_id
+    ) || (v_options - 'price_delta'));
+  END LOOP;
+
+  -- Order discount
+  SELECT COALESCE(SUM((l->>'gross')::DECIMAL - (l->>'discount_amount')::DECIMAL), 0),
+    MAX(o.n) FILTER (WHERE (l->>'gross')::DECIMAL > (l->>'discount_amount')::DECIMAL)
+  INTO v_subtotal, v_last
+  FROM jsonb_array_elements(v_lines) WITH ORDINALITY AS o(l, n);
+
+  IF jsonb_typeof(p_discount) = 'object' THEN
+    v_manual := TRUE;
+    v_order_amount := manual_discount_amount(p_discount, v_subtotal);
+    v_order_reason := trim(p_discount->>'reason');
+  ELSE
+    SELECT best.amount, best.name, best.id
+    INTO v_order_amount, v_order_reason, v_order_promotion_id
+    FROM (
+      SELECT ap.id, ap.name, LEAST(v_subtotal, CASE ap.discount_type
+        WHEN 'percent' THEN round(v_subtotal * ap.value / 100, 2)
+        ELSE round(ap.value, 2)
+      END) AS amount
+      FROM active_promotions() ap
+      WHERE p_apply_promotions
+        AND ap.product_id IS NULL
+        AND ap.discount_type IN ('percent', 'fixed')
+        AND (ap.code IS NULL OR upper(ap.code) = ANY(v_codes))
+    ) best
+    WHERE best.amount > 0
+    ORDER BY best.amount DESC, best.name
+    LIMIT 1;
+
+    v_order_amount := COALESCE(v_order_amount, 0);
+  END IF;
+
+  IF v_manual AND NOT has_permission('apply_discounts') THEN
+    RAISE EXCEPTION 'You do not have permission to apply manual discounts' USING ERRCODE = '42501';
+  END IF;
+
+  FOR v_line IN SELECT e FROM jsonb_array_elements(v_lines) AS e LOOP
+    v_index := v_index + 1;
+    v_net := (v_line->>'gross')::DECIMAL - (v_line->>'discount_amount')::DECIMAL;
+    v_share := 0;
+
+    IF v_order_amount > 0 AND v_net > 0 THEN
+      v_share := CASE
+        WHEN v_index = v_last THEN v_order_amount - v_allocated
+        ELSE round(v_order_amount * v_net / v_subtotal, 2)
+      END;
+      v_share := GREATEST(0, LEAST(v_share, v_net));
+      v_allocated := v_allocated + v_share;
+    END IF;
+
+    IF v_share > 0 THEN
+      v_line := v_line || jsonb_build_object(
+        'discount_amount', (v_line->>'discount_amount')::DECIMAL + v_share,
+        'discount_reason', concat_ws('; ', v_line->>'discount_reason', v_order_reason),
+        'promotion_id', COALESCE(v_line->>'promotion_id', v_order_promotion_id::TEXT)
+      );
+    END IF;
+
+    v_priced := v_priced || jsonb_build_array(v_line);
+  END LOOP;
+
+  RETURN v_priced;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Numeric setting with a fallback (e.g. vat_rate, statutory_discount_rate)
+CREATE OR REPLACE FUNCTION setting_decimal(p_key TEXT, p_default DECIMAL)
+RETURNS DECIMAL AS $$
+  SELECT COALESCE((SELECT NULLIF(trim(value), '')::DECIMAL FROM settings WHERE key = p_key), p_default)
+$$ LANGUAGE sql STABLE;
+
+-- Splits priced lines (from price_cart) into the VAT breakdown. Prices are
+-- VAT-inclusive: a VATable line's net is vatable_sales + vat_amount, exempt and
+-- zero-rated lines carry no VAT. For a Senior/PWD sale (p_statutory_label set)
+-- the VAT is removed first (vat_exemption), then the statutory discount is taken
+-- off the VAT-exclusive amount and the line is recorded as VAT-exempt.
+-- Adds vat_status, vatable_sales, vat_amount, vat_exempt_sales, zero_rated_sales,
+-- vat_exemption, statutory_discount and total to each line.
+CREATE OR REPLACE FUNCTION tax_cart(p_lines JSONB, p_statutory_label TEXT DEFAULT NULL)
+RETURNS JSONB AS $$
+DECLARE
+  v_vat_rate DECIMAL := setting_decimal('vat_rate', 12) / 100;
+  v_statutory_rate DECIMAL := setting_decimal('statutory_discount_rate', 20) / 100;
+  v_line JSONB;
+  v_status TEXT;
+  v_net DECIMAL;
+  v_base DECIMAL;
+  v_statutory DECIMAL;
+  v_total DECIMAL;
+  v_result JSONB := '[]'::JSONB;
+BEGIN
+  FOR v_line IN SELECT e FROM jsonb_array_elements(p_lines) AS e LOOP
+    SELECT fp.vat_status INTO v_status
+    FROM finished_products fp
+    WHERE fp.id = (v_line->>'product_id')::UUID;
+
+    v_net := (v_line->>'gross')::DECIMAL - (v_line->>'discount_amount')::DECIMAL;
+    v_base := CASE WHEN v_status = 'vatable' THEN round(v_net / (1 + v_vat_rate), 2) ELSE v_net END;
+
+    IF p_statutory_label IS NULL THEN
+      v_statutory := 0;
+      v_total := v_net;
+      v_line := v_line || jsonb_build_object(
+        'vatable_sales', CASE WHEN v_status = 'vatable' THEN v_base ELSE 0 END,
+        'vat_amount', CASE WHEN v_status = 'vatable' THEN v_net - v_base ELSE 0 END,
+        'vat_exempt_sales', CASE WHEN v_status = 'exempt' THEN v_net ELSE 0 END,
+        'zero_rated_sales', CASE WHEN v_status = 'zero_rated' THEN v_net ELSE 0 END,
+        'vat_exemption', 0
+      );
+    ELSE
+      v_statutory := round(v_base * v_statutory_rate, 2);
+      v_total := v_base - v_statutory;
+      v_line := v_line || jsonb_build_object(
+        'vatable_sales', 0,
+        'vat_amount', 0,
+        'vat_exempt_sales', CASE WHEN v_status = 'zero_rated' THEN 0 ELSE v_total END,
+        'zero_rated_sales', CASE WHEN v_status = 'zero_rated' THEN v_total ELSE 0 END,
+        'vat_exemption', v_net - v_base,
+        'discount_amount', (v_line->>'discount_amount')::DECIMAL + v_statutory,
+        'discount_reason', concat_ws('; ', v_line->>'discount_reason', p_statutory_label)
+      );
+    END IF;
+
+    v_result := v_result || jsonb_build_array(v_line || jsonb_build_object(
+      'vat_status', v_status,
+      'statutory_discount', v_statutory,
+      'total', v_total
+    ));
+  END LOOP;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Atomic checkout: locks every ingredient row the cart touches, validates stock,
+-- numbers the transaction, writes all sale lines and deducts inventory.
+-- Either everything is recorded or nothing is. A stock shortage raises
+-- 'Insufficient stock' with HINT 'insufficient_stock' and a JSON array of
+-- { item_id, name, unit_type, required, available } (recipe units) in DETAIL.
+-- Line and order discounts are priced by price_cart; each sale line stores its
+-- discount_amount and a total net of it. tax_cart adds the VAT breakdown.
+-- Customer types flagged statutory_discount (Senior/PWD) need the customer's ID
+-- number and name and cannot be combined with other discounts or promotions.
+-- p_payments: [{ "payment_method", "amount", "reference_number" }, ...] with the
+-- amount each tender handed over; without it the sale is one p_payment_method
+-- tender of p_customer_payment. Change comes only out of cash tenders, so the
+-- non-cash tenders may not add up to more than the total. Each sale line's
+-- payment_method lists the methods used ('Cash + GCash') and customer_payment
+-- the amount tendered; the tenders themselves go to sale_payments.
+-- p_items may carry a variant_id and modifier_ids per line, and bundle_choices
+-- for a bundle; the line's price, cost and ingredient deductions then follow the
+-- chosen options, a bundle's taking its components' ingredients.
+DROP FUNCTION IF EXISTS process_checkout(JSONB, TEXT, TEXT, TEXT, DECIMAL);
+DROP FUNCTION IF EXISTS process_checkout(JSONB, TEXT, TEXT, TEXT, DECIMAL, TEXT);
+DROP FUNCTION IF EXISTS process_checkout(JSONB, TEXT, TEXT, TEXT, DECIMAL, TEXT, JSONB, TEXT[]);
+DROP FUNCTION IF EXISTS process_checkout(JSONB, TEXT, TEXT, TEXT, DECIMAL, TEXT, JSONB, TEXT[], TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION process_checkout(
+  p_items JSONB,
+  p_payment_method TEXT,
+  p_customer_type TEXT,
+  p_dine_in_takeout TEXT,
+  p_customer_payment DECIMAL,
+  p_terminal_prefix TEXT DEFAULT '',
+  p_discount JSONB DEFAULT NULL,
+  p_promo_codes TEXT[] DEFAULT '{}',
+  p_statutory_id_number TEXT DEFAULT NULL,
+  p_statutory_id_name TEXT DEFAULT NULL,
+  p_payments JSONB DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_transaction_id UUID := uuid_generate_v4();
+  v_transaction_number TEXT;
+  v_statutory BOOLEAN;
+  v_lines JSONB;
+  v_total DECIMAL;
+  v_shortages JSONB;
+  v_sales JSONB;
+  v_payments JSONB;
+  v_paid DECIMAL;
+  v_cash DECIMAL;
+  v_change DECIMAL;
+  v_methods TEXT;
+BEGIN
+  IF current_user_role() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to record sales' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(p_items) AS c(product_id UUID, qty DECIMAL)
+    LEFT JOIN finished_products fp ON fp.id = c.product_id
+    WHERE fp.id IS NULL OR c.qty IS NULL OR c.qty <= 0
+  ) THEN
+    RAISE EXCEPTION 'Cart contains an unknown product or an invalid quantity';
+  END IF;
+
+  PERFORM cart_line_options(e) FROM jsonb_array_elements(p_items) AS e;
+
+  -- Lock ingredient rows in a stable order so concurrent tills queue up instead of deadlocking
+  PERFORM 1
+  FROM products
+  WHERE id IN (SELECT r.item_id FROM checkout_requirements(p_items) r)
+  ORDER BY id
+  FOR UPDATE;
+
+  SELECT jsonb_agg(jsonb_build_object(
+    'item_id', p.id,
+    'name', p.name,
+    'unit_type', p.unit_type,
+    'required', r.required,
+    'available', p.qty * unit_storage_factor(p.unit_type)
+  ) ORDER BY p.name)
+  INTO v_shortages
+  FROM checkout_requirements(p_items) r
+  JOIN products p ON p.id = r.item_id
+  WHERE p.qty * unit_storage_factor(p.unit_type) < r.required;
+
+  IF v_shortages IS NOT NULL THEN
+    RAISE EXCEPTION 'Insufficient stock'
+      USING DETAIL = v_shortages::TEXT, HINT = 'insufficient_stock';
+  END IF;
+
+  SELECT COALESCE(bool_or(statutory_discount), FALSE)
+  INTO v_statutory
+  FROM customer_types
+  WHERE name = p_customer_type;
+
+  IF v_statutory THEN
+    IF COALESCE(trim(p_statutory_id_number), '') = '' OR COALESCE(trim(p_statutory_id_name), '') = '' THEN
+      RAISE EXCEPTION 'Enter the customer''s Senior Citizen/PWD ID number and name';
+    END IF;
+
+    IF jsonb_typeof(p_discount) = 'object'
+      OR COALESCE(array_length(p_promo_codes, 1), 0) > 0
+      OR EXISTS (SELECT 1 FROM jsonb_array_elements(p_items) e WHERE jsonb_typeof(e->'discount') = 'object') THEN
+      RAISE EXCEPTION 'The % discount cannot be combined with other discounts or promo codes', p_customer_type;
+    END IF;
+
+    v_lines := tax_cart(
+      price_cart(p_items, NULL, '{}', FALSE),
+      p_customer_type || ' ' || trim_scale(setting_decimal('statutory_discount_rate', 20)) || '% discount'
+    );
+  ELSE
+    v_lines := tax_cart(price_cart(p_items, p_discount, p_promo_codes));
+  END IF;
+
+  SELECT SUM(l.total)
+  INTO v_total
+  FROM jsonb_to_recordset(v_lines) AS l(total DECIMAL);
+
+  v_payments := CASE
+    WHEN jsonb_typeof(p_payments) = 'array' AND jsonb_array_length(p_payments) > 0 THEN p_payments
+    ELSE jsonb_build_array(jsonb_build_object('payment_method', p_payment_method, 'amount', COALESCE(p_customer_payment, 0)))
+  END;
+
+  CREATE TEMP TABLE checkout_tenders ON COMMIT DROP AS
+  SELECT t.ord, pm.name AS payment_method, COALESCE(pm.is_cash, FALSE) AS is_cash,
+    ROUND(COALESCE((t.tender->>'amount')::DECIMAL, 0), 2) AS tendered,
+    NULLIF(trim(COALESCE(t.tender->>'reference_number', '')), '') AS reference_number
+  FROM jsonb_array_elements(v_payments) WITH ORDINALITY AS t(tender, ord)
+  LEFT JOIN payment_methods pm ON pm.name = t.tender->>'payment_method';
+
+  IF EXISTS (SELECT 1 FROM checkout_tenders WHERE payment_method IS NULL) THEN
+    RAISE EXCEPTION 'Unknown payment method';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM checkout_tenders WHERE tendered <= 0) THEN
+    RAISE EXCEPTION 'Each payment needs an amount';
+  END IF;
+
+  SELECT SUM(tendered), COALESCE(SUM(tendered) FILTER (WHERE is_cash), 0)
+  INTO v_paid, v_cash
+  FROM checkout_tenders;
+
+  IF v_paid < v_total THEN
+    RAISE EXCEPTION 'Payment of % is less than the total of %', v_paid, v_total;
+  END IF;
+
+  v_change := v_paid - v_total;
+  IF v_change > v_cash THEN
+    RAISE EXCEPTION 'Non-cash payments of % are more than the total of %; change can only be given from cash',
+      v_paid - v_cash, v_total;
+  END IF;
+
+  SELECT string_agg(m.payment_method, ' + ' ORDER BY m.first_ord)
+  INTO v_methods
+  FROM (SELECT payment_method, MIN(ord) AS first_ord FROM checkout_tenders GROUP BY payment_method) m;
+
+  v_transaction_number := next_transaction_number(v_transaction_id, p_terminal_prefix);
+
+  -- Sale lines; cost is the ingredient cost per unit (no OPEX per unit)
+  INSERT INTO sales (
+    transaction_id, transaction_number, product_id, product_name, qty, unit_type,
+    cost, selling_price, total, discount_amount, discount_reason, promotion_id,
+    variant_id, variant_name, modifiers, bundle_items, vat_status, vatable_sales, vat_amount, vat_exempt_sales, zero_rated_sales,
+    vat_exemption, statutory_discount, statutory_id_number, statutory_id_name,
+    payment_method, customer_type, dine_in_takeout, customer_payment, user_id
+  )
+  SELECT
+    v_transaction_id, v_transaction_number, fp.id, fp.name, l.qty, 'quantity',
+    COALESCE((
+      SELECT SUM(p.cost * li.qty)
+      FROM line_ingredients(fp.id, l.variant_id, modifier_ids(l.modifiers), l.bundle_items) li
+      JOIN products p ON p.id = li.item_id
+    ), 0),
+    l.selling_price, l.total, l.discount_amount, l.discount_reason, l.promotion_id,
+    l.variant_id, l.variant_name, COALESCE(l.modifiers, '[]'::JSONB), COALESCE(l.bundle_items, '[]'::JSONB), l.vat_status, l.vatable_sales, l.vat_amount, l.vat_exempt_sales, l.zero_rated_sales,
+    l.vat_exemption, l.statutory_discount,
+    CASE WHEN v_statutory THEN trim(p_statutory_id_number) END,
+    CASE WHEN v_statutory THEN trim(p_statutory_id_name) END,
+    v_methods, p_customer_type, p_dine_in_takeout, v_paid, auth.uid()
+  FROM jsonb_to_recordset(v_lines) AS l(
+    product_id UUID, qty DECIMAL, selling_price DECIMAL, total DECIMAL,
+    discount_amount DECIMAL, discount_reason TEXT, promotion_id UUID,
+    variant_id UUID, variant_name TEXT, modifiers JSONB, bundle_items JSONB, vat_status TEXT, vatable_sales DECIMAL, vat_amount DECIMAL, vat_exempt_sales DECIMAL,
+    zero_rated_sales DECIMAL, vat_exemption DECIMAL, statutory_discount DECIMAL
+  )
+  JOIN finished_products fp ON fp.id = l.product_id;
+
+  -- Record what each line takes from stock, in storage units, and what it costs
+  INSERT INTO sale_deductions (sale_id, item_id, qty, cost)
+  SELECT s.id, li.item_id, li.qty * s.qty / unit_storage_factor(p.unit_type), li.qty * s.qty * p.cost
+  FROM sales s
+  CROSS JOIN LATERAL line_ingredients(s.product_id, s.variant_id, modifier_ids(s.modifiers), s.bundle_items) li
+  JOIN products p ON p.id = li.item_id
+  WHERE s.transaction_id = v_transaction_id;
+
+  -- Deduct ingredients, converting recipe units to storage units
+  PERFORM set_stock_movement('sale', v_transaction_id);
+
+  UPDATE products p
+  SET qty = p.qty - r.required / unit_storage_factor(p.unit_type)
+  FROM checkout_requirements(p_items) r
+  WHERE p.id = r.item_id;
+
+  -- Under FIFO the ingredients cost what their layers cost, shared between the
+  -- lines that used them
+  IF get_setting('costing_method', 'weighted_average') = 'fifo' THEN
+    UPDATE sale_deductions d
+    SET cost = d.qty * m.value_change / m.qty_change
+    FROM sales s, stock_movements m
+    WHERE s.id = d.sale_id
+      AND s.transaction_id = v_transaction_id
+      AND m.reference_id = v_transaction_id
+      AND m.movement_type = 'sale'
+      AND m.item_id = d.item_id
+      AND m.qty_change <> 0;
+
+    UPDATE sales s
+    SET cost = d.cost / s.qty
+    FROM (
+      SELECT d.sale_id, SUM(d.cost) AS cost
+      FROM sale_deductions d
+      JOIN sales ts ON ts.id = d.sale_id
+      WHERE ts.transaction_id = v_transaction_id
+      GROUP BY d.sale_id
+    ) d
+    WHERE d.sale_id = s.id;
+  END IF;
+
+  -- Tenders; the change comes out of the last cash tenders first
+  INSERT INTO sale_payments (transaction_id, transaction_number, payment_method, amount, tendered, change_given, reference_number)
+  SELECT v_transaction_id, v_transaction_number, t.payment_method, t.tendered - t.change_given, t.tendered, t.change_given,
+    t.reference_number
+  FROM (
+    SELECT c.ord, c.payment_method, c.tendered, c.reference_number,
+      CASE WHEN c.is_cash THEN GREATEST(0, LEAST(c.tendered, v_change - COALESCE(SUM(c.tendered) FILTER (WHERE c.is_cash) OVER (
+        ORDER BY c.ord DESC ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+      ), 0))) ELSE 0 END AS change_given
+    FROM checkout_tenders c
+  ) t
+  ORDER BY t.ord;
+
+  DROP TABLE checkout_tenders;
+
+  SELECT jsonb_agg(to_jsonb(s) ORDER BY s.product_name)
+  INTO v_sales
+  FROM sales s
+  WHERE s.transaction_id = v_transaction_id;
+
+  SELECT jsonb_agg(to_jsonb(sp) ORDER BY sp.created_at, sp.id)
+  INTO v_payments
+  FROM sale_payments sp
+  WHERE sp.transaction_id = v_transaction_id;
+
+  RETURN jsonb_build_object(
+    'transaction_id', v_transaction_id,
+    'transaction_number', v_transaction_number,
+    'total', v_total,
+    'change', v_change,
+    'sales', v_sales,
+    'payments', v_payments
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+-- Produce p_batches batches of a prep item: takes one batch of its
+-- prep_ingredients per batch from stock and adds p_actual_qty (recipe units;
+-- batch_yield per batch when NULL) to the prep item. The run's cost per unit
+-- actually made is rolled up from what its components cost, so a poor yield
+-- shows up as a higher cost, and is averaged into the prep item's cost (or
+-- becomes a cost layer under FIFO). The run is logged in
+-- production_runs. A shortage raises 'Insufficient stock' with the same HINT and
+-- DETAIL as process_checkout. Needs manage_inventory.
+DROP FUNCTION IF EXISTS produce_prep(UUID, DECIMAL);
+
+CREATE OR REPLACE FUNCTION produce_prep(
+  p_item_id UUID,
+  p_batches DECIMAL,
+  p_actual_qty DECIMAL DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_item products%ROWTYPE;
+  v_shortages JSONB;
+  v_total_cost DECIMAL;
+  v_expected DECIMAL;
+  v_produced DECIMAL;
+  v_consumed JSONB;
+  v_run_id UUID;
+  v_run production_runs%ROWTYPE;
+BEGIN
+  IF NOT has_permission('manage_inventory') THEN
+    RAISE EXCEPTION 'You do not have permission to produce prep items' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_batches IS NULL OR p_batches <= 0 THEN
+    RAISE EXCEPTION 'Enter how many batches to produce';
+  END IF;
+
+  IF p_actual_qty IS NOT NULL AND p_actual_qty <= 0 THEN
+    RAISE EXCEPTION 'Enter how much was produced';
+  END IF;
+
+  -- Lock the prep item and its components in a stable order
+  PERFORM 1
+  FROM products
+  WHERE id = p_item_id OR id IN (SELECT item_id FROM prep_ingredients WHERE prep_item_id = p_item_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  SELECT * INTO v_item FROM products WHERE id = p_item_id;
+
+  IF NOT FOUND OR NOT v_item.is_prep THEN
+    RAISE EXCEPTION 'Not a prep item';
+  END IF;
+
+  IF v_item.batch_yield IS NULL OR NOT EXISTS (SELECT 1 FROM prep_ingredients WHERE prep_item_id = p_item_id) THEN
+    RAISE EXCEPTION '% has no recipe', v_item.name;
+  END IF;
+
+  SELECT jsonb_agg(jsonb_build_object(
+    'item_id', p.id,
+    'name', p.name,
+    'unit_type', p.unit_type,
+    'required', pi.qty * p_batches,
+    'available', p.qty * unit_storage_factor(p.unit_type)
+  ) ORDER BY p.name)
+  INTO v_shortages
+  FROM prep_ingredients pi
+  JOIN products p ON p.id = pi.item_id
+  WHERE pi.prep_item_id = p_item_id
+    AND p.qty * unit_storage_factor(p.unit_type) < pi.qty * p_batches;
+
+  IF v_shortages IS NOT NULL THEN
+    RAISE EXCEPTION 'Insufficient stock'
+      USING DETAIL = v_shortages::TEXT, HINT = 'insufficient_stock';
+  END IF;
+
+  v_expected := v_item.batch_yield * p_batches;
+  v_produced := COALESCE(p_actual_qty, v_expected);
+  v_run_id := uuid_generate_v4();
+
+  PERFORM set_stock_movement('production', v_run_id);
+
+  UPDATE products p
+  SET qty = p.qty - pi.qty * p_batches / unit_storage_factor(p.unit_type)
+  FROM prep_ingredients pi
+  WHERE pi.prep_item_id = p_item_id AND p.id = pi.item_id;
+
+  -- The components cost what the costing method valued them at leaving stock
+  SELECT SUM(COALESCE(-m.value_change, 0)),
+    jsonb_agg(jsonb_build_object(
+      'item_id', p.id,
+      'name', p.name,
+      'unit_type', p.unit_type,
+      'qty', pi.qty * p_batches,
+      'cost', COALESCE(-m.value_change, 0)
+    ) ORDER BY p.name)
+  INTO v_total_cost, v_consumed
+  FROM prep_ingredients pi
+  JOIN products p ON p.id = pi.item_id
+  LEFT JOIN stock_movements m ON m.reference_id = v_run_id AND m.item_id = pi.item_id
+  WHERE pi.prep_item_id = p_item_id;
+
+  PERFORM set_stock_layer_cost(v_total_cost / v_produced);
+
+  UPDATE products
+  SET qty = qty + v_produced / unit_storage_factor(unit_type),
+    cost = weighted_average_cost(
+      qty, cost, unit_storage_factor(unit_type), v_produced / unit_storage_factor(unit_type), v_total_cost
+    )
+  WHERE id = p_item_id;
+
+  INSERT INTO production_runs (
+    id, item_id, item_name, unit_type, batches, expected_qty, actual_qty, yield_pct,
+    total_cost, unit_cost, consumed, notes, produced_by, produced_by_name
+  )
+  VALUES (
+    v_run_id, v_item.id, v_item.name, v_item.unit_type, p_batches, v_expected, v_produced,
+    ROUND(v_produced / v_expected * 100, 2), v_total_cost, v_total_cost / v_produced, v_consumed,
+    NULLIF(trim(p_notes), ''), auth.uid(), (SELECT username FROM profiles WHERE id = auth.uid())
+  )
+  RETURNING * INTO v_run;
+
+  RETURN jsonb_build_object(
+    'run_id', v_run.id,
+    'item_id', v_item.id,
+    'name', v_item.name,
+    'batches', p_batches,
+    'expected', v_expected,
+    'produced', v_produced,
+    'yield_pct', v_run.yield_pct,
+    'cost', v_total_cost / v_produced,
+    'consumed', v_consumed
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+-- Replace the recipe of a prep item: one batch of p_lines ([{ item_id, qty,
+-- unit_id }], qty in recipe units) makes p_batch_yield recipe units. The prep
+-- item's cost becomes what a batch costs at its components' current costs over
+-- the yield, and the stock on hand (its cost layers) is revalued at it, like a
+-- cost edited by hand. All in one transaction. Needs edit_recipes. Returns the
+-- new cost.
+CREATE OR REPLACE FUNCTION save_prep_recipe(p_item_id UUID, p_batch_yield DECIMAL, p_lines JSONB)
+RETURNS DECIMAL AS $$
+DECLARE
+  v_item products%ROWTYPE;
+  v_cost DECIMAL;
+BEGIN
+  IF NOT has_permission('edit_recipes') THEN
+    RAISE EXCEPTION 'You do not have permission to edit recipes' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_batch_yield IS NULL OR p_batch_yield <= 0 THEN
+    RAISE EXCEPTION 'Enter how much one batch makes';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_lines, '[]')) = 0 THEN
+    RAISE EXCEPTION 'Add at least one ingredient';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_lines) l WHERE COALESCE((l->>'qty')::DECIMAL, 0) <= 0
+  ) THEN
+    RAISE EXCEPTION 'Enter an amount for every ingredient';
+  END IF;
+
+  -- Lock the prep item and its components in a stable order
+  PERFORM 1
+  FROM products
+  WHERE id = p_item_id OR id IN (SELECT (l->>'item_id')::UUID FROM jsonb_array_elements(p_lines) l)
+  ORDER BY id
+  FOR UPDATE;
+
+  SELECT * INTO v_item FROM products WHERE id = p_item_id;
+
+  IF NOT FOUND OR NOT v_item.is_prep THEN
+    RAISE EXCEPTION 'Not a prep item';
+  END IF;
+
+  DELETE FROM prep_ingredients WHERE prep_item_id = p_item_id;
+
+  INSERT INTO prep_ingredients (prep_item_id, item_id, qty, unit_id)
+  SELECT p_item_id, (l->>'item_id')::UUID, (l->>'qty')::DECIMAL, (l->>'unit_id')::UUID
+  FROM jsonb_array_elements(p_lines) l;
+
+  SELECT ROUND(SUM(pi.qty * p.cost) / p_batch_yield, 6) INTO v_cost
+  FROM prep_ingredients pi
+  JOIN products p ON p.id = pi.item_id
+  WHERE pi.prep_item_id = p_item_id;
+
+  UPDATE products SET batch_yield = p_batch_yield, cost = v_cost WHERE id = p_item_id;
+  UPDATE cost_layers SET unit_cost = v_cost WHERE item_id = p_item_id AND qty_remaining > 0;
+
+  RETURN v_cost;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+-- Create a draft purchase order (p_order_id NULL) or change a draft, from
+-- p_order { supplier_id, expected_date, notes }. p_lines is every line:
+-- [{ item_id, qty_ordered, unit_cost, unit_id }] in storage units and pesos per
+-- storage unit, and replaces the order's lines in the same transaction. Needs
+-- manage_inventory. Returns the order's id.
+CREATE OR REPLACE FUNCTION save_purchase_order(p_order_id UUID, p_order JSONB, p_lines JSONB)
+RETURNS UUID AS $$
+DECLARE
+  v_order purchase_orders%ROWTYPE;
+  v_order_id UUID := p_order_id;
+BEGIN
+  IF NOT has_permission('manage_inventory') THEN
+    RAISE EXCEPTION 'You do not have permission to edit purchase orders' USING ERRCODE = '42501';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_lines, '[]')) = 0 THEN
+    RAISE EXCEPTION 'Add at least one item';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_lines) e
+    WHERE COALESCE((e->>'qty_ordered')::DECIMAL, 0) <= 0
+  ) THEN
+    RAISE EXCEPTION 'Enter a quantity for every item';
+  END IF;
+
+  IF v_order_id IS NULL THEN
+    INSERT INTO purchase_orders (supplier_id, expected_date, notes, created_by, created_by_name)
+    VALUES (
+      (p_order->>'supplier_id')::UUID,
+      (p_order->>'expected_date')::DATE,
+      NULLIF(trim(p_order->>'notes'), ''),
+      auth.uid(), (SELECT username FROM profiles WHERE id = auth.uid())
+    )
+    RETURNING id INTO v_order_id;
+  ELSE
+    SELECT * INTO v_order FROM purchase_orders WHERE id = v_order_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Purchase order not found';
+    END IF;
+
+    IF v_order.status <> 'draft' THEN
+      RAISE EXCEPTION 'Purchase order % is no longer a draft', v_order.po_number;
+    END IF;
+
+    UPDATE purchase_orders
+    SET supplier_id = (p_order->>'supplier_id')::UUID,
+        expected_date = (p_order->>'expected_date')::DATE,
+        notes = NULLIF(trim(p_order->>'notes'), '')
+    WHERE id = v_order_id;
+
+    DELETE FROM purchase_order_lines WHERE purchase_order_id = v_order_id;
+  END IF;
+
+  INSERT INTO purchase_order_lines (purchase_order_id, item_id, qty_ordered, unit_cost, unit_id)
+  SELECT v_order_id, x.item_id, x.qty_ordered, COALESCE(x.unit_cost, 0), x.unit_id
+  FROM jsonb_to_recordset(p_lines) AS x(item_id UUID, qty_ordered DECIMAL, unit_cost DECIMAL, unit_id UUID);
+
+  RETURN v_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+-- Receive a delivery against a purchase order. p_lines is [{ line_id, qty,
+-- unit_cost, lot_code, expiry_date }] in storage units and pesos per storage
+-- unit (unit_cost defaults to the ordered price; lot_code and expiry_date are
+-- optional); lines left out or with qty 0 were not delivered. The
+-- received quantities are added to stock at the delivery's price: each item's
+-- cost becomes the weighted average of the stock on hand and the delivery, or
+-- the delivery becomes a new cost layer under FIFO. The order becomes
+-- 'partial' until every line is received in full, or 'received' straight away
+-- with p_close when the rest is no longer expected. Needs manage_inventory.
+CREATE OR REPLACE FUNCTION receive_purchase_order(
+  p_order_id UUID,
+  p_lines JSONB,
+  p_notes TEXT DEFAULT NULL,
+  p_close BOOLEAN DEFAULT FALSE
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_order purchase_orders%ROWTYPE;
+  v_receipt_id UUID;
+  v_line RECORD;
+  v_received JSONB;
+  v_status TEXT;
+BEGIN
+  IF NOT has_permission('manage_inventory') THEN
+    RAISE EXCEPTION 'You do not have permission to receive purchase orders' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_order FROM purchase_orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+
+  IF v_order.status IN ('received', 'cancelled') THEN
+    RAISE EXCEPTION 'Purchase order % is already closed', v_order.po_number;
+  END IF;
+
+  CREATE TEMP TABLE receipt_input ON COMMIT DROP AS
+  SELECT x.line_id, x.qty, x.unit_cost, NULLIF(trim(x.lot_code), '') AS lot_code, x.expiry_date
+  FROM jsonb_to_recordset(COALESCE(p_lines, '[]')) AS x(
+    line_id UUID, qty DECIMAL, unit_cost DECIMAL, lot_code TEXT, expiry_date DATE
+  );
+
+  IF EXISTS (SELECT 1 FROM receipt_input WHERE qty < 0 OR unit_cost < 0) THEN
+    RAISE EXCEPTION 'Quantities and costs cannot be negative';
+  END IF;
+
+  DELETE FROM receipt_input WHERE COALESCE(qty, 0) = 0;
+
+  IF EXISTS (
+    SELECT 1 FROM receipt_input ri
+    WHERE NOT EXISTS (SELECT 1 FROM purchase_order_lines l WHERE l.id = ri.line_id AND l.purchase_order_id = p_order_id)
+  ) THEN
+    RAISE EXCEPTION 'Unknown purchase order line';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM receipt_input) AND NOT p_close THEN
+    RAISE EXCEPTION 'Enter the quantities received';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM receipt_input) THEN
+    INSERT INTO goods_receipts (purchase_order_id, notes, received_by, received_by_name)
+    VALUES (p_order_id, NULLIF(trim(p_notes), ''), auth.uid(), (SELECT username FROM profiles WHERE id = auth.uid()))
+    RETURNING id INTO v_receipt_id;
+
+    INSERT INTO goods_receipt_lines (receipt_id, line_id, item_id, qty, unit_cost, lot_code, expiry_date)
+    SELECT v_receipt_id, l.id, l.item_id, ri.qty, COALESCE(ri.unit_cost, l.unit_cost), ri.lot_code, ri.expiry_date
+    FROM receipt_input ri
+    JOIN purchase_order_lines l ON l.id = ri.line_id;
+
+    UPDATE purchase_order_lines l
+    SET qty_received = l.qty_received + r.qty
+    FROM (SELECT line_id, SUM(qty) AS qty FROM goods_receipt_lines WHERE receipt_id = v_receipt_id GROUP BY line_id) r
+    WHERE l.id = r.line_id;
+
+    PERFORM 1
+    FROM products
+    WHERE id IN (SELECT item_id FROM goods_receipt_lines WHERE receipt_id = v_receipt_id)
+    ORDER BY id
+    FOR UPDATE;
+
+    PERFORM set_stock_movement('purchase', v_receipt_id, v_order.po_number);
+
+    -- Each line is its own lot; unit_cost is per storage unit and products.cost
+    -- per recipe unit
+    FOR v_line IN
+      SELECT grl.item_id, grl.qty, grl.qty * grl.unit_cost AS value, grl.lot_code, grl.expiry_date,
+        unit_storage_factor(p.unit_type) AS factor
+      FROM goods_receipt_lines grl
+      JOIN products p ON p.id = grl.item_id
+      WHERE grl.receipt_id = v_receipt_id
+      ORDER BY p.name, grl.id
+    LOOP
+      PERFORM set_stock_layer_cost(v_line.value / (v_line.qty * v_line.factor));
+      PERFORM set_stock_lot(v_line.lot_code, v_line.expiry_date);
+
+      UPDATE products
+      SET cost = weighted_average_cost(qty, cost, v_line.factor, v_line.qty, v_line.value),
+        qty = qty + v_line.qty
+      WHERE id = v_line.item_id;
+    END LOOP;
+
+    SELECT jsonb_agg(jsonb_build_object(
+      'item_id', p.id,
+      'name', p.name,
+      'unit_type', p.unit_type,
+      'qty', grl.qty,
+      'unit_cost', grl.unit_cost,
+      'lot_code', grl.lot_code,
+      'expiry_date', grl.expiry_date
+    ) ORDER BY p.name)
+    INTO v_received
+    FROM goods_receipt_lines grl
+    JOIN products p ON p.id = grl.item_id
+    WHERE grl.receipt_id = v_receipt_id;
+  END IF;
+
+  DROP TABLE receipt_input;
+
+  v_status := CASE
+    WHEN p_close OR NOT EXISTS (
+      SELECT 1 FROM purchase_order_lines WHERE purchase_order_id = p_order_id AND qty_received < qty_ordered
+    ) THEN 'received'
+    WHEN EXISTS (SELECT 1 FROM purchase_order_lines WHERE purchase_order_id = p_order_id AND qty_received > 0)
+      THEN 'partial'
+    ELSE 'ordered'
+  END;
+
+  UPDATE purchase_orders
+  SET status = v_status,
+    ordered_at = COALESCE(ordered_at, NOW()),
+    closed_at = CASE WHEN v_status = 'received' THEN NOW() END
+  WHERE id = p_order_id;
+
+  RETURN jsonb_build_object(
+    'receipt_id', v_receipt_id,
+    'po_number', v_order.po_number,
+    'status', v_status,
+    'received', COALESCE(v_received, '[]')
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+-- What each item's stock on hand is worth under the costing method: what is
+-- left of its cost layers under FIFO, qty at its cost under weighted average.
+-- Stock below zero is worth nothing.
+CREATE OR REPLACE FUNCTION stock_valuation()
+RETURNS TABLE (item_id UUID, value DECIMAL) AS $$
+  SELECT p.id,
+    CASE WHEN get_setting('costing_method', 'weighted_average') = 'fifo' THEN COALESCE((
+      SELECT SUM(l.qty_remaining * unit_storage_factor(p.unit_type) * l.unit_cost)
+      FROM cost_layers l
+      WHERE l.item_id = p.id
+    ), 0)
+    ELSE GREATEST(p.qty, 0) * unit_storage_factor(p.unit_type) * p.cost
+    END
+  FROM products p;
+$$ LANGUAGE sql STABLE;
+
+-- Lots with stock left that expire within p_days days (the expiry_warning_days
+-- setting when NULL), including ones already past their expiry date
+CREATE OR REPLACE FUNCTION expiring_stock_lots(p_days INTEGER DEFAULT NULL)
+RETURNS TABLE (
+  lot_id UUID,
+  item_id UUID,
+  name TEXT,
+  unit_type TEXT,
+  lot_code TEXT,
+  expiry_date DATE,
+  qty_remaining DECIMAL,
+  days_left INTEGER
+) AS $$
+  SELECT l.id, p.id, p.name, p.unit_type, l.lot_code, l.expiry_date, l.qty_remaining,
+    l.expiry_date - store_today()
+  FROM stock_lots l
+  JOIN products p ON p.id = l.item_id
+  WHERE l.qty_remaining > 0
+    AND l.expiry_date <= store_today() + COALESCE(p_days, get_setting('expiry_warning_days', '3')::INTEGER)
+  ORDER BY l.expiry_date, p.name;
+$$ LANGUAGE sql STABLE;
+
+-- Items at or below their reorder point, with what it takes to bring them
+-- back up to par (to the reorder point when no par level is set), all in
+-- storage units
+CREATE OR REPLACE FUNCTION low_stock_items()
+RETURNS TABLE (
+  item_id UUID,
+  name TEXT,
+  unit_type TEXT,
+  qty DECIMAL,
+  reorder_point DECIMAL,
+  par_level DECIMAL,
+  restock_qty DECIMAL
+) AS $$
+  SELECT p.id, p.name, p.unit_type, p.qty, p.reorder_point, p.par_level,
+    GREATEST(COALESCE(p.par_level, p.reorder_point) - GREATEST(p.qty, 0), 0)
+  FROM products p
+  WHERE p.reorder_point IS NOT NULL
+    AND p.qty <= p.reorder_point
+  ORDER BY p.qty / NULLIF(p.reorder_point, 0) NULLS FIRST, p.name;
+$$ LANGUAGE sql STABLE;
+
+-- What each finished product's recipe costs at its ingredients' current costs
+-- (a bundle's includes its components' base recipes), its price before VAT
+-- (the revenue Earnings counts), the food cost as a percentage of that price
+-- and the margin left after ingredients. With p_since, also the ingredient cost
+-- and food cost recorded then (product_cost_history). p_product_ids limits the
+-- products; NULL is all of them.
+CREATE OR REPLACE FUNCTION product_costs(
+  p_since TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_product_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (
+  product_id UUID,
+  name TEXT,
+  selling_price DECIMAL,
+  net_price DECIMAL,
+  ingredient_cost DECIMAL,
+  food_cost_pct DECIMAL,
+  margin DECIMAL,
+  since_ingredient_cost DECIMAL,
+  since_food_cost_pct DECIMAL
+) AS $$
+  WITH costs AS (
+    SELECT fp.id, fp.name, fp.selling_price,
+      CASE WHEN fp.vat_status = 'vatable'
+        THEN round(fp.selling_price / (1 + setting_decimal('vat_rate', 12) / 100), 2)
+        ELSE fp.selling_price
+      END AS net_price,
+      round(COALESCE((
+        SELECT SUM(r.qty * p.cost)
+        FROM (
+          SELECT pi.item_id, pi.qty FROM product_ingredients pi WHERE pi.product_id = fp.id
+          UNION ALL
+          SELECT pi.item_id, pi.qty * bc.qty
+          FROM bundle_components bc
+          JOIN product_ingredients pi ON pi.product_id = bc.product_id
+          WHERE bc.bundle_id = fp.id
+        ) r
+        JOIN products p ON p.id = r.item_id
+      ), 0), 4) AS ingredient_cost
+    FROM finished_products fp
+    WHERE p_product_ids IS NULL OR fp.id = ANY(p_product_ids)
+  )
+  SELECT c.id, c.name, c.selling_price, c.net_price, c.ingredient_cost,
+    round(c.ingredient_cost / NULLIF(c.net_price, 0) * 100, 2),
+    round(c.net_price - c.ingredient_cost, 2),
+    h.ingredient_cost, h.food_cost_pct
+  FROM costs c
+  LEFT JOIN LATERAL (
+    SELECT ph.ingredient_cost, ph.food_cost_pct
+    FROM product_cost_history ph
+    WHERE ph.product_id = c.id AND ph.recorded_at <= p_since
+    ORDER BY ph.recorded_at DESC
+    LIMIT 1
+  ) h ON TRUE
+  ORDER BY c.name;
+$$ LANGUAGE sql STABLE;
+
+-- Finished products whose food cost is above the target_food_cost_pct setting,
+-- highest first
+CREATE OR REPLACE FUNCTION food_cost_alerts()
+RETURNS TABLE (
+  product_id UUID,
+  name TEXT,
+  food_cost_pct DECIMAL,
+  target_pct DECIMAL
+) AS $$
+  SELECT c.product_id, c.name, c.food_cost_pct, setting_decimal('target_food_cost_pct', 30)
+  FROM product_costs() c
+  WHERE c.food_cost_pct > setting_decimal('target_food_cost_pct', 30)
+  ORDER BY c.food_cost_pct DESC, c.name;
+$$ LANGUAGE sql STABLE;
+
+-- Adds a product_cost_history row for each of p_product_ids (NULL: every
+-- product), and the bundles they are part of, whose ingredient cost or price
+-- differs from its latest row. Changes made in one transaction update that
+-- transaction's row, so receiving a delivery of five ingredients records one
+-- change per product. Products whose recipe costs nothing (none yet, or one
+-- being replaced) are skipped.
+CREATE OR REPLACE FUNCTION record_product_costs(p_product_ids UUID[])
+RETURNS VOID AS $$
+DECLARE
+  v_ids UUID[] := p_product_ids;
+  v_cost RECORD;
+  v_last product_cost_history%ROWTYPE;
+BEGIN
+  IF v_ids IS NOT NULL THEN
+    v_ids := v_ids || ARRAY(SELECT bc.bundle_id FROM bundle_components bc WHERE bc.product_id = ANY(p_product_ids));
+  END IF;
+
+  FOR v_cost IN SELECT * FROM product_costs(NULL, v_ids) c WHERE c.ingredient_cost > 0 LOOP
+    SELECT * INTO v_last
+    FROM product_cost_history
+    WHERE product_id = v_cost.product_id
+    ORDER BY recorded_at DESC
+    LIMIT 1;
+
+    IF v_last.id IS NOT NULL AND v_last.recorded_at = NOW() THEN
+      UPDATE product_cost_history
+      SET ingredient_cost = v_cost.ingredient_cost,
+          selling_price = v_cost.selling_price,
+          net_price = v_cost.net_price,
+          food_cost_pct = v_cost.food_cost_pct
+      WHERE id = v_last.id;
+    ELSIF v_last.id IS NULL
+      OR (v_last.ingredient_cost, v_last.selling_price, v_last.net_price)
+        IS DISTINCT FROM (v_cost.ingredient_cost, v_cost.selling_price, v_cost.net_price)
+    THEN
+      INSERT INTO product_cost_history (product_id, ingredient_cost, selling_price, net_price, food_cost_pct)
+      VALUES (v_cost.product_id, v_cost.ingredient_cost, v_cost.selling_price, v_cost.net_price, v_cost.food_cost_pct);
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Cost history is only written from inside track_product_costs
+REVOKE EXECUTE ON FUNCTION record_product_costs(UUID[]) FROM PUBLIC, anon, authenticated;
+
+-- Records the food cost of the products a change touches: an ingredient's
+-- cost, a recipe line, a product's price or VAT treatment, a bundle's components
+CREATE OR REPLACE FUNCTION track_product_costs()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'products' THEN
+    PERFORM record_product_costs(ARRAY(SELECT pi.product_id FROM product_ingredients pi WHERE pi.item_id = NEW.id));
+  ELSIF TG_TABLE_NAME = 'finished_products' THEN
+    PERFORM record_product_costs(ARRAY[NEW.id]);
+  ELSIF TG_TABLE_NAME = 'product_ingredients' THEN
+    PERFORM record_product_costs(ARRAY[COALESCE(NEW.product_id, OLD.product_id)]);
+  ELSE
+    PERFORM record_product_costs(ARRAY[COALESCE(NEW.bundle_id, OLD.bundle_id)]);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+-- Write off what is left of every lot past its expiry date as waste, one
+-- 'expired' waste entry per lot. Safe to call repeatedly; the app calls it
+-- periodically. Returns the lots written off.
+CREATE OR REPLACE FUNCTION expire_stock_lots()
+RETURNS JSONB AS $$
+DECLARE
+  v_lot RECORD;
+  v_waste_id UUID;
+  v_note TEXT;
+  v_cost DECIMAL;
+  v_expired JSONB := '[]';
+BEGIN
+  IF NOT has_permission('log_waste') AND NOT has_permission('manage_inventory') THEN
+    RAISE EXCEPTION 'You do not have permission to write off expired stock' USING ERRCODE = '42501';
+  END IF;
+
+  -- Items before lots, in the same order as checkout
+  PERFORM 1
+  FROM products
+  WHERE id IN (SELECT item_id FROM stock_lots WHERE qty_remaining > 0 AND expiry_date < store_today())
+  ORDER BY id
+  FOR UPDATE;
+
+  -- The expired lots of an item are the first to be consumed, so taking their
+  -- quantity out of stock takes it out of them
+  FOR v_lot IN
+    SELECT l.id, l.item_id, l.lot_code, l.expiry_date, l.qty_remaining, p.name, p.unit_type
+    FROM stock_lots l
+    JOIN products p ON p.id = l.item_id
+    WHERE l.qty_remaining > 0 AND l.expiry_date < store_today()
+    ORDER BY l.item_id, l.expiry_date, l.received_at, l.id
+  LOOP
+    v_waste_id := uuid_generate_v4();
+    v_note := 'Expired ' || to_char(v_lot.expiry_date, 'YYYY-MM-DD') || COALESCE(' (lot ' || v_lot.lot_code || ')', '');
+
+    PERFORM set_stock_movement('waste', v_waste_id, v_note);
+
+    UPDATE products
+    SET qty = qty - v_lot.qty_remaining
+    WHERE id = v_lot.item_id;
+
+    SELECT COALESCE(-SUM(value_change), 0) INTO v_cost
+    FROM stock_movements
+    WHERE reference_id = v_waste_id;
+
+    INSERT INTO waste_entries (
+      id, item_id, name, unit_type, qty, reason, notes, cost, consumed, user_id, username
+    )
+    VALUES (
+      v_waste_id, v_lot.item_id, v_lot.name, v_lot.unit_type,
+      v_lot.qty_remaining * unit_storage_factor(v_lot.unit_type), 'expired', v_note, v_cost,
+      jsonb_build_array(jsonb_build_object(
+        'item_id', v_lot.item_id,
+        'name', v_lot.name,
+        'unit_type', v_lot.unit_type,
+        'qty', v_lot.qty_remaining * unit_storage_factor(v_lot.unit_type),
+        'cost', v_cost
+      )),
+      auth.uid(), (SELECT username FROM profiles WHERE id = auth.uid())
+    );
+
+    v_expired := v_expired || jsonb_build_object(
+      'lot_id', v_lot.id,
+      'item_id', v_lot.item_id,
+      'name', v_lot.name,
+      'unit_type', v_lot.unit_type,
+      'lot_code', v_lot.lot_code,
+      'expiry_date', v_lot.expiry_date,
+      'qty', v_lot.qty_remaining
+    );
+  END LOOP;
+
+  RETURN v_expired;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+-- Log waste of p_qty of an inventory item (recipe units) or of a finished
+-- product (units, with p_variant_id and p_modifier_ids as chosen at the till)
+-- and take it out of stock: the item itself, or the product's ingredients as at
+-- checkout. The
+-- entry's cost is what the stock taken out was worth under the costing method.
+-- A shortage raises 'Insufficient stock' with the same HINT and DETAIL as
+-- process_checkout. Needs log_waste.
+DROP FUNCTION IF EXISTS log_waste(UUID, UUID, DECIMAL, TEXT, TEXT, UUID);
+
+CREATE OR REPLACE FUNCTION log_waste(
+  p_item_id UUID,
+  p_product_id UUID,
+  p_qty DECIMAL,
+  p_reason TEXT,
+  p_notes TEXT DEFAULT NULL,
+  p_variant_id UUID DEFAULT NULL,
+  p_modifier_ids UUID[] DEFAULT '{}'
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_waste_id UUID := uuid_generate_v4();
+  v_name TEXT;
+  v_unit_type TEXT;
+  v_shortages JSONB;
+  v_cost DECIMAL;
+  v_consumed JSONB;
+  v_entry waste_entries%ROWTYPE;
+BEGIN
+  IF NOT has_permission('log_waste') THEN
+    RAISE EXCEPTION 'You do not have permission to log waste' USING ERRCODE = '42501';
+  END IF;
+
+  IF (p_item_id IS NULL) = (p_product_id IS NULL) THEN
+    RAISE EXCEPTION 'Choose an item or a product';
+  END IF;
+
+  IF p_qty IS NULL OR p_qty <= 0 THEN
+    RAISE EXCEPTION 'Enter how much was wasted';
+  END IF;
+
+  IF p_reason IS NULL OR p_reason NOT IN ('spoiled', 'spilled', 'expired', 'damaged', 'comped', 'other') THEN
+    RAISE EXCEPTION 'Choose a reason';
+  END IF;
+
+  -- What comes out of stock, in recipe units
+  IF p_item_id IS NOT NULL THEN
+    SELECT name, unit_type INTO v_name, v_unit_type FROM products WHERE id = p_item_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item not found';
+    END IF;
+
+    CREATE TEMP TABLE waste_requirements ON COMMIT DROP AS
+    SELECT p_item_id AS item_id, p_qty AS required;
+  ELSE
+    SELECT fp.name || COALESCE(' (' || NULLIF(concat_ws(', ', pv.name, (
+        SELECT string_agg(mo.name, ', ' ORDER BY mg.sort_order, mo.sort_order)
+        FROM modifier_options mo
+        JOIN modifier_groups mg ON mg.id = mo.group_id
+        WHERE mo.id = ANY(p_modifier_ids) AND mg.product_id = fp.id
+      )), '') || ')', ''), 'quantity'
+    INTO v_name, v_unit_type
+    FROM finished_products fp
+    LEFT JOIN product_variants pv ON pv.id = p_variant_id AND pv.product_id = fp.id
+    WHERE fp.id = p_product_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product not found';
+    END IF;
+
+    CREATE TEMP TABLE waste_requirements ON COMMIT DROP AS
+    SELECT r.item_id, r.required
+    FROM checkout_requirements(jsonb_build_array(jsonb_build_object(
+      'product_id', p_product_id, 'variant_id', p_variant_id,
+      'modifier_ids', to_jsonb(COALESCE(p_modifier_ids, '{}')), 'qty', p_qty
+    ))) r;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM waste_requirements) THEN
+    RAISE EXCEPTION '% has no ingredients', v_name;
+  END IF;
+
+  PERFORM 1
+  FROM products
+  WHERE id IN (SELECT item_id FROM waste_requirements)
+  ORDER BY id
+  FOR UPDATE;
+
+  SELECT jsonb_agg(jsonb_build_object(
+    'item_id', p.id,
+    'name', p.name,
+    'unit_type', p.unit_type,
+    'required', r.required,
+    'available', p.qty * unit_storage_factor(p.unit_type)
+  ) ORDER BY p.name)
+  INTO v_shortages
+  FROM waste_requirements r
+  JOIN products p ON p.id = r.item_id
+  WHERE p.qty * unit_storage_factor(p.unit_type) < r.required;
+
+  IF v_shortages IS NOT NULL THEN
+    RAISE EXCEPTION 'Insufficient stock'
+      USING DETAIL = v_shortages::TEXT, HINT = 'insufficient_stock';
+  END IF;
+
+  PERFORM set_stock_movement('waste', v_waste_id, p_reason || COALESCE(': ' || NULLIF(trim(p_notes), ''), ''));
+
+  UPDATE products p
+  SET qty = p.qty - r.required / unit_storage_factor(p.unit_type)
+  FROM waste_requirements r
+  WHERE p.id = r.item_id;
+
+  SELECT COALESCE(SUM(COALESCE(-m.value_change, 0)), 0),
+    jsonb_agg(jsonb_build_object(
+      'item_id', p.id,
+      'name', p.name,
+      'unit_type', p.unit_type,
+      'qty', r.required,
+      'cost', COALESCE(-m.value_change, 0)
+    ) ORDER BY p.name)
+  INTO v_cost, v_consumed
+  FROM waste_requirements r
+  JOIN products p ON p.id = r.item_id
+  LEFT JOIN stock_movements m ON m.reference_id = v_waste_id AND m.item_id = r.item_id;
+
+  DROP TABLE waste_requirements;
+
+  INSERT INTO waste_entries (
+    id, item_id, product_id, variant_id, name, unit_type, qty, reason, notes, cost, consumed, user_id, username
+  )
+  VALUES (
+    v_waste_id, p_item_id, p_product_id, p_variant_id, v_name, v_unit_type, p_qty, p_reason,
+    NULLIF(trim(p_notes), ''), v_cost, v_consumed,
+    auth.uid(), (SELECT username FROM profiles WHERE id = auth.uid())
+  )
+  RETURNING * INTO v_entry;
+
+  RETURN to_jsonb(v_entry);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+-- Start a stock count: snapshots every item's stock and cost into
+-- stock_count_lines. Only one count can be in progress at a time. Needs
+-- count_stock. Returns the count's id.
+CREATE OR REPLACE FUNCTION start_stock_count(p_notes TEXT DEFAULT NULL)
+RETURNS UUID AS $$
+DECLARE
+  v_count_id UUID;
+  v_open TEXT;
+BEGIN
+  IF NOT has_permission('count_stock') THEN
+    RAISE EXCEPTION 'You do not have permission to count stock' USING ERRCODE = '42501';
+  END IF;
+
+  -- Serialises concurrent starts
+  LOCK TABLE stock_counts IN SHARE ROW EXCLUSIVE MODE;
+
+  SELECT count_number INTO v_open FROM stock_counts WHERE status IN ('open', 'submitted');
+  IF FOUND THEN
+    RAISE EXCEPTION 'Stock count % is still in progress', v_open;
+  END IF;
+
+  INSERT INTO stock_counts (notes, created_by, created_by_name)
+  VALUES (
+    NULLIF(trim(p_notes), ''), auth.uid(), (SELECT username FROM profiles WHERE id = auth.uid())
+  )
+  RETURNING id INTO v_count_id;
+
+  INSERT INTO stock_count_lines (count_id, item_id, item_name, unit_type, expected_qty, unit_cost)
+  SELECT v_count_id, id, name, unit_type, qty, cost
+  FROM products;
+
+  RETURN v_count_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+-- Save counted quantities of an open count: p_lines is
+-- [{ line_id, counted }] with counted in recipe units (g/ml/pcs), or null to
+-- clear it. p_submit = true hands the count to the owner for approval. Needs
+-- count_stock.
+CREATE OR REPLACE FUNCTION save_stock_count(
+  p_count_id UUID,
+  p_lines JSONB,
+  p_submit BOOLEAN DEFAULT FALSE
+)
+RETURNS VOID AS $$
+DECLARE
+  v_count stock_counts%ROWTYPE;
+BEGIN
+  IF NOT has_permission('count_stock') THEN
+    RAISE EXCEPTION 'You do not have permission to count stock' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_count FROM stock_counts WHERE id = p_count_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock count not found';
+  END IF;
+
+  IF v_count.status <> 'open' THEN
+    RAISE EXCEPTION 'Stock count % is no longer open', v_count.count_number;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(COALESCE(p_lines, '[]')) e WHERE (e->>'counted')::DECIMAL < 0
+  ) THEN
+    RAISE EXCEPTION 'Counted quantities cannot be negative';
+  END IF;
+
+  UPDATE stock_count_lines l
+  SET counted_qty = (e->>'counted')::DECIMAL / unit_storage_factor(l.unit_type)
+  FROM jsonb_array_elements(COALESCE(p_lines, '[]')) e
+  WHERE l.id = (e->>'line_id')::UUID
+    AND l.count_id = p_count_id;
+
+  IF p_submit THEN
+    IF NOT EXISTS (SELECT 1 FROM stock_count_lines WHERE count_id = p_count_id AND counted_qty IS NOT NULL) THEN
+      RAISE EXCEPTION 'Count at least one item before submitting';
+    END IF;
+
+    UPDATE stock_counts
+    SET status = 'submitted',
+        submitted_at = NOW(),
+        submitted_by_name = (SELECT username FROM profiles WHERE id = auth.uid())
+    WHERE id = p_count_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+-- Approve (p_approve = true) or send back a submitted stock count. Approving
+-- posts each counted item's variance (counted - expected at the start) to
+-- stock as an 'adjustment' movement, so sales made during the count are kept;
+-- items left uncounted are not touched. Stock does not go below zero, so each
+-- line's variance is the movement actually posted. Owner only. Returns the
+-- count with its total variance value.
+CREATE OR REPLACE FUNCTION review_stock_count(p_count_id UUID, p_approve BOOLEAN)
+RETURNS JSONB AS $$
+DECLARE
+  v_count stock_counts%ROWTYPE;
+  v_variance DECIMAL;
+BEGIN
+  IF current_user_role() IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only the owner can approve stock counts' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_count FROM stock_counts WHERE id = p_count_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock count not found';
+  END IF;
+
+  IF v_count.status <> 'submitted' THEN
+    RAISE EXCEPTION 'Stock count % is not waiting for approval', v_count.count_number;
+  END IF;
+
+  IF NOT p_approve THEN
+    UPDATE stock_counts
+    SET status = 'open', submitted_at = NULL, submitted_by_name = NULL
+    WHERE id = p_count_id
+    RETURNING * INTO v_count;
+
+    RETURN to_jsonb(v_count);
+  END IF;
+
+  PERFORM 1
+  FROM products
+  WHERE id IN (SELECT item_id FROM stock_count_lines WHERE count_id = p_count_id AND counted_qty IS NOT NULL)
+  ORDER BY id
+  FOR UPDATE;
+
+  PERFORM set_stock_movement('adjustment', p_count_id, 'Stock count ' || v_count.count_number);
+
+  UPDATE products p
+  SET qty = GREATEST(p.qty + l.counted_qty - l.expected_qty, 0)
+  FROM stock_count_lines l
+  WHERE l.count_id = p_count_id
+    AND l.item_id = p.id
+    AND l.counted_qty IS NOT NULL
+    AND l.counted_qty <> l.expected_qty;
+
+  UPDATE stock_count_lines l
+  SET (variance_qty, variance_value) = (
+        SELECT COALESCE(SUM(m.qty_change), 0), COALESCE(SUM(m.value_change), 0)
+        FROM stock_movements m
+        WHERE m.reference_id = p_count_id AND m.item_id = l.item_id
+      )
+  WHERE l.count_id = p_count_id
+    AND l.counted_qty IS NOT NULL;
+
+  UPDATE stock_counts
+  SET status = 'approved',
+      approved_by = auth.uid(),
+      approved_by_name = (SELECT username FROM profiles WHERE id = auth.uid()),
+      closed_at = NOW()
+  WHERE id = p_count_id
+  RETURNING * INTO v_count;
+
+  SELECT COALESCE(SUM(variance_value), 0) INTO v_variance
+  FROM stock_count_lines
+  WHERE count_id = p_count_id;
+
+  RETURN to_jsonb(v_count) || jsonb_build_object('variance_value', v_variance);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+-- Cancel a stock count that has not been approved; nothing is posted. Needs
+-- count_stock while the count is open; only the owner can cancel a submitted one.
+CREATE OR REPLACE FUNCTION cancel_stock_count(p_count_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_count stock_counts%ROWTYPE;
+BEGIN
+  SELECT * INTO v_count FROM stock_counts WHERE id = p_count_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock count not found';
+  END IF;
+
+  IF NOT (
+    (v_count.status = 'open' AND has_permission('count_stock'))
+    OR (v_count.status = 'submitted' AND current_user_role() = 'owner')
+  ) THEN
+    IF v_count.status IN ('approved', 'cancelled') THEN
+      RAISE EXCEPTION 'Stock count % is already closed', v_count.count_number;
+    END IF;
+    RAISE EXCEPTION 'You do not have permission to cancel this stock count' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE stock_counts
+  SET status = 'cancelled', closed_at = NOW()
+  WHERE id = p_count_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+-- Create a bundle (p_bundle_id NULL, from p_bundle { name, selling_price,
+-- vat_status }) or change the components of one. p_components is every
+-- component in order: [{ id, product_id, qty, substitutes: [{ product_id,
+-- price_delta }] }], id NULL for a new one. Components left out are removed
+-- and each component's substitutes are replaced, all in one transaction.
+-- Needs edit_recipes. Returns the bundle's id.
+CREATE OR REPLACE FUNCTION save_bundle(p_bundle_id UUID, p_bundle JSONB, p_components JSONB)
+RETURNS UUID AS $$
+DECLARE
+  v_bundle_id UUID := p_bundle_id;
+  v_component JSONB;
+  v_index INTEGER;
+  v_component_id UUID;
+BEGIN
+  IF NOT has_permission('edit_recipes') THEN
+    RAISE EXCEPTION 'You do not have permission to edit bundles' USING ERRCODE = '42501';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_components, '[]')) = 0 THEN
+    RAISE EXCEPTION 'Add at least one product to the bundle';
+  END IF;
+
+  IF v_bundle_id IS NULL THEN
+    IF COALESCE(trim(p_bundle->>'name'), '') = '' THEN
+      RAISE EXCEPTION 'Please enter a bundle name';
+    END IF;
+    IF COALESCE((p_bundle->>'selling_price')::DECIMAL, 0) <= 0 THEN
+      RAISE EXCEPTION 'Please enter a valid bundle price';
+    END IF;
+
+    INSERT INTO finished_products (name, selling_price, vat_status)
+    VALUES (trim(p_bundle->>'name'), (p_bundle->>'selling_price')::DECIMAL, COALESCE(p_bundle->>'vat_status', 'vatable'))
+    RETURNING id INTO v_bundle_id;
+  ELSIF NOT EXISTS (SELECT 1 FROM finished_products WHERE id = v_bundle_id) THEN
+    RAISE EXCEPTION 'Bundle not found';
+  END IF;
+
+  DELETE FROM bundle_components
+  WHERE bundle_id = v_bundle_id
+    AND id NOT IN (
+      SELECT (e->>'id')::UUID FROM jsonb_array_elements(p_components) e WHERE e->>'id' IS NOT NULL
+    );
+
+  FOR v_component, v_index IN
+    SELECT e, ord::INTEGER - 1 FROM jsonb_array_elements(p_components) WITH ORDINALITY AS c(e, ord)
+  LOOP
+    IF v_component->>'id' IS NULL THEN
+      INSERT INTO bundle_components (bundle_id, product_id, qty, sort_order)
+      VALUES (v_bundle_id, (v_component->>'product_id')::UUID, (v_component->>'qty')::INTEGER, v_index)
+      RETURNING id INTO v_component_id;
+    ELSE
+      UPDATE bundle_components
+      SET product_id = (v_component->>'product_id')::UUID,
+          qty = (v_component->>'qty')::INTEGER,
+          sort_order = v_index
+      WHERE id = (v_component->>'id')::UUID AND bundle_id = v_bundle_id
+      RETURNING id INTO v_component_id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Bundle item not found';
+      END IF;
+    END IF;
+
+    DELETE FROM bundle_substitutes WHERE component_id = v_component_id;
+    INSERT INTO bundle_substitutes (component_id, product_id, price_delta, sort_order)
+    SELECT v_component_id, (sub->>'product_id')::UUID, COALESCE((sub->>'price_delta')::DECIMAL, 0), ord::INTEGER - 1
+    FROM jsonb_array_elements(COALESCE(v_component->'substitutes', '[]')) WITH ORDINALITY AS t(sub, ord);
+  END LOOP;
+
+  RETURN v_bundle_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+-- Save the sizes and modifier groups of a product. p_variants is every size
+-- in order: [{ id, name, price_delta, ingredients: [{ item_id, qty }] }];
+-- p_groups every group in order: [{ id, name, min_select, max_select,
+-- options: [{ id, name, price_delta, ingredients }] }]; id NULL for a new one.
+-- Sizes, groups and options left out are removed and each one's ingredient
+-- changes are replaced, all in one transaction. Needs edit_recipes.
+CREATE OR REPLACE FUNCTION save_product_options(p_product_id UUID, p_variants JSONB, p_groups JSONB)
+RETURNS VOID AS $$
+DECLARE
+  v_variant JSONB;
+  v_group JSONB;
+  v_option JSONB;
+  v_index INTEGER;
+  v_option_index INTEGER;
+  v_variant_id UUID;
+  v_group_id UUID;
+  v_option_id UUID;
+BEGIN
+  IF NOT has_permission('edit_recipes') THEN
+    RAISE EXCEPTION 'You do not have permission to edit sizes and add-ons' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM finished_products WHERE id = p_product_id) THEN
+    RAISE EXCEPTION 'Product not found';
+  END IF;
+
+  -- Removed sizes and groups (their options and ingredient changes cascade)
+  DELETE FROM product_variants
+  WHERE product_id = p_product_id
+    AND id NOT IN (
+      SELECT (e->>'id')::UUID FROM jsonb_array_elements(COALESCE(p_variants, '[]')) e WHERE e->>'id' IS NOT NULL
+    );
+
+  DELETE FROM modifier_groups
+  WHERE product_id = p_product_id
+    AND id NOT IN (
+      SELECT (e->>'id')::UUID FROM jsonb_array_elements(COALESCE(p_groups, '[]')) e WHERE e->>'id' IS NOT NULL
+    );
+
+  FOR v_variant, v_index IN
+    SELECT e, ord::INTEGER - 1 FROM jsonb_array_elements(COALESCE(p_variants, '[]')) WITH ORDINALITY AS t(e, ord)
+  LOOP
+    IF v_variant->>'id' IS NULL THEN
+      INSERT INTO product_variants (product_id, name, price_delta, sort_order)
+      VALUES (p_product_id, trim(v_variant->>'name'), COALESCE((v_variant->>'price_delta')::DECIMAL, 0), v_index)
+      RETURNING id INTO v_variant_id;
+    ELSE
+      UPDATE product_variants
+      SET name = trim(v_variant->>'name'),
+          price_delta = COALESCE((v_variant->>'price_delta')::DECIMAL, 0),
+          sort_order = v_index
+      WHERE id = (v_variant->>'id')::UUID AND product_id = p_product_id
+      RETURNING id INTO v_variant_id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Size not found';
+      END IF;
+    END IF;
+
+    DELETE FROM option_ingredients WHERE variant_id = v_variant_id;
+    INSERT INTO option_ingredients (variant_id, item_id, qty)
+    SELECT v_variant_id, (ing->>'item_id')::UUID, (ing->>'qty')::DECIMAL
+    FROM jsonb_array_elements(COALESCE(v_variant->'ingredients', '[]')) ing;
+  END LOOP;
+
+  FOR v_group, v_index IN
+    SELECT e, ord::INTEGER - 1 FROM jsonb_array_elements(COALESCE(p_groups, '[]')) WITH ORDINALITY AS t(e, ord)
+  LOOP
+    IF v_group->>'id' IS NULL THEN
+      INSERT INTO modifier_groups (product_id, name, min_select, max_select, sort_order)
+      VALUES (
+        p_product_id, trim(v_group->>'name'), (v_group->>'min_select')::INTEGER, (v_group->>'max_select')::INTEGER, v_index
+      )
+      RETURNING id INTO v_group_id;
+    ELSE
+      UPDATE modifier_groups
+      SET name = trim(v_group->>'name'),
+          min_select = (v_group->>'min_select')::INTEGER,
+          max_select = (v_group->>'max_select')::INTEGER,
+          sort_order = v_index
+      WHERE id = (v_group->>'id')::UUID AND product_id = p_product_id
+      RETURNING id INTO v_group_id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Modifier group not found';
+      END IF;
+    END IF;
+
+    DELETE FROM modifier_options
+    WHERE group_id = v_group_id
+      AND id NOT IN (
+        SELECT (e->>'id')::UUID FROM jsonb_array_elements(COALESCE(v_group->'options', '[]')) e WHERE e->>'id' IS NOT NULL
+      );
+
+    FOR v_option, v_option_index IN
+      SELECT e, ord::INTEGER - 1 FROM jsonb_array_elements(COALESCE(v_group->'options', '[]')) WITH ORDINALITY AS t(e, ord)
+    LOOP
+      IF v_option->>'id' IS NULL THEN
+        INSERT INTO modifier_options (group_id, name, price_delta, sort_order)
+        VALUES (v_group_id, trim(v_option->>'name'), COALESCE((v_option->>'price_delta')::DECIMAL, 0), v_option_index)
+        RETURNING id INTO v_option_id;
+      ELSE
+        UPDATE modifier_options
+        SET name = trim(v_option->>'name'),
+            price_delta = COALESCE((v_option->>'price_delta')::DECIMAL, 0),
+            sort_order = v_option_index
+        WHERE id = (v_option->>'id')::UUID AND group_id = v_group_id
+        RETURNING id INTO v_option_id;
+
+        IF NOT FOUND THEN
+          RAISE EXCEPTION 'Option not found';
+        END IF;
+      END IF;
+
+      DELETE FROM option_ingredients WHERE modifier_option_id = v_option_id;
+      INSERT INTO option_ingredients (modifier_option_id, item_id, qty)
+      SELECT v_option_id, (ing->>'item_id')::UUID, (ing->>'qty')::DECIMAL
+      FROM jsonb_array_elements(COALESCE(v_option->'ingredients', '[]')) ing;
+    END LOOP;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+-- Import a catalog by name (see src/lib/catalog.ts, which checks the same rows
+-- for the preview). Names match existing rows ignoring case; a match is
+-- updated and anything else created. p_items is [{ name, unit_type, stock,
+-- cost, shelf_life_days, reorder_point, par_level, batch_yield }] with stock,
+-- reorder_point and par_level in storage units, cost per recipe unit and
+-- batch_yield (which makes a prep item) in recipe units; a null leaves the
+-- existing value. p_products is [{ name, selling_price, vat_status }].
+-- p_recipes is [{ recipe, lines: [{ ingredient, qty, unit_id }] }] with qty in
+-- recipe units; each replaces the whole recipe of that product or prep item.
+-- Items need manage_inventory, products and recipes edit_recipes. Either all
+-- of it is imported or none of it.
+CREATE OR REPLACE FUNCTION import_catalog(p_items JSONB, p_products JSONB, p_recipes JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_row JSONB;
+  v_line JSONB;
+  v_name TEXT;
+  v_matches INTEGER;
+  v_prep_matches INTEGER;
+  v_item_matches INTEGER;
+  v_item products%ROWTYPE;
+  v_product_id UUID;
+  v_prep_id UUID;
+  v_item_id UUID;
+  v_qty DECIMAL;
+  v_items_created INTEGER := 0;
+  v_items_updated INTEGER := 0;
+  v_products_created INTEGER := 0;
+  v_products_updated INTEGER := 0;
+  v_recipes INTEGER := 0;
+BEGIN
+  IF jsonb_array_length(COALESCE(p_items, '[]')) > 0 AND NOT has_permission('manage_inventory') THEN
+    RAISE EXCEPTION 'You do not have permission to edit inventory items' USING ERRCODE = '42501';
+  END IF;
+  IF jsonb_array_length(COALESCE(p_products, '[]')) + jsonb_array_length(COALESCE(p_recipes, '[]')) > 0
+    AND NOT has_permission('edit_recipes') THEN
+    RAISE EXCEPTION 'You do not have permission to edit products and recipes' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM set_stock_movement('adjustment', NULL, 'Catalog import');
+
+  FOR v_row IN SELECT * FROM jsonb_array_elements(COALESCE(p_items, '[]')) LOOP
+    v_name := trim(v_row->>'name');
+    IF COALESCE(v_name, '') = '' THEN
+      RAISE EXCEPTION 'Every item needs a name';
+    END IF;
+
+    SELECT count(*) INTO v_matches FROM products WHERE lower(trim(name)) = lower(v_name);
+    IF v_matches > 1 THEN
+      RAISE EXCEPTION 'More than one item is called %', v_name;
+    END IF;
+
+    SELECT * INTO v_item FROM products WHERE lower(trim(name)) = lower(v_name) FOR UPDATE;
+    IF FOUND THEN
+      IF v_item.unit_type <> v_row->>'unit_type' THEN
+        RAISE EXCEPTION '% is measured by %, not %', v_item.name, v_item.unit_type, v_row->>'unit_type';
+      END IF;
+
+      UPDATE products
+      SET qty = COALESCE((v_row->>'stock')::DECIMAL, qty),
+          cost = COALESCE((v_row->>'cost')::DECIMAL, cost),
+          shelf_life_days = COALESCE((v_row->>'shelf_life_days')::INTEGER, shelf_life_days),
+          reorder_point = COALESCE((v_row->>'reorder_point')::DECIMAL, reorder_point),
+          par_level = COALESCE((v_row->>'par_level')::DECIMAL, par_level),
+          is_prep = is_prep OR v_row->>'batch_yield' IS NOT NULL,
+          batch_yield = COALESCE((v_row->>'batch_yield')::DECIMAL, batch_yield)
+      WHERE id = v_item.id;
+      v_items_updated := v_items_updated + 1;
+    ELSE
+      INSERT INTO products (
+        name, unit_type, qty, cost, shelf_life_days, reorder_point, par_level, is_prep, batch_yield
+      )
+      VALUES (
+        v_name, v_row->>'unit_type',
+        COALESCE((v_row->>'stock')::DECIMAL, 0), COALESCE((v_row->>'cost')::DECIMAL, 0),
+        (v_row->>'shelf_life_days')::INTEGER, (v_row->>'reorder_point')::DECIMAL, (v_row->>'par_level')::DECIMAL,
+        v_row->>'batch_yield' IS NOT NULL, (v_row->>'batch_yield')::DECIMAL
+      );
+      v_items_created := v_items_created + 1;
+    END IF;
+  END LOOP;
+
+  FOR v_row IN SELECT * FROM jsonb_array_elements(COALESCE(p_products, '[]')) LOOP
+    v_name := trim(v_row->>'name');
+    IF COALESCE(v_name, '') = '' THEN
+      RAISE EXCEPTION 'Every product needs a name';
+    END IF;
+
+    SELECT count(*), (array_agg(id))[1] INTO v_matches, v_product_id
+    FROM finished_products WHERE lower(trim(name)) = lower(v_name);
+    IF v_matches > 1 THEN
+      RAISE EXCEPTION 'More than one product is called %', v_name;
+    END IF;
+
+    IF v_matches = 1 THEN
+      UPDATE finished_products
+      SET selling_price = COALESCE((v_row->>'selling_price')::DECIMAL, selling_price),
+          vat_status = COALESCE(v_row->>'vat_status', vat_status)
+      WHERE id = v_product_id;
+      v_products_updated := v_products_updated + 1;
+    ELSE
+      IF v_row->>'selling_price' IS NULL THEN
+        RAISE EXCEPTION 'A new product needs a selling price (%)', v_name;
+      END IF;
+      INSERT INTO finished_products (name, selling_price, vat_status)
+      VALUES (v_name, (v_row->>'selling_price')::DECIMAL, COALESCE(v_row->>'vat_status', 'vatable'));
+      v_products_created := v_products_created + 1;
+    END IF;
+  END LOOP;
+
+  FOR v_row IN SELECT * FROM jsonb_array_elements(COALESCE(p_recipes, '[]')) LOOP
+    v_name := trim(v_row->>'recipe');
+
+    SELECT count(*), (array_agg(id))[1] INTO v_matches, v_product_id
+    FROM finished_products WHERE lower(trim(name)) = lower(v_name);
+    SELECT count(*), (array_agg(id))[1] INTO v_prep_matches, v_prep_id
+    FROM products WHERE is_prep AND lower(trim(name)) = lower(v_name);
+
+    IF v_matches > 0 AND v_prep_matches > 0 THEN
+      RAISE EXCEPTION 'Both a product and a prep item are called %', v_name;
+    ELSIF v_matches + v_prep_matches = 0 THEN
+      RAISE EXCEPTION 'No product or prep item is called %', v_name;
+    ELSIF v_matches > 1 OR v_prep_matches > 1 THEN
+      RAISE EXCEPTION 'More than one product or prep item is called %', v_name;
+    END IF;
+
+    IF v_matches = 1 THEN
+      DELETE FROM product_ingredients WHERE product_id = v_product_id;
+    ELSE
+      DELETE FROM prep_ingredients WHERE prep_item_id = v_prep_id;
+    END IF;
+
+    FOR v_line IN SELECT * FROM jsonb_array_elements(COALESCE(v_row->'lines', '[]')) LOOP
+      SELECT count(*), (array_agg(id))[1] INTO v_item_matches, v_item_id
+      FROM products WHERE lower(trim(name)) = lower(trim(v_line->>'ingredient'));
+      IF v_item_matches = 0 THEN
+        RAISE EXCEPTION 'No inventory item is called %', v_line->>'ingredient';
+      ELSIF v_item_matches > 1 THEN
+        RAISE EXCEPTION 'More than one item is called %', v_line->>'ingredient';
+      END IF;
+
+      v_qty := (v_line->>'qty')::DECIMAL;
+      IF v_qty IS NULL OR v_qty <= 0 THEN
+        RAISE EXCEPTION 'Every ingredient of % needs a quantity above 0', v_name;
+      END IF;
+
+      IF v_matches = 1 THEN
+        IF EXISTS (SELECT 1 FROM product_ingredients WHERE product_id = v_product_id AND item_id = v_item_id) THEN
+          RAISE EXCEPTION '% is listed twice in the recipe for %', v_line->>'ingredient', v_name;
+        END IF;
+        INSERT INTO product_ingredients (product_id, item_id, qty, unit_id)
+        VALUES (v_product_id, v_item_id, v_qty, (v_line->>'unit_id')::UUID);
+      ELSE
+        IF EXISTS (SELECT 1 FROM prep_ingredients WHERE prep_item_id = v_prep_id AND item_id = v_item_id) THEN
+          RAISE EXCEPTION '% is listed twice in the recipe for %', v_line->>'ingredient', v_name;
+        END IF;
+        INSERT INTO prep_ingredients (prep_item_id, item_id, qty, unit_id)
+        VALUES (v_prep_id, v_item_id, v_qty, (v_line->>'unit_id')::UUID);
+      END IF;
+    END LOOP;
+
+    v_recipes := v_recipes + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'items_created', v_items_created,
+    'items_updated', v_items_updated,
+    'products_created', v_products_created,
+    'products_updated', v_products_updated,
+    'recipes_replaced', v_recipes
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+-- Void a whole transaction: cancels every line and returns each deducted
+-- ingredient to stock. Lines recorded before sale_deductions existed fall back
+-- to the product's current recipe. The cashier who rang up the sale may cancel
+-- it within the one-minute window after checkout; anyone else, and later
+-- voids, need the void_sales permission. voided_by is taken
+-- from the signed-in profile; p_voided_by is only used without one.
+CREATE OR REPLACE FUNCTION void_transaction(p_transaction_id UUID, p_reason TEXT, p_voided_by TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  v_role TEXT := current_user_role();
+  v_transaction_number TEXT;
+  v_created_at TIMESTAMP WITH TIME ZONE;
+  v_cashier_ids UUID[];
+  v_total_lines INTEGER;
+  v_line_count INTEGER;
+  v_restoration RECORD;
+  v_restored JSONB;
+BEGIN
+  IF v_role IS NULL THEN
+    RAISE EXCEPTION 'Sign in to void transactions' USING ERRCODE = '42501';
+  END IF;
+
+  IF COALESCE(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to void a transaction';
+  END IF;
+
+  PERFORM 1
+  FROM sales
+  WHERE COALESCE(transaction_id, id) = p_transaction_id
+  ORDER BY id
+  FOR UPDATE;
+
+  SELECT MAX(transaction_number), MIN(created_at), array_agg(DISTINCT user_id),
+    COUNT(*), COUNT(*) FILTER (WHERE NOT COALESCE(cancelled, FALSE))
+  INTO v_transaction_number, v_created_at, v_cashier_ids, v_total_lines, v_line_count
+  FROM sales
+  WHERE COALESCE(transaction_id, id) = p_transaction_id;
+
+  IF v_total_lines = 0 THEN
+    RAISE EXCEPTION 'Transaction not found';
+  END IF;
+
+  IF v_line_count = 0 THEN
+    RAISE EXCEPTION 'Transaction % is already voided', COALESCE(v_transaction_number, p_transaction_id::TEXT);
+  END IF;
+
+  IF NOT has_permission('void_sales') THEN
+    IF v_cashier_ids IS DISTINCT FROM ARRAY[auth.uid()] THEN
+      RAISE EXCEPTION 'You do not have permission to void another cashier''s sale' USING ERRCODE = '42501';
+    END IF;
+
+    IF v_created_at < NOW() - INTERVAL '1 minute' THEN
+      RAISE EXCEPTION 'You do not have permission to void sales after the cancel window' USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  -- value is what the sale took out, so the stock goes back at that cost
+  CREATE TEMP TABLE void_restorations ON COMMIT DROP AS
+  SELECT r.item_id, SUM(r.qty) AS qty, SUM(r.value) AS value
+  FROM (
+    SELECT d.item_id, d.qty, COALESCE(d.cost, d.qty * unit_storage_factor(p.unit_type) * p.cost) AS value
+    FROM sales s
+    JOIN sale_deductions d ON d.sale_id = s.id
+    JOIN products p ON p.id = d.item_id
+    WHERE COALESCE(s.transaction_id, s.id) = p_transaction_id
+      AND NOT COALESCE(s.cancelled, FALSE)
+    UNION ALL
+    SELECT pi.item_id, pi.qty * s.qty / unit_storage_factor(p.unit_type), pi.qty * s.qty * p.cost
+    FROM sales s
+    JOIN product_ingredients pi ON pi.product_id = s.product_id
+    JOIN products p ON p.id = pi.item_id
+    WHERE COALESCE(s.transaction_id, s.id) = p_transaction_id
+      AND NOT COALESCE(s.cancelled, FALSE)
+      AND NOT EXISTS (SELECT 1 FROM sale_deductions d WHERE d.sale_id = s.id)
+  ) r
+  GROUP BY r.item_id;
+
+  PERFORM 1
+  FROM products
+  WHERE id IN (SELECT item_id FROM void_restorations)
+  ORDER BY id
+  FOR UPDATE;
+
+  PERFORM set_stock_movement('void', p_transaction_id, trim(p_reason));
+
+  FOR v_restoration IN
+    SELECT vr.item_id, vr.qty, vr.value, unit_storage_factor(p.unit_type) AS factor
+    FROM void_restorations vr
+    JOIN products p ON p.id = vr.item_id
+    WHERE vr.qty > 0
+  LOOP
+    PERFORM set_stock_layer_cost(v_restoration.value / (v_restoration.qty * v_restoration.factor));
+
+    UPDATE products
+    SET cost = weighted_average_cost(qty, cost, v_restoration.factor, v_restoration.qty, v_restoration.value),
+      qty = qty + v_restoration.qty
+    WHERE id = v_restoration.item_id;
+  END LOOP;
+
+  SELECT jsonb_agg(jsonb_build_object('item_id', p.id, 'name', p.name, 'unit_type', p.unit_type, 'qty', vr.qty) ORDER BY p.name)
+  INTO v_restored
+  FROM void_restorations vr
+  JOIN products p ON p.id = vr.item_id;
+
+  DROP TABLE void_restorations;
+
+  UPDATE sales
+  SET cancelled = TRUE,
+    cancelled_at = NOW(),
+    void_reason = trim(p_reason),
+    voided_by = COALESCE((SELECT username FROM profiles WHERE id = auth.uid()), p_voided_by)
+  WHERE COALESCE(transaction_id, id) = p_transaction_id
+    AND NOT COALESCE(cancelled, FALSE);
+
+  UPDATE sale_payments
+  SET cancelled = TRUE
+  WHERE transaction_id = p_transaction_id;
+
+  RETURN jsonb_build_object(
+    'transaction_id', p_transaction_id,
+    'transaction_number', v_transaction_number,
+    'lines', v_line_count,
+    'restored', COALESCE(v_restored, '[]'::JSONB)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+-- Create a profile for every new Auth user. The very first account becomes the
+-- owner; later accounts take their role from app_metadata (only settable with
+-- the service role key), defaulting to cashier. A store left without an owner
+-- gets one by updating profiles.role in the SQL editor, never from a signup.
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_username TEXT;
+  v_role TEXT;
+BEGIN
+  v_username := COALESCE(NULLIF(trim(NEW.raw_user_meta_data->>'username'), ''), split_part(NEW.email, '@', 1));
+  IF EXISTS (SELECT 1 FROM profiles WHERE lower(username) = lower(v_username)) THEN
+    v_username := v_username || '-' || substr(NEW.id::TEXT, 1, 4);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM profiles) THEN
+    v_role := 'owner';
+  ELSIF NEW.raw_app_meta_data->>'role' IN ('owner', 'manager', 'cashier') THEN
+    v_role := NEW.raw_app_meta_data->>'role';
+  ELSE
+    v_role := 'cashier';
+  END IF;
+
+  INSERT INTO profiles (id, username, email, role)
+  VALUES (NEW.id, v_username, NEW.email, v_role);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+-- Role of the signed-in user; NULL when signed out or disabled
+CREATE OR REPLACE FUNCTION current_user_role()
+RETURNS TEXT AS $$
+  SELECT role FROM profiles WHERE id = auth.uid() AND is_active
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public, pg_temp;
+
+-- Whether the signed-in user holds a permission: owners hold all of them,
+-- other roles whatever is enabled for them in role_permissions
+CREATE OR REPLACE FUNCTION has_permission(p_permission TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(
+    current_user_role() = 'owner'
+    OR EXISTS (
+      SELECT 1 FROM role_permissions rp
+      WHERE rp.role = current_user_role() AND rp.permission = p_permission AND rp.enabled
+    ),
+    FALSE
+  )
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public, pg_temp;
+
+-- Archive whole transactions (archive_reports permission): each sale row is
+-- copied into sales_archive with who archived it and its transaction's
+-- tenders, then removed from sales (and the tenders from sale_payments).
+-- This is the only way sale rows leave the live table.
+CREATE OR REPLACE FUNCTION archive_sales(p_transaction_ids UUID[])
+RETURNS INTEGER AS $$
+DECLARE
+  v_archived INTEGER;
+BEGIN
+  IF NOT has_permission('archive_reports') THEN
+    RAISE EXCEPTION 'You do not have permission to archive reports' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO sales_archive (id, transaction_id, transaction_number, sale, payments, archived_by, archived_by_name)
+  SELECT s.id, COALESCE(s.transaction_id, s.id), s.transaction_number, to_jsonb(s),
+    (
+      SELECT jsonb_agg(to_jsonb(sp) ORDER BY sp.created_at, sp.id)
+      FROM sale_payments sp
+      WHERE sp.transaction_id = COALESCE(s.transaction_id, s.id)
+    ),
+    auth.uid(),
+    (SELECT username FROM profiles WHERE id = auth.uid())
+  FROM sales s
+  WHERE COALESCE(s.transaction_id, s.id) = ANY(p_transaction_ids)
+  ON CONFLICT (id) DO NOTHING;
+
+  DELETE FROM sale_payments
+  WHERE transaction_id = ANY(p_transaction_ids);
+
+  DELETE FROM sales
+  WHERE COALESCE(transaction_id, id) = ANY(p_transaction_ids);
+
+  GET DIAGNOSTICS v_archived = ROW_COUNT;
+  RETURN v_archived;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+-- Move a transaction's Report Date (edit_report_date permission)
+CREATE OR REPLACE FUNCTION set_report_date(p_transaction_id UUID, p_earnings_datetime TIMESTAMP WITH TIME ZONE)
+RETURNS INTEGER AS $$
+DECLARE
+  v_updated INTEGER;
+BEGIN
+  IF NOT has_permission('edit_report_date') THEN
+    RAISE EXCEPTION 'You do not have permission to edit the Report Date' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE sales
+  SET earnings_datetime = p_earnings_datetime
+  WHERE COALESCE(transaction_id, id) = p_transaction_id;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  IF v_updated = 0 THEN
+    RAISE EXCEPTION 'Transaction not found';
+  END IF;
+  RETURN v_updated;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+-- Numbers are only issued from inside process_checkout
+REVOKE EXECUTE ON FUNCTION next_transaction_number(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_new_user();
+
+-- Add triggers for updated_at
+DROP TRIGGER IF EXISTS update_products_updated_at ON products;
+CREATE TRIGGER update_products_updated_at
+  BEFORE UPDATE ON products
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_finished_products_updated_at ON finished_products;
+CREATE TRIGGER update_finished_products_updated_at
+  BEFORE UPDATE ON finished_products
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_settings_updated_at ON settings;
+CREATE TRIGGER update_settings_updated_at
+  BEFORE UPDATE ON settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_opex_updated_at ON opex;
+CREATE TRIGGER update_opex_updated_at
+  BEFORE UPDATE ON opex
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_opex_settings_updated_at ON opex_settings;
+CREATE TRIGGER update_opex_settings_updated_at
+  BEFORE UPDATE ON opex_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_role_permissions_updated_at ON role_permissions;
+CREATE TRIGGER update_role_permissions_updated_at
+  BEFORE UPDATE ON role_permissions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_profiles_updated_at ON profiles;
+CREATE TRIGGER update_profiles_updated_at
+  BEFORE UPDATE ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS set_earnings_datetime_trigger ON sales;
+CREATE TRIGGER set_earnings_datetime_trigger
+  BEFORE INSERT ON sales
+  FOR EACH ROW
+  EXECUTE FUNCTION set_earnings_datetime();
+
+DROP TRIGGER IF EXISTS check_bundle_components ON bundle_components;
+CREATE TRIGGER check_bundle_components
+  BEFORE INSERT OR UPDATE ON bundle_components
+  FOR EACH ROW
+  EXECUTE FUNCTION check_bundle_component();
+
+DROP TRIGGER IF EXISTS check_bundle_substitutes ON bundle_substitutes;
+CREATE TRIGGER check_bundle_substitutes
+  BEFORE INSERT OR UPDATE ON bundle_substitutes
+  FOR EACH ROW
+  EXECUTE FUNCTION check_bundle_component();
+
+DROP TRIGGER IF EXISTS check_prep_ingredients ON prep_ingredients;
+CREATE TRIGGER check_prep_ingredients
+  BEFORE INSERT OR UPDATE ON prep_ingredients
+  FOR EACH ROW
+  EXECUTE FUNCTION check_prep_ingredient();
+
+DROP TRIGGER IF EXISTS update_suppliers_updated_at ON suppliers;
+CREATE TRIGGER update_suppliers_updated_at
+  BEFORE UPDATE ON suppliers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_purchase_orders_updated_at ON purchase_orders;
+CREATE TRIGGER update_purchase_orders_updated_at
+  BEFORE UPDATE ON purchase_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS log_stock_movements ON products;
+CREATE TRIGGER log_stock_movements
+  AFTER INSERT OR UPDATE OF qty ON products
+  FOR EACH ROW
+  EXECUTE FUNCTION log_stock_movement();
+
+-- Cost changes can come from log_stock_movement, so products compares the
+-- values rather than listing the column
+DROP TRIGGER IF EXISTS track_product_costs ON products;
+CREATE TRIGGER track_product_costs
+  AFTER UPDATE ON products
+  FOR EACH ROW
+  WHEN (OLD.cost IS DISTINCT FROM NEW.cost)
+  EXECUTE FUNCTION track_product_costs();
+
+DROP TRIGGER IF EXISTS track_product_costs ON finished_products;
+CREATE TRIGGER track_product_costs
+  AFTER UPDATE OF selling_price, vat_status ON finished_products
+  FOR EACH ROW
+  EXECUTE FUNCTION track_product_costs();
+
+DROP TRIGGER IF EXISTS track_product_costs ON product_ingredients;
+CREATE TRIGGER track_product_costs
+  AFTER INSERT OR UPDATE OR DELETE ON product_ingredients
+  FOR EACH ROW
+  EXECUTE FUNCTION track_product_costs();
+
+DROP TRIGGER IF EXISTS track_product_costs ON bundle_components;
+CREATE TRIGGER track_product_costs
+  AFTER INSERT OR UPDATE OR DELETE ON bundle_components
+  FOR EACH ROW
+  EXECUTE FUNCTION track_product_costs();
+
+-- ============================================
+-- ROW LEVEL SECURITY (RLS)
+-- ============================================
+
+-- Enable RLS on all tables
+ALTER TABLE products ENABLE ROW LEVEL SECURITY;
+ALTER TABLE finished_products ENABLE ROW LEVEL SECURITY;
+ALTER TABLE product_ingredients ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sales ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payment_methods ENABLE ROW LEVEL SECURITY;
+ALTER TABLE customer_types ENABLE ROW LEVEL SECURITY;
+ALTER TABLE settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE opex ENABLE ROW LEVEL SECURITY;
+ALTER TABLE opex_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sale_deductions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE transaction_counters ENABLE ROW LEVEL SECURITY;
+ALTER TABLE transaction_numbers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sales_archive ENABLE ROW LEVEL SECURITY;
+ALTER TABLE role_permissions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE promotions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sale_payments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE product_variants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE modifier_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE modifier_options ENABLE ROW LEVEL SECURITY;
+ALTER TABLE option_ingredients ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bundle_components ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bundle_substitutes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE prep_ingredients ENABLE ROW LEVEL SECURITY;
+ALTER TABLE production_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_movements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cost_layers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_lots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_lot_consumptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE waste_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_counts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_count_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE units_of_measure ENABLE ROW LEVEL SECURITY;
+ALTER TABLE suppliers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_order_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE goods_receipts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE goods_receipt_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE product_cost_history ENABLE ROW LEVEL SECURITY;
+
+-- Policies follow the signed-in user's role (current_user_role()) and its
+-- permissions (has_permission()). Signed-out requests and disabled accounts
+-- match no policy. Checkout, voids, archiving and Report Date changes go
+-- through SECURITY DEFINER functions that check permissions themselves, so
+-- stock, sales and the number registry need no direct write access from the app.
+
+-- Remove policies from earlier installs (open access, then owner-only)
+DROP POLICY IF EXISTS "Allow all operations on products" ON products;
+DROP POLICY IF EXISTS "Allow all operations on finished_products" ON finished_products;
+DROP POLICY IF EXISTS "Allow all operations on product_ingredients" ON product_ingredients;
+DROP POLICY IF EXISTS "Allow all operations on sales" ON sales;
+DROP POLICY IF EXISTS "Allow all operations on payment_methods" ON payment_methods;
+DROP POLICY IF EXISTS "Allow all operations on customer_types" ON customer_types;
+DROP POLICY IF EXISTS "Allow all operations on settings" ON settings;
+DROP POLICY IF EXISTS "Allow all operations on opex" ON opex;
 DROP POLICY IF EXISTS "Allow all operations on opex_settings" ON opex_settings;
-CREATE POLICY "Allow all operations on opex_settings" ON opex_settings
-  FOR ALL USING (true) WITH CHECK (true);
+DROP POLICY IF EXISTS "Allow all operations on sale_deductions" ON sale_deductions;
+DROP POLICY IF EXISTS "Allow all operations on transaction_counters" ON transaction_counters;
+DROP POLICY IF EXISTS "Allow all operations on transaction_numbers" ON transaction_numbers;
+DROP POLICY IF EXISTS "Owners can manage products" ON products;
+DROP POLICY IF EXISTS "Owners can manage finished_products" ON finished_products;
+DROP POLICY IF EXISTS "Owners can manage product_ingredients" ON product_ingredients;
+DROP POLICY IF EXISTS "Owners can manage opex" ON opex;
+DROP POLICY IF EXISTS "Owners can manage opex_settings" ON opex_settings;
+DROP POLICY IF EXISTS "Owners can read sale_deductions" ON sale_deductions;
+DROP POLICY IF EXISTS "Owners can read transaction_counters" ON transaction_counters;
+DROP POLICY IF EXISTS "Owners can read transaction_numbers" ON transaction_numbers;
+DROP POLICY IF EXISTS "Owners can read sales" ON sales;
+
+-- Catalog and configuration: every staff member reads them
+DROP POLICY IF EXISTS "Staff can read products" ON products;
+CREATE POLICY "Staff can read products" ON products
+  FOR SELECT USING (current_user_role() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Staff can read finished_products" ON finished_products;
+CREATE POLICY "Staff can read finished_products" ON finished_products
+  FOR SELECT USING (current_user_role() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Staff can read product_ingredients" ON product_ingredients;
+CREATE POLICY "Staff can read product_ingredients" ON product_ingredients
+  FOR SELECT USING (current_user_role() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Staff can read payment_methods" ON payment_methods;
+CREATE POLICY "Staff can read payment_methods" ON payment_methods
+  FOR SELECT USING (current_user_role() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Staff can read customer_types" ON customer_types;
+CREATE POLICY "Staff can read customer_types" ON customer_types
+  FOR SELECT USING (current_user_role() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Staff can read settings" ON settings;
+CREATE POLICY "Staff can read settings" ON settings
+  FOR SELECT USING (current_user_role() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Staff can read role_permissions" ON role_permissions;
+CREATE POLICY "Staff can read role_permissions" ON role_permissions
+  FOR SELECT USING (current_user_role() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Staff can read promotions" ON promotions;
+CREATE POLICY "Staff can read promotions" ON promotions
+  FOR SELECT USING (current_user_role() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Staff can read product_variants" ON product_variants;
+CREATE POLICY "Staff can read product_variants" ON product_variants
+  FOR SELECT USING (current_user_role() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Staff can read modifier_groups" ON modifier_groups;
+CREATE POLICY "Staff can read modifier_groups" ON modifier_groups
+  FOR SELECT USING (current_user_role() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Staff can read modifier_options" ON modifier_options;
+CREATE POLICY "Staff can read modifier_options" ON modifier_options
+  FOR SELECT USING (current_user_role() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Staff can read option_ingredients" ON option_ingredients;
+CREATE POLICY "Staff can read option_ingredients" ON option_ingredients
+  FOR SELECT USING (current_user_role() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Staff can read bundle_components" ON bundle_components;
+CREATE POLICY "Staff can read bundle_components" ON bundle_components
+  FOR SELECT USING (current_user_role() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Staff can read bundle_substitutes" ON bundle_substitutes;
+CREATE POLICY "Staff can read bundle_substitutes" ON bundle_substitutes
+  FOR SELECT USING (current_user_role() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Staff can read prep_ingredients" ON prep_ingredients;
+CREATE POLICY "Staff can read prep_ingredients" ON prep_ingredients
+  FOR SELECT USING (current_user_role() IS NOT NULL);
+
+-- Production runs are only written by produce_prep
+DROP POLICY IF EXISTS "Staff can read production_runs" ON production_runs;
+CREATE POLICY "Staff can read production_runs" ON production_runs
+  FOR SELECT USING (current_user_role() IS NOT NULL);
+
+-- Stock movements are only written by the log_stock_movements trigger
+DROP POLICY IF EXISTS "Staff can read stock_movements" ON stock_movements;
+CREATE POLICY "Staff can read stock_movements" ON stock_movements
+  FOR SELECT USING (current_user_role() IS NOT NULL);
+
+-- Cost layers are only written by the log_stock_movements trigger
+DROP POLICY IF EXISTS "Staff can read cost_layers" ON cost_layers;
+CREATE POLICY "Staff can read cost_layers" ON cost_layers
+  FOR SELECT USING (current_user_role() IS NOT NULL);
+
+-- Lots are only written by the log_stock_movements trigger
+DROP POLICY IF EXISTS "Staff can read stock_lots" ON stock_lots;
+CREATE POLICY "Staff can read stock_lots" ON stock_lots
+  FOR SELECT USING (current_user_role() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Staff can read stock_lot_consumptions" ON stock_lot_consumptions;
+CREATE POLICY "Staff can read stock_lot_consumptions" ON stock_lot_consumptions
+  FOR SELECT USING (current_user_role() IS NOT NULL);
+
+-- Waste is only written by log_waste and expire_stock_lots
+DROP POLICY IF EXISTS "Staff can read waste_entries" ON waste_entries;
+CREATE POLICY "Staff can read waste_entries" ON waste_entries
+  FOR SELECT USING (current_user_role() IS NOT NULL);
+
+-- Cost history is only written by record_product_costs
+DROP POLICY IF EXISTS "Staff can read product_cost_history" ON product_cost_history;
+CREATE POLICY "Staff can read product_cost_history" ON product_cost_history
+  FOR SELECT USING (current_user_role() IS NOT NULL);
+
+-- Stock counts are only written by the stock count functions
+DROP POLICY IF EXISTS "Staff can read stock_counts" ON stock_counts;
+CREATE POLICY "Staff can read stock_counts" ON stock_counts
+  FOR SELECT USING (current_user_role() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Staff can read stock_count_lines" ON stock_count_lines;
+CREATE POLICY "Staff can read stock_count_lines" ON stock_count_lines
+  FOR SELECT USING (current_user_role() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Staff can read units_of_measure" ON units_of_measure;
+CREATE POLICY "Staff can read units_of_measure" ON units_of_measure
+  FOR SELECT USING (current_user_role() IS NOT NULL);
+
+-- Purchasing is for staff with manage_inventory; deliveries are only written by
+-- receive_purchase_order
+DROP POLICY IF EXISTS "Staff with manage_inventory can manage suppliers" ON suppliers;
+CREATE POLICY "Staff with manage_inventory can manage suppliers" ON suppliers
+  FOR ALL USING (has_permission('manage_inventory')) WITH CHECK (has_permission('manage_inventory'));
+
+DROP POLICY IF EXISTS "Staff with manage_inventory can manage purchase_orders" ON purchase_orders;
+CREATE POLICY "Staff with manage_inventory can manage purchase_orders" ON purchase_orders
+  FOR ALL USING (has_permission('manage_inventory')) WITH CHECK (has_permission('manage_inventory'));
+
+DROP POLICY IF EXISTS "Staff with manage_inventory can manage purchase_order_lines" ON purchase_order_lines;
+CREATE POLICY "Staff with manage_inventory can manage purchase_order_lines" ON purchase_order_lines
+  FOR ALL USING (has_permission('manage_inventory')) WITH CHECK (has_permission('manage_inventory'));
+
+DROP POLICY IF EXISTS "Staff with manage_inventory can read goods_receipts" ON goods_receipts;
+CREATE POLICY "Staff with manage_inventory can read goods_receipts" ON goods_receipts
+  FOR SELECT USING (has_permission('manage_inventory'));
+
+DROP POLICY IF EXISTS "Staff with manage_inventory can read goods_receipt_lines" ON goods_receipt_lines;
+CREATE POLICY "Staff with manage_inventory can read goods_receipt_lines" ON goods_receipt_lines
+  FOR SELECT USING (has_permission('manage_inventory'));
+
+-- Inventory items need manage_inventory; products and recipes need edit_recipes
+DROP POLICY IF EXISTS "Staff with manage_inventory can edit products" ON products;
+CREATE POLICY "Staff with manage_inventory can edit products" ON products
+  FOR ALL USING (has_permission('manage_inventory')) WITH CHECK (has_permission('manage_inventory'));
+
+DROP POLICY IF EXISTS "Staff with edit_recipes can edit finished_products" ON finished_products;
+CREATE POLICY "Staff with edit_recipes can edit finished_products" ON finished_products
+  FOR ALL USING (has_permission('edit_recipes')) WITH CHECK (has_permission('edit_recipes'));
+
+DROP POLICY IF EXISTS "Staff with edit_recipes can edit product_ingredients" ON product_ingredients;
+CREATE POLICY "Staff with edit_recipes can edit product_ingredients" ON product_ingredients
+  FOR ALL USING (has_permission('edit_recipes')) WITH CHECK (has_permission('edit_recipes'));
+
+DROP POLICY IF EXISTS "Staff with edit_recipes can edit product_variants" ON product_variants;
+CREATE POLICY "Staff with edit_recipes can edit product_variants" ON product_variants
+  FOR ALL USING (has_permission('edit_recipes')) WITH CHECK (has_permission('edit_recipes'));
+
+DROP POLICY IF EXISTS "Staff with edit_recipes can edit modifier_groups" ON modifier_groups;
+CREATE POLICY "Staff with edit_recipes can edit modifier_groups" ON modifier_groups
+  FOR ALL USING (has_permission('edit_recipes')) WITH CHECK (has_permission('edit_recipes'));
+
+DROP POLICY IF EXISTS "Staff with edit_recipes can edit modifier_options" ON modifier_options;
+CREATE POLICY "Staff with edit_recipes can edit modifier_options" ON modifier_options
+  FOR ALL USING (has_permission('edit_recipes')) WITH CHECK (has_permission('edit_recipes'));
+
+DROP POLICY IF EXISTS "Staff with edit_recipes can edit option_ingredients" ON option_ingredients;
+CREATE POLICY "Staff with edit_recipes can edit option_ingredients" ON option_ingredients
+  FOR ALL USING (has_permission('edit_recipes')) WITH CHECK (has_permission('edit_recipes'));
+
+DROP POLICY IF EXISTS "Staff with edit_recipes can edit bundle_components" ON bundle_components;
+CREATE POLICY "Staff with edit_recipes can edit bundle_components" ON bundle_components
+  FOR ALL USING (has_permission('edit_recipes')) WITH CHECK (has_permission('edit_recipes'));
+
+DROP POLICY IF EXISTS "Staff with edit_recipes can edit bundle_substitutes" ON bundle_substitutes;
+CREATE POLICY "Staff with edit_recipes can edit bundle_substitutes" ON bundle_substitutes
+  FOR ALL USING (has_permission('edit_recipes')) WITH CHECK (has_permission('edit_recipes'));
+
+DROP POLICY IF EXISTS "Staff with edit_recipes can edit prep_ingredients" ON prep_ingredients;
+CREATE POLICY "Staff with edit_recipes can edit prep_ingredients" ON prep_ingredients
+  FOR ALL USING (has_permission('edit_recipes')) WITH CHECK (has_permission('edit_recipes'));
+
+-- Purchase units belong with inventory, recipe units with recipes
+DROP POLICY IF EXISTS "Staff can edit units_of_measure" ON units_of_measure;
+CREATE POLICY "Staff can edit units_of_measure" ON units_of_measure
+  FOR ALL USING (has_permission(CASE kind WHEN 'purchase' THEN 'manage_inventory' ELSE 'edit_recipes' END))
+  WITH CHECK (has_permission(CASE kind WHEN 'purchase' THEN 'manage_inventory' ELSE 'edit_recipes' END));
+
+-- Payment methods, customer types, settings, permissions and promotions: owners only
+DROP POLICY IF EXISTS "Owners can manage payment_methods" ON payment_methods;
+CREATE POLICY "Owners can manage payment_methods" ON payment_methods
+  FOR ALL USING (current_user_role() = 'owner') WITH CHECK (current_user_role() = 'owner');
+
+DROP POLICY IF EXISTS "Owners can manage customer_types" ON customer_types;
+CREATE POLICY "Owners can manage customer_types" ON customer_types
+  FOR ALL USING (current_user_role() = 'owner') WITH CHECK (current_user_role() = 'owner');
+
+DROP POLICY IF EXISTS "Owners can manage settings" ON settings;
+CREATE POLICY "Owners can manage settings" ON settings
+  FOR ALL USING (current_user_role() = 'owner') WITH CHECK (current_user_role() = 'owner');
+
+DROP POLICY IF EXISTS "Owners can manage role_permissions" ON role_permissions;
+CREATE POLICY "Owners can manage role_permissions" ON role_permissions
+  FOR ALL USING (current_user_role() = 'owner') WITH CHECK (current_user_role() = 'owner');
+
+DROP POLICY IF EXISTS "Owners can manage promotions" ON promotions;
+CREATE POLICY "Owners can manage promotions" ON promotions
+  FOR ALL USING (current_user_role() = 'owner') WITH CHECK (current_user_role() = 'owner');
+
+-- Sales: cashiers record them through process_checkout. Reports and Earnings
+-- read them; only owners correct payment, customer and order type directly
+-- (Report Date goes through set_report_date). There is no INSERT or DELETE
+-- policy: rows only leave through archive_sales.
+DROP POLICY IF EXISTS "Staff with report access can read sales" ON sales;
+CREATE POLICY "Staff with report access can read sales" ON sales
+  FOR SELECT USING (has_permission('view_reports') OR has_permission('view_earnings'));
+
+DROP POLICY IF EXISTS "Owners can update sales" ON sales;
+CREATE POLICY "Owners can update sales" ON sales
+  FOR UPDATE USING (current_user_role() = 'owner') WITH CHECK (current_user_role() = 'owner');
+
+-- Tenders follow the sales they pay for; owners correct a single tender's method
+DROP POLICY IF EXISTS "Staff with report access can read sale_payments" ON sale_payments;
+CREATE POLICY "Staff with report access can read sale_payments" ON sale_payments
+  FOR SELECT USING (has_permission('view_reports') OR has_permission('view_earnings'));
+
+DROP POLICY IF EXISTS "Owners can update sale_payments" ON sale_payments;
+CREATE POLICY "Owners can update sale_payments" ON sale_payments
+  FOR UPDATE USING (current_user_role() = 'owner') WITH CHECK (current_user_role() = 'owner');
+
+-- OPEX: read for reports and earnings (break-even), edited with manage_opex
+DROP POLICY IF EXISTS "Staff with report access can read opex" ON opex;
+CREATE POLICY "Staff with report access can read opex" ON opex
+  FOR SELECT USING (has_permission('view_reports') OR has_permission('view_earnings') OR has_permission('manage_opex'));
+
+DROP POLICY IF EXISTS "Staff with manage_opex can edit opex" ON opex;
+CREATE POLICY "Staff with manage_opex can edit opex" ON opex
+  FOR ALL USING (has_permission('manage_opex')) WITH CHECK (has_permission('manage_opex'));
+
+DROP POLICY IF EXISTS "Staff with report access can read opex_settings" ON opex_settings;
+CREATE POLICY "Staff with report access can read opex_settings" ON opex_settings
+  FOR SELECT USING (has_permission('view_reports') OR has_permission('view_earnings') OR has_permission('manage_opex'));
+
+DROP POLICY IF EXISTS "Staff with manage_opex can edit opex_settings" ON opex_settings;
+CREATE POLICY "Staff with manage_opex can edit opex_settings" ON opex_settings
+  FOR ALL USING (has_permission('manage_opex')) WITH CHECK (has_permission('manage_opex'));
+
+-- Audit tables written only by functions
+DROP POLICY IF EXISTS "Staff with view_reports can read sale_deductions" ON sale_deductions;
+CREATE POLICY "Staff with view_reports can read sale_deductions" ON sale_deductions
+  FOR SELECT USING (has_permission('view_reports'));
+
+DROP POLICY IF EXISTS "Staff with view_reports can read transaction_counters" ON transaction_counters;
+CREATE POLICY "Staff with view_reports can read transaction_counters" ON transaction_counters
+  FOR SELECT USING (has_permission('view_reports'));
+
+DROP POLICY IF EXISTS "Staff with view_reports can read transaction_numbers" ON transaction_numbers;
+CREATE POLICY "Staff with view_reports can read transaction_numbers" ON transaction_numbers
+  FOR SELECT USING (has_permission('view_reports'));
+
+DROP POLICY IF EXISTS "Owners can read sales_archive" ON sales_archive;
+CREATE POLICY "Owners can read sales_archive" ON sales_archive
+  FOR SELECT USING (current_user_role() = 'owner');
+
+-- Profiles are read-only to the app; accounts are managed through /api/users
+-- with the service role key, which bypasses RLS
+DROP POLICY IF EXISTS "Users can read their own profile" ON profiles;
+CREATE POLICY "Users can read their own profile" ON profiles
+  FOR SELECT USING (id = auth.uid() OR current_user_role() = 'owner');
 
 -- ============================================
 -- INDEXES
@@ -253,25 +3906,154 @@ CREATE INDEX IF NOT EXISTS idx_sales_earnings_datetime ON sales(earnings_datetim
 CREATE INDEX IF NOT EXISTS idx_products_name ON products(name);
 CREATE INDEX IF NOT EXISTS idx_product_ingredients_product_id ON product_ingredients(product_id);
 CREATE INDEX IF NOT EXISTS idx_product_ingredients_item_id ON product_ingredients(item_id);
+CREATE INDEX IF NOT EXISTS idx_sale_deductions_sale_id ON sale_deductions(sale_id);
+CREATE INDEX IF NOT EXISTS idx_transaction_numbers_transaction_id ON transaction_numbers(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_sales_archive_transaction_id ON sales_archive(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_promotions_product_id ON promotions(product_id);
+CREATE INDEX IF NOT EXISTS idx_sale_payments_transaction_id ON sale_payments(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_product_variants_product_id ON product_variants(product_id);
+CREATE INDEX IF NOT EXISTS idx_modifier_groups_product_id ON modifier_groups(product_id);
+CREATE INDEX IF NOT EXISTS idx_modifier_options_group_id ON modifier_options(group_id);
+CREATE INDEX IF NOT EXISTS idx_option_ingredients_variant_id ON option_ingredients(variant_id);
+CREATE INDEX IF NOT EXISTS idx_option_ingredients_modifier_option_id ON option_ingredients(modifier_option_id);
+CREATE INDEX IF NOT EXISTS idx_bundle_components_bundle_id ON bundle_components(bundle_id);
+CREATE INDEX IF NOT EXISTS idx_bundle_components_product_id ON bundle_components(product_id);
+CREATE INDEX IF NOT EXISTS idx_bundle_substitutes_component_id ON bundle_substitutes(component_id);
+CREATE INDEX IF NOT EXISTS idx_prep_ingredients_prep_item_id ON prep_ingredients(prep_item_id);
+CREATE INDEX IF NOT EXISTS idx_prep_ingredients_item_id ON prep_ingredients(item_id);
+CREATE INDEX IF NOT EXISTS idx_production_runs_item_id ON production_runs(item_id);
+CREATE INDEX IF NOT EXISTS idx_production_runs_created_at ON production_runs(created_at);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_item_id_created_at ON stock_movements(item_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_reference_id ON stock_movements(reference_id);
+CREATE INDEX IF NOT EXISTS idx_cost_layers_item_id_created_at ON cost_layers(item_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_stock_lots_item_id_expiry_date ON stock_lots(item_id, expiry_date);
+CREATE INDEX IF NOT EXISTS idx_stock_lots_expiry_date ON stock_lots(expiry_date) WHERE qty_remaining > 0;
+CREATE INDEX IF NOT EXISTS idx_stock_lot_consumptions_movement_id ON stock_lot_consumptions(movement_id);
+CREATE INDEX IF NOT EXISTS idx_waste_entries_created_at ON waste_entries(created_at);
+CREATE INDEX IF NOT EXISTS idx_stock_count_lines_count_id ON stock_count_lines(count_id);
+CREATE INDEX IF NOT EXISTS idx_stock_count_lines_item_id ON stock_count_lines(item_id);
+CREATE INDEX IF NOT EXISTS idx_units_of_measure_item_id ON units_of_measure(item_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_supplier_id ON purchase_orders(supplier_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_status ON purchase_orders(status);
+CREATE INDEX IF NOT EXISTS idx_purchase_order_lines_purchase_order_id ON purchase_order_lines(purchase_order_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_order_lines_item_id ON purchase_order_lines(item_id);
+CREATE INDEX IF NOT EXISTS idx_goods_receipts_purchase_order_id ON goods_receipts(purchase_order_id);
+CREATE INDEX IF NOT EXISTS idx_goods_receipt_lines_receipt_id ON goods_receipt_lines(receipt_id);
+CREATE INDEX IF NOT EXISTS idx_product_cost_history_product_id_recorded_at ON product_cost_history(product_id, recorded_at);
 
 -- ============================================
 -- DEFAULT DATA
 -- ============================================
 
 -- Insert default payment methods
-INSERT INTO payment_methods (name, color) VALUES
-  ('Cash', '#22c55e'),
-  ('Card', '#3b82f6'),
-  ('GCash', '#0ea5e9')
+INSERT INTO payment_methods (name, color, is_cash) VALUES
+  ('Cash', '#22c55e', true),
+  ('Card', '#3b82f6', false),
+  ('GCash', '#0ea5e9', false)
 ON CONFLICT (name) DO NOTHING;
 
--- Insert default customer types
-INSERT INTO customer_types (name, color) VALUES
-  ('Regular', '#B3855D'),
-  ('Student', '#f59e0b'),
-  ('Senior', '#ec4899')
+-- Insert default customer types (Senior and PWD get the statutory discount)
+INSERT INTO customer_types (name, color, statutory_discount) VALUES
+  ('Regular', '#B3855D', false),
+  ('Student', '#f59e0b', false),
+  ('Senior', '#ec4899', true),
+  ('PWD', '#8b5cf6', true)
 ON CONFLICT (name) DO NOTHING;
 
+-- Insert default settings
+INSERT INTO settings (key, value) VALUES
+  ('transaction_number_format', '{YY}-{MM}-{SEQ}'),
+  ('timezone', 'Asia/Manila'),
+  ('vat_rate', '12'),
+  ('statutory_discount_rate', '20'),
+  ('receipt_store_name', 'Altu Greal'),
+  ('receipt_address', ''),
+  ('receipt_tin', ''),
+  ('receipt_footer', 'Thank you!'),
+  ('receipt_paper_width', '58'),
+  ('costing_method', 'weighted_average'),
+  ('expiry_warning_days', '3'),
+  ('target_food_cost_pct', '30')
+ON CONFLICT (key) DO NOTHING;
+
+-- Common units shared by every item of their type (factor in ml or g)
+INSERT INTO units_of_measure (unit_type, name, factor, kind)
+SELECT u.unit_type, u.name, u.factor, u.kind
+FROM (VALUES
+  ('volume', 'tsp', 5, 'recipe'),
+  ('volume', 'tbsp', 15, 'recipe'),
+  ('volume', 'shot', 30, 'recipe'),
+  ('volume', 'cup', 240, 'recipe'),
+  ('volume', 'gallon', 3785.41, 'purchase'),
+  ('weight', 'lb', 453.592, 'purchase')
+) AS u(unit_type, name, factor, kind)
+WHERE NOT EXISTS (
+  SELECT 1 FROM units_of_measure m
+  WHERE m.item_id IS NULL AND m.unit_type = u.unit_type AND lower(m.name) = u.name
+);
+
+-- Default permissions: managers run the floor, cashiers only sell
+INSERT INTO role_permissions (role, permission, enabled) VALUES
+  ('manager', 'view_reports', true),
+  ('manager', 'void_sales', true),
+  ('manager', 'edit_report_date', true),
+  ('manager', 'archive_reports', false),
+  ('manager', 'manage_inventory', true),
+  ('manager', 'edit_recipes', true),
+  ('manager', 'view_earnings', true),
+  ('manager', 'manage_opex', false),
+  ('manager', 'apply_discounts', true),
+  ('manager', 'log_waste', true),
+  ('manager', 'count_stock', true),
+  ('cashier', 'view_reports', false),
+  ('cashier', 'void_sales', false),
+  ('cashier', 'edit_report_date', false),
+  ('cashier', 'archive_reports', false),
+  ('cashier', 'manage_inventory', false),
+  ('cashier', 'edit_recipes', false),
+  ('cashier', 'view_earnings', false),
+  ('cashier', 'manage_opex', false),
+  ('cashier', 'apply_discounts', false),
+  ('cashier', 'log_waste', false),
+  ('cashier', 'count_stock', false)
+ON CONFLICT (role, permission) DO NOTHING;
+
+-- Seed counters and the number registry from sales recorded before counters existed
+INSERT INTO transaction_counters (scope, period, last_value)
+SELECT '', '20' || substr(transaction_number, 1, 2) || '-' || substr(transaction_number, 4, 2),
+  MAX(split_part(transaction_number, '-', 3)::INTEGER)
+FROM sales
+WHERE transaction_number ~ '^\d{2}-\d{2}-\d+$'
+GROUP BY 2
+ON CONFLICT (scope, period)
+DO UPDATE SET last_value = GREATEST(transaction_counters.last_value, EXCLUDED.last_value);
+
+INSERT INTO transaction_numbers (transaction_number, transaction_id, scope, period, seq, issued_at)
+SELECT DISTINCT ON (transaction_number)
+  transaction_number, COALESCE(transaction_id, id), '',
+  '20' || substr(transaction_number, 1, 2) || '-' || substr(transaction_number, 4, 2),
+  split_part(transaction_number, '-', 3)::INTEGER, created_at
+FROM sales
+WHERE transaction_number ~ '^\d{2}-\d{2}-\d+$'
+ORDER BY transaction_number, created_at
+ON CONFLICT DO NOTHING;
+
+-- One tender per transaction recorded before sale_payments existed
+INSERT INTO sale_payments (transaction_id, transaction_number, payment_method, amount, tendered, change_given, cancelled, created_at)
+SELECT COALESCE(s.transaction_id, s.id), MAX(s.transaction_number), MAX(s.payment_method), SUM(s.total),
+  GREATEST(COALESCE(MAX(s.customer_payment), 0), SUM(s.total)),
+  GREATEST(COALESCE(MAX(s.customer_payment), 0), SUM(s.total)) - SUM(s.total),
+  bool_and(COALESCE(s.cancelled, FALSE)), MIN(s.created_at)
+FROM sales s
+WHERE NOT EXISTS (SELECT 1 FROM sale_payments sp WHERE sp.transaction_id = COALESCE(s.transaction_id, s.id))
+GROUP BY COALESCE(s.transaction_id, s.id);
+
+-- Starting food cost of products that have no cost history yet
+SELECT record_product_costs(ARRAY(
+  SELECT fp.id FROM finished_products fp
+  WHERE NOT EXISTS (SELECT 1 FROM product_cost_history ph WHERE ph.product_id = fp.id)
+));
+
 -- Insert default OPEX settings
 INSERT INTO opex_settings (target_monthly_sales) 
 SELECT 100 WHERE NOT EXISTS (SELECT 1 FROM opex_settings);
@@ -288,14 +4070,14 @@ SELECT 100 WHERE NOT EXISTS (SELECT 1 FROM opex_settings);
 --    - Policy name: "Public read access"
 --    - Allowed operation: SELECT
 --    - Policy definition: true
--- 5. Add policy for authenticated upload:
---    - Policy name: "Allow uploads"
+-- 5. Add policy for uploads by inventory editors:
+--    - Policy name: "Inventory editors can upload"
 --    - Allowed operation: INSERT
---    - Policy definition: true
--- 6. Add policy for authenticated delete:
---    - Policy name: "Allow deletes"
+--    - Policy definition: public.has_permission('manage_inventory') OR public.has_permission('edit_recipes')
+-- 6. Add policy for owner deletes:
+--    - Policy name: "Inventory editors can delete"
 --    - Allowed operation: DELETE
---    - Policy definition: true
+--    - Policy definition: public.has_permission('manage_inventory') OR public.has_permission('edit_recipes')
 --
 -- ============================================
 
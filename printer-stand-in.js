@@ -0,0 +1,44 @@
+// Local stand-in for a network receipt printer.
+// Listens like an ESC/POS printer on port 9100, appends every receipt it
+// receives to a file and prints a plain-text preview.
+//
+// Usage: node printer-stand-in.js [port] [output file]
+// Then set RECEIPT_PRINTER=tcp://127.0.0.1:9100 in .env.local.
+const net = require('net');
+const fs = require('fs');
+
+const port = Number(process.argv[2]) || 9100;
+const outputFile = process.argv[3] || 'receipts.bin';
+
+// Drop ESC/POS commands so only the printed text is left
+function preview(buffer) {
+  const text = [];
+  for (let i = 0; i < buffer.length; i++) {
+    const byte = buffer[i];
+    if (byte === 0x1b) {
+      // ESC @ takes no argument; ESC a / E / d take one
+      i += buffer[i + 1] === 0x40 ? 1 : 2;
+    } else if (byte === 0x1d) {
+      // GS ! takes one argument; GS V 66 takes two
+      i += buffer[i + 1] === 0x56 ? 3 : 2;
+    } else if (byte === 0x0a || (byte >= 0x20 && byte < 0x7f)) {
+      text.push(String.fromCharCode(byte));
+    }
+  }
+  return text.join('');
+}
+
+const server = net.createServer((socket) => {
+  const chunks = [];
+  socket.on('data', (chunk) => chunks.push(chunk));
+  socket.on('end', () => {
+    const receipt = Buffer.concat(chunks);
+    fs.appendFileSync(outputFile, receipt);
+    console.log(`--- ${receipt.length} bytes from ${socket.remoteAddress} ---`);
+    console.log(preview(receipt));
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Printer stand-in listening on port ${port}, writing to ${outputFile}`);
+});
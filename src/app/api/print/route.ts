@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server'
+import net from 'net'
+import { appendFile } from 'fs/promises'
+import { fileURLToPath } from 'url'
+import { getStaffFromRequest } from '@/lib/supabaseAdmin'
+
+export const dynamic = 'force-dynamic'
+
+// Receipts are a few kilobytes; anything much larger is not a receipt
+const MAX_RECEIPT_BYTES = 64 * 1024
+const PRINTER_TIMEOUT_MS = 5000
+
+// Write raw bytes to a network printer (usually port 9100)
+function sendToTcp(host: string, port: number, data: Buffer): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const socket = net.connect({ host, port })
+    socket.setTimeout(PRINTER_TIMEOUT_MS, () => socket.destroy(new Error('Printer timed out')))
+    socket.once('error', reject)
+    socket.once('connect', () => socket.end(data, () => resolve()))
+  })
+}
+
+// Forward ESC/POS bytes to the printer in RECEIPT_PRINTER: tcp://host:port for
+// a network printer, or file:///path to append to a file (or a device such as
+// /dev/usb/lp0). Any signed-in staff member may print.
+export async function POST(request: Request) {
+  try {
+    const staff = await getStaffFromRequest(request)
+    if (!staff) {
+      return NextResponse.json({ error: 'Sign in to print receipts' }, { status: 403 })
+    }
+
+    const target = process.env.RECEIPT_PRINTER
+    if (!target) {
+      return NextResponse.json({ error: 'No receipt printer is configured (RECEIPT_PRINTER)' }, { status: 503 })
+    }
+
+    const body = (await request.json()) as { data?: string }
+    const data = Buffer.from(body.data ?? '', 'base64')
+    if (data.length === 0 || data.length > MAX_RECEIPT_BYTES) {
+      return NextResponse.json({ error: 'Invalid receipt data' }, { status: 400 })
+    }
+
+    const url = new URL(target)
+    if (url.protocol === 'tcp:') {
+      await sendToTcp(url.hostname, Number(url.port) || 9100, data)
+    } else if (url.protocol === 'file:') {
+      await appendFile(fileURLToPath(url), data)
+    } else {
+      return NextResponse.json({ error: 'RECEIPT_PRINTER must be a tcp:// or file:// URL' }, { status: 500 })
+    }
+
+    return NextResponse.json({ printed: data.length })
+  } catch (error) {
+    console.error('Error printing receipt:', error)
+    return NextResponse.json({ error: 'Could not reach the receipt printer' }, { status: 502 })
+  }
+}
@@ -0,0 +1,95 @@
+import { NextResponse } from 'next/server'
+import { getSupabaseAdmin, getOwnerFromRequest } from '@/lib/supabaseAdmin'
+import { USER_ROLES, MIN_PASSWORD_LENGTH, UserUpdateInput } from '@/lib/users'
+import { Profile } from '@/types/database'
+
+export const dynamic = 'force-dynamic'
+
+// Banned Auth users cannot sign in or refresh their session
+const DISABLED_BAN_DURATION = '876000h'
+
+// Change a staff account's role, enable/disable it, or set a new password (owner only)
+export async function PATCH(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const owner = await getOwnerFromRequest(request)
+    if (!owner) {
+      return NextResponse.json({ error: 'Only the owner can manage users' }, { status: 403 })
+    }
+
+    const body = (await request.json()) as UserUpdateInput
+    const admin = getSupabaseAdmin()
+
+    const { data: target } = await admin
+      .from('profiles')
+      .select('*')
+      .eq('id', params.id)
+      .maybeSingle()
+
+    if (!target) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    if (body.role !== undefined && !USER_ROLES.includes(body.role)) {
+      return NextResponse.json({ error: 'Invalid role' }, { status: 400 })
+    }
+    if (body.password !== undefined && body.password.length < MIN_PASSWORD_LENGTH) {
+      return NextResponse.json(
+        { error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` },
+        { status: 400 }
+      )
+    }
+
+    // Never leave the store without an active owner
+    const current = target as Profile
+    const losesOwner =
+      current.role === 'owner' && current.is_active &&
+      ((body.role !== undefined && body.role !== 'owner') || body.is_active === false)
+
+    if (losesOwner) {
+      const { count } = await admin
+        .from('profiles')
+        .select('id', { count: 'exact', head: true })
+        .eq('role', 'owner')
+        .eq('is_active', true)
+        .neq('id', current.id)
+
+      if (!count) {
+        return NextResponse.json({ error: 'There must be at least one active owner' }, { status: 400 })
+      }
+    }
+
+    const authChanges: Record<string, unknown> = {}
+    if (body.password !== undefined) authChanges.password = body.password
+    if (body.is_active !== undefined) authChanges.ban_duration = body.is_active ? 'none' : DISABLED_BAN_DURATION
+    if (body.role !== undefined) authChanges.app_metadata = { role: body.role }
+
+    if (Object.keys(authChanges).length > 0) {
+      const { error } = await admin.auth.admin.updateUserById(current.id, authChanges)
+      if (error) {
+        return NextResponse.json({ error: error.message }, { status: 400 })
+      }
+    }
+
+    const profileChanges: Partial<Profile> = {}
+    if (body.role !== undefined) profileChanges.role = body.role
+    if (body.is_active !== undefined) profileChanges.is_active = body.is_active
+
+    let updated = current
+    if (Object.keys(profileChanges).length > 0) {
+      const { data, error } = await admin
+        .from('profiles')
+        .update(profileChanges)
+        .eq('id', current.id)
+        .select()
+        .single()
+
+      if (error) throw error
+      updated = data as Profile
+    }
+
+    return NextResponse.json({ user: updated })
+  } catch (error) {
+    console.error('Error updating user:', error)
+    return NextResponse.json({ error: 'Failed to update user' }, { status: 500 })
+  }
+}
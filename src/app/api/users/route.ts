@@ -0,0 +1,92 @@
+import { NextResponse } from 'next/server'
+import { getSupabaseAdmin, getOwnerFromRequest } from '@/lib/supabaseAdmin'
+import { USER_ROLES, MIN_PASSWORD_LENGTH, NewUserInput } from '@/lib/users'
+
+export const dynamic = 'force-dynamic'
+
+// List every staff account (owner only)
+export async function GET(request: Request) {
+  try {
+    const owner = await getOwnerFromRequest(request)
+    if (!owner) {
+      return NextResponse.json({ error: 'Only the owner can manage users' }, { status: 403 })
+    }
+
+    const { data, error } = await getSupabaseAdmin()
+      .from('profiles')
+      .select('*')
+      .order('created_at')
+
+    if (error) throw error
+    return NextResponse.json({ users: data })
+  } catch (error) {
+    console.error('Error listing users:', error)
+    return NextResponse.json({ error: 'Failed to load users' }, { status: 500 })
+  }
+}
+
+// Create a staff account with a password set by the owner
+export async function POST(request: Request) {
+  try {
+    const owner = await getOwnerFromRequest(request)
+    if (!owner) {
+      return NextResponse.json({ error: 'Only the owner can manage users' }, { status: 403 })
+    }
+
+    const body = (await request.json()) as Partial<NewUserInput>
+    const email = body.email?.trim().toLowerCase() ?? ''
+    const username = body.username?.trim() ?? ''
+
+    if (!email.includes('@')) {
+      return NextResponse.json({ error: 'A valid email is required' }, { status: 400 })
+    }
+    if (!username) {
+      return NextResponse.json({ error: 'Username is required' }, { status: 400 })
+    }
+    if (!body.password || body.password.length < MIN_PASSWORD_LENGTH) {
+      return NextResponse.json(
+        { error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` },
+        { status: 400 }
+      )
+    }
+    if (!body.role || !USER_ROLES.includes(body.role)) {
+      return NextResponse.json({ error: 'Invalid role' }, { status: 400 })
+    }
+
+    const admin = getSupabaseAdmin()
+    const { data: existing } = await admin
+      .from('profiles')
+      .select('id')
+      .ilike('username', username)
+      .maybeSingle()
+
+    if (existing) {
+      return NextResponse.json({ error: 'Username is already taken' }, { status: 409 })
+    }
+
+    // The on_auth_user_created trigger creates the profile from this metadata
+    const { data, error } = await admin.auth.admin.createUser({
+      email,
+      password: body.password,
+      email_confirm: true,
+      user_metadata: { username },
+      app_metadata: { role: body.role },
+    })
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    const { data: profile, error: profileError } = await admin
+      .from('profiles')
+      .select('*')
+      .eq('id', data.user.id)
+      .single()
+
+    if (profileError) throw profileError
+    return NextResponse.json({ user: profile }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating user:', error)
+    return NextResponse.json({ error: 'Failed to create user' }, { status: 500 })
+  }
+}
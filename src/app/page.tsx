@@ -2,10 +2,11 @@
 
 import { useAuth } from '@/contexts/AuthContext'
 import LoginPage from '@/components/LoginPage'
+import ResetPasswordPage from '@/components/ResetPasswordPage'
 import Dashboard from '@/components/Dashboard'
 
 export default function Home() {
-  const { user, isLoading } = useAuth()
+  const { user, isLoading, isPasswordRecovery } = useAuth()
 
   if (isLoading) {
     return (
@@ -18,6 +19,10 @@ export default function Home() {
     )
   }
 
+  if (isPasswordRecovery) {
+    return <ResetPasswordPage />
+  }
+
   if (!user) {
     return <LoginPage />
   }
@@ -3,20 +3,20 @@
 import { useState, useEffect } from 'react'
 import { useAuth } from '@/contexts/AuthContext'
 import { useNotifications } from '@/contexts/NotificationContext'
+import { canAccessPage, NavPage } from '@/lib/permissions'
 import Navigation from './Navigation'
 import NotificationBar from './NotificationBar'
 import SalesPage from './pages/SalesPage'
 import ReportsPage from './pages/ReportsPage'
 import InventoryPage from './pages/InventoryPage'
+import PurchasingPage from './pages/PurchasingPage'
 import EarningsPage from './pages/EarningsPage'
 import OPEXPage from './pages/OPEXPage'
 import SettingsPage from './pages/SettingsPage'
 
-type NavPage = 'sales' | 'reports' | 'inventory' | 'earnings' | 'opex' | 'settings'
-
 export default function Dashboard() {
-  const { user } = useAuth()
-  const { checkStorage } = useNotifications()
+  const { user, can } = useAuth()
+  const { checkStorage, checkExpiry, checkLowStock } = useNotifications()
   const [activePage, setActivePage] = useState<NavPage>('sales')
 
   useEffect(() => {
@@ -26,12 +26,29 @@ export default function Dashboard() {
     return () => clearInterval(interval)
   }, [checkStorage])
 
-  // Cashier can only access Sales
-  const isCashier = user?.role === 'cashier'
+  useEffect(() => {
+    checkExpiry()
+    // Lots expire by the day; every few minutes is plenty
+    const interval = setInterval(checkExpiry, 5 * 60000)
+    return () => clearInterval(interval)
+  }, [checkExpiry])
+
+  // Afterwards low stock is checked after each checkout and Inventory load
+  useEffect(() => {
+    checkLowStock()
+  }, [checkLowStock])
 
-  const renderPage = () => {
-    if (isCashier && activePage !== 'sales') {
+  // Fall back to Sales when the current page is not allowed for this user
+  const canOpen = (page: NavPage) => canAccessPage(page, user?.role, can)
+
+  useEffect(() => {
+    if (!canAccessPage(activePage, user?.role, can)) {
       setActivePage('sales')
+    }
+  }, [activePage, user, can])
+
+  const renderPage = () => {
+    if (!canOpen(activePage)) {
       return <SalesPage />
     }
 
@@ -42,6 +59,8 @@ export default function Dashboard() {
         return <ReportsPage />
       case 'inventory':
         return <InventoryPage />
+      case 'purchasing':
+        return <PurchasingPage />
       case 'earnings':
         return <EarningsPage />
       case 'opex':
@@ -64,7 +83,7 @@ export default function Dashboard() {
         <Navigation
           activePage={activePage}
           setActivePage={setActivePage}
-          isCashier={isCashier}
+          canOpen={canOpen}
         />
 
         {/* Page Content */}
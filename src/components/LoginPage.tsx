@@ -5,10 +5,11 @@ import { useAuth } from "@/contexts/AuthContext";
 import toast from "react-hot-toast";
 
 export default function LoginPage() {
-  const [username, setUsername] = useState("");
+  const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [isLoading, setIsLoading] = useState(false);
-  const { login } = useAuth();
+  const [isResetMode, setIsResetMode] = useState(false);
+  const { login, requestPasswordReset } = useAuth();
 
   const handleSubmit = async (e?: React.FormEvent) => {
     if (e) e.preventDefault();
@@ -16,14 +17,23 @@ export default function LoginPage() {
 
     setIsLoading(true);
 
-    // Simulate loading
-    await new Promise((resolve) => setTimeout(resolve, 500));
+    if (isResetMode) {
+      const sent = await requestPasswordReset(email);
+      if (sent) {
+        toast.success("Check your email for a password reset link");
+        setIsResetMode(false);
+      } else {
+        toast.error("Could not send the reset email");
+      }
+      setIsLoading(false);
+      return;
+    }
 
-    const success = login(username, password);
+    const success = await login(email, password);
     if (success) {
       toast.success("Welcome to Altu Greal!");
     } else {
-      toast.error("Invalid username or password");
+      toast.error("Invalid email or password, or the account is disabled");
     }
     setIsLoading(false);
   };
@@ -76,7 +86,9 @@ export default function LoginPage() {
           </div>
           <h1 className="text-3xl font-bold text-white mb-1">Altu Greal</h1>
           <p className="text-primary-400 text-sm font-medium mb-2">v2.0</p>
-          <p className="text-surface-400">Sign in to your account</p>
+          <p className="text-surface-400">
+            {isResetMode ? "Reset your password" : "Sign in to your account"}
+          </p>
         </div>
 
         {/* Login Form */}
@@ -84,41 +96,43 @@ export default function LoginPage() {
           <div className="space-y-5">
             <div>
               <label
-                htmlFor="username"
+                htmlFor="email"
                 className="block text-sm font-medium text-surface-300 mb-2"
               >
-                Username
+                Email
               </label>
               <input
-                id="username"
-                type="text"
-                value={username}
-                onChange={(e) => setUsername(e.target.value)}
+                id="email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
                 className="w-full px-4 py-3 bg-surface-900 border border-surface-700 rounded-lg text-white placeholder-surface-500 focus:border-primary-500 transition-colors"
-                placeholder="Enter your username"
+                placeholder="Enter your email"
                 required
                 autoComplete="username"
               />
             </div>
 
-            <div>
-              <label
-                htmlFor="password"
-                className="block text-sm font-medium text-surface-300 mb-2"
-              >
-                Password
-              </label>
-              <input
-                id="password"
-                type="password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                className="w-full px-4 py-3 bg-surface-900 border border-surface-700 rounded-lg text-white placeholder-surface-500 focus:border-primary-500 transition-colors"
-                placeholder="Enter your password"
-                required
-                autoComplete="current-password"
-              />
-            </div>
+            {!isResetMode && (
+              <div>
+                <label
+                  htmlFor="password"
+                  className="block text-sm font-medium text-surface-300 mb-2"
+                >
+                  Password
+                </label>
+                <input
+                  id="password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="w-full px-4 py-3 bg-surface-900 border border-surface-700 rounded-lg text-white placeholder-surface-500 focus:border-primary-500 transition-colors"
+                  placeholder="Enter your password"
+                  required
+                  autoComplete="current-password"
+                />
+              </div>
+            )}
 
             <button
               type="button"
@@ -144,12 +158,22 @@ export default function LoginPage() {
                       d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
                     />
                   </svg>
-                  Signing in...
+                  {isResetMode ? "Sending..." : "Signing in..."}
                 </span>
+              ) : isResetMode ? (
+                "Send Reset Link"
               ) : (
                 "Sign In"
               )}
             </button>
+
+            <button
+              type="button"
+              onClick={() => setIsResetMode(!isResetMode)}
+              className="w-full text-sm text-surface-400 hover:text-primary-400 transition-colors"
+            >
+              {isResetMode ? "Back to sign in" : "Forgot password?"}
+            </button>
           </div>
 
         </form>
@@ -1,13 +1,12 @@
 'use client'
 
 import { useAuth } from '@/contexts/AuthContext'
-
-type NavPage = 'sales' | 'reports' | 'inventory' | 'earnings' | 'opex' | 'settings'
+import { NavPage } from '@/lib/permissions'
 
 interface NavigationProps {
   activePage: NavPage
   setActivePage: (page: NavPage) => void
-  isCashier: boolean
+  canOpen: (page: NavPage) => boolean
 }
 
 const navItems: { id: NavPage; label: string; icon: JSX.Element }[] = [
@@ -38,6 +37,15 @@ const navItems: { id: NavPage; label: string; icon: JSX.Element }[] = [
       </svg>
     ),
   },
+  {
+    id: 'purchasing',
+    label: 'Purchasing',
+    icon: (
+      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+      </svg>
+    ),
+  },
   {
     id: 'earnings',
     label: 'Earnings',
@@ -68,10 +76,10 @@ const navItems: { id: NavPage; label: string; icon: JSX.Element }[] = [
   },
 ]
 
-export default function Navigation({ activePage, setActivePage, isCashier }: NavigationProps) {
+export default function Navigation({ activePage, setActivePage, canOpen }: NavigationProps) {
   const { user } = useAuth()
 
-  const visibleItems = isCashier ? navItems.filter((item) => item.id === 'sales') : navItems
+  const visibleItems = navItems.filter((item) => canOpen(item.id))
 
   return (
     <>
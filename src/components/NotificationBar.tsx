@@ -2,10 +2,20 @@
 
 import { useState, useEffect } from 'react'
 import { useNotifications } from '@/contexts/NotificationContext'
+import { ExpiringLot } from '@/types/database'
+import { stockQuantity } from '@/lib/units'
+
+// "tomorrow", "in 3 days", ... for a lot's days_left
+export const expiryLabel = (daysLeft: number) =>
+  daysLeft < 0 ? 'expired' : daysLeft === 0 ? 'today' : daysLeft === 1 ? 'tomorrow' : `in ${daysLeft} days`
+
+export const lotQuantity = (lot: ExpiringLot) => stockQuantity(lot.qty_remaining, lot.unit_type)
 
 export default function NotificationBar() {
-  const { recentSales, cancelSale, storageWarning } = useNotifications()
+  const { recentSales, cancelSale, storageWarning, expiringLots, lowStockItems, foodCostAlerts } = useNotifications()
   const [showCancelModal, setShowCancelModal] = useState<string | null>(null)
+  const [cancelReason, setCancelReason] = useState('')
+  const [isCancelling, setIsCancelling] = useState(false)
   const [timeLeft, setTimeLeft] = useState<Record<string, number>>({})
 
   // Update countdown timers
@@ -14,7 +24,7 @@ export default function NotificationBar() {
       const newTimeLeft: Record<string, number> = {}
       recentSales.forEach((rs) => {
         const remaining = Math.max(0, Math.floor((rs.expiresAt - Date.now()) / 1000))
-        newTimeLeft[rs.sale.id] = remaining
+        newTimeLeft[rs.transactionId] = remaining
       })
       setTimeLeft(newTimeLeft)
     }, 1000)
@@ -22,13 +32,16 @@ export default function NotificationBar() {
     return () => clearInterval(interval)
   }, [recentSales])
 
-  const handleCancelClick = (saleId: string) => {
-    setShowCancelModal(saleId)
+  const handleCancelClick = (transactionId: string) => {
+    setCancelReason('')
+    setShowCancelModal(transactionId)
   }
 
   const handleConfirmCancel = async () => {
-    if (showCancelModal) {
-      await cancelSale(showCancelModal)
+    if (showCancelModal && cancelReason.trim()) {
+      setIsCancelling(true)
+      await cancelSale(showCancelModal, cancelReason.trim())
+      setIsCancelling(false)
       setShowCancelModal(null)
     }
   }
@@ -47,24 +60,81 @@ export default function NotificationBar() {
         </div>
       )}
 
+      {/* Stock expiring soon */}
+      {expiringLots.length > 0 && (
+        <div className="bg-yellow-500/10 border-b border-yellow-500/20 px-4 py-2 notification-enter">
+          <div className="max-w-7xl mx-auto flex items-center justify-center gap-2">
+            <svg className="w-4 h-4 text-yellow-500 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            <span className="text-sm text-yellow-400 font-medium truncate">
+              Expiring soon:{' '}
+              {expiringLots
+                .slice(0, 4)
+                .map((lot) => `${lot.name} ${lotQuantity(lot)} ${expiryLabel(lot.days_left)}`)
+                .join(', ')}
+              {expiringLots.length > 4 && ` and ${expiringLots.length - 4} more`}
+            </span>
+          </div>
+        </div>
+      )}
+
+      {/* Stock at or below its reorder point */}
+      {lowStockItems.length > 0 && (
+        <div className="bg-orange-500/10 border-b border-orange-500/20 px-4 py-2 notification-enter">
+          <div className="max-w-7xl mx-auto flex items-center justify-center gap-2">
+            <svg className="w-4 h-4 text-orange-500 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4" />
+            </svg>
+            <span className="text-sm text-orange-400 font-medium truncate">
+              Low stock:{' '}
+              {lowStockItems
+                .slice(0, 4)
+                .map((item) => `${item.name} ${stockQuantity(item.qty, item.unit_type)}`)
+                .join(', ')}
+              {lowStockItems.length > 4 && ` and ${lowStockItems.length - 4} more`}
+            </span>
+          </div>
+        </div>
+      )}
+
+      {/* Products above the target food cost */}
+      {foodCostAlerts.length > 0 && (
+        <div className="bg-pink-500/10 border-b border-pink-500/20 px-4 py-2 notification-enter">
+          <div className="max-w-7xl mx-auto flex items-center justify-center gap-2">
+            <svg className="w-4 h-4 text-pink-500 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 17h8m0 0V9m0 8l-8-8-4 4-6-6" />
+            </svg>
+            <span className="text-sm text-pink-400 font-medium truncate">
+              Food cost above {Number(foodCostAlerts[0].target_pct)}%:{' '}
+              {foodCostAlerts
+                .slice(0, 4)
+                .map((alert) => `${alert.name} ${Number(alert.food_cost_pct).toFixed(1)}%`)
+                .join(', ')}
+              {foodCostAlerts.length > 4 && ` and ${foodCostAlerts.length - 4} more`}
+            </span>
+          </div>
+        </div>
+      )}
+
       {/* New Purchase Notifications */}
       {recentSales.map((rs) => (
         <div
-          key={rs.sale.id}
+          key={rs.transactionId}
           className="bg-green-500/10 border-b border-green-500/20 px-4 py-2 notification-enter"
         >
           <div className="max-w-7xl mx-auto flex items-center justify-between gap-4">
             <div className="flex items-center gap-2">
               <div className="w-2 h-2 bg-green-500 rounded-full pulse-glow" />
               <span className="text-sm text-green-400 font-medium">
-                New Purchase: {rs.sale.product_name} x{rs.sale.qty}
+                New Purchase #{rs.transactionNumber}: {rs.sales.map((s) => `${s.product_name} x${s.qty}`).join(', ')}
               </span>
               <span className="text-xs text-surface-500">
-                ({timeLeft[rs.sale.id] || 0}s left to cancel)
+                ({timeLeft[rs.transactionId] || 0}s left to cancel)
               </span>
             </div>
             <button
-              onClick={() => handleCancelClick(rs.sale.id)}
+              onClick={() => handleCancelClick(rs.transactionId)}
               className="px-3 py-1 text-xs font-medium text-red-400 hover:text-red-300 hover:bg-red-500/10 rounded-md transition-colors"
             >
               Cancel
@@ -78,9 +148,18 @@ export default function NotificationBar() {
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
           <div className="card p-6 max-w-md w-full">
             <h3 className="text-lg font-semibold text-white mb-2">Cancel Purchase?</h3>
-            <p className="text-surface-400 text-sm mb-6">
-              This will remove the sale from reports and restore the inventory. This action cannot be undone.
+            <p className="text-surface-400 text-sm mb-4">
+              This will void every item in the transaction and restore the inventory. This action cannot be undone.
             </p>
+            <label className="block text-sm font-medium text-surface-300 mb-2">Reason</label>
+            <input
+              type="text"
+              value={cancelReason}
+              onChange={(e) => setCancelReason(e.target.value)}
+              placeholder="e.g. Wrong order, customer changed mind"
+              autoFocus
+              className="w-full px-4 py-2 mb-6 bg-surface-800 border border-surface-700 rounded-lg text-white"
+            />
             <div className="flex gap-3">
               <button
                 onClick={() => setShowCancelModal(null)}
@@ -90,9 +169,10 @@ export default function NotificationBar() {
               </button>
               <button
                 onClick={handleConfirmCancel}
-                className="flex-1 px-4 py-2 bg-red-500 hover:bg-red-600 text-white font-medium rounded-lg transition-colors"
+                disabled={!cancelReason.trim() || isCancelling}
+                className="flex-1 px-4 py-2 bg-red-500 hover:bg-red-600 text-white font-medium rounded-lg transition-colors disabled:opacity-50"
               >
-                Cancel Sale
+                {isCancelling ? 'Cancelling...' : 'Cancel Sale'}
               </button>
             </div>
           </div>
@@ -0,0 +1,105 @@
+"use client";
+
+import { useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { MIN_PASSWORD_LENGTH } from "@/lib/users";
+import toast from "react-hot-toast";
+
+// Shown after following a password reset link from email
+export default function ResetPasswordPage() {
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const { updatePassword, logout } = useAuth();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isLoading) return;
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      toast.error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+    if (password !== confirmPassword) {
+      toast.error("Passwords do not match");
+      return;
+    }
+
+    setIsLoading(true);
+    const success = await updatePassword(password);
+    if (success) {
+      toast.success("Password updated");
+    } else {
+      toast.error("Failed to update password. The reset link may have expired.");
+    }
+    setIsLoading(false);
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-[#0a0a0b] p-4">
+      <div className="relative w-full max-w-md">
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold text-white mb-1">Altu Greal</h1>
+          <p className="text-surface-400">Choose a new password</p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="card p-8">
+          <div className="space-y-5">
+            <div>
+              <label
+                htmlFor="new-password"
+                className="block text-sm font-medium text-surface-300 mb-2"
+              >
+                New Password
+              </label>
+              <input
+                id="new-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="w-full px-4 py-3 bg-surface-900 border border-surface-700 rounded-lg text-white placeholder-surface-500 focus:border-primary-500 transition-colors"
+                placeholder={`At least ${MIN_PASSWORD_LENGTH} characters`}
+                required
+                autoComplete="new-password"
+              />
+            </div>
+
+            <div>
+              <label
+                htmlFor="confirm-password"
+                className="block text-sm font-medium text-surface-300 mb-2"
+              >
+                Confirm Password
+              </label>
+              <input
+                id="confirm-password"
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                className="w-full px-4 py-3 bg-surface-900 border border-surface-700 rounded-lg text-white placeholder-surface-500 focus:border-primary-500 transition-colors"
+                required
+                autoComplete="new-password"
+              />
+            </div>
+
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="w-full py-3 px-4 bg-gradient-to-r from-primary-500 to-primary-600 hover:from-primary-600 hover:to-primary-700 text-white font-semibold rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed shadow-lg shadow-primary-500/20"
+            >
+              {isLoading ? "Saving..." : "Set Password"}
+            </button>
+
+            <button
+              type="button"
+              onClick={logout}
+              className="w-full text-sm text-surface-400 hover:text-primary-400 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
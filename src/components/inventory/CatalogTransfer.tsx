@@ -0,0 +1,270 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import {
+  CATALOG_SHEETS,
+  CatalogData,
+  IMPORT_ACTION_LABELS,
+  ImportAction,
+  ImportPlan,
+  exportCatalog,
+  fetchCatalog,
+  importCatalog,
+  planImport,
+} from '@/lib/catalog'
+import { downloadFile, readSpreadsheet, toCsv, toXlsx } from '@/lib/spreadsheet'
+import toast from 'react-hot-toast'
+
+const ACTION_COLORS: Record<ImportAction, string> = {
+  create: 'bg-green-500/20 text-green-400',
+  update: 'bg-blue-500/20 text-blue-400',
+  unchanged: 'bg-surface-700 text-surface-300',
+  error: 'bg-red-500/20 text-red-400',
+}
+
+// Export the catalog (items, products and recipes) as XLSX or CSV, and import
+// one back: the file is checked against what is already here and previewed
+// row by row, and nothing is written until every row is valid.
+export default function CatalogTransfer({
+  canEditItems,
+  canEditRecipes,
+  onClose,
+  onImported,
+}: {
+  canEditItems: boolean
+  canEditRecipes: boolean
+  onClose: () => void
+  onImported: () => void
+}) {
+  const [data, setData] = useState<CatalogData | null>(null)
+  const [includeStock, setIncludeStock] = useState(false)
+  const [plan, setPlan] = useState<ImportPlan | null>(null)
+  const [fileNames, setFileNames] = useState<string[]>([])
+  const [errorsOnly, setErrorsOnly] = useState(false)
+  const [isImporting, setIsImporting] = useState(false)
+
+  useEffect(() => {
+    fetchCatalog()
+      .then(setData)
+      .catch((error) => {
+        console.error('Error fetching catalog:', error)
+        toast.error('Failed to load the catalog')
+      })
+  }, [])
+
+  const handleExport = async (kind: 'xlsx' | 'csv') => {
+    if (!data) return
+    const sheets = exportCatalog(data, includeStock)
+    const date = format(new Date(), 'yyyy-MM-dd')
+    if (kind === 'xlsx') {
+      try {
+        downloadFile(await toXlsx(sheets), `catalog-${date}.xlsx`)
+      } catch (error) {
+        console.error('Error writing XLSX:', error)
+        toast.error('Failed to export the catalog')
+      }
+    } else {
+      sheets.forEach((sheet) =>
+        downloadFile(new Blob([toCsv(sheet.rows)], { type: 'text/csv' }), `catalog-${sheet.name.toLowerCase()}-${date}.csv`)
+      )
+    }
+  }
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || [])
+    e.target.value = ''
+    if (files.length === 0 || !data) return
+
+    try {
+      const sheets = (await Promise.all(files.map(readSpreadsheet))).flat()
+      setPlan(planImport(sheets, data, { items: canEditItems, recipes: canEditRecipes }))
+      setFileNames(files.map((f) => f.name))
+      setErrorsOnly(false)
+    } catch (error) {
+      console.error('Error reading file:', error)
+      toast.error(error instanceof Error ? error.message : 'Could not read the file')
+    }
+  }
+
+  const countOf = (action: ImportAction) => plan?.rows.filter((r) => r.action === action).length || 0
+  const errorCount = countOf('error')
+  const changeCount = countOf('create') + countOf('update')
+
+  const handleImport = async () => {
+    if (!plan || errorCount > 0 || changeCount === 0) return
+
+    setIsImporting(true)
+    try {
+      const result = await importCatalog(plan.payload)
+      toast.success(
+        `Imported ${result.items_created + result.items_updated} items, ${
+          result.products_created + result.products_updated
+        } products and ${result.recipes_replaced} recipes`
+      )
+      setPlan(null)
+      setFileNames([])
+      setData(await fetchCatalog())
+      onImported()
+    } catch (error: any) {
+      console.error('Error importing catalog:', error)
+      toast.error(error?.code === '42501' || error?.code === 'P0001' ? error.message : 'Failed to import the catalog')
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  const shown = plan ? plan.rows.filter((r) => !errorsOnly || r.action === 'error') : []
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="card p-6 max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-xl font-bold text-white">Import / Export Catalog</h2>
+            <p className="text-surface-400 text-sm">Inventory items, products and recipes as XLSX or CSV</p>
+          </div>
+          <button onClick={onClose} className="text-surface-400 hover:text-white">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Export */}
+        <div className="p-4 bg-surface-800/50 rounded-lg mb-4">
+          <h3 className="text-sm font-medium text-surface-300 mb-3">Export</h3>
+          <div className="flex flex-wrap items-center gap-3">
+            <button
+              onClick={() => handleExport('xlsx')}
+              disabled={!data}
+              className="px-4 py-2 bg-surface-700 hover:bg-surface-600 disabled:opacity-50 text-white font-medium rounded-lg transition-colors text-sm"
+            >
+              Download XLSX
+            </button>
+            <button
+              onClick={() => handleExport('csv')}
+              disabled={!data}
+              className="px-4 py-2 bg-surface-700 hover:bg-surface-600 disabled:opacity-50 text-white font-medium rounded-lg transition-colors text-sm"
+            >
+              Download CSV
+            </button>
+            <label className="flex items-center gap-2 text-sm text-surface-300">
+              <input type="checkbox" checked={includeStock} onChange={(e) => setIncludeStock(e.target.checked)} />
+              Include stock on hand
+            </label>
+          </div>
+          <p className="text-xs text-surface-500 mt-2">
+            CSV downloads one file per sheet. Leave stock out when copying the catalog to another branch, so its stock
+            is not overwritten.
+          </p>
+        </div>
+
+        {/* Import */}
+        {(canEditItems || canEditRecipes) && (
+          <div className="p-4 bg-surface-800/50 rounded-lg">
+            <h3 className="text-sm font-medium text-surface-300 mb-3">Import</h3>
+            <input
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              multiple
+              onChange={handleFiles}
+              disabled={!data}
+              className="block w-full text-sm text-surface-300 file:mr-3 file:px-4 file:py-2 file:rounded-lg file:border-0 file:bg-surface-700 file:text-white hover:file:bg-surface-600"
+            />
+            <div className="mt-3 space-y-1 text-xs text-surface-500">
+              {CATALOG_SHEETS.map((sheet) => (
+                <p key={sheet.id}>
+                  <span className="text-surface-300">{sheet.label}:</span>{' '}
+                  <span className="font-mono">{sheet.columns.join(', ')}</span>. {sheet.notes}
+                </p>
+              ))}
+              <p>Rows match by name, ignoring case. Blank cells leave an existing value as it is.</p>
+            </div>
+
+            {plan && (
+              <div className="mt-4">
+                <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+                  <p className="text-sm text-surface-300">
+                    {fileNames.join(', ')}: {countOf('create')} new, {countOf('update')} to update,{' '}
+                    {countOf('unchanged')} unchanged
+                    {errorCount > 0 && <span className="text-red-400">, {errorCount} with errors</span>}
+                  </p>
+                  {errorCount > 0 && (
+                    <label className="flex items-center gap-2 text-sm text-surface-300">
+                      <input type="checkbox" checked={errorsOnly} onChange={(e) => setErrorsOnly(e.target.checked)} />
+                      Errors only
+                    </label>
+                  )}
+                </div>
+                {plan.ignored.length > 0 && (
+                  <p className="text-xs text-yellow-400 mb-2">
+                    Skipped {plan.ignored.join(', ')}: the columns are not items, products or recipes
+                  </p>
+                )}
+
+                {plan.rows.length === 0 ? (
+                  <p className="text-surface-400 text-center py-6">Nothing to import in this file.</p>
+                ) : (
+                  <div className="max-h-80 overflow-y-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-surface-400 border-b border-surface-800">
+                          <th className="py-2 pr-3 font-medium">Sheet</th>
+                          <th className="py-2 pr-3 font-medium text-right">Row</th>
+                          <th className="py-2 pr-3 font-medium">Name</th>
+                          <th className="py-2 font-medium">Result</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {shown.map((row) => (
+                          <tr key={`${row.sheetName}-${row.row}`} className="border-b border-surface-800/50 align-top">
+                            <td className="py-2 pr-3 text-surface-400">{row.sheetName}</td>
+                            <td className="py-2 pr-3 text-right font-mono text-surface-400">{row.row}</td>
+                            <td className="py-2 pr-3 text-white">{row.name || '—'}</td>
+                            <td className="py-2">
+                              <span className={`px-2 py-0.5 rounded text-xs font-medium ${ACTION_COLORS[row.action]}`}>
+                                {IMPORT_ACTION_LABELS[row.action]}
+                              </span>
+                              {row.errors.map((error) => (
+                                <p key={error} className="text-xs text-red-400 mt-1">
+                                  {error}
+                                </p>
+                              ))}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                <div className="flex gap-3 mt-4">
+                  <button
+                    onClick={() => setPlan(null)}
+                    className="flex-1 py-2 bg-surface-700 hover:bg-surface-600 text-white font-medium rounded-lg transition-colors"
+                  >
+                    Discard
+                  </button>
+                  <button
+                    onClick={handleImport}
+                    disabled={isImporting || errorCount > 0 || changeCount === 0}
+                    className="flex-1 py-2 bg-primary-500 hover:bg-primary-600 disabled:opacity-50 text-white font-medium rounded-lg transition-colors"
+                  >
+                    {isImporting
+                      ? 'Importing...'
+                      : errorCount > 0
+                        ? 'Fix the errors to import'
+                        : changeCount === 0
+                          ? 'Nothing to change'
+                          : `Import ${changeCount} row${changeCount === 1 ? '' : 's'}`}
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
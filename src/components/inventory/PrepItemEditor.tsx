@@ -0,0 +1,372 @@
+'use client'
+
+import { useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { convertQuantity, findUnitOption, recipeUnitLabel, unitOptions, unitOptionText } from '@/lib/units'
+import { roundUnitCost } from '@/lib/money'
+import { PrepIngredient, ProduceResult, Product, UnitOfMeasure, UnitType } from '@/types/database'
+import toast from 'react-hot-toast'
+
+// qty is in the line's chosen unit (unit_key, see unitOptions)
+interface RecipeLine {
+  item_id: string
+  unit_key: string
+  qty: string
+}
+
+interface StockShortage {
+  name: string
+  unit_type: UnitType
+  required: number
+  available: number
+}
+
+// Recipe of a prep item (one batch) and batch production: producing takes the
+// recipe from stock and adds what actually came out (the batch yield unless
+// entered) to the prep item, logging the run in production_runs
+export default function PrepItemEditor({
+  item,
+  items,
+  units,
+  recipe,
+  canEditRecipe,
+  canProduce,
+  onClose,
+  onSaved,
+}: {
+  item: Product
+  items: Product[]
+  units: UnitOfMeasure[]
+  recipe: PrepIngredient[]
+  canEditRecipe: boolean
+  canProduce: boolean
+  onClose: () => void
+  onSaved: () => void
+}) {
+  const itemOf = (id: string) => items.find((i) => i.id === id)
+  const unitsOf = (itemId: string) => unitOptions(itemOf(itemId), units, 'recipe')
+  const unitOf = (line: RecipeLine) => unitsOf(line.item_id).find((u) => u.key === line.unit_key)
+  // A line's amount in recipe units (g/ml/pcs), as stored
+  const recipeQty = (line: RecipeLine) => convertQuantity(parseFloat(line.qty) || 0, unitOf(line)?.factor || 1, 1)
+
+  const [lines, setLines] = useState<RecipeLine[]>(() =>
+    recipe.map((r) => {
+      const unit = findUnitOption(unitsOf(r.item_id), r.unit_id)
+      return {
+        item_id: r.item_id,
+        unit_key: unit?.key || '',
+        qty: unit ? convertQuantity(Number(r.qty), 1, unit.factor).toString() : r.qty.toString(),
+      }
+    })
+  )
+  const [batchYield, setBatchYield] = useState(item.batch_yield?.toString() || '')
+  const [batches, setBatches] = useState('1')
+  const [actualQty, setActualQty] = useState('')
+  const [notes, setNotes] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [isProducing, setIsProducing] = useState(false)
+
+  const batchCost = lines.reduce((sum, l) => sum + (itemOf(l.item_id)?.cost || 0) * recipeQty(l), 0)
+  const yieldQty = parseFloat(batchYield) || 0
+  const unitCost = yieldQty > 0 ? roundUnitCost(batchCost / yieldQty) : 0
+  const batchCount = parseFloat(batches) || 0
+  const expectedQty = yieldQty * batchCount
+  const producedQty = actualQty === '' ? expectedQty : parseFloat(actualQty) || 0
+  const recipeChanged =
+    yieldQty !== Number(item.batch_yield || 0) ||
+    lines.length !== recipe.length ||
+    lines.some((l) => {
+      const saved = recipe.find((r) => r.item_id === l.item_id)
+      return Number(saved?.qty) !== recipeQty(l) || (saved?.unit_id || null) !== (unitOf(l)?.unitId || null)
+    })
+
+  const updateLine = (itemId: string, changes: Partial<RecipeLine>) =>
+    setLines(lines.map((l) => (l.item_id === itemId ? { ...l, ...changes } : l)))
+
+  const handleSaveRecipe = async () => {
+    if (yieldQty <= 0) {
+      toast.error('Enter how much one batch makes')
+      return
+    }
+    if (lines.length === 0) {
+      toast.error('Add at least one ingredient')
+      return
+    }
+    if (lines.some((l) => !(parseFloat(l.qty) > 0))) {
+      toast.error('Enter an amount for every ingredient')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const { error } = await (supabase as any).rpc('save_prep_recipe', {
+        p_item_id: item.id,
+        p_batch_yield: yieldQty,
+        p_lines: lines.map((l) => ({
+          item_id: l.item_id,
+          qty: recipeQty(l),
+          unit_id: unitOf(l)?.unitId || null,
+        })),
+      })
+      if (error) throw error
+      toast.success('Recipe saved')
+      onSaved()
+    } catch (error: any) {
+      console.error('Error saving prep recipe:', error)
+      toast.error(error?.code === '42501' || error?.code === 'P0001' ? error.message : 'Failed to save recipe')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleProduce = async () => {
+    if (batchCount <= 0) {
+      toast.error('Enter how many batches to produce')
+      return
+    }
+    if (producedQty <= 0) {
+      toast.error('Enter how much was produced')
+      return
+    }
+
+    setIsProducing(true)
+    try {
+      const { data, error } = await (supabase as any).rpc('produce_prep', {
+        p_item_id: item.id,
+        p_batches: batchCount,
+        p_actual_qty: producedQty,
+        p_notes: notes.trim() || null,
+      })
+
+      if (error) {
+        if (error.hint === 'insufficient_stock') {
+          let shortages: StockShortage[] = []
+          try {
+            shortages = JSON.parse(error.details || '[]')
+          } catch {
+            shortages = []
+          }
+          const text = shortages
+            .map((s) => `${s.name} (need ${s.required} ${recipeUnitLabel(s.unit_type)}, have ${s.available} ${recipeUnitLabel(s.unit_type)})`)
+            .join(', ')
+          toast.error(`Not enough stock: ${text}`, { duration: 6000 })
+          return
+        }
+        throw error
+      }
+
+      const result = data as ProduceResult
+      toast.success(
+        `Produced ${Number(result.produced).toLocaleString()} ${recipeUnitLabel(item.unit_type)} of ${result.name} (${Number(result.yield_pct).toFixed(1)}% yield)`
+      )
+      onSaved()
+    } catch (error: any) {
+      console.error('Error producing prep item:', error)
+      toast.error(error?.message || 'Failed to produce')
+    } finally {
+      setIsProducing(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="card p-6 max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-white">Prep Item: {item.name}</h3>
+          <button onClick={onClose} className="text-surface-400 hover:text-white p-1">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Recipe (one batch) */}
+        <div className="mb-4">
+          <h4 className="text-sm font-medium text-surface-400 mb-2">Recipe (one batch)</h4>
+          {lines.length === 0 ? (
+            <p className="text-surface-500 text-sm p-3 bg-surface-800/50 rounded-lg">No ingredients</p>
+          ) : (
+            <div className="space-y-2">
+              {lines.map((line) => {
+                const ingredient = itemOf(line.item_id)
+                const options = unitsOf(line.item_id)
+                return (
+                  <div key={line.item_id} className="flex items-center justify-between p-2 bg-surface-800/50 rounded-lg">
+                    <span className="text-white text-sm truncate">{ingredient?.name || 'Unknown item'}</span>
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="text"
+                        inputMode="decimal"
+                        value={line.qty}
+                        disabled={!canEditRecipe}
+                        onChange={(e) => /^\d*\.?\d{0,4}$/.test(e.target.value) && updateLine(line.item_id, { qty: e.target.value })}
+                        className="w-20 px-2 py-1 bg-surface-800 border border-surface-700 rounded text-white text-center font-mono text-sm disabled:opacity-60"
+                      />
+                      {options.length > 1 ? (
+                        <select
+                          value={line.unit_key}
+                          disabled={!canEditRecipe}
+                          onChange={(e) => updateLine(line.item_id, { unit_key: e.target.value })}
+                          className="w-20 px-1 py-1 bg-surface-800 border border-surface-700 rounded text-surface-300 text-xs disabled:opacity-60"
+                        >
+                          {options.map((o) => (
+                            <option key={o.key} value={o.key}>
+                              {ingredient ? unitOptionText(o, ingredient.unit_type) : o.label}
+                            </option>
+                          ))}
+                        </select>
+                      ) : (
+                        <span className="text-surface-400 text-xs w-8">{recipeUnitLabel(ingredient?.unit_type)}</span>
+                      )}
+                      {canEditRecipe && (
+                        <button
+                          onClick={() => setLines(lines.filter((l) => l.item_id !== line.item_id))}
+                          className="p-1 text-surface-500 hover:text-red-400"
+                          title="Remove ingredient"
+                        >
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                          </svg>
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          )}
+          {canEditRecipe && (
+            <select
+              value=""
+              onChange={(e) =>
+                e.target.value &&
+                setLines([...lines, { item_id: e.target.value, unit_key: unitsOf(e.target.value)[0]?.key || '', qty: '' }])
+              }
+              className="w-full mt-2 px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-surface-400 text-sm"
+            >
+              <option value="">+ Add ingredient…</option>
+              {items
+                .filter((i) => i.id !== item.id && !lines.some((l) => l.item_id === i.id))
+                .map((i) => (
+                  <option key={i.id} value={i.id}>
+                    {i.name}
+                    {i.is_prep ? ' (prep)' : ''}
+                  </option>
+                ))}
+            </select>
+          )}
+        </div>
+
+        {/* Batch Yield */}
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-surface-300 mb-2">
+            One batch makes ({recipeUnitLabel(item.unit_type)})
+          </label>
+          <input
+            type="text"
+            inputMode="decimal"
+            value={batchYield}
+            disabled={!canEditRecipe}
+            onChange={(e) => /^\d*\.?\d{0,4}$/.test(e.target.value) && setBatchYield(e.target.value)}
+            placeholder="e.g., 1000"
+            className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono disabled:opacity-60"
+          />
+        </div>
+
+        {/* Cost Roll-up */}
+        <div className="p-3 bg-surface-800/50 rounded-lg mb-4 space-y-1 text-sm">
+          <div className="flex justify-between">
+            <span className="text-surface-400">Cost per batch:</span>
+            <span className="text-white font-mono">₱{batchCost.toFixed(2)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-surface-400">Cost per {recipeUnitLabel(item.unit_type)}:</span>
+            <span className="text-primary-500 font-mono font-bold">₱{unitCost.toFixed(4)}</span>
+          </div>
+        </div>
+
+        {canEditRecipe && (
+          <button
+            onClick={handleSaveRecipe}
+            disabled={isSaving || !recipeChanged}
+            className="w-full mb-4 px-4 py-2 bg-primary-500 hover:bg-primary-600 text-white font-medium rounded-lg transition-colors disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : 'Save Recipe'}
+          </button>
+        )}
+
+        {/* Produce */}
+        {canProduce && (
+          <div className="pt-4 border-t border-surface-800">
+            <h4 className="text-sm font-medium text-surface-400 mb-2">Produce</h4>
+            {recipeChanged ? (
+              <p className="text-yellow-400 text-sm">Save the recipe before producing.</p>
+            ) : (
+              <>
+                <div className="flex items-center gap-2 mb-2">
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    value={batches}
+                    onChange={(e) => /^\d*\.?\d{0,4}$/.test(e.target.value) && setBatches(e.target.value)}
+                    className="w-20 px-2 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white text-center font-mono"
+                  />
+                  <span className="text-surface-400 text-sm flex-1">
+                    batch{batchCount === 1 ? '' : 'es'}, expected {expectedQty.toLocaleString()} {recipeUnitLabel(item.unit_type)}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2 mb-2">
+                  <label className="text-surface-400 text-sm w-20">Actual</label>
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    value={actualQty}
+                    onChange={(e) => /^\d*\.?\d{0,4}$/.test(e.target.value) && setActualQty(e.target.value)}
+                    placeholder={expectedQty.toString()}
+                    className="w-28 px-2 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white text-center font-mono"
+                  />
+                  <span className="text-surface-400 text-sm flex-1">
+                    {recipeUnitLabel(item.unit_type)}
+                    {expectedQty > 0 && producedQty > 0 && (
+                      <span className={producedQty < expectedQty ? ' text-yellow-400' : ''}>
+                        {' '}
+                        · {((producedQty / expectedQty) * 100).toFixed(1)}% yield
+                      </span>
+                    )}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2 mb-2">
+                  <input
+                    type="text"
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    placeholder="Notes (optional)"
+                    className="flex-1 px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white text-sm"
+                  />
+                  <button
+                    onClick={handleProduce}
+                    disabled={isProducing || lines.length === 0}
+                    className="px-4 py-2 bg-primary-500 hover:bg-primary-600 text-white font-medium rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    {isProducing ? 'Producing...' : 'Produce'}
+                  </button>
+                </div>
+                {batchCount > 0 && lines.length > 0 && (
+                  <p className="text-surface-500 text-xs">
+                    Uses{' '}
+                    {lines
+                      .map((l) => {
+                        const ingredient = itemOf(l.item_id)
+                        return `${(recipeQty(l) * batchCount).toLocaleString()} ${recipeUnitLabel(ingredient?.unit_type)} ${ingredient?.name || ''}`
+                      })
+                      .join(', ')}
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,153 @@
+'use client'
+
+import { Fragment, useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { recipeUnitLabel } from '@/lib/units'
+import { ProductionRun } from '@/types/database'
+import toast from 'react-hot-toast'
+
+// Below 100% the batch lost more than the recipe allows for
+const yieldColor = (pct: number) =>
+  pct >= 100 ? 'text-green-400' : pct >= 90 ? 'text-yellow-400' : 'text-red-400'
+
+// Production runs of prep items, newest first, with expected vs actual yield
+export default function ProductionHistory({ onClose }: { onClose: () => void }) {
+  const [runs, setRuns] = useState<ProductionRun[]>([])
+  const [loading, setLoading] = useState(true)
+  const [itemFilter, setItemFilter] = useState('')
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchRuns = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('production_runs')
+          .select('*')
+          .order('created_at', { ascending: false })
+          .limit(500)
+
+        if (error) throw error
+        setRuns(data || [])
+      } catch (error) {
+        console.error('Error fetching production runs:', error)
+        toast.error('Failed to load production history')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchRuns()
+  }, [])
+
+  const itemNames = Array.from(new Set(runs.map((r) => r.item_name))).sort()
+  const shown = itemFilter ? runs.filter((r) => r.item_name === itemFilter) : runs
+  const expectedTotal = shown.reduce((sum, r) => sum + Number(r.expected_qty), 0)
+  const actualTotal = shown.reduce((sum, r) => sum + Number(r.actual_qty), 0)
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="card p-6 max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold text-white">Production Log</h2>
+          <button onClick={onClose} className="text-surface-400 hover:text-white">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex items-center justify-between gap-4 mb-4">
+          <select
+            value={itemFilter}
+            onChange={(e) => setItemFilter(e.target.value)}
+            className="px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white text-sm"
+          >
+            <option value="">All prep items</option>
+            {itemNames.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+          {itemFilter && expectedTotal > 0 && (
+            <p className="text-sm text-surface-400">
+              Overall yield:{' '}
+              <span className={`font-mono font-bold ${yieldColor((actualTotal / expectedTotal) * 100)}`}>
+                {((actualTotal / expectedTotal) * 100).toFixed(1)}%
+              </span>
+            </p>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary-500"></div>
+          </div>
+        ) : shown.length === 0 ? (
+          <p className="text-surface-400 text-center py-8">No production runs yet.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-surface-400 border-b border-surface-800">
+                <th className="py-2 pr-3 font-medium">Date</th>
+                <th className="py-2 pr-3 font-medium">Item</th>
+                <th className="py-2 pr-3 font-medium text-right">Batches</th>
+                <th className="py-2 pr-3 font-medium text-right">Expected</th>
+                <th className="py-2 pr-3 font-medium text-right">Actual</th>
+                <th className="py-2 pr-3 font-medium text-right">Yield</th>
+                <th className="py-2 pr-3 font-medium text-right">Unit Cost</th>
+                <th className="py-2 font-medium">By</th>
+              </tr>
+            </thead>
+            <tbody>
+              {shown.map((run) => {
+                const unit = recipeUnitLabel(run.unit_type)
+                return (
+                  <Fragment key={run.id}>
+                    <tr
+                      onClick={() => setExpandedId(expandedId === run.id ? null : run.id)}
+                      className="border-b border-surface-800/50 hover:bg-surface-800/30 cursor-pointer"
+                    >
+                      <td className="py-2 pr-3 text-surface-300 whitespace-nowrap">
+                        {new Date(run.created_at).toLocaleString()}
+                      </td>
+                      <td className="py-2 pr-3 text-white">{run.item_name}</td>
+                      <td className="py-2 pr-3 text-right font-mono text-surface-300">{Number(run.batches)}</td>
+                      <td className="py-2 pr-3 text-right font-mono text-surface-300">
+                        {Number(run.expected_qty).toLocaleString()} {unit}
+                      </td>
+                      <td className="py-2 pr-3 text-right font-mono text-white">
+                        {Number(run.actual_qty).toLocaleString()} {unit}
+                      </td>
+                      <td className={`py-2 pr-3 text-right font-mono ${yieldColor(Number(run.yield_pct))}`}>
+                        {Number(run.yield_pct).toFixed(1)}%
+                      </td>
+                      <td className="py-2 pr-3 text-right font-mono text-surface-300">
+                        ₱{Number(run.unit_cost).toFixed(4)}
+                      </td>
+                      <td className="py-2 text-surface-400">{run.produced_by_name || '—'}</td>
+                    </tr>
+                    {expandedId === run.id && (
+                      <tr className="bg-surface-800/30">
+                        <td colSpan={8} className="px-3 py-2 text-xs text-surface-400">
+                          <p>
+                            Used{' '}
+                            {run.consumed
+                              .map((c) => `${Number(c.qty).toLocaleString()} ${recipeUnitLabel(c.unit_type)} ${c.name}`)
+                              .join(', ')}{' '}
+                            for ₱{Number(run.total_cost).toFixed(2)}
+                          </p>
+                          {run.notes && <p className="mt-1 text-surface-300">Note: {run.notes}</p>}
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                )
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,243 @@
+'use client'
+
+import { Fragment, useEffect, useState } from 'react'
+import { ProductCost, ProductCostHistory } from '@/types/database'
+import {
+  DEFAULT_TARGET_FOOD_COST_PCT,
+  fetchProductCostHistory,
+  fetchProductCosts,
+  fetchTargetFoodCostPct,
+} from '@/lib/foodCost'
+import { subDays } from 'date-fns'
+import toast from 'react-hot-toast'
+
+const money = (value: number) =>
+  `₱${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+
+const percent = (value: number | null) => (value === null ? '—' : `${Number(value).toFixed(1)}%`)
+
+const COMPARE_DAYS = [7, 30, 90]
+
+// Every finished product's ingredient cost, food cost and margin at today's
+// ingredient costs, how the food cost moved over a period, and each product's
+// cost history
+export default function RecipeCosting({ onClose }: { onClose: () => void }) {
+  const [costs, setCosts] = useState<ProductCost[]>([])
+  const [targetPct, setTargetPct] = useState(DEFAULT_TARGET_FOOD_COST_PCT)
+  const [loading, setLoading] = useState(true)
+  const [compareDays, setCompareDays] = useState(30)
+  const [aboveTargetOnly, setAboveTargetOnly] = useState(false)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [history, setHistory] = useState<ProductCostHistory[] | null>(null)
+
+  useEffect(() => {
+    const fetchCosts = async () => {
+      setLoading(true)
+      try {
+        const [productCosts, target] = await Promise.all([
+          fetchProductCosts(subDays(new Date(), compareDays)),
+          fetchTargetFoodCostPct(),
+        ])
+        setCosts(productCosts)
+        setTargetPct(target)
+      } catch (error) {
+        console.error('Error fetching recipe costs:', error)
+        toast.error('Failed to load recipe costs')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchCosts()
+  }, [compareDays])
+
+  const toggleHistory = async (productId: string) => {
+    if (expandedId === productId) {
+      setExpandedId(null)
+      return
+    }
+
+    setExpandedId(productId)
+    setHistory(null)
+    try {
+      setHistory(await fetchProductCostHistory(productId))
+    } catch (error) {
+      console.error('Error fetching cost history:', error)
+      toast.error('Failed to load cost history')
+      setHistory([])
+    }
+  }
+
+  const isAboveTarget = (c: ProductCost) => c.food_cost_pct !== null && Number(c.food_cost_pct) > targetPct
+  const aboveTarget = costs.filter(isAboveTarget)
+  const shown = (aboveTargetOnly ? aboveTarget : costs)
+    .slice()
+    .sort((a, b) => Number(b.food_cost_pct ?? -1) - Number(a.food_cost_pct ?? -1) || a.name.localeCompare(b.name))
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="card p-6 max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-xl font-bold text-white">Recipe Costing</h2>
+            <p className="text-surface-400 text-sm">
+              Ingredient cost against the price before VAT, at today&apos;s ingredient costs
+            </p>
+          </div>
+          <button onClick={onClose} className="text-surface-400 hover:text-white">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+          <div className="flex items-center gap-4">
+            <label className="flex items-center gap-2 text-sm text-surface-300">
+              Change over
+              <select
+                value={compareDays}
+                onChange={(e) => setCompareDays(parseInt(e.target.value))}
+                className="px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white text-sm"
+              >
+                {COMPARE_DAYS.map((days) => (
+                  <option key={days} value={days}>
+                    {days} days
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 text-sm text-surface-300">
+              <input
+                type="checkbox"
+                checked={aboveTargetOnly}
+                onChange={(e) => setAboveTargetOnly(e.target.checked)}
+              />
+              Above target only
+            </label>
+          </div>
+          <p className="text-sm text-surface-400">
+            <span className={`font-mono font-bold ${aboveTarget.length > 0 ? 'text-red-400' : 'text-green-500'}`}>
+              {aboveTarget.length}
+            </span>{' '}
+            of {costs.length} products above the {targetPct}% target
+          </p>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary-500"></div>
+          </div>
+        ) : shown.length === 0 ? (
+          <p className="text-surface-400 text-center py-8">
+            {aboveTargetOnly ? 'Every product is within the food cost target.' : 'No products yet.'}
+          </p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-surface-400 border-b border-surface-800">
+                <th className="py-2 pr-3 font-medium">Product</th>
+                <th className="py-2 pr-3 font-medium text-right">Price ex-VAT</th>
+                <th className="py-2 pr-3 font-medium text-right">Ingredients</th>
+                <th className="py-2 pr-3 font-medium text-right">Food cost</th>
+                <th className="py-2 pr-3 font-medium text-right">Margin</th>
+                <th className="py-2 font-medium text-right">Change</th>
+              </tr>
+            </thead>
+            <tbody>
+              {shown.map((c) => {
+                const change =
+                  c.food_cost_pct !== null && c.since_food_cost_pct !== null
+                    ? Number(c.food_cost_pct) - Number(c.since_food_cost_pct)
+                    : null
+                return (
+                  <Fragment key={c.product_id}>
+                    <tr
+                      onClick={() => toggleHistory(c.product_id)}
+                      className="border-b border-surface-800/50 hover:bg-surface-800/30 cursor-pointer"
+                    >
+                      <td className="py-2 pr-3 text-white">{c.name}</td>
+                      <td className="py-2 pr-3 text-right font-mono text-surface-300">{money(Number(c.net_price))}</td>
+                      <td className="py-2 pr-3 text-right font-mono text-surface-300">
+                        {Number(c.ingredient_cost) > 0 ? money(Number(c.ingredient_cost)) : 'No recipe'}
+                      </td>
+                      <td
+                        className={`py-2 pr-3 text-right font-mono font-bold ${
+                          isAboveTarget(c) ? 'text-red-400' : 'text-green-500'
+                        }`}
+                      >
+                        {percent(c.food_cost_pct)}
+                      </td>
+                      <td
+                        className={`py-2 pr-3 text-right font-mono ${
+                          Number(c.margin) >= 0 ? 'text-surface-300' : 'text-red-400'
+                        }`}
+                      >
+                        {money(Number(c.margin))}
+                      </td>
+                      <td
+                        className={`py-2 text-right font-mono ${
+                          change === null || Math.abs(change) < 0.05
+                            ? 'text-surface-500'
+                            : change > 0
+                              ? 'text-red-400'
+                              : 'text-green-500'
+                        }`}
+                      >
+                        {change === null ? '—' : `${change > 0 ? '+' : ''}${change.toFixed(1)} pts`}
+                      </td>
+                    </tr>
+                    {expandedId === c.product_id && (
+                      <tr className="bg-surface-800/30">
+                        <td colSpan={6} className="px-3 py-2">
+                          {history === null ? (
+                            <p className="text-xs text-surface-400">Loading...</p>
+                          ) : history.length === 0 ? (
+                            <p className="text-xs text-surface-400">No cost changes recorded yet.</p>
+                          ) : (
+                            <table className="w-full text-xs">
+                              <thead>
+                                <tr className="text-left text-surface-500">
+                                  <th className="py-1 pr-3 font-medium">Changed</th>
+                                  <th className="py-1 pr-3 font-medium text-right">Price</th>
+                                  <th className="py-1 pr-3 font-medium text-right">Ingredients</th>
+                                  <th className="py-1 font-medium text-right">Food cost</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {history.map((h) => (
+                                  <tr key={h.id} className="text-surface-300">
+                                    <td className="py-1 pr-3 whitespace-nowrap">
+                                      {new Date(h.recorded_at).toLocaleString()}
+                                    </td>
+                                    <td className="py-1 pr-3 text-right font-mono">{money(Number(h.selling_price))}</td>
+                                    <td className="py-1 pr-3 text-right font-mono">
+                                      {money(Number(h.ingredient_cost))}
+                                    </td>
+                                    <td
+                                      className={`py-1 text-right font-mono ${
+                                        h.food_cost_pct !== null && Number(h.food_cost_pct) > targetPct
+                                          ? 'text-red-400'
+                                          : ''
+                                      }`}
+                                    >
+                                      {percent(h.food_cost_pct)}
+                                    </td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                )
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,178 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { LowStockItem, Product, Supplier, UnitOfMeasure } from '@/types/database'
+import { storageUnitCost, storageUnitLabel, stockQuantity } from '@/lib/units'
+import { multiplyMoney, roundPurchaseCost, sumMoney } from '@/lib/money'
+import PurchaseOrderEditor from '@/components/purchasing/PurchaseOrderEditor'
+import toast from 'react-hot-toast'
+
+// Items at or below their reorder point and how much brings each back to par,
+// in storage units (kg/L/pcs) the way items are bought. The list can be copied
+// or turned into a draft purchase order.
+export default function RestockList({
+  lowStock,
+  items,
+  units,
+  canOrder,
+  onClose,
+}: {
+  lowStock: LowStockItem[]
+  items: Product[]
+  units: UnitOfMeasure[]
+  canOrder: boolean
+  onClose: () => void
+}) {
+  const [quantities, setQuantities] = useState<Record<string, string>>(() =>
+    Object.fromEntries(lowStock.map((l) => [l.item_id, Number(l.restock_qty).toString()]))
+  )
+  const [suppliers, setSuppliers] = useState<Supplier[]>([])
+  const [showOrderEditor, setShowOrderEditor] = useState(false)
+
+  useEffect(() => {
+    if (!canOrder) return
+    supabase
+      .from('suppliers')
+      .select('*')
+      .order('name')
+      .then(({ data }) => setSuppliers(data || []))
+  }, [canOrder])
+
+  const storageCost = (itemId: string) => {
+    const item = items.find((i) => i.id === itemId)
+    return item ? storageUnitCost(item.cost, item.unit_type) : 0
+  }
+
+  const toOrder = lowStock
+    .map((l) => ({ ...l, order: parseFloat(quantities[l.item_id]) || 0 }))
+    .filter((l) => l.order > 0)
+  const estimate = sumMoney(toOrder.map((l) => multiplyMoney(storageCost(l.item_id), l.order)))
+
+  const handleCopy = async () => {
+    const text = toOrder
+      .map((l) => `${l.name}: ${l.order.toLocaleString()} ${storageUnitLabel(l.unit_type)}`)
+      .join('\n')
+    try {
+      await navigator.clipboard.writeText(text)
+      toast.success('Restock list copied')
+    } catch {
+      toast.error('Could not copy the list')
+    }
+  }
+
+  const handleCreateOrder = () => {
+    if (toOrder.length === 0) {
+      toast.error('Nothing to order')
+      return
+    }
+    setShowOrderEditor(true)
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="card p-6 max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-xl font-bold text-white">Restock List</h2>
+            <p className="text-surface-400 text-sm">Par level minus stock on hand</p>
+          </div>
+          <button onClick={onClose} className="text-surface-400 hover:text-white">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {lowStock.length === 0 ? (
+          <p className="text-surface-400 text-center py-8">Nothing is below its reorder point.</p>
+        ) : (
+          <>
+            <table className="w-full text-sm mb-4">
+              <thead>
+                <tr className="text-left text-surface-400 border-b border-surface-800">
+                  <th className="py-2 pr-3 font-medium">Item</th>
+                  <th className="py-2 pr-3 font-medium text-right">On Hand</th>
+                  <th className="py-2 pr-3 font-medium text-right">Reorder At</th>
+                  <th className="py-2 pr-3 font-medium text-right">Par</th>
+                  <th className="py-2 pr-3 font-medium text-right">To Order</th>
+                  <th className="py-2 font-medium text-right">Est. Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {lowStock.map((l) => (
+                  <tr key={l.item_id} className="border-b border-surface-800/50">
+                    <td className="py-2 pr-3 text-white">{l.name}</td>
+                    <td className="py-2 pr-3 text-right font-mono text-red-400 whitespace-nowrap">
+                      {stockQuantity(l.qty, l.unit_type)}
+                    </td>
+                    <td className="py-2 pr-3 text-right font-mono text-surface-300 whitespace-nowrap">
+                      {stockQuantity(l.reorder_point, l.unit_type)}
+                    </td>
+                    <td className="py-2 pr-3 text-right font-mono text-surface-300 whitespace-nowrap">
+                      {l.par_level !== null ? stockQuantity(l.par_level, l.unit_type) : '—'}
+                    </td>
+                    <td className="py-2 pr-3 text-right whitespace-nowrap">
+                      <input
+                        type="number"
+                        min="0"
+                        step="any"
+                        value={quantities[l.item_id] ?? ''}
+                        onChange={(e) => setQuantities({ ...quantities, [l.item_id]: e.target.value })}
+                        className="w-24 px-2 py-1 bg-surface-800 border border-surface-700 rounded text-white text-right font-mono"
+                      />{' '}
+                      <span className="text-surface-500">{storageUnitLabel(l.unit_type)}</span>
+                    </td>
+                    <td className="py-2 text-right font-mono text-surface-300">
+                      ₱{multiplyMoney(storageCost(l.item_id), parseFloat(quantities[l.item_id]) || 0).toFixed(2)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <p className="text-sm text-surface-400 mb-4 text-right">
+              Estimated total at last cost: <span className="font-mono text-white">₱{estimate.toFixed(2)}</span>
+            </p>
+
+            <div className="flex gap-3">
+              <button
+                onClick={handleCopy}
+                className="flex-1 py-2 bg-surface-700 hover:bg-surface-600 text-white font-medium rounded-lg transition-colors"
+              >
+                Copy List
+              </button>
+              {canOrder && (
+                <button
+                  onClick={handleCreateOrder}
+                  className="flex-1 py-2 bg-primary-500 hover:bg-primary-600 text-white font-medium rounded-lg transition-colors"
+                >
+                  Create Draft Purchase Order
+                </button>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+
+      {showOrderEditor && (
+        <PurchaseOrderEditor
+          order={null}
+          lines={toOrder.map((l) => ({
+            item_id: l.item_id,
+            qty_ordered: l.order,
+            unit_cost: roundPurchaseCost(storageCost(l.item_id)),
+          }))}
+          suppliers={suppliers}
+          items={items}
+          units={units}
+          onClose={() => setShowOrderEditor(false)}
+          onSaved={() => {
+            setShowOrderEditor(false)
+            onClose()
+          }}
+        />
+      )}
+    </div>
+  )
+}
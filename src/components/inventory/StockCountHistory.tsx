@@ -0,0 +1,203 @@
+'use client'
+
+import { Fragment, useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { recipeUnitLabel, toRecipeUnits } from '@/lib/units'
+import { StockCount, StockCountLine, StockCountStatus } from '@/types/database'
+import toast from 'react-hot-toast'
+
+const STATUS_LABELS: Record<StockCountStatus, string> = {
+  open: 'Counting',
+  submitted: 'Awaiting approval',
+  approved: 'Approved',
+  cancelled: 'Cancelled',
+}
+
+const STATUS_COLORS: Record<StockCountStatus, string> = {
+  open: 'bg-blue-500/20 text-blue-400',
+  submitted: 'bg-yellow-500/20 text-yellow-400',
+  approved: 'bg-green-500/20 text-green-400',
+  cancelled: 'bg-surface-700 text-surface-300',
+}
+
+const money = (value: number) =>
+  `${value < 0 ? '-' : ''}₱${Math.abs(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+
+const varianceColor = (value: number) => (value < 0 ? 'text-red-400' : value > 0 ? 'text-green-400' : 'text-surface-400')
+
+// Past stock counts, newest first, with the posted variance and shrinkage of
+// each, and the items that lost the most across approved counts
+export default function StockCountHistory({ onClose }: { onClose: () => void }) {
+  const [counts, setCounts] = useState<StockCount[]>([])
+  const [lines, setLines] = useState<StockCountLine[]>([])
+  const [loading, setLoading] = useState(true)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchCounts = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('stock_counts')
+          .select('*')
+          .order('created_at', { ascending: false })
+          .limit(100)
+
+        if (error) throw error
+        const countData = (data || []) as StockCount[]
+        setCounts(countData)
+
+        const approvedIds = countData.filter((c) => c.status === 'approved').map((c) => c.id)
+        if (approvedIds.length > 0) {
+          const { data: lineData, error: linesError } = await supabase
+            .from('stock_count_lines')
+            .select('*')
+            .in('count_id', approvedIds)
+            .not('variance_qty', 'is', null)
+
+          if (linesError) throw linesError
+          setLines(lineData || [])
+        }
+      } catch (error) {
+        console.error('Error fetching stock counts:', error)
+        toast.error('Failed to load stock count history')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchCounts()
+  }, [])
+
+  const linesOf = (countId: string) => lines.filter((l) => l.count_id === countId)
+  const varianceOf = (countId: string) => linesOf(countId).reduce((sum, l) => sum + Number(l.variance_value), 0)
+  const shrinkageOf = (countId: string) =>
+    linesOf(countId).reduce((sum, l) => sum + Math.min(Number(l.variance_value), 0), 0)
+
+  // Shrinkage per item over every approved count shown
+  const byItem = Object.values(
+    lines.reduce((acc, l) => {
+      const row = acc[l.item_name] || { name: l.item_name, counts: 0, shrinkage: 0 }
+      row.counts += 1
+      row.shrinkage += Math.min(Number(l.variance_value), 0)
+      acc[l.item_name] = row
+      return acc
+    }, {} as Record<string, { name: string; counts: number; shrinkage: number }>)
+  )
+    .filter((row) => row.shrinkage < 0)
+    .sort((a, b) => a.shrinkage - b.shrinkage)
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="card p-6 max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold text-white">Stock Count History</h2>
+          <button onClick={onClose} className="text-surface-400 hover:text-white">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary-500"></div>
+          </div>
+        ) : counts.length === 0 ? (
+          <p className="text-surface-400 text-center py-8">No stock counts yet.</p>
+        ) : (
+          <>
+            {byItem.length > 0 && (
+              <div className="mb-6">
+                <h3 className="text-sm font-medium text-surface-400 mb-2">Most shrinkage</h3>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-1">
+                  {byItem.slice(0, 6).map((row) => (
+                    <div
+                      key={row.name}
+                      className="flex items-center justify-between px-3 py-2 bg-surface-800 rounded-lg text-sm"
+                    >
+                      <span className="text-white">
+                        {row.name}{' '}
+                        <span className="text-surface-500">
+                          in {row.counts} count{row.counts === 1 ? '' : 's'}
+                        </span>
+                      </span>
+                      <span className="font-mono text-red-400">{money(row.shrinkage)}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-surface-400 border-b border-surface-800">
+                  <th className="py-2 pr-3 font-medium">Count</th>
+                  <th className="py-2 pr-3 font-medium">Started</th>
+                  <th className="py-2 pr-3 font-medium">Status</th>
+                  <th className="py-2 pr-3 font-medium text-right">Variance</th>
+                  <th className="py-2 pr-3 font-medium text-right">Shrinkage</th>
+                  <th className="py-2 font-medium">Approved by</th>
+                </tr>
+              </thead>
+              <tbody>
+                {counts.map((count) => {
+                  const approved = count.status === 'approved'
+                  const variance = varianceOf(count.id)
+                  return (
+                    <Fragment key={count.id}>
+                      <tr
+                        onClick={() => approved && setExpandedId(expandedId === count.id ? null : count.id)}
+                        className={`border-b border-surface-800/50 ${approved ? 'hover:bg-surface-800/30 cursor-pointer' : ''}`}
+                      >
+                        <td className="py-2 pr-3 font-mono text-white">{count.count_number}</td>
+                        <td className="py-2 pr-3 text-surface-300 whitespace-nowrap">
+                          {new Date(count.created_at).toLocaleString()}
+                        </td>
+                        <td className="py-2 pr-3">
+                          <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_COLORS[count.status]}`}>
+                            {STATUS_LABELS[count.status]}
+                          </span>
+                        </td>
+                        <td className={`py-2 pr-3 text-right font-mono ${approved ? varianceColor(variance) : 'text-surface-500'}`}>
+                          {approved ? money(variance) : '—'}
+                        </td>
+                        <td className="py-2 pr-3 text-right font-mono text-red-400">
+                          {approved ? money(shrinkageOf(count.id)) : '—'}
+                        </td>
+                        <td className="py-2 text-surface-400">{count.approved_by_name || '—'}</td>
+                      </tr>
+                      {expandedId === count.id && (
+                        <tr className="bg-surface-800/30">
+                          <td colSpan={6} className="px-3 py-2 text-xs">
+                            {count.notes && <p className="mb-1 text-surface-300">Note: {count.notes}</p>}
+                            {linesOf(count.id)
+                              .filter((l) => Number(l.variance_qty) !== 0)
+                              .map((l) => (
+                                <p key={l.id} className="flex justify-between text-surface-400">
+                                  <span>
+                                    {l.item_name}: expected {toRecipeUnits(Number(l.expected_qty), l.unit_type).toLocaleString()}{' '}
+                                    {recipeUnitLabel(l.unit_type)}, counted{' '}
+                                    {toRecipeUnits(Number(l.counted_qty), l.unit_type).toLocaleString()} {recipeUnitLabel(l.unit_type)}
+                                  </span>
+                                  <span className={`font-mono ${varianceColor(Number(l.variance_value))}`}>
+                                    {money(Number(l.variance_value))}
+                                  </span>
+                                </p>
+                              ))}
+                            {linesOf(count.id).every((l) => Number(l.variance_qty) === 0) && (
+                              <p className="text-surface-400">Every counted item matched.</p>
+                            )}
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  )
+                })}
+              </tbody>
+            </table>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
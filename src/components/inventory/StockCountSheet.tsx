@@ -0,0 +1,336 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { recipeUnitLabel, toRecipeUnits } from '@/lib/units'
+import { useAuth } from '@/contexts/AuthContext'
+import { StockCount, StockCountLine } from '@/types/database'
+import toast from 'react-hot-toast'
+
+const money = (value: number) =>
+  `${value < 0 ? '-' : ''}₱${Math.abs(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+
+const varianceColor = (value: number) => (value < 0 ? 'text-red-400' : value > 0 ? 'text-green-400' : 'text-surface-400')
+
+// The stock count in progress: start one (snapshotting expected stock), enter
+// counted quantities, submit, and, for the owner, approve (posting the
+// variances to stock) or send back
+export default function StockCountSheet({ onClose, onPosted }: { onClose: () => void; onPosted: () => void }) {
+  const { user, can } = useAuth()
+  const isOwner = user?.role === 'owner'
+  const canCount = can('count_stock')
+  const [count, setCount] = useState<StockCount | null>(null)
+  const [lines, setLines] = useState<StockCountLine[]>([])
+  const [counted, setCounted] = useState<Record<string, string>>({})
+  const [notes, setNotes] = useState('')
+  const [search, setSearch] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const fetchCount = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('stock_counts')
+        .select('*')
+        .in('status', ['open', 'submitted'])
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+
+      if (error) throw error
+      const current = data as StockCount | null
+      setCount(current)
+
+      if (current) {
+        const { data: lineData, error: linesError } = await supabase
+          .from('stock_count_lines')
+          .select('*')
+          .eq('count_id', current.id)
+          .order('item_name')
+
+        if (linesError) throw linesError
+        const countLines = (lineData || []) as StockCountLine[]
+        setLines(countLines)
+        // Count lines are stored in storage units (kg/L/pcs); staff count like the grid shows
+        setCounted(
+          Object.fromEntries(
+            countLines.map((l) => [
+              l.id,
+              l.counted_qty === null ? '' : Number(toRecipeUnits(Number(l.counted_qty), l.unit_type).toFixed(4)).toString(),
+            ])
+          )
+        )
+      } else {
+        setLines([])
+        setCounted({})
+      }
+    } catch (error) {
+      console.error('Error fetching stock count:', error)
+      toast.error('Failed to load stock count')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchCount()
+  }, [fetchCount])
+
+  const runAction = async (action: () => Promise<{ error: any }>, success: string, posted = false) => {
+    setIsSaving(true)
+    try {
+      const { error } = await action()
+      if (error) {
+        if (error.code === '42501' || error.message?.startsWith('Stock count') || error.message?.startsWith('Count')) {
+          toast.error(error.message)
+          fetchCount()
+          return
+        }
+        throw error
+      }
+      toast.success(success)
+      if (posted) onPosted()
+      fetchCount()
+    } catch (error) {
+      console.error('Error updating stock count:', error)
+      toast.error('Failed to update stock count')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleStart = () =>
+    runAction(() => (supabase as any).rpc('start_stock_count', { p_notes: notes.trim() || null }), 'Stock count started')
+
+  const handleSave = (submit: boolean) => {
+    if (Object.values(counted).some((v) => v !== '' && !(parseFloat(v) >= 0))) {
+      toast.error('Counted quantities must be zero or more')
+      return
+    }
+    return runAction(
+      () =>
+        (supabase as any).rpc('save_stock_count', {
+          p_count_id: count!.id,
+          p_lines: lines.map((l) => ({
+            line_id: l.id,
+            counted: counted[l.id] === '' ? null : parseFloat(counted[l.id]),
+          })),
+          p_submit: submit,
+        }),
+      submit ? 'Count submitted for approval' : 'Count saved'
+    )
+  }
+
+  const handleReview = (approve: boolean) =>
+    runAction(
+      () => (supabase as any).rpc('review_stock_count', { p_count_id: count!.id, p_approve: approve }),
+      approve ? 'Count approved and stock adjusted' : 'Count sent back',
+      approve
+    )
+
+  const handleCancel = () => {
+    if (!confirm(`Cancel stock count ${count!.count_number}? Nothing will be posted.`)) return
+    return runAction(() => (supabase as any).rpc('cancel_stock_count', { p_count_id: count!.id }), 'Stock count cancelled')
+  }
+
+  const isOpen = count?.status === 'open'
+  const editable = isOpen && canCount
+
+  // Live variance of a line against the snapshot, in display units and at the snapshot cost
+  const varianceOf = (line: StockCountLine) => {
+    const value = counted[line.id]
+    if (value === undefined || value === '' || isNaN(parseFloat(value))) return null
+    const qty = parseFloat(value) - toRecipeUnits(Number(line.expected_qty), line.unit_type)
+    return { qty, value: qty * Number(line.unit_cost) }
+  }
+
+  const countedLines = lines.filter((l) => varianceOf(l) !== null)
+  const totalVariance = countedLines.reduce((sum, l) => sum + varianceOf(l)!.value, 0)
+  const shrinkage = countedLines.reduce((sum, l) => sum + Math.min(varianceOf(l)!.value, 0), 0)
+  const shown = search ? lines.filter((l) => l.item_name.toLowerCase().includes(search.toLowerCase())) : lines
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="card p-6 max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-xl font-bold text-white">Stock Count</h2>
+            {count && (
+              <p className="text-surface-400 text-sm">
+                {count.count_number} · started {new Date(count.created_at).toLocaleString()}
+                {count.created_by_name && ` by ${count.created_by_name}`}
+                {count.notes && ` · ${count.notes}`}
+              </p>
+            )}
+          </div>
+          <button onClick={onClose} className="text-surface-400 hover:text-white">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary-500"></div>
+          </div>
+        ) : !count ? (
+          canCount ? (
+            <div className="space-y-4">
+              <p className="text-surface-400 text-sm">
+                Starting a count records every item&apos;s current stock as the expected quantity. Sales made while
+                counting are kept when the count is posted.
+              </p>
+              <input
+                type="text"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Notes (optional), e.g. end of week"
+                className="w-full px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+              />
+              <button
+                onClick={handleStart}
+                disabled={isSaving}
+                className="w-full py-2 bg-primary-500 hover:bg-primary-600 disabled:opacity-50 text-white font-medium rounded-lg transition-colors"
+              >
+                {isSaving ? 'Starting...' : 'Start Count'}
+              </button>
+            </div>
+          ) : (
+            <p className="text-surface-400 text-center py-8">No stock count in progress.</p>
+          )
+        ) : (
+          <>
+            {count.status === 'submitted' && (
+              <div className="mb-4 p-3 bg-yellow-500/10 border border-yellow-500/20 rounded-lg text-sm text-yellow-400">
+                Submitted {count.submitted_at && new Date(count.submitted_at).toLocaleString()}
+                {count.submitted_by_name && ` by ${count.submitted_by_name}`}
+                {isOwner ? ' — approve to post the variances to stock.' : ' — waiting for the owner to approve.'}
+              </div>
+            )}
+
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+              <input
+                type="text"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search items..."
+                className="px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white text-sm"
+              />
+              <p className="text-sm text-surface-400">
+                {countedLines.length} of {lines.length} counted · Variance{' '}
+                <span className={`font-mono font-bold ${varianceColor(totalVariance)}`}>{money(totalVariance)}</span>
+                {shrinkage < 0 && (
+                  <>
+                    {' '}
+                    · Shrinkage <span className="font-mono text-red-400">{money(shrinkage)}</span>
+                  </>
+                )}
+              </p>
+            </div>
+
+            <table className="w-full text-sm mb-4">
+              <thead>
+                <tr className="text-left text-surface-400 border-b border-surface-800">
+                  <th className="py-2 pr-3 font-medium">Item</th>
+                  <th className="py-2 pr-3 font-medium text-right">Expected</th>
+                  <th className="py-2 pr-3 font-medium text-right">Counted</th>
+                  <th className="py-2 pr-3 font-medium text-right">Variance</th>
+                  <th className="py-2 font-medium text-right">Value</th>
+                </tr>
+              </thead>
+              <tbody>
+                {shown.map((line) => {
+                  const unit = recipeUnitLabel(line.unit_type)
+                  const variance = varianceOf(line)
+                  return (
+                    <tr key={line.id} className="border-b border-surface-800/50">
+                      <td className="py-2 pr-3 text-white">{line.item_name}</td>
+                      <td className="py-2 pr-3 text-right font-mono text-surface-300 whitespace-nowrap">
+                        {toRecipeUnits(Number(line.expected_qty), line.unit_type).toLocaleString()} {unit}
+                      </td>
+                      <td className="py-2 pr-3 text-right">
+                        {editable ? (
+                          <input
+                            type="number"
+                            min="0"
+                            step="any"
+                            value={counted[line.id] ?? ''}
+                            onChange={(e) => setCounted({ ...counted, [line.id]: e.target.value })}
+                            className="w-28 px-2 py-1 bg-surface-800 border border-surface-700 rounded text-white text-right font-mono"
+                          />
+                        ) : (
+                          <span className="font-mono text-white">
+                            {counted[line.id] ? `${Number(counted[line.id]).toLocaleString()} ${unit}` : '—'}
+                          </span>
+                        )}
+                      </td>
+                      <td className={`py-2 pr-3 text-right font-mono whitespace-nowrap ${variance ? varianceColor(variance.qty) : 'text-surface-500'}`}>
+                        {variance ? `${variance.qty > 0 ? '+' : ''}${variance.qty.toLocaleString()} ${unit}` : '—'}
+                      </td>
+                      <td className={`py-2 text-right font-mono ${variance ? varianceColor(variance.value) : 'text-surface-500'}`}>
+                        {variance ? money(variance.value) : '—'}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+
+            <p className="text-xs text-surface-500 mb-4">
+              Values use each item&apos;s cost when the count started; items left blank are not adjusted.
+            </p>
+
+            <div className="flex flex-wrap gap-3">
+              {editable && (
+                <>
+                  <button
+                    onClick={() => handleSave(false)}
+                    disabled={isSaving}
+                    className="flex-1 py-2 bg-surface-700 hover:bg-surface-600 disabled:opacity-50 text-white font-medium rounded-lg transition-colors"
+                  >
+                    Save Progress
+                  </button>
+                  <button
+                    onClick={() => handleSave(true)}
+                    disabled={isSaving}
+                    className="flex-1 py-2 bg-primary-500 hover:bg-primary-600 disabled:opacity-50 text-white font-medium rounded-lg transition-colors"
+                  >
+                    Submit for Approval
+                  </button>
+                </>
+              )}
+              {count.status === 'submitted' && isOwner && (
+                <>
+                  <button
+                    onClick={() => handleReview(false)}
+                    disabled={isSaving}
+                    className="flex-1 py-2 bg-surface-700 hover:bg-surface-600 disabled:opacity-50 text-white font-medium rounded-lg transition-colors"
+                  >
+                    Send Back
+                  </button>
+                  <button
+                    onClick={() => handleReview(true)}
+                    disabled={isSaving}
+                    className="flex-1 py-2 bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white font-medium rounded-lg transition-colors"
+                  >
+                    Approve &amp; Post
+                  </button>
+                </>
+              )}
+              {((isOpen && canCount) || (count.status === 'submitted' && isOwner)) && (
+                <button
+                  onClick={handleCancel}
+                  disabled={isSaving}
+                  className="px-4 py-2 bg-red-500/20 hover:bg-red-500/30 disabled:opacity-50 text-red-400 font-medium rounded-lg transition-colors"
+                >
+                  Cancel Count
+                </button>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,195 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { recipeUnitLabel, toRecipeUnits } from '@/lib/units'
+import { Product, StockLot, StockMovement, StockMovementType } from '@/types/database'
+import toast from 'react-hot-toast'
+
+const MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  sale: 'Sale',
+  void: 'Void',
+  purchase: 'Purchase',
+  adjustment: 'Adjustment',
+  waste: 'Waste',
+  production: 'Production',
+  transfer: 'Transfer',
+}
+
+const MOVEMENT_COLORS: Record<StockMovementType, string> = {
+  sale: 'bg-blue-500/20 text-blue-400',
+  void: 'bg-surface-700 text-surface-300',
+  purchase: 'bg-green-500/20 text-green-400',
+  adjustment: 'bg-yellow-500/20 text-yellow-400',
+  waste: 'bg-red-500/20 text-red-400',
+  production: 'bg-primary-500/20 text-primary-400',
+  transfer: 'bg-purple-500/20 text-purple-400',
+}
+
+// The lots of one item still in stock, then every change to its stock, newest first
+export default function StockHistory({ item, onClose }: { item: Product; onClose: () => void }) {
+  const [movements, setMovements] = useState<StockMovement[]>([])
+  const [lots, setLots] = useState<StockLot[]>([])
+  const [loading, setLoading] = useState(true)
+  const [typeFilter, setTypeFilter] = useState<StockMovementType | ''>('')
+
+  useEffect(() => {
+    const fetchMovements = async () => {
+      try {
+        const [movementsRes, lotsRes] = await Promise.all([
+          supabase
+            .from('stock_movements')
+            .select('*')
+            .eq('item_id', item.id)
+            .order('created_at', { ascending: false })
+            .limit(500),
+          supabase
+            .from('stock_lots')
+            .select('*')
+            .eq('item_id', item.id)
+            .gt('qty_remaining', 0)
+            .order('expiry_date', { ascending: true, nullsFirst: false }),
+        ])
+
+        if (movementsRes.error) throw movementsRes.error
+        setMovements(movementsRes.data || [])
+        setLots(lotsRes.data || [])
+      } catch (error) {
+        console.error('Error fetching stock movements:', error)
+        toast.error('Failed to load stock history')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchMovements()
+  }, [item.id])
+
+  // Movements are stored in storage units (kg/L/pcs); show them like the grid does
+  const unit = recipeUnitLabel(item.unit_type)
+  const format = (qty: number) => toRecipeUnits(Number(qty), item.unit_type).toLocaleString()
+  const types = Array.from(new Set(movements.map((m) => m.movement_type)))
+  const shown = typeFilter ? movements.filter((m) => m.movement_type === typeFilter) : movements
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="card p-6 max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-xl font-bold text-white">Stock History: {item.name}</h2>
+            <p className="text-surface-400 text-sm">
+              {format(item.qty)} {unit} in stock
+            </p>
+          </div>
+          <button onClick={onClose} className="text-surface-400 hover:text-white">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {lots.length > 0 && (
+          <div className="mb-4 p-3 bg-surface-800/50 rounded-lg">
+            <p className="text-sm font-medium text-surface-300 mb-2">Lots in stock</p>
+            <table className="w-full text-sm">
+              <tbody>
+                {lots.map((lot) => (
+                  <tr key={lot.id}>
+                    <td className="py-1 pr-3 text-surface-400">
+                      Received {new Date(lot.received_at).toLocaleDateString()}
+                      {lot.lot_code && ` · lot ${lot.lot_code}`}
+                    </td>
+                    <td className="py-1 pr-3 text-right font-mono text-white">
+                      {format(lot.qty_remaining)} {unit}
+                    </td>
+                    <td className="py-1 text-right text-surface-400">
+                      {lot.expiry_date
+                        ? `expires ${new Date(`${lot.expiry_date}T00:00:00`).toLocaleDateString()}`
+                        : 'no expiry'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {types.length > 1 && (
+          <div className="flex flex-wrap gap-2 mb-4">
+            <button
+              onClick={() => setTypeFilter('')}
+              className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+                typeFilter === '' ? 'bg-primary-500 text-white' : 'bg-surface-800 text-surface-400 hover:bg-surface-700'
+              }`}
+            >
+              All
+            </button>
+            {types.map((type) => (
+              <button
+                key={type}
+                onClick={() => setTypeFilter(type)}
+                className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+                  typeFilter === type ? 'bg-primary-500 text-white' : 'bg-surface-800 text-surface-400 hover:bg-surface-700'
+                }`}
+              >
+                {MOVEMENT_LABELS[type]}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary-500"></div>
+          </div>
+        ) : shown.length === 0 ? (
+          <p className="text-surface-400 text-center py-8">No stock movements recorded yet.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-surface-400 border-b border-surface-800">
+                <th className="py-2 pr-3 font-medium">Date</th>
+                <th className="py-2 pr-3 font-medium">Type</th>
+                <th className="py-2 pr-3 font-medium text-right">Change</th>
+                <th className="py-2 pr-3 font-medium text-right">Before → After</th>
+                <th className="py-2 pr-3 font-medium text-right">Value</th>
+                <th className="py-2 pr-3 font-medium">Note</th>
+                <th className="py-2 font-medium">By</th>
+              </tr>
+            </thead>
+            <tbody>
+              {shown.map((movement) => (
+                <tr key={movement.id} className="border-b border-surface-800/50">
+                  <td className="py-2 pr-3 text-surface-300 whitespace-nowrap">
+                    {new Date(movement.created_at).toLocaleString()}
+                  </td>
+                  <td className="py-2 pr-3">
+                    <span className={`px-2 py-0.5 rounded text-xs font-medium ${MOVEMENT_COLORS[movement.movement_type]}`}>
+                      {MOVEMENT_LABELS[movement.movement_type]}
+                    </span>
+                  </td>
+                  <td
+                    className={`py-2 pr-3 text-right font-mono ${
+                      Number(movement.qty_change) < 0 ? 'text-red-400' : 'text-green-400'
+                    }`}
+                  >
+                    {Number(movement.qty_change) > 0 ? '+' : ''}
+                    {format(movement.qty_change)} {unit}
+                  </td>
+                  <td className="py-2 pr-3 text-right font-mono text-surface-400 whitespace-nowrap">
+                    {format(movement.qty_before)} → {format(movement.qty_after)}
+                  </td>
+                  <td className="py-2 pr-3 text-right font-mono text-surface-300 whitespace-nowrap">
+                    {Number(movement.value_change) < 0 ? '-' : ''}₱{Math.abs(Number(movement.value_change)).toFixed(2)}
+                  </td>
+                  <td className="py-2 pr-3 text-surface-400">{movement.note || '—'}</td>
+                  <td className="py-2 text-surface-400">{movement.username || '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,246 @@
+'use client'
+
+import { useState } from 'react'
+import { supabase, runQuery } from '@/lib/supabase'
+import { Product, UnitKind, UnitOfMeasure, UnitType } from '@/types/database'
+import { UNIT_KIND_LABELS, recipeUnitLabel, storageFactor, storageUnitLabel } from '@/lib/units'
+import toast from 'react-hot-toast'
+
+const UNIT_TYPE_LABELS: Record<UnitType, string> = {
+  weight: 'weight',
+  volume: 'volume',
+  quantity: 'pieces',
+}
+
+// Purchase units (a case of 24, a 5kg sack) and recipe units (a tbsp, a shot)
+// for one item or every item of a unit type. The size of a unit is entered in
+// the item's recipe or storage unit and saved as recipe units (g/ml/pcs).
+export default function UnitsEditor({
+  items,
+  units,
+  canEditPurchase,
+  canEditRecipe,
+  onClose,
+  onChanged,
+}: {
+  items: Product[]
+  units: UnitOfMeasure[]
+  canEditPurchase: boolean
+  canEditRecipe: boolean
+  onClose: () => void
+  onChanged: () => void
+}) {
+  const [kind, setKind] = useState<UnitKind>(canEditPurchase ? 'purchase' : 'recipe')
+  // 'type:<unit_type>' for a shared unit, otherwise an item id
+  const [appliesTo, setAppliesTo] = useState('')
+  const [name, setName] = useState('')
+  const [size, setSize] = useState('')
+  const [sizeInStorage, setSizeInStorage] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const canEdit = (k: UnitKind) => (k === 'purchase' ? canEditPurchase : canEditRecipe)
+  const itemOf = (id: string | null) => items.find((i) => i.id === id)
+  const item = appliesTo.startsWith('type:') ? undefined : itemOf(appliesTo)
+  const unitType = (appliesTo.startsWith('type:') ? appliesTo.slice(5) : item?.unit_type) as UnitType | undefined
+  const sizeValue = parseFloat(size) || 0
+  const factor = unitType && sizeInStorage ? sizeValue * storageFactor(unitType) : sizeValue
+
+  const sorted = [...units].sort(
+    (a, b) =>
+      a.kind.localeCompare(b.kind) ||
+      (itemOf(a.item_id)?.name || '').localeCompare(itemOf(b.item_id)?.name || '') ||
+      Number(a.factor) - Number(b.factor)
+  )
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!unitType) {
+      toast.error('Choose what the unit is for')
+      return
+    }
+    if (!name.trim()) {
+      toast.error('Enter a name for the unit')
+      return
+    }
+    if (factor <= 0) {
+      toast.error('Enter how much one unit holds')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const { error } = await (supabase as any).from('units_of_measure').insert({
+        item_id: item?.id || null,
+        unit_type: unitType,
+        name: name.trim(),
+        factor,
+        kind,
+      })
+
+      if (error) {
+        if (error.code === '23505') {
+          toast.error(`There is already a unit called "${name.trim()}" for this`)
+          return
+        }
+        throw error
+      }
+
+      toast.success(`Added ${name.trim()}`)
+      setName('')
+      setSize('')
+      onChanged()
+    } catch (error) {
+      console.error('Error adding unit:', error)
+      toast.error('Failed to add unit')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (unit: UnitOfMeasure) => {
+    try {
+      await runQuery((supabase as any).from('units_of_measure').delete().eq('id', unit.id))
+      toast.success(`Removed ${unit.name}`)
+      onChanged()
+    } catch (error) {
+      console.error('Error deleting unit:', error)
+      toast.error('Failed to remove unit')
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="card p-6 max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-xl font-bold text-white">Units of Measure</h2>
+            <p className="text-surface-400 text-sm">
+              Purchase units for buying and counting stock, recipe units for recipes
+            </p>
+          </div>
+          <button onClick={onClose} className="text-surface-400 hover:text-white">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {sorted.length === 0 ? (
+          <p className="text-surface-400 text-center py-6">No units yet.</p>
+        ) : (
+          <table className="w-full text-sm mb-6">
+            <thead>
+              <tr className="text-left text-surface-400 border-b border-surface-800">
+                <th className="py-2 pr-3 font-medium">Unit</th>
+                <th className="py-2 pr-3 font-medium">For</th>
+                <th className="py-2 pr-3 font-medium text-right">Holds</th>
+                <th className="py-2 pr-3 font-medium">Kind</th>
+                <th className="py-2 font-medium"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {sorted.map((unit) => (
+                <tr key={unit.id} className="border-b border-surface-800/50">
+                  <td className="py-2 pr-3 text-white">{unit.name}</td>
+                  <td className="py-2 pr-3 text-surface-300">
+                    {unit.item_id ? itemOf(unit.item_id)?.name || 'Unknown item' : `All ${UNIT_TYPE_LABELS[unit.unit_type]} items`}
+                  </td>
+                  <td className="py-2 pr-3 text-right font-mono text-surface-300 whitespace-nowrap">
+                    {Number(unit.factor).toLocaleString()} {recipeUnitLabel(unit.unit_type)}
+                  </td>
+                  <td className="py-2 pr-3 text-surface-400">{UNIT_KIND_LABELS[unit.kind]}</td>
+                  <td className="py-2 text-right">
+                    {canEdit(unit.kind) && (
+                      <button
+                        onClick={() => handleDelete(unit)}
+                        className="p-1 text-surface-500 hover:text-red-400"
+                        title="Remove unit"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {(canEditPurchase || canEditRecipe) && (
+          <form onSubmit={handleAdd} className="space-y-3 p-4 bg-surface-800/50 rounded-lg">
+            <h3 className="text-sm font-medium text-surface-300">Add a unit</h3>
+            <div className="grid grid-cols-2 gap-3">
+              <select
+                value={kind}
+                onChange={(e) => setKind(e.target.value as UnitKind)}
+                className="px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white text-sm"
+              >
+                {(['purchase', 'recipe'] as UnitKind[]).filter(canEdit).map((k) => (
+                  <option key={k} value={k}>
+                    {UNIT_KIND_LABELS[k]}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={appliesTo}
+                onChange={(e) => setAppliesTo(e.target.value)}
+                className="px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white text-sm"
+              >
+                <option value="">For…</option>
+                {(['weight', 'volume', 'quantity'] as UnitType[]).map((t) => (
+                  <option key={t} value={`type:${t}`}>
+                    All {UNIT_TYPE_LABELS[t]} items
+                  </option>
+                ))}
+                {items.map((i) => (
+                  <option key={i.id} value={i.id}>
+                    {i.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder={kind === 'purchase' ? 'e.g. case of 24, 5kg sack' : 'e.g. tbsp, shot'}
+                className="flex-1 px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white text-sm"
+              />
+              <span className="text-surface-400 text-sm">holds</span>
+              <input
+                type="text"
+                inputMode="decimal"
+                value={size}
+                onChange={(e) => /^\d*\.?\d*$/.test(e.target.value) && setSize(e.target.value)}
+                placeholder="0"
+                className="w-24 px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white text-right font-mono text-sm"
+              />
+              {unitType && unitType !== 'quantity' ? (
+                <select
+                  value={sizeInStorage ? 'storage' : 'recipe'}
+                  onChange={(e) => setSizeInStorage(e.target.value === 'storage')}
+                  className="px-2 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white text-sm"
+                >
+                  <option value="recipe">{recipeUnitLabel(unitType)}</option>
+                  <option value="storage">{storageUnitLabel(unitType)}</option>
+                </select>
+              ) : (
+                <span className="text-surface-400 text-sm w-8">{recipeUnitLabel(unitType)}</span>
+              )}
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="px-4 py-2 bg-primary-500 hover:bg-primary-600 disabled:opacity-50 text-white font-medium rounded-lg transition-colors text-sm"
+              >
+                {isSaving ? 'Adding...' : 'Add'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,304 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { Product, UnitType, WasteEntry, WasteReason } from '@/types/database'
+import { WASTE_REASONS, WASTE_REASON_LABELS } from '@/lib/waste'
+import {
+  NO_OPTIONS,
+  OptionSelection,
+  ProductOptions,
+  defaultSelection,
+  groupProductOptions,
+  selectionError,
+  toggleModifier,
+} from '@/lib/modifiers'
+import { recipeUnitLabel } from '@/lib/units'
+import toast from 'react-hot-toast'
+
+interface StockShortage {
+  name: string
+  unit_type: UnitType
+  required: number
+  available: number
+}
+
+// Logs waste of an inventory item (recipe units) or of finished products
+// (units, with their size and modifiers, taking out their ingredients) through
+// log_waste
+export default function WasteEntryForm({
+  items,
+  onClose,
+  onSaved,
+}: {
+  items: Product[]
+  onClose: () => void
+  onSaved: () => void
+}) {
+  const [kind, setKind] = useState<'item' | 'product'>('item')
+  const [products, setProducts] = useState<{ id: string; name: string }[]>([])
+  const [productOptions, setProductOptions] = useState<Record<string, ProductOptions>>({})
+  const [itemId, setItemId] = useState('')
+  const [productId, setProductId] = useState('')
+  const [selection, setSelection] = useState<OptionSelection>(defaultSelection(NO_OPTIONS))
+  const [qty, setQty] = useState('')
+  const [reason, setReason] = useState<WasteReason>('spoiled')
+  const [notes, setNotes] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    const fetchProducts = async () => {
+      const [productsRes, variantsRes, groupsRes, optionsRes] = await Promise.all([
+        supabase.from('finished_products').select('id, name').order('name'),
+        supabase.from('product_variants').select('*'),
+        supabase.from('modifier_groups').select('*'),
+        supabase.from('modifier_options').select('*'),
+      ])
+      setProducts((productsRes.data || []) as { id: string; name: string }[])
+      setProductOptions(groupProductOptions(variantsRes.data || [], groupsRes.data || [], optionsRes.data || []))
+    }
+
+    fetchProducts()
+  }, [])
+
+  const item = items.find((i) => i.id === itemId)
+  const options = productOptions[productId] || NO_OPTIONS
+  const qtyValue = parseFloat(qty) || 0
+  const unit = kind === 'item' ? recipeUnitLabel(item?.unit_type) : 'pcs'
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (kind === 'item' ? !itemId : !productId) {
+      toast.error(kind === 'item' ? 'Choose an item' : 'Choose a product')
+      return
+    }
+    const optionsError = kind === 'product' ? selectionError(options, selection) : null
+    if (optionsError) {
+      toast.error(optionsError)
+      return
+    }
+    if (qtyValue <= 0) {
+      toast.error('Enter how much was wasted')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const { data, error } = await (supabase as any).rpc('log_waste', {
+        p_item_id: kind === 'item' ? itemId : null,
+        p_product_id: kind === 'product' ? productId : null,
+        p_qty: qtyValue,
+        p_reason: reason,
+        p_notes: notes.trim() || null,
+        p_variant_id: kind === 'product' ? selection.variantId : null,
+        p_modifier_ids: kind === 'product' ? selection.modifierIds : [],
+      })
+
+      if (error) {
+        if (error.hint === 'insufficient_stock') {
+          let shortages: StockShortage[] = []
+          try {
+            shortages = JSON.parse(error.details || '[]')
+          } catch {
+            shortages = []
+          }
+          const text = shortages
+            .map((s) => `${s.name} (need ${s.required} ${recipeUnitLabel(s.unit_type)}, have ${s.available} ${recipeUnitLabel(s.unit_type)})`)
+            .join(', ')
+          toast.error(`Not enough stock: ${text}`, { duration: 6000 })
+          return
+        }
+        if (error.code === '42501' || error.code === 'P0001') {
+          toast.error(error.message)
+          return
+        }
+        throw error
+      }
+
+      const entry = data as WasteEntry
+      toast.success(`Logged ${Number(entry.qty).toLocaleString()} ${unit} of ${entry.name} as waste (₱${Number(entry.cost).toFixed(2)})`)
+      onSaved()
+    } catch (error) {
+      console.error('Error logging waste:', error)
+      toast.error('Failed to log waste')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="card p-6 max-w-md w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold text-white">Log Waste</h2>
+          <button onClick={onClose} className="text-surface-400 hover:text-white">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            {(['item', 'product'] as const).map((k) => (
+              <button
+                key={k}
+                type="button"
+                onClick={() => setKind(k)}
+                className={`py-2 rounded-lg text-sm font-medium transition-colors ${
+                  kind === k ? 'bg-primary-500 text-white' : 'bg-surface-800 text-surface-300 hover:bg-surface-700'
+                }`}
+              >
+                {k === 'item' ? 'Inventory item' : 'Finished product'}
+              </button>
+            ))}
+          </div>
+
+          {kind === 'item' ? (
+            <div>
+              <label className="block text-sm font-medium text-surface-300 mb-1">Item</label>
+              <select
+                value={itemId}
+                onChange={(e) => setItemId(e.target.value)}
+                className="w-full px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+              >
+                <option value="">Choose an item</option>
+                {items.map((i) => (
+                  <option key={i.id} value={i.id}>
+                    {i.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ) : (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-surface-300 mb-1">Product</label>
+                <select
+                  value={productId}
+                  onChange={(e) => {
+                    setProductId(e.target.value)
+                    setSelection(defaultSelection(productOptions[e.target.value] || NO_OPTIONS))
+                  }}
+                  className="w-full px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+                >
+                  <option value="">Choose a product</option>
+                  {products.map((p) => (
+                    <option key={p.id} value={p.id}>
+                      {p.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {options.variants.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-surface-300 mb-1">Size</label>
+                  <select
+                    value={selection.variantId || ''}
+                    onChange={(e) => setSelection({ ...selection, variantId: e.target.value || null })}
+                    className="w-full px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+                  >
+                    {options.variants.map((v) => (
+                      <option key={v.id} value={v.id}>
+                        {v.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              {options.groups.map((group) => (
+                <div key={group.id}>
+                  <div className="flex items-center justify-between mb-1">
+                    <label className="text-sm font-medium text-surface-300">{group.name}</label>
+                    <span className="text-xs text-surface-500">
+                      {group.min_select > 0 ? 'Required' : 'Optional'}
+                      {group.max_select > 1 && ` · up to ${group.max_select}`}
+                    </span>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {group.options.map((option) => (
+                      <button
+                        key={option.id}
+                        type="button"
+                        onClick={() => setSelection(toggleModifier(group, selection, option.id))}
+                        className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                          selection.modifierIds.includes(option.id)
+                            ? 'bg-primary-500 text-white'
+                            : 'bg-surface-700 text-surface-300 hover:bg-surface-600'
+                        }`}
+                      >
+                        {option.name}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-surface-300 mb-1">Quantity ({unit})</label>
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={qty}
+                onChange={(e) => setQty(e.target.value)}
+                className="w-full px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-surface-300 mb-1">Reason</label>
+              <select
+                value={reason}
+                onChange={(e) => setReason(e.target.value as WasteReason)}
+                className="w-full px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+              >
+                {WASTE_REASONS.map((r) => (
+                  <option key={r} value={r}>
+                    {WASTE_REASON_LABELS[r]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-surface-300 mb-1">Notes (optional)</label>
+            <input
+              type="text"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="e.g. dropped tray"
+              className="w-full px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+            />
+          </div>
+
+          {kind === 'item' && item && qtyValue > 0 && (
+            <p className="text-sm text-surface-400">
+              About <span className="font-mono text-white">₱{(item.cost * qtyValue).toFixed(2)}</span> of stock
+            </p>
+          )}
+
+          <div className="flex gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 py-2 bg-surface-700 hover:bg-surface-600 text-white font-medium rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="flex-1 py-2 bg-red-500 hover:bg-red-600 disabled:opacity-50 text-white font-medium rounded-lg transition-colors"
+            >
+              {isSaving ? 'Logging...' : 'Log Waste'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
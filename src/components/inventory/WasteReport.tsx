@@ -0,0 +1,199 @@
+'use client'
+
+import { Fragment, useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { UnitType, WasteEntry, WasteReason } from '@/types/database'
+import { WASTE_REASONS, WASTE_REASON_LABELS } from '@/lib/waste'
+import { recipeUnitLabel } from '@/lib/units'
+import { format, startOfDay, endOfDay, subDays } from 'date-fns'
+import toast from 'react-hot-toast'
+
+const money = (value: number) =>
+  `₱${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+
+// Waste logged in a date range: cost by reason, by item or product, and every entry
+export default function WasteReport({ onClose }: { onClose: () => void }) {
+  const [entries, setEntries] = useState<WasteEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [startDate, setStartDate] = useState(format(subDays(new Date(), 30), 'yyyy-MM-dd'))
+  const [endDate, setEndDate] = useState(format(new Date(), 'yyyy-MM-dd'))
+  const [reasonFilter, setReasonFilter] = useState<WasteReason | ''>('')
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchEntries = async () => {
+      setLoading(true)
+      try {
+        const { data, error } = await supabase
+          .from('waste_entries')
+          .select('*')
+          .gte('created_at', startOfDay(new Date(`${startDate}T00:00:00`)).toISOString())
+          .lte('created_at', endOfDay(new Date(`${endDate}T00:00:00`)).toISOString())
+          .order('created_at', { ascending: false })
+
+        if (error) throw error
+        setEntries(data || [])
+      } catch (error) {
+        console.error('Error fetching waste entries:', error)
+        toast.error('Failed to load waste report')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchEntries()
+  }, [startDate, endDate])
+
+  const shown = reasonFilter ? entries.filter((e) => e.reason === reasonFilter) : entries
+  const totalCost = shown.reduce((sum, e) => sum + Number(e.cost), 0)
+
+  const byReason = WASTE_REASONS.map((reason) => {
+    const ofReason = entries.filter((e) => e.reason === reason)
+    return { reason, count: ofReason.length, cost: ofReason.reduce((sum, e) => sum + Number(e.cost), 0) }
+  }).filter((r) => r.count > 0)
+
+  const byName = Object.values(
+    shown.reduce((acc, e) => {
+      const row = acc[e.name] || { name: e.name, unit_type: e.unit_type, qty: 0, cost: 0 }
+      row.qty += Number(e.qty)
+      row.cost += Number(e.cost)
+      acc[e.name] = row
+      return acc
+    }, {} as Record<string, { name: string; unit_type: UnitType; qty: number; cost: number }>)
+  ).sort((a, b) => b.cost - a.cost)
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="card p-6 max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold text-white">Waste Report</h2>
+          <button onClick={onClose} className="text-surface-400 hover:text-white">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+          <div className="flex items-center gap-2">
+            <input
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              className="px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white text-sm"
+            />
+            <span className="text-surface-500">to</span>
+            <input
+              type="date"
+              value={endDate}
+              onChange={(e) => setEndDate(e.target.value)}
+              className="px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white text-sm"
+            />
+          </div>
+          <p className="text-sm text-surface-400">
+            {reasonFilter ? WASTE_REASON_LABELS[reasonFilter] : 'Total'} waste:{' '}
+            <span className="font-mono font-bold text-red-400">{money(totalCost)}</span>
+          </p>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary-500"></div>
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-surface-400 text-center py-8">No waste logged in this period.</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+              <div>
+                <h3 className="text-sm font-medium text-surface-400 mb-2">By reason</h3>
+                <div className="space-y-1">
+                  {byReason.map((r) => (
+                    <button
+                      key={r.reason}
+                      onClick={() => setReasonFilter(reasonFilter === r.reason ? '' : r.reason)}
+                      className={`w-full flex items-center justify-between px-3 py-2 rounded-lg text-sm transition-colors ${
+                        reasonFilter === r.reason ? 'bg-primary-500/20 text-white' : 'bg-surface-800 text-surface-300 hover:bg-surface-700'
+                      }`}
+                    >
+                      <span>
+                        {WASTE_REASON_LABELS[r.reason]} <span className="text-surface-500">×{r.count}</span>
+                      </span>
+                      <span className="font-mono">{money(r.cost)}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <h3 className="text-sm font-medium text-surface-400 mb-2">By item</h3>
+                <div className="space-y-1">
+                  {byName.slice(0, 8).map((row) => (
+                    <div
+                      key={row.name}
+                      className="flex items-center justify-between px-3 py-2 bg-surface-800 rounded-lg text-sm"
+                    >
+                      <span className="text-white">
+                        {row.name}{' '}
+                        <span className="text-surface-500">
+                          {row.qty.toLocaleString()} {recipeUnitLabel(row.unit_type)}
+                        </span>
+                      </span>
+                      <span className="font-mono text-surface-300">{money(row.cost)}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-surface-400 border-b border-surface-800">
+                  <th className="py-2 pr-3 font-medium">Date</th>
+                  <th className="py-2 pr-3 font-medium">Item</th>
+                  <th className="py-2 pr-3 font-medium text-right">Qty</th>
+                  <th className="py-2 pr-3 font-medium">Reason</th>
+                  <th className="py-2 pr-3 font-medium text-right">Cost</th>
+                  <th className="py-2 font-medium">By</th>
+                </tr>
+              </thead>
+              <tbody>
+                {shown.map((entry) => (
+                  <Fragment key={entry.id}>
+                    <tr
+                      onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                      className="border-b border-surface-800/50 hover:bg-surface-800/30 cursor-pointer"
+                    >
+                      <td className="py-2 pr-3 text-surface-300 whitespace-nowrap">
+                        {new Date(entry.created_at).toLocaleString()}
+                      </td>
+                      <td className="py-2 pr-3 text-white">{entry.name}</td>
+                      <td className="py-2 pr-3 text-right font-mono text-surface-300">
+                        {Number(entry.qty).toLocaleString()} {recipeUnitLabel(entry.unit_type)}
+                      </td>
+                      <td className="py-2 pr-3 text-surface-300">{WASTE_REASON_LABELS[entry.reason]}</td>
+                      <td className="py-2 pr-3 text-right font-mono text-red-400">{money(Number(entry.cost))}</td>
+                      <td className="py-2 text-surface-400">{entry.username || '—'}</td>
+                    </tr>
+                    {expandedId === entry.id && (
+                      <tr className="bg-surface-800/30">
+                        <td colSpan={6} className="px-3 py-2 text-xs text-surface-400">
+                          <p>
+                            Took out{' '}
+                            {entry.consumed
+                              .map((c) => `${Number(c.qty).toLocaleString()} ${recipeUnitLabel(c.unit_type)} ${c.name}`)
+                              .join(', ')}
+                          </p>
+                          {entry.notes && <p className="mt-1 text-surface-300">Note: {entry.notes}</p>}
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -2,7 +2,9 @@
 
 import { useState, useEffect, useCallback } from 'react'
 import { supabase } from '@/lib/supabase'
-import { Sale } from '@/types/database'
+import { CostingMethod, Sale, SalePayment, WasteEntry } from '@/types/database'
+import { COSTING_METHOD_LABELS, DEFAULT_COSTING_METHOD, fetchCostingMethod } from '@/lib/costing'
+import { addMoney, multiplyMoney, sumMoney } from '@/lib/money'
 import { format, startOfDay, endOfDay, startOfMonth, endOfMonth, subDays, eachDayOfInterval, parseISO } from 'date-fns'
 import {
   Chart as ChartJS,
@@ -48,13 +50,21 @@ interface OpexItem {
 
 interface MonthlySale {
   total: number
+  vat_amount: number
   cost: number
   qty: number
   created_at: string
 }
 
+type WasteCost = Pick<WasteEntry, 'cost' | 'created_at'>
+
+// Transaction ids per sale_payments request, keeping the query string short
+const PAYMENT_BATCH_SIZE = 200
+
 export default function EarningsPage() {
   const [sales, setSales] = useState<Sale[]>([])
+  const [payments, setPayments] = useState<SalePayment[]>([])
+  const [waste, setWaste] = useState<WasteCost[]>([])
   const [loading, setLoading] = useState(true)
   const [viewMode, setViewMode] = useState<'today' | 'range'>('today')
   const [startDate, setStartDate] = useState<string>(format(subDays(new Date(), 7), 'yyyy-MM-dd'))
@@ -64,11 +74,13 @@ export default function EarningsPage() {
   const [totalMonthlyOpex, setTotalMonthlyOpex] = useState(0)
   const [monthlyGrossMargin, setMonthlyGrossMargin] = useState(0)
   const [breakEvenDate, setBreakEvenDate] = useState<Date | null>(null)
+  // Item expenses are the sale costs recorded under this method
+  const [costingMethod, setCostingMethod] = useState<CostingMethod>(DEFAULT_COSTING_METHOD)
 
   const fetchOpexData = useCallback(async () => {
     try {
       const { data } = await supabase.from('opex').select('monthly_cost')
-      const total = (data || []).reduce((sum: number, item: OpexItem) => sum + item.monthly_cost, 0)
+      const total = sumMoney((data || []).map((item: OpexItem) => item.monthly_cost))
       setTotalMonthlyOpex(total)
     } catch (error) {
       console.error('Error fetching OPEX:', error)
@@ -81,28 +93,42 @@ export default function EarningsPage() {
       const monthStart = startOfMonth(now)
       const monthEnd = endOfMonth(now)
 
-      const { data } = await (supabase as any)
-        .from('sales')
-        .select('total, cost, qty, created_at')
-        .eq('cancelled', false)
-        .gte('created_at', monthStart.toISOString())
-        .lte('created_at', monthEnd.toISOString())
-        .order('created_at', { ascending: true })
+      const [{ data }, wasteRes] = await Promise.all([
+        (supabase as any)
+          .from('sales')
+          .select('total, vat_amount, cost, qty, created_at')
+          .eq('cancelled', false)
+          .gte('created_at', monthStart.toISOString())
+          .lte('created_at', monthEnd.toISOString())
+          .order('created_at', { ascending: true }),
+        supabase
+          .from('waste_entries')
+          .select('cost, created_at')
+          .gte('created_at', monthStart.toISOString())
+          .lte('created_at', monthEnd.toISOString()),
+      ])
 
       const salesData: MonthlySale[] = data || []
-      
-      // Calculate gross margin (revenue - item expenses) for each sale
+
+      // Sales add their gross margin (revenue - item expenses), waste takes its cost off
+      const events = [
+        ...salesData.map((sale) => ({
+          amount: addMoney(sale.total, -(sale.vat_amount || 0), -multiplyMoney(sale.cost, sale.qty)),
+          created_at: sale.created_at,
+        })),
+        ...((wasteRes.data || []) as WasteCost[]).map((w) => ({ amount: -Number(w.cost), created_at: w.created_at })),
+      ].sort((a, b) => a.created_at.localeCompare(b.created_at))
+
       let runningGrossMargin = 0
       let foundBreakEven = false
       let breakEvenTimestamp: Date | null = null
 
-      for (const sale of salesData) {
-        const saleGrossMargin = sale.total - (sale.cost * sale.qty)
-        runningGrossMargin += saleGrossMargin
+      for (const event of events) {
+        runningGrossMargin = addMoney(runningGrossMargin, event.amount)
         
         // Check if break-even reached at this sale
         if (runningGrossMargin >= totalMonthlyOpex && !foundBreakEven && totalMonthlyOpex > 0) {
-          breakEvenTimestamp = new Date(sale.created_at)
+          breakEvenTimestamp = new Date(event.created_at)
           foundBreakEven = true
         }
       }
@@ -116,13 +142,24 @@ export default function EarningsPage() {
 
   const fetchSales = useCallback(async () => {
     try {
-      const { data, error } = await (supabase as any)
-        .from('sales')
-        .select('*')
-        .eq('cancelled', false)
-        .order('created_at', { ascending: true })
+      const dateStart = viewMode === 'today' ? startOfDay(new Date()) : startOfDay(new Date(startDate))
+      const dateEnd = viewMode === 'today' ? endOfDay(new Date()) : endOfDay(new Date(endDate))
+
+      const [{ data, error }, wasteRes] = await Promise.all([
+        (supabase as any)
+          .from('sales')
+          .select('*')
+          .eq('cancelled', false)
+          .order('created_at', { ascending: true }),
+        supabase
+          .from('waste_entries')
+          .select('cost, created_at')
+          .gte('created_at', dateStart.toISOString())
+          .lte('created_at', dateEnd.toISOString()),
+      ])
 
       if (error) throw error
+      if (wasteRes.error) throw wasteRes.error
 
       // Normalize field names for backward compatibility
       const normalizedSales = (data || []).map((sale: any) => ({
@@ -130,26 +167,26 @@ export default function EarningsPage() {
         earnings_datetime: sale.earnings_datetime || sale.store_sale_datetime || sale.created_at
       }))
 
-      let filteredSales = normalizedSales
-
-      if (viewMode === 'today') {
-        const today = new Date()
-        const dateStart = startOfDay(today)
-        const dateEnd = endOfDay(today)
-        filteredSales = normalizedSales.filter((s: any) => {
-          const saleDate = new Date(s.earnings_datetime)
-          return saleDate >= dateStart && saleDate <= dateEnd
-        })
-      } else {
-        const dateStart = startOfDay(new Date(startDate))
-        const dateEnd = endOfDay(new Date(endDate))
-        filteredSales = normalizedSales.filter((s: any) => {
-          const saleDate = new Date(s.earnings_datetime)
-          return saleDate >= dateStart && saleDate <= dateEnd
-        })
-      }
+      const filteredSales = normalizedSales.filter((s: any) => {
+        const saleDate = new Date(s.earnings_datetime)
+        return saleDate >= dateStart && saleDate <= dateEnd
+      })
 
       setSales(filteredSales)
+      setWaste((wasteRes.data || []) as WasteCost[])
+
+      // Tenders of the transactions shown
+      const transactionIds: string[] = Array.from(new Set(filteredSales.map((s: any) => s.transaction_id || s.id)))
+      const batches = []
+      for (let i = 0; i < transactionIds.length; i += PAYMENT_BATCH_SIZE) {
+        batches.push(transactionIds.slice(i, i + PAYMENT_BATCH_SIZE))
+      }
+      const paymentResults = await Promise.all(
+        batches.map((ids) => supabase.from('sale_payments').select('*').eq('cancelled', false).in('transaction_id', ids))
+      )
+      const paymentsError = paymentResults.find((r) => r.error)?.error
+      if (paymentsError) throw paymentsError
+      setPayments(paymentResults.flatMap((r) => (r.data || []) as SalePayment[]))
     } catch (error) {
       console.error('Error fetching sales:', error)
       toast.error('Failed to load earnings data')
@@ -162,6 +199,10 @@ export default function EarningsPage() {
     fetchOpexData()
   }, [fetchOpexData])
 
+  useEffect(() => {
+    fetchCostingMethod().then(setCostingMethod)
+  }, [])
+
   useEffect(() => {
     fetchMonthlySales()
   }, [fetchMonthlySales])
@@ -183,18 +224,24 @@ export default function EarningsPage() {
     }
   }, [fetchSales, fetchMonthlySales, viewMode])
 
-  // Calculate totals for displayed data
-  const totalRevenue = sales.reduce((sum, s) => sum + s.total, 0)
-  const totalItemExpenses = sales.reduce((sum, s) => sum + (s.cost * s.qty), 0)
-  const grossMargin = totalRevenue - totalItemExpenses
+  // Calculate totals for displayed data (sale totals are already net of discounts;
+  // VAT is owed to the BIR, so revenue excludes it)
+  const totalVat = sumMoney(sales.map((s) => s.vat_amount || 0))
+  const totalRevenue = addMoney(sumMoney(sales.map((s) => s.total)), -totalVat)
+  const totalDiscounts = sumMoney(sales.map((s) => s.discount_amount || 0))
+  const totalVatExemption = sumMoney(sales.map((s) => s.vat_exemption || 0))
+  const totalItemExpenses = sumMoney(sales.map((s) => multiplyMoney(s.cost, s.qty)))
+  // Stock logged as waste is a cost of the period too, kept apart from what was sold
+  const totalWaste = sumMoney(waste.map((w) => Number(w.cost)))
+  const grossMargin = addMoney(totalRevenue, -totalItemExpenses, -totalWaste)
   
   // Remaining OPEX calculation (for current month)
-  const remainingOpex = Math.max(0, totalMonthlyOpex - monthlyGrossMargin)
+  const remainingOpex = Math.max(0, addMoney(totalMonthlyOpex, -monthlyGrossMargin))
   const isBreakEvenReached = remainingOpex === 0 && totalMonthlyOpex > 0
   const opexPaidThisMonth = Math.min(monthlyGrossMargin, totalMonthlyOpex)
   
   // Net Profit: 0 until OPEX is covered, then any excess gross margin
-  const netProfit = isBreakEvenReached ? monthlyGrossMargin - totalMonthlyOpex : 0
+  const netProfit = isBreakEvenReached ? addMoney(monthlyGrossMargin, -totalMonthlyOpex) : 0
 
   // Customer type data for pie chart
   const customerTypeData = sales.reduce((acc, sale) => {
@@ -202,9 +249,9 @@ export default function EarningsPage() {
     return acc
   }, {} as Record<string, number>)
 
-  // Payment method data for pie chart
-  const paymentMethodData = sales.reduce((acc, sale) => {
-    acc[sale.payment_method] = (acc[sale.payment_method] || 0) + 1
+  // Payment method data for pie chart, by amount paid with each tender
+  const paymentMethodData = payments.reduce((acc, payment) => {
+    acc[payment.payment_method] = addMoney(acc[payment.payment_method] || 0, Number(payment.amount))
     return acc
   }, {} as Record<string, number>)
 
@@ -230,6 +277,7 @@ export default function EarningsPage() {
     const remainingOpexByDay: number[] = []
     const profitByDay: number[] = []
     const itemExpensesByDay: number[] = []
+    const wasteByDay: number[] = []
 
     days.forEach((day) => {
       const dayStr = format(day, 'yyyy-MM-dd')
@@ -237,18 +285,22 @@ export default function EarningsPage() {
         format(new Date(s.earnings_datetime || s.created_at), 'yyyy-MM-dd') === dayStr
       )
       
-      const dayRevenue = daySales.reduce((sum, s) => sum + s.total, 0)
-      const dayItemExpenses = daySales.reduce((sum, s) => sum + (s.cost * s.qty), 0)
-      const dayGrossMargin = dayRevenue - dayItemExpenses
+      const dayRevenue = sumMoney(daySales.map((s) => addMoney(s.total, -(s.vat_amount || 0))))
+      const dayItemExpenses = sumMoney(daySales.map((s) => multiplyMoney(s.cost, s.qty)))
+      const dayWaste = sumMoney(
+        waste.filter((w) => format(new Date(w.created_at), 'yyyy-MM-dd') === dayStr).map((w) => Number(w.cost))
+      )
+      const dayGrossMargin = addMoney(dayRevenue, -dayItemExpenses, -dayWaste)
       
-      runningGrossMargin += dayGrossMargin
+      runningGrossMargin = addMoney(runningGrossMargin, dayGrossMargin)
       
-      const dayRemainingOpex = Math.max(0, totalMonthlyOpex - runningGrossMargin)
-      const dayNetProfit = runningGrossMargin > totalMonthlyOpex ? runningGrossMargin - totalMonthlyOpex : 0
+      const dayRemainingOpex = Math.max(0, addMoney(totalMonthlyOpex, -runningGrossMargin))
+      const dayNetProfit = runningGrossMargin > totalMonthlyOpex ? addMoney(runningGrossMargin, -totalMonthlyOpex) : 0
       
       remainingOpexByDay.push(dayRemainingOpex)
       profitByDay.push(dayNetProfit)
       itemExpensesByDay.push(dayItemExpenses)
+      wasteByDay.push(dayWaste)
     })
 
     return {
@@ -279,13 +331,22 @@ export default function EarningsPage() {
           tension: 0.4,
           borderDash: [5, 5],
         },
+        {
+          label: 'Waste',
+          data: wasteByDay,
+          borderColor: '#ec4899',
+          backgroundColor: 'rgba(236, 72, 153, 0.1)',
+          fill: false,
+          tension: 0.4,
+          borderDash: [2, 4],
+        },
       ],
     }
   }
 
   // Calculate range totals
-  const rangeTotalItemExpenses = sales.reduce((sum, s) => sum + (s.cost * s.qty), 0)
-  const rangeGrossMargin = totalRevenue - rangeTotalItemExpenses
+  const rangeTotalItemExpenses = totalItemExpenses
+  const rangeGrossMargin = addMoney(totalRevenue, -rangeTotalItemExpenses, -totalWaste)
   const rangeOpexPaid = Math.min(rangeGrossMargin, totalMonthlyOpex)
 
   const pieOptions = {
@@ -451,8 +512,15 @@ export default function EarningsPage() {
               </svg>
             </div>
             <div>
-              <p className="text-surface-400 text-sm">Total Revenue</p>
+              <p className="text-surface-400 text-sm">Total Revenue (ex-VAT)</p>
               <p className="text-2xl font-bold text-white font-mono">₱{totalRevenue.toFixed(2)}</p>
+              {totalDiscounts > 0 && (
+                <p className="text-xs text-surface-500">after ₱{totalDiscounts.toFixed(2)} discounts</p>
+              )}
+              {totalVatExemption > 0 && (
+                <p className="text-xs text-surface-500">and ₱{totalVatExemption.toFixed(2)} Senior/PWD VAT exemption</p>
+              )}
+              <p className="text-xs text-surface-500">VAT payable ₱{totalVat.toFixed(2)}</p>
             </div>
           </div>
         </div>
@@ -467,6 +535,10 @@ export default function EarningsPage() {
             <div>
               <p className="text-surface-400 text-sm">Item Expenses</p>
               <p className="text-2xl font-bold text-white font-mono">₱{totalItemExpenses.toFixed(2)}</p>
+              <p className="text-xs text-surface-500">{COSTING_METHOD_LABELS[costingMethod]} cost</p>
+              {totalWaste > 0 && (
+                <p className="text-xs text-red-400">+ ₱{totalWaste.toFixed(2)} waste</p>
+              )}
             </div>
           </div>
         </div>
@@ -493,11 +565,15 @@ export default function EarningsPage() {
 
       {/* Range View Totals */}
       {viewMode === 'range' && (
-        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
           <div className="card p-4 bg-yellow-500/5 border-yellow-500/20">
             <p className="text-surface-400 text-sm">Total Item Expenses (Range)</p>
             <p className="text-xl font-bold text-yellow-400 font-mono">₱{rangeTotalItemExpenses.toFixed(2)}</p>
           </div>
+          <div className="card p-4 bg-pink-500/5 border-pink-500/20">
+            <p className="text-surface-400 text-sm">Waste (Range)</p>
+            <p className="text-xl font-bold text-pink-400 font-mono">₱{totalWaste.toFixed(2)}</p>
+          </div>
           <div className="card p-4 bg-blue-500/5 border-blue-500/20">
             <p className="text-surface-400 text-sm">Gross Margin (Range)</p>
             <p className="text-xl font-bold text-blue-400 font-mono">₱{rangeGrossMargin.toFixed(2)}</p>
@@ -557,7 +633,7 @@ export default function EarningsPage() {
 
             {/* Payment Method Pie */}
             <div className="card p-6">
-              <h3 className="text-lg font-semibold text-white mb-4">Payment Methods</h3>
+              <h3 className="text-lg font-semibold text-white mb-4">Payment Methods (₱)</h3>
               {Object.keys(paymentMethodData).length > 0 ? (
                 <div className="aspect-square">
                   <Pie
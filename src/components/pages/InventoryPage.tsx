@@ -2,17 +2,55 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react'
 import { supabase, getProductImageUrl, PRODUCT_IMAGES_BUCKET } from '@/lib/supabase'
-import { Product, UnitType } from '@/types/database'
+import { PrepIngredient, Product, StockValuation, UnitOfMeasure, UnitType, VatStatus } from '@/types/database'
+import { VAT_STATUS_LABELS } from '@/lib/tax'
+import {
+  RECIPE_UNIT_KEY,
+  convertQuantity,
+  fetchUnits,
+  recipeUnitLabel,
+  stockQuantity,
+  toRecipeUnits,
+  toStorageUnits,
+  unitOptions,
+  unitOptionText,
+} from '@/lib/units'
+import { roundUnitCost } from '@/lib/money'
+import { useAuth } from '@/contexts/AuthContext'
+import { useNotifications } from '@/contexts/NotificationContext'
+import { expiryLabel, lotQuantity } from '@/components/NotificationBar'
+import BundleEditor from '@/components/sales/BundleEditor'
+import PrepItemEditor from '@/components/inventory/PrepItemEditor'
+import ProductionHistory from '@/components/inventory/ProductionHistory'
+import StockCountHistory from '@/components/inventory/StockCountHistory'
+import StockCountSheet from '@/components/inventory/StockCountSheet'
+import StockHistory from '@/components/inventory/StockHistory'
+import WasteEntryForm from '@/components/inventory/WasteEntryForm'
+import WasteReport from '@/components/inventory/WasteReport'
+import RestockList from '@/components/inventory/RestockList'
+import UnitsEditor from '@/components/inventory/UnitsEditor'
+import CatalogTransfer from '@/components/inventory/CatalogTransfer'
+import RecipeCosting from '@/components/inventory/RecipeCosting'
 import imageCompression from 'browser-image-compression'
 import toast from 'react-hot-toast'
 
+// qty is in recipe units (g/ml/pcs); unitId is the unit it was entered in
 interface ProductCreationItem {
   item: Product
   qty: number
+  unitId: string | null
 }
 
 export default function InventoryPage() {
+  const { can } = useAuth()
+  const canManageInventory = can('manage_inventory')
+  const canEditRecipes = can('edit_recipes')
+  const canLogWaste = can('log_waste')
+  const canCountStock = can('count_stock')
+  const { expiringLots, checkExpiry, lowStockItems, checkLowStock, checkFoodCost } = useNotifications()
   const [items, setItems] = useState<Product[]>([])
+  const [prepRecipes, setPrepRecipes] = useState<Record<string, PrepIngredient[]>>({})
+  const [units, setUnits] = useState<UnitOfMeasure[]>([])
   const [loading, setLoading] = useState(true)
   const [showAddModal, setShowAddModal] = useState(false)
   const [editingItem, setEditingItem] = useState<Product | null>(null)
@@ -23,39 +61,85 @@ export default function InventoryPage() {
   const [productCreation, setProductCreation] = useState<ProductCreationItem[]>([])
   const [selectedItem, setSelectedItem] = useState<Product | null>(null)
   const [itemQuantity, setItemQuantity] = useState<string>('1')
+  const [itemUnitKey, setItemUnitKey] = useState(RECIPE_UNIT_KEY)
   const [showProductSaveModal, setShowProductSaveModal] = useState(false)
   const [productName, setProductName] = useState('')
   const [productSellingPrice, setProductSellingPrice] = useState('')
+  const [productVatStatus, setProductVatStatus] = useState<VatStatus>('vatable')
   const [productImageFile, setProductImageFile] = useState<File | null>(null)
   const [productImagePreview, setProductImagePreview] = useState<string | null>(null)
   const productFileInputRef = useRef<HTMLInputElement>(null)
 
+  // Bundle creation state (finished products to build the bundle from)
+  const [bundleProducts, setBundleProducts] = useState<{ id: string; name: string; selling_price: number }[] | null>(null)
+  const [bundleIds, setBundleIds] = useState<string[]>([])
+
+  // Prep item state (saved from Product Creation, then edited and produced in PrepItemEditor)
+  const [showPrepSaveModal, setShowPrepSaveModal] = useState(false)
+  const [prepName, setPrepName] = useState('')
+  const [prepUnitType, setPrepUnitType] = useState<UnitType>('weight')
+  const [prepYield, setPrepYield] = useState('')
+  const [editingPrep, setEditingPrep] = useState<Product | null>(null)
+  const [showProductionLog, setShowProductionLog] = useState(false)
+  const [showWasteForm, setShowWasteForm] = useState(false)
+  const [showWasteReport, setShowWasteReport] = useState(false)
+  const [showStockCount, setShowStockCount] = useState(false)
+  const [showCountHistory, setShowCountHistory] = useState(false)
+  const [showRestockList, setShowRestockList] = useState(false)
+  const [showUnitsEditor, setShowUnitsEditor] = useState(false)
+  const [showCatalogTransfer, setShowCatalogTransfer] = useState(false)
+  const [showRecipeCosting, setShowRecipeCosting] = useState(false)
+  const [historyItem, setHistoryItem] = useState<Product | null>(null)
+  const [stockValue, setStockValue] = useState<number | null>(null)
+
   // Form state for inventory items
   const [formData, setFormData] = useState({
     name: '',
     unit_type: 'quantity' as UnitType,
     qty: '',
+    stockUnit: RECIPE_UNIT_KEY,
     totalCost: '',
+    shelfLifeDays: '',
+    reorderPoint: '',
+    parLevel: '',
   })
   const [imageFile, setImageFile] = useState<File | null>(null)
   const [imagePreview, setImagePreview] = useState<string | null>(null)
 
   const fetchItems = useCallback(async () => {
+    checkExpiry()
+    checkLowStock()
+    checkFoodCost()
     try {
-      const { data, error } = await supabase
-        .from('products')
-        .select('*')
-        .order('name')
-
-      if (error) throw error
-      setItems(data || [])
+      const [itemsRes, prepRes, valuationRes, unitsData] = await Promise.all([
+        supabase.from('products').select('*').order('name'),
+        supabase.from('prep_ingredients').select('*'),
+        (supabase as any).rpc('stock_valuation'),
+        fetchUnits(),
+      ])
+
+      if (itemsRes.error) throw itemsRes.error
+      setItems(itemsRes.data || [])
+      setUnits(unitsData)
+      setPrepRecipes(
+        ((prepRes.data || []) as PrepIngredient[]).reduce((acc: Record<string, PrepIngredient[]>, ing) => {
+          if (!acc[ing.prep_item_id]) acc[ing.prep_item_id] = []
+          acc[ing.prep_item_id].push(ing)
+          return acc
+        }, {})
+      )
+      setStockValue(
+        valuationRes.error
+          ? null
+          : ((valuationRes.data || []) as StockValuation[]).reduce((sum, v) => sum + Number(v.value), 0)
+      )
     } catch (error) {
       console.error('Error fetching items:', error)
       toast.error('Failed to load items')
     } finally {
       setLoading(false)
     }
-  }, [])
+  }, [checkExpiry, checkLowStock, checkFoodCost])
 
   useEffect(() => {
     fetchItems()
@@ -66,7 +150,11 @@ export default function InventoryPage() {
       name: '',
       unit_type: 'quantity',
       qty: '',
+      stockUnit: RECIPE_UNIT_KEY,
       totalCost: '',
+      shelfLifeDays: '',
+      reorderPoint: '',
+      parLevel: '',
     })
     setImageFile(null)
     setImagePreview(null)
@@ -79,14 +167,18 @@ export default function InventoryPage() {
   }
 
   const openEditModal = (item: Product) => {
-    const stockInDisplayUnit = getDisplayQuantity(item)
+    const stockInDisplayUnit = toRecipeUnits(item.qty, item.unit_type)
     const totalCost = item.cost * stockInDisplayUnit
 
     setFormData({
       name: item.name,
       unit_type: item.unit_type,
       qty: stockInDisplayUnit.toString(),
+      stockUnit: RECIPE_UNIT_KEY,
       totalCost: totalCost.toFixed(2),
+      shelfLifeDays: item.shelf_life_days?.toString() || '',
+      reorderPoint: item.reorder_point !== null ? toRecipeUnits(item.reorder_point, item.unit_type).toString() : '',
+      parLevel: item.par_level !== null ? toRecipeUnits(item.par_level, item.unit_type).toString() : '',
     })
     setImagePreview(item.image_url ? getProductImageUrl(item.image_url) : null)
     setImageFile(null)
@@ -100,33 +192,20 @@ export default function InventoryPage() {
     resetForm()
   }
 
-  // Get display quantity based on unit type
-  const getDisplayQuantity = (item: Product): number => {
-    if (item.unit_type === 'weight') return item.qty * 1000 // kg to grams
-    if (item.unit_type === 'volume') return item.qty * 1000 // L to ml
-    return item.qty // pieces
-  }
+  // Units the stock amount can be entered in (the item's own and its purchase units)
+  const stockUnits = unitOptions({ id: editingItem?.id || '', unit_type: formData.unit_type }, units, 'purchase')
+  const stockUnitFactor = stockUnits.find((u) => u.key === formData.stockUnit)?.factor || 1
 
-  // Get storage quantity from display
-  const getStorageQuantity = (displayQty: number, unitType: UnitType): number => {
-    if (unitType === 'weight') return displayQty / 1000 // grams to kg
-    if (unitType === 'volume') return displayQty / 1000 // ml to L
-    return displayQty // pieces
-  }
-
-  // Get unit label
-  const getUnitLabel = (unitType: UnitType): string => {
-    if (unitType === 'weight') return 'g'
-    if (unitType === 'volume') return 'ml'
-    return 'pcs'
-  }
+  // Units an ingredient of the product being created can be entered in
+  const itemUnits = unitOptions(selectedItem || undefined, units, 'recipe')
+  const itemUnit = itemUnits.find((u) => u.key === itemUnitKey) || itemUnits[0]
 
-  // Calculate per-unit cost
+  // Calculate per-unit cost (per recipe unit)
   const calculatePerUnitCost = (): number => {
-    const qty = parseFloat(formData.qty) || 0
+    const qty = (parseFloat(formData.qty) || 0) * stockUnitFactor
     const totalCost = parseFloat(formData.totalCost) || 0
     if (qty <= 0) return 0
-    return totalCost / qty
+    return roundUnitCost(totalCost / qty)
   }
 
   const handleImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -194,6 +273,13 @@ export default function InventoryPage() {
       return
     }
 
+    const reorderPoint = formData.reorderPoint === '' ? null : parseFloat(formData.reorderPoint)
+    const parLevel = formData.parLevel === '' ? null : parseFloat(formData.parLevel)
+    if (reorderPoint !== null && parLevel !== null && parLevel < reorderPoint) {
+      toast.error('The par level cannot be below the reorder point')
+      return
+    }
+
     setIsSubmitting(true)
 
     try {
@@ -212,7 +298,7 @@ export default function InventoryPage() {
       }
 
       const perUnitCost = calculatePerUnitCost()
-      const storageQty = getStorageQuantity(qty, formData.unit_type)
+      const storageQty = toStorageUnits(qty * stockUnitFactor, formData.unit_type)
 
       const itemData: Record<string, any> = {
         name: formData.name,
@@ -221,6 +307,9 @@ export default function InventoryPage() {
         cost: perUnitCost,
         selling_price: 0,
         image_url: imagePath,
+        shelf_life_days: parseInt(formData.shelfLifeDays) > 0 ? parseInt(formData.shelfLifeDays) : null,
+        reorder_point: reorderPoint !== null ? toStorageUnits(reorderPoint, formData.unit_type) : null,
+        par_level: parLevel !== null ? toStorageUnits(parLevel, formData.unit_type) : null,
       }
 
       if (editingItem) {
@@ -296,24 +385,28 @@ export default function InventoryPage() {
   const handleItemClick = (item: Product) => {
     setSelectedItem(item)
     setItemQuantity('1')
+    setItemUnitKey(RECIPE_UNIT_KEY)
   }
 
   const handleAddToProductCreation = () => {
     if (!selectedItem) return
 
-    const qty = parseFloat(itemQuantity) || 0
+    const qty = (parseFloat(itemQuantity) || 0) * (itemUnit?.factor || 1)
     if (qty <= 0) {
       toast.error('Please enter a valid quantity')
       return
     }
 
+    const unitId = itemUnit?.unitId || null
     const existingIndex = productCreation.findIndex((pc) => pc.item.id === selectedItem.id)
     if (existingIndex >= 0) {
       const updated = [...productCreation]
       updated[existingIndex].qty += qty
+      // Added in two different units: remember it in the item's own unit
+      if (updated[existingIndex].unitId !== unitId) updated[existingIndex].unitId = null
       setProductCreation(updated)
     } else {
-      setProductCreation([...productCreation, { item: selectedItem, qty }])
+      setProductCreation([...productCreation, { item: selectedItem, qty, unitId }])
     }
 
     toast.success('Added to product')
@@ -368,6 +461,7 @@ export default function InventoryPage() {
     }
     setProductName('')
     setProductSellingPrice('')
+    setProductVatStatus('vatable')
     setProductImageFile(null)
     setProductImagePreview(null)
     setShowProductSaveModal(true)
@@ -416,6 +510,7 @@ export default function InventoryPage() {
         .insert({
           name: productName.trim(),
           selling_price: sellingPrice,
+          vat_status: productVatStatus,
           image_url: imagePath,
         })
         .select()
@@ -428,6 +523,7 @@ export default function InventoryPage() {
         product_id: productData.id,
         item_id: pc.item.id,
         qty: pc.qty,
+        unit_id: pc.unitId,
       }))
 
       const { error: ingError } = await (supabase as any)
@@ -447,16 +543,101 @@ export default function InventoryPage() {
     }
   }
 
-  // Format stock display
-  const formatStock = (item: Product) => {
-    const displayQty = getDisplayQuantity(item)
-    return `${displayQty.toLocaleString()} ${getUnitLabel(item.unit_type)}`
+  const openPrepSaveModal = () => {
+    if (productCreation.length === 0) {
+      toast.error('Add at least one ingredient')
+      return
+    }
+    setPrepName('')
+    setPrepUnitType('weight')
+    setPrepYield('')
+    setShowPrepSaveModal(true)
+  }
+
+  // Save the ingredients in Product Creation as the recipe of one batch of a new
+  // prep item; it starts with no stock until a batch is produced
+  const handleSavePrepItem = async () => {
+    if (!prepName.trim()) {
+      toast.error('Please enter a prep item name')
+      return
+    }
+
+    const batchYield = parseFloat(prepYield) || 0
+    if (batchYield <= 0) {
+      toast.error('Enter how much one batch makes')
+      return
+    }
+
+    setIsSubmitting(true)
+
+    try {
+      const { data: prepData, error: prepError } = await (supabase as any)
+        .from('products')
+        .insert({
+          name: prepName.trim(),
+          unit_type: prepUnitType,
+          qty: 0,
+          cost: roundUnitCost(ingredientCost / batchYield),
+          selling_price: 0,
+          is_prep: true,
+          batch_yield: batchYield,
+        })
+        .select()
+        .single()
+
+      if (prepError) throw prepError
+
+      const { error: recipeError } = await (supabase as any)
+        .from('prep_ingredients')
+        .insert(
+          productCreation.map((pc) => ({ prep_item_id: prepData.id, item_id: pc.item.id, qty: pc.qty, unit_id: pc.unitId }))
+        )
+
+      if (recipeError) throw recipeError
+
+      toast.success('Prep item created!')
+      setProductCreation([])
+      setShowPrepSaveModal(false)
+      fetchItems()
+    } catch (error) {
+      console.error('Error saving prep item:', error)
+      toast.error('Failed to create prep item')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  // Bundles are built from finished products rather than inventory items
+  const openBundleEditor = async () => {
+    try {
+      const [productsRes, componentsRes] = await Promise.all([
+        supabase.from('finished_products').select('id, name, selling_price').order('name'),
+        supabase.from('bundle_components').select('bundle_id'),
+      ])
+      if (productsRes.error) throw productsRes.error
+      setBundleIds(Array.from(new Set((componentsRes.data || []).map((c: { bundle_id: string }) => c.bundle_id))))
+      setBundleProducts(productsRes.data || [])
+    } catch (error) {
+      console.error('Error fetching products:', error)
+      toast.error('Failed to load products')
+    }
   }
 
+  // Format stock display
+  const formatStock = (item: Product) =>
+    `${toRecipeUnits(item.qty, item.unit_type).toLocaleString()} ${recipeUnitLabel(item.unit_type)}`
+
+  // Days until each item's first lot expires, for the items with one expiring soon
+  const lowStockIds = new Set(lowStockItems.map((low) => low.item_id))
+
+  const nextExpiry = expiringLots.reduce((acc: Record<string, number>, lot) => {
+    if (acc[lot.item_id] === undefined || lot.days_left < acc[lot.item_id]) acc[lot.item_id] = lot.days_left
+    return acc
+  }, {})
+
   // Get total value
   const getTotalValue = (item: Product) => {
-    const stockInDisplayUnit = getDisplayQuantity(item)
-    return item.cost * stockInDisplayUnit
+    return item.cost * toRecipeUnits(item.qty, item.unit_type)
   }
 
   const perUnitCost = calculatePerUnitCost()
@@ -474,133 +655,271 @@ export default function InventoryPage() {
   return (
     <div className="max-w-7xl mx-auto flex flex-col h-full">
       {/* Top Section - Product Creation */}
-      <div className="card p-4 mb-4">
-        <div className="flex items-center justify-between mb-3">
-          <h2 className="text-lg font-semibold text-white">
-            Product Creation{' '}
-            {productCreation.length > 0 && (
-              <span className="text-surface-400">({productCreation.length} ingredients)</span>
-            )}
-          </h2>
-          <div className="flex gap-2">
-            {productCreation.length > 0 && (
-              <>
-                <button
-                  onClick={handleClearProductCreation}
-                  className="text-sm text-red-400 hover:text-red-300 px-3 py-1"
-                >
-                  Clear
-                </button>
-                <button
-                  onClick={openProductSaveModal}
-                  className="px-4 py-2 bg-primary-500 hover:bg-primary-600 text-white font-medium rounded-lg transition-colors text-sm"
-                >
-                  Save Product
-                </button>
-              </>
-            )}
-          </div>
-        </div>
-
-        {/* Product Creation Items */}
-        <div className="min-h-[60px] max-h-32 overflow-y-auto mb-4 p-2 bg-surface-800/50 rounded-lg">
-          {productCreation.length === 0 ? (
-            <p className="text-surface-500 text-sm text-center py-4">
-              Click on inventory items below to add ingredients
-            </p>
-          ) : (
-            <div className="space-y-1">
-              {productCreation.map((pc) => (
-                <div
-                  key={pc.item.id}
-                  className="flex items-center justify-between p-2 hover:bg-surface-700/50 rounded transition-colors"
-                >
-                  <div className="flex items-center gap-3">
-                    <div className="w-8 h-8 bg-surface-700 rounded overflow-hidden flex-shrink-0">
-                      {pc.item.image_url ? (
-                        <img
-                          src={getProductImageUrl(pc.item.image_url) || ''}
-                          alt={pc.item.name}
-                          className="w-full h-full object-cover"
-                        />
-                      ) : (
-                        <div className="w-full h-full flex items-center justify-center">
-                          <svg
-                            className="w-4 h-4 text-surface-500"
-                            fill="none"
-                            stroke="currentColor"
-                            viewBox="0 0 24 24"
-                          >
-                            <path
-                              strokeLinecap="round"
-                              strokeLinejoin="round"
-                              strokeWidth={2}
-                              d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z"
-                            />
-                          </svg>
-                        </div>
-                      )}
-                    </div>
-                    <span className="text-white text-sm">{pc.item.name}</span>
-                  </div>
-                  <div className="flex items-center gap-4">
-                    <span className="text-surface-400 text-sm">
-                      {pc.qty} {getUnitLabel(pc.item.unit_type)}
-                    </span>
-                    <span className="text-primary-500 font-mono text-sm">
-                      ₱{(pc.item.cost * pc.qty).toFixed(2)}
-                    </span>
+      {canEditRecipes && (
+        <div className="card p-4 mb-4">
+          <div className="flex items-center justify-between mb-3">
+            <h2 className="text-lg font-semibold text-white">
+              Product Creation{' '}
+              {productCreation.length > 0 && (
+                <span className="text-surface-400">({productCreation.length} ingredients)</span>
+              )}
+            </h2>
+            <div className="flex gap-2">
+              <button
+                onClick={openBundleEditor}
+                className="text-sm text-primary-400 hover:text-primary-300 px-3 py-1"
+              >
+                New Bundle
+              </button>
+              {productCreation.length > 0 && (
+                <>
+                  <button
+                    onClick={handleClearProductCreation}
+                    className="text-sm text-red-400 hover:text-red-300 px-3 py-1"
+                  >
+                    Clear
+                  </button>
+                  {canManageInventory && (
                     <button
-                      onClick={() => handleRemoveFromProductCreation(pc.item.id)}
-                      className="text-red-400 hover:text-red-300 p-1"
+                      onClick={openPrepSaveModal}
+                      className="px-4 py-2 bg-surface-700 hover:bg-surface-600 text-white font-medium rounded-lg transition-colors text-sm"
                     >
-                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path
-                          strokeLinecap="round"
-                          strokeLinejoin="round"
-                          strokeWidth={2}
-                          d="M6 18L18 6M6 6l12 12"
-                        />
-                      </svg>
+                      Save as Prep Item
                     </button>
+                  )}
+                  <button
+                    onClick={openProductSaveModal}
+                    className="px-4 py-2 bg-primary-500 hover:bg-primary-600 text-white font-medium rounded-lg transition-colors text-sm"
+                  >
+                    Save Product
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+
+          {/* Product Creation Items */}
+          <div className="min-h-[60px] max-h-32 overflow-y-auto mb-4 p-2 bg-surface-800/50 rounded-lg">
+            {productCreation.length === 0 ? (
+              <p className="text-surface-500 text-sm text-center py-4">
+                Click on inventory items below to add ingredients
+              </p>
+            ) : (
+              <div className="space-y-1">
+                {productCreation.map((pc) => (
+                  <div
+                    key={pc.item.id}
+                    className="flex items-center justify-between p-2 hover:bg-surface-700/50 rounded transition-colors"
+                  >
+                    <div className="flex items-center gap-3">
+                      <div className="w-8 h-8 bg-surface-700 rounded overflow-hidden flex-shrink-0">
+                        {pc.item.image_url ? (
+                          <img
+                            src={getProductImageUrl(pc.item.image_url) || ''}
+                            alt={pc.item.name}
+                            className="w-full h-full object-cover"
+                          />
+                        ) : (
+                          <div className="w-full h-full flex items-center justify-center">
+                            <svg
+                              className="w-4 h-4 text-surface-500"
+                              fill="none"
+                              stroke="currentColor"
+                              viewBox="0 0 24 24"
+                            >
+                              <path
+                                strokeLinecap="round"
+                                strokeLinejoin="round"
+                                strokeWidth={2}
+                                d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z"
+                              />
+                            </svg>
+                          </div>
+                        )}
+                      </div>
+                      <span className="text-white text-sm">{pc.item.name}</span>
+                    </div>
+                    <div className="flex items-center gap-4">
+                      <span className="text-surface-400 text-sm">
+                        {pc.qty} {recipeUnitLabel(pc.item.unit_type)}
+                      </span>
+                      <span className="text-primary-500 font-mono text-sm">
+                        ₱{(pc.item.cost * pc.qty).toFixed(2)}
+                      </span>
+                      <button
+                        onClick={() => handleRemoveFromProductCreation(pc.item.id)}
+                        className="text-red-400 hover:text-red-300 p-1"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M6 18L18 6M6 6l12 12"
+                          />
+                        </svg>
+                      </button>
+                    </div>
                   </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Cost Summary */}
+          {productCreation.length > 0 && (
+            <div className="p-3 bg-yellow-500/10 border border-yellow-500/20 rounded-lg">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-yellow-400 text-sm font-medium">Ingredient Cost</p>
+                  <p className="text-yellow-400 font-mono font-bold text-lg">₱{ingredientCost.toFixed(2)}</p>
                 </div>
-              ))}
+                <div className="text-right">
+                  <p className="text-surface-500 text-xs">Suggested Min Price (30% margin)</p>
+                  <p className="text-primary-500 font-mono font-bold">₱{(ingredientCost * 1.3).toFixed(2)}</p>
+                </div>
+              </div>
+              <p className="text-yellow-400/60 text-xs mt-2">⚠️ This is a Pre-OPEX calculation</p>
             </div>
           )}
         </div>
+      )}
 
-        {/* Cost Summary */}
-        {productCreation.length > 0 && (
-          <div className="p-3 bg-yellow-500/10 border border-yellow-500/20 rounded-lg">
-            <div className="flex items-center justify-between">
-              <div>
-                <p className="text-yellow-400 text-sm font-medium">Ingredient Cost</p>
-                <p className="text-yellow-400 font-mono font-bold text-lg">₱{ingredientCost.toFixed(2)}</p>
+      {/* Low Stock */}
+      {lowStockItems.length > 0 && (
+        <div className="card p-4 mb-4 border-orange-500/20">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-lg font-semibold text-orange-400">Low Stock</h3>
+            <button
+              onClick={() => setShowRestockList(true)}
+              className="px-3 py-1 bg-orange-500/20 hover:bg-orange-500/30 text-orange-400 text-sm font-medium rounded-lg transition-colors"
+            >
+              Restock List
+            </button>
+          </div>
+          <div className="space-y-1">
+            {lowStockItems.map((low) => (
+              <div key={low.item_id} className="flex items-center justify-between gap-3 text-sm">
+                <span className="text-white truncate">{low.name}</span>
+                <span className="flex items-center gap-3 flex-shrink-0">
+                  <span className={`font-mono ${Number(low.qty) <= 0 ? 'text-red-400' : 'text-orange-400'}`}>
+                    {stockQuantity(low.qty, low.unit_type)}
+                  </span>
+                  <span className="text-surface-400">reorder at {stockQuantity(low.reorder_point, low.unit_type)}</span>
+                </span>
               </div>
-              <div className="text-right">
-                <p className="text-surface-500 text-xs">Suggested Min Price (30% margin)</p>
-                <p className="text-primary-500 font-mono font-bold">₱{(ingredientCost * 1.3).toFixed(2)}</p>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Expiring Soon */}
+      {expiringLots.length > 0 && (
+        <div className="card p-4 mb-4 border-yellow-500/20">
+          <h3 className="text-lg font-semibold text-yellow-400 mb-3">Expiring Soon</h3>
+          <div className="space-y-1">
+            {expiringLots.map((lot) => (
+              <div key={lot.lot_id} className="flex items-center justify-between gap-3 text-sm">
+                <span className="text-white truncate">
+                  {lot.name}
+                  {lot.lot_code && <span className="text-surface-500"> · lot {lot.lot_code}</span>}
+                </span>
+                <span className="flex items-center gap-3 flex-shrink-0">
+                  <span className="text-surface-400 font-mono">{lotQuantity(lot)}</span>
+                  <span className="text-surface-400">{new Date(`${lot.expiry_date}T00:00:00`).toLocaleDateString()}</span>
+                  <span className={`w-20 text-right ${lot.days_left <= 0 ? 'text-red-400' : 'text-yellow-400'}`}>
+                    {expiryLabel(lot.days_left)}
+                  </span>
+                </span>
               </div>
-            </div>
-            <p className="text-yellow-400/60 text-xs mt-2">⚠️ This is a Pre-OPEX calculation</p>
+            ))}
           </div>
-        )}
-      </div>
+        </div>
+      )}
 
       {/* Bottom Section - Inventory Items Grid */}
       <div className="flex-1 overflow-y-auto">
         <div className="flex items-center justify-between mb-3">
-          <h3 className="text-lg font-semibold text-white">Inventory Items</h3>
-        <button
-          onClick={openAddModal}
-            className="px-4 py-2 bg-primary-500 hover:bg-primary-600 text-white font-medium rounded-lg transition-colors flex items-center gap-2 text-sm"
-        >
-            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-          </svg>
-          Add Item
-        </button>
+          <div>
+            <h3 className="text-lg font-semibold text-white">Inventory Items</h3>
+            {stockValue !== null && (
+              <p className="text-surface-400 text-sm">
+                Stock value:{' '}
+                <span className="font-mono text-primary-500">
+                  ₱{stockValue.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                </span>
+              </p>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            {items.some((i) => i.is_prep) && (
+              <button
+                onClick={() => setShowProductionLog(true)}
+                className="px-4 py-2 bg-surface-700 hover:bg-surface-600 text-white font-medium rounded-lg transition-colors text-sm"
+              >
+                Production Log
+              </button>
+            )}
+            <button
+              onClick={() => setShowUnitsEditor(true)}
+              className="px-4 py-2 bg-surface-700 hover:bg-surface-600 text-white font-medium rounded-lg transition-colors text-sm"
+            >
+              Units
+            </button>
+            <button
+              onClick={() => setShowCatalogTransfer(true)}
+              className="px-4 py-2 bg-surface-700 hover:bg-surface-600 text-white font-medium rounded-lg transition-colors text-sm"
+            >
+              Import / Export
+            </button>
+            <button
+              onClick={() => setShowCountHistory(true)}
+              className="px-4 py-2 bg-surface-700 hover:bg-surface-600 text-white font-medium rounded-lg transition-colors text-sm"
+            >
+              Count History
+            </button>
+            {canCountStock && (
+              <button
+                onClick={() => setShowStockCount(true)}
+                className="px-4 py-2 bg-surface-700 hover:bg-surface-600 text-white font-medium rounded-lg transition-colors text-sm"
+              >
+                Stock Count
+              </button>
+            )}
+            {canEditRecipes && (
+              <button
+                onClick={() => setShowRecipeCosting(true)}
+                className="px-4 py-2 bg-surface-700 hover:bg-surface-600 text-white font-medium rounded-lg transition-colors text-sm"
+              >
+                Recipe Costing
+              </button>
+            )}
+            <button
+              onClick={() => setShowWasteReport(true)}
+              className="px-4 py-2 bg-surface-700 hover:bg-surface-600 text-white font-medium rounded-lg transition-colors text-sm"
+            >
+              Waste Report
+            </button>
+            {canLogWaste && (
+              <button
+                onClick={() => setShowWasteForm(true)}
+                className="px-4 py-2 bg-red-500/20 hover:bg-red-500/30 text-red-400 font-medium rounded-lg transition-colors text-sm"
+              >
+                Log Waste
+              </button>
+            )}
+        {canManageInventory && (
+          <button
+            onClick={openAddModal}
+              className="px-4 py-2 bg-primary-500 hover:bg-primary-600 text-white font-medium rounded-lg transition-colors flex items-center gap-2 text-sm"
+          >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+            </svg>
+            Add Item
+          </button>
+        )}
+          </div>
       </div>
 
       {items.length === 0 ? (
@@ -612,23 +931,65 @@ export default function InventoryPage() {
           {items.map((item) => (
               <button
                 key={item.id}
-                onClick={() => handleItemClick(item)}
+                onClick={() => canEditRecipes && handleItemClick(item)}
                 className="card p-3 text-left hover:border-primary-500/50 transition-all group relative"
               >
                 {/* Edit button */}
+                {canManageInventory && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      openEditModal(item)
+                    }}
+                    className="absolute top-2 right-2 p-1 bg-surface-800/80 rounded opacity-0 group-hover:opacity-100 transition-opacity text-surface-400 hover:text-white"
+                  >
+                    <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z"
+                      />
+                    </svg>
+                  </button>
+                )}
+
+                {/* Prep recipe button */}
+                {item.is_prep && (canEditRecipes || canManageInventory) && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      setEditingPrep(item)
+                    }}
+                    title="Recipe and production"
+                    className="absolute top-2 left-2 p-1 bg-surface-800/80 rounded opacity-0 group-hover:opacity-100 transition-opacity text-surface-400 hover:text-white"
+                  >
+                    <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M19.428 15.428a2 2 0 00-1.022-.547l-2.387-.477a6 6 0 00-3.86.517l-.318.158a6 6 0 01-3.86.517L6.05 15.21a2 2 0 00-1.806.547M8 4h8l-1 1v5.172a2 2 0 00.586 1.414l5 5c1.26 1.26.367 3.414-1.415 3.414H4.828c-1.782 0-2.674-2.154-1.414-3.414l5-5A2 2 0 009 10.172V5L8 4z"
+                      />
+                    </svg>
+                  </button>
+                )}
+
+                {/* Stock history button */}
                 <button
                   onClick={(e) => {
                     e.stopPropagation()
-                    openEditModal(item)
+                    setHistoryItem(item)
                   }}
-                  className="absolute top-2 right-2 p-1 bg-surface-800/80 rounded opacity-0 group-hover:opacity-100 transition-opacity text-surface-400 hover:text-white"
+                  title="Stock history"
+                  className="absolute bottom-2 right-2 p-1 bg-surface-800/80 rounded opacity-0 group-hover:opacity-100 transition-opacity text-surface-400 hover:text-white"
                 >
                   <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path
                       strokeLinecap="round"
                       strokeLinejoin="round"
                       strokeWidth={2}
-                      d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z"
+                      d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"
                     />
                   </svg>
                 </button>
@@ -658,11 +1019,20 @@ export default function InventoryPage() {
                     </div>
                   )}
                 </div>
-                <h4 className="font-medium text-white text-xs truncate">{item.name}</h4>
+                <h4 className="font-medium text-white text-xs truncate">
+                  {item.is_prep && <span className="text-primary-400">Prep · </span>}
+                  {item.name}
+                </h4>
                 <p className="text-surface-400 text-xs">{formatStock(item)}</p>
                 <p className="text-primary-500 font-mono text-xs">
-                  ₱{item.cost.toFixed(4)}/{getUnitLabel(item.unit_type)}
+                  ₱{item.cost.toFixed(4)}/{recipeUnitLabel(item.unit_type)}
                 </p>
+                {lowStockIds.has(item.id) && <p className="text-xs text-orange-400">Low stock</p>}
+                {nextExpiry[item.id] !== undefined && (
+                  <p className={`text-xs ${nextExpiry[item.id] <= 0 ? 'text-red-400' : 'text-yellow-400'}`}>
+                    Expires {expiryLabel(nextExpiry[item.id])}
+                  </p>
+                )}
               </button>
             ))}
                   </div>
@@ -724,9 +1094,24 @@ export default function InventoryPage() {
 
             {/* Quantity Controls */}
             <div className="mb-4">
-              <label className="block text-sm font-medium text-surface-300 mb-2">
-                Quantity ({getUnitLabel(selectedItem.unit_type)})
-              </label>
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-sm font-medium text-surface-300">
+                  Quantity ({itemUnit?.label || recipeUnitLabel(selectedItem.unit_type)})
+                </label>
+                {itemUnits.length > 1 && (
+                  <select
+                    value={itemUnit?.key}
+                    onChange={(e) => setItemUnitKey(e.target.value)}
+                    className="px-2 py-1 bg-surface-800 border border-surface-700 rounded text-surface-300 text-xs"
+                  >
+                    {itemUnits.map((u) => (
+                      <option key={u.key} value={u.key}>
+                        {unitOptionText(u, selectedItem.unit_type)}
+                      </option>
+                    ))}
+                  </select>
+                )}
+              </div>
               <div className="flex items-center justify-center gap-4">
                 <button
                   onClick={() =>
@@ -763,7 +1148,7 @@ export default function InventoryPage() {
             <div className="flex items-center justify-between mb-4 p-3 bg-surface-800/50 rounded-lg">
               <span className="text-surface-400">Cost</span>
               <span className="text-xl font-bold text-primary-500">
-                ₱{((parseFloat(itemQuantity) || 0) * selectedItem.cost).toFixed(2)}
+                ₱{((parseFloat(itemQuantity) || 0) * (itemUnit?.factor || 1) * selectedItem.cost).toFixed(2)}
               </span>
             </div>
 
@@ -859,7 +1244,7 @@ export default function InventoryPage() {
                 <div className="flex gap-2">
                   <button
                     type="button"
-                    onClick={() => setFormData((prev) => ({ ...prev, unit_type: 'quantity' }))}
+                    onClick={() => setFormData((prev) => ({ ...prev, unit_type: 'quantity', stockUnit: RECIPE_UNIT_KEY }))}
                     className={`flex-1 px-4 py-2 rounded-lg font-medium transition-all ${
                       formData.unit_type === 'quantity'
                         ? 'bg-primary-500 text-white'
@@ -870,7 +1255,7 @@ export default function InventoryPage() {
                   </button>
                   <button
                     type="button"
-                    onClick={() => setFormData((prev) => ({ ...prev, unit_type: 'weight' }))}
+                    onClick={() => setFormData((prev) => ({ ...prev, unit_type: 'weight', stockUnit: RECIPE_UNIT_KEY }))}
                     className={`flex-1 px-4 py-2 rounded-lg font-medium transition-all ${
                       formData.unit_type === 'weight'
                         ? 'bg-primary-500 text-white'
@@ -881,7 +1266,7 @@ export default function InventoryPage() {
                   </button>
                   <button
                     type="button"
-                    onClick={() => setFormData((prev) => ({ ...prev, unit_type: 'volume' }))}
+                    onClick={() => setFormData((prev) => ({ ...prev, unit_type: 'volume', stockUnit: RECIPE_UNIT_KEY }))}
                     className={`flex-1 px-4 py-2 rounded-lg font-medium transition-all ${
                       formData.unit_type === 'volume'
                         ? 'bg-primary-500 text-white'
@@ -895,9 +1280,36 @@ export default function InventoryPage() {
 
               {/* Stock Amount */}
               <div>
-                <label className="block text-sm font-medium text-surface-300 mb-2">
-                  Stock Amount ({getUnitLabel(formData.unit_type)})
-                </label>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="block text-sm font-medium text-surface-300">
+                    Stock Amount ({stockUnits.find((u) => u.key === formData.stockUnit)?.label})
+                  </label>
+                  {stockUnits.length > 1 && (
+                    <select
+                      value={formData.stockUnit}
+                      onChange={(e) => {
+                        const unitKey = e.target.value
+                        // Convert what was entered so the amount (and its total cost) stays the same
+                        setFormData((prev) => {
+                          const to = stockUnits.find((u) => u.key === unitKey)?.factor || 1
+                          const qty = parseFloat(prev.qty)
+                          return {
+                            ...prev,
+                            stockUnit: unitKey,
+                            qty: qty > 0 ? convertQuantity(qty, stockUnitFactor, to).toString() : prev.qty,
+                          }
+                        })
+                      }}
+                      className="px-2 py-1 bg-surface-800 border border-surface-700 rounded text-surface-300 text-xs"
+                    >
+                      {stockUnits.map((u) => (
+                        <option key={u.key} value={u.key}>
+                          {unitOptionText(u, formData.unit_type)}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                </div>
                 <input
                   type="text"
                   inputMode="decimal"
@@ -905,7 +1317,13 @@ export default function InventoryPage() {
                   onChange={(e) => {
                     const val = e.target.value
                     if (val === '' || /^\d*\.?\d*$/.test(val)) {
-                      setFormData((prev) => ({ ...prev, qty: val }))
+                      setFormData((prev) => {
+                        if (!editingItem) return { ...prev, qty: val }
+                        // A stock count keeps the cost per unit; only a new total revalues the stock
+                        const prevQty = parseFloat(prev.qty)
+                        const perUnit = prevQty > 0 ? (parseFloat(prev.totalCost) || 0) / prevQty : editingItem.cost * stockUnitFactor
+                        return { ...prev, qty: val, totalCost: ((parseFloat(val) || 0) * perUnit).toFixed(2) }
+                      })
                     }
                   }}
                   className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono"
@@ -942,13 +1360,66 @@ export default function InventoryPage() {
                     required
                   />
                 </div>
+                {editingItem && (
+                  <p className="text-surface-500 text-xs mt-1">Changing the total revalues the stock on hand</p>
+                )}
               </div>
 
+              {/* Shelf Life */}
+              <div>
+                <label className="block text-sm font-medium text-surface-300 mb-2">
+                  Shelf Life (days) <span className="text-surface-500 text-xs">optional</span>
+                </label>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  value={formData.shelfLifeDays}
+                  onChange={(e) => {
+                    const val = e.target.value
+                    if (/^\d*$/.test(val)) {
+                      setFormData((prev) => ({ ...prev, shelfLifeDays: val }))
+                    }
+                  }}
+                  className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono"
+                  placeholder="Leave empty if it does not expire"
+                />
+                <p className="text-surface-500 text-xs mt-1">
+                  Stock added without an expiry date expires this many days after it comes in
+                </p>
+              </div>
+
+              {/* Reorder Point / Par Level */}
+              <div className="grid grid-cols-2 gap-3">
+                {(['reorderPoint', 'parLevel'] as const).map((field) => (
+                  <div key={field}>
+                    <label className="block text-sm font-medium text-surface-300 mb-2">
+                      {field === 'reorderPoint' ? 'Reorder Point' : 'Par Level'} ({recipeUnitLabel(formData.unit_type)}){' '}
+                      <span className="text-surface-500 text-xs">optional</span>
+                    </label>
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      value={formData[field]}
+                      onChange={(e) => {
+                        const val = e.target.value
+                        if (val === '' || /^\d*\.?\d*$/.test(val)) {
+                          setFormData((prev) => ({ ...prev, [field]: val }))
+                        }
+                      }}
+                      className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono"
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="text-surface-500 text-xs -mt-2">
+                The item shows as low stock at or below the reorder point and is restocked up to the par level
+              </p>
+
               {/* Per Unit Cost Preview */}
               <div className="p-4 bg-surface-800/50 rounded-lg border border-surface-700">
                 <div className="flex justify-between items-center">
                   <span className="text-surface-400">
-                    Cost per {getUnitLabel(formData.unit_type)}:
+                    Cost per {recipeUnitLabel(formData.unit_type)}:
                   </span>
                   <span className="font-mono font-bold text-primary-500 text-lg">
                     ₱{perUnitCost.toFixed(4)}
@@ -1062,7 +1533,7 @@ export default function InventoryPage() {
                   {productCreation.map((pc) => (
                     <li key={pc.item.id} className="flex justify-between">
                       <span>
-                        {pc.item.name} ({pc.qty} {getUnitLabel(pc.item.unit_type)})
+                        {pc.item.name} ({pc.qty} {recipeUnitLabel(pc.item.unit_type)})
                       </span>
                       <span className="text-surface-400">₱{(pc.item.cost * pc.qty).toFixed(2)}</span>
                     </li>
@@ -1102,6 +1573,22 @@ export default function InventoryPage() {
                 </div>
               </div>
 
+              {/* VAT Treatment */}
+              <div>
+                <label className="block text-sm font-medium text-surface-300 mb-2">
+                  VAT Treatment
+                </label>
+                <select
+                  value={productVatStatus}
+                  onChange={(e) => setProductVatStatus(e.target.value as VatStatus)}
+                  className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+                >
+                  {(Object.keys(VAT_STATUS_LABELS) as VatStatus[]).map((status) => (
+                    <option key={status} value={status}>{VAT_STATUS_LABELS[status]}</option>
+                  ))}
+                </select>
+              </div>
+
               {/* Profit Preview */}
               <div className="p-3 bg-surface-800/50 rounded-lg">
                 <div className="flex justify-between text-sm">
@@ -1127,6 +1614,191 @@ export default function InventoryPage() {
         </div>
       )}
 
+      {/* Save Prep Item Modal */}
+      {showPrepSaveModal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="card p-6 max-w-md w-full max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-xl font-bold text-white">Save Prep Item</h2>
+              <button onClick={() => setShowPrepSaveModal(false)} className="text-surface-400 hover:text-white">
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            <div className="space-y-4">
+              <p className="text-surface-400 text-sm">
+                The {productCreation.length} ingredients above become the recipe of one batch. The prep item starts
+                with no stock; produce batches from its recipe to add stock.
+              </p>
+
+              {/* Prep Item Name */}
+              <div>
+                <label className="block text-sm font-medium text-surface-300 mb-2">Prep Item Name</label>
+                <input
+                  type="text"
+                  value={prepName}
+                  onChange={(e) => setPrepName(e.target.value)}
+                  className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+                  placeholder="e.g., Tomato Sauce, Simple Syrup"
+                />
+              </div>
+
+              {/* Unit Type */}
+              <div>
+                <label className="block text-sm font-medium text-surface-300 mb-2">Unit Type</label>
+                <div className="flex gap-2">
+                  {(['quantity', 'weight', 'volume'] as UnitType[]).map((unitType) => (
+                    <button
+                      key={unitType}
+                      type="button"
+                      onClick={() => setPrepUnitType(unitType)}
+                      className={`flex-1 px-4 py-2 rounded-lg font-medium transition-all ${
+                        prepUnitType === unitType
+                          ? 'bg-primary-500 text-white'
+                          : 'bg-surface-800 text-surface-400 hover:bg-surface-700'
+                      }`}
+                    >
+                      {recipeUnitLabel(unitType)}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Batch Yield */}
+              <div>
+                <label className="block text-sm font-medium text-surface-300 mb-2">
+                  One batch makes ({recipeUnitLabel(prepUnitType)})
+                </label>
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  value={prepYield}
+                  onChange={(e) => {
+                    const val = e.target.value
+                    if (val === '' || /^\d*\.?\d*$/.test(val)) setPrepYield(val)
+                  }}
+                  className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono"
+                  placeholder="e.g., 1000"
+                />
+              </div>
+
+              {/* Cost Roll-up */}
+              <div className="p-3 bg-surface-800/50 rounded-lg space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-surface-400">Cost per batch:</span>
+                  <span className="text-white font-mono">₱{ingredientCost.toFixed(2)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-surface-400">Cost per {recipeUnitLabel(prepUnitType)}:</span>
+                  <span className="text-primary-500 font-mono font-bold">
+                    ₱{(parseFloat(prepYield) > 0 ? ingredientCost / parseFloat(prepYield) : 0).toFixed(4)}
+                  </span>
+                </div>
+              </div>
+
+              {/* Save Button */}
+              <button
+                onClick={handleSavePrepItem}
+                disabled={isSubmitting}
+                className="w-full py-3 px-4 bg-gradient-to-r from-primary-500 to-primary-600 hover:from-primary-600 hover:to-primary-700 text-white font-semibold rounded-lg transition-all disabled:opacity-50"
+              >
+                {isSubmitting ? 'Saving...' : 'Create Prep Item'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Prep Item Recipe and Production Modal */}
+      {editingPrep && (
+        <PrepItemEditor
+          item={editingPrep}
+          items={items}
+          units={units}
+          recipe={prepRecipes[editingPrep.id] || []}
+          canEditRecipe={canEditRecipes}
+          canProduce={canManageInventory}
+          onClose={() => setEditingPrep(null)}
+          onSaved={() => {
+            setEditingPrep(null)
+            fetchItems()
+          }}
+        />
+      )}
+
+      {/* Stock History Modal */}
+      {historyItem && <StockHistory item={historyItem} onClose={() => setHistoryItem(null)} />}
+
+      {/* Production Log Modal */}
+      {showProductionLog && <ProductionHistory onClose={() => setShowProductionLog(false)} />}
+
+      {/* Waste Modals */}
+      {showWasteForm && (
+        <WasteEntryForm
+          items={items}
+          onClose={() => setShowWasteForm(false)}
+          onSaved={() => {
+            setShowWasteForm(false)
+            fetchItems()
+          }}
+        />
+      )}
+      {showWasteReport && <WasteReport onClose={() => setShowWasteReport(false)} />}
+
+      {/* Recipe Costing Modal */}
+      {showRecipeCosting && <RecipeCosting onClose={() => setShowRecipeCosting(false)} />}
+
+      {/* Restock List Modal */}
+      {showRestockList && (
+        <RestockList
+          lowStock={lowStockItems}
+          items={items}
+          units={units}
+          canOrder={canManageInventory}
+          onClose={() => setShowRestockList(false)}
+        />
+      )}
+
+      {/* Units of Measure Modal */}
+      {showUnitsEditor && (
+        <UnitsEditor
+          items={items}
+          units={units}
+          canEditPurchase={canManageInventory}
+          canEditRecipe={canEditRecipes}
+          onClose={() => setShowUnitsEditor(false)}
+          onChanged={() => fetchUnits().then(setUnits)}
+        />
+      )}
+
+      {/* Catalog Import/Export Modal */}
+      {showCatalogTransfer && (
+        <CatalogTransfer
+          canEditItems={canManageInventory}
+          canEditRecipes={canEditRecipes}
+          onClose={() => setShowCatalogTransfer(false)}
+          onImported={fetchItems}
+        />
+      )}
+
+      {/* Stock Count Modals */}
+      {showStockCount && <StockCountSheet onClose={() => setShowStockCount(false)} onPosted={fetchItems} />}
+      {showCountHistory && <StockCountHistory onClose={() => setShowCountHistory(false)} />}
+
+      {/* New Bundle Modal */}
+      {bundleProducts && (
+        <BundleEditor
+          bundle={null}
+          components={[]}
+          products={bundleProducts}
+          bundleIds={bundleIds}
+          onClose={() => setBundleProducts(null)}
+          onSaved={() => setBundleProducts(null)}
+        />
+      )}
+
       {/* Delete Confirmation Modal */}
       {showDeleteConfirm && deletingItem && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
@@ -0,0 +1,559 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { supabase } from '@/lib/supabase'
+import { Product, PurchaseOrder, PurchaseOrderLine, PurchaseOrderStatus, Supplier, UnitOfMeasure } from '@/types/database'
+import PurchaseOrderEditor from '@/components/purchasing/PurchaseOrderEditor'
+import ReceiveOrderModal from '@/components/purchasing/ReceiveOrderModal'
+import toast from 'react-hot-toast'
+
+type OrderFilter = 'open' | 'received' | 'cancelled' | 'all'
+
+const OPEN_STATUSES: PurchaseOrderStatus[] = ['draft', 'ordered', 'partial']
+
+const STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: 'Draft',
+  ordered: 'Ordered',
+  partial: 'Partially received',
+  received: 'Received',
+  cancelled: 'Cancelled',
+}
+
+const STATUS_COLORS: Record<PurchaseOrderStatus, string> = {
+  draft: 'bg-surface-700 text-surface-300',
+  ordered: 'bg-blue-500/20 text-blue-400',
+  partial: 'bg-yellow-500/20 text-yellow-400',
+  received: 'bg-green-500/20 text-green-400',
+  cancelled: 'bg-red-500/20 text-red-400',
+}
+
+const EMPTY_SUPPLIER = { name: '', contact_name: '', phone: '', email: '', notes: '' }
+
+export default function PurchasingPage() {
+  const [suppliers, setSuppliers] = useState<Supplier[]>([])
+  const [orders, setOrders] = useState<PurchaseOrder[]>([])
+  const [lines, setLines] = useState<PurchaseOrderLine[]>([])
+  const [items, setItems] = useState<Product[]>([])
+  const [units, setUnits] = useState<UnitOfMeasure[]>([])
+  const [loading, setLoading] = useState(true)
+  const [supplierFilter, setSupplierFilter] = useState('')
+  const [orderFilter, setOrderFilter] = useState<OrderFilter>('open')
+
+  // Supplier modal
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null)
+  const [showSupplierModal, setShowSupplierModal] = useState(false)
+  const [supplierForm, setSupplierForm] = useState(EMPTY_SUPPLIER)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  // Purchase order modals
+  const [editingOrder, setEditingOrder] = useState<PurchaseOrder | null>(null)
+  const [showOrderEditor, setShowOrderEditor] = useState(false)
+  const [receivingOrder, setReceivingOrder] = useState<PurchaseOrder | null>(null)
+
+  const fetchData = useCallback(async () => {
+    try {
+      const [suppliersRes, ordersRes, linesRes, itemsRes, unitsRes] = await Promise.all([
+        supabase.from('suppliers').select('*').order('name'),
+        supabase.from('purchase_orders').select('*').order('created_at', { ascending: false }),
+        supabase.from('purchase_order_lines').select('*').order('created_at'),
+        supabase.from('products').select('*').order('name'),
+        supabase.from('units_of_measure').select('*').order('name'),
+      ])
+      if (suppliersRes.error) throw suppliersRes.error
+      if (ordersRes.error) throw ordersRes.error
+      setSuppliers(suppliersRes.data || [])
+      setOrders(ordersRes.data || [])
+      setLines(linesRes.data || [])
+      setItems(itemsRes.data || [])
+      setUnits(unitsRes.data || [])
+    } catch (error) {
+      console.error('Error fetching purchasing data:', error)
+      toast.error('Failed to load purchase orders')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchData()
+  }, [fetchData])
+
+  const supplierName = (id: string) => suppliers.find((s) => s.id === id)?.name || 'Unknown supplier'
+  const itemName = (id: string) => items.find((i) => i.id === id)?.name || 'Unknown item'
+  const linesOf = (orderId: string) => lines.filter((l) => l.purchase_order_id === orderId)
+  const orderTotal = (orderId: string) => linesOf(orderId).reduce((sum, l) => sum + l.qty_ordered * l.unit_cost, 0)
+  const isOpen = (order: PurchaseOrder) => OPEN_STATUSES.includes(order.status)
+  const openCount = (supplierId: string) => orders.filter((o) => o.supplier_id === supplierId && isOpen(o)).length
+
+  const shownOrders = orders.filter(
+    (o) =>
+      (!supplierFilter || o.supplier_id === supplierFilter) &&
+      (orderFilter === 'all' || (orderFilter === 'open' ? isOpen(o) : o.status === orderFilter))
+  )
+
+  // Suppliers
+  const openSupplierModal = (supplier: Supplier | null) => {
+    setEditingSupplier(supplier)
+    setSupplierForm(
+      supplier
+        ? {
+            name: supplier.name,
+            contact_name: supplier.contact_name || '',
+            phone: supplier.phone || '',
+            email: supplier.email || '',
+            notes: supplier.notes || '',
+          }
+        : EMPTY_SUPPLIER
+    )
+    setShowSupplierModal(true)
+  }
+
+  const handleSaveSupplier = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!supplierForm.name.trim()) {
+      toast.error('Please enter a supplier name')
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      const supplierData = {
+        name: supplierForm.name.trim(),
+        contact_name: supplierForm.contact_name.trim() || null,
+        phone: supplierForm.phone.trim() || null,
+        email: supplierForm.email.trim() || null,
+        notes: supplierForm.notes.trim() || null,
+      }
+
+      if (editingSupplier) {
+        const { error } = await (supabase as any).from('suppliers').update(supplierData).eq('id', editingSupplier.id)
+        if (error) throw error
+        toast.success('Supplier updated!')
+      } else {
+        const { error } = await (supabase as any).from('suppliers').insert(supplierData)
+        if (error) throw error
+        toast.success('Supplier added!')
+      }
+
+      setShowSupplierModal(false)
+      fetchData()
+    } catch (error) {
+      console.error('Error saving supplier:', error)
+      toast.error('Failed to save supplier')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const toggleSupplierActive = async (supplier: Supplier) => {
+    try {
+      const { error } = await (supabase as any)
+        .from('suppliers')
+        .update({ is_active: !supplier.is_active })
+        .eq('id', supplier.id)
+
+      if (error) throw error
+      fetchData()
+    } catch (error) {
+      console.error('Error updating supplier:', error)
+      toast.error('Failed to update supplier')
+    }
+  }
+
+  // Purchase orders
+  const openOrderEditor = (order: PurchaseOrder | null) => {
+    if (!order && suppliers.filter((s) => s.is_active).length === 0) {
+      toast.error('Add a supplier first')
+      return
+    }
+    setEditingOrder(order)
+    setShowOrderEditor(true)
+  }
+
+  const updateOrderStatus = async (order: PurchaseOrder, status: PurchaseOrderStatus) => {
+    try {
+      const { error } = await (supabase as any)
+        .from('purchase_orders')
+        .update({
+          status,
+          ...(status === 'ordered' ? { ordered_at: new Date().toISOString() } : {}),
+          ...(status === 'cancelled' ? { closed_at: new Date().toISOString() } : {}),
+        })
+        .eq('id', order.id)
+
+      if (error) throw error
+      toast.success(`${order.po_number} ${status === 'ordered' ? 'marked as ordered' : 'cancelled'}`)
+      fetchData()
+    } catch (error) {
+      console.error('Error updating purchase order:', error)
+      toast.error('Failed to update purchase order')
+    }
+  }
+
+  const handleCancelOrder = (order: PurchaseOrder) => {
+    const message =
+      order.status === 'partial'
+        ? `Cancel the rest of ${order.po_number}? Deliveries already received stay in stock.`
+        : `Cancel ${order.po_number}?`
+    if (!confirm(message)) return
+    updateOrderStatus(order, 'cancelled')
+  }
+
+  const handleDeleteDraft = async (order: PurchaseOrder) => {
+    if (!confirm(`Delete draft ${order.po_number}?`)) return
+
+    try {
+      const { error } = await (supabase as any).from('purchase_orders').delete().eq('id', order.id)
+      if (error) throw error
+      toast.success('Draft deleted')
+      fetchData()
+    } catch (error) {
+      console.error('Error deleting purchase order:', error)
+      toast.error('Failed to delete draft')
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="w-8 h-8 border-4 border-primary-500 border-t-transparent rounded-full animate-spin" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-white">Purchasing</h1>
+          <p className="text-surface-400 text-sm mt-1">Suppliers, purchase orders and deliveries</p>
+        </div>
+        <button
+          onClick={() => openOrderEditor(null)}
+          className="px-4 py-2 bg-primary-500 hover:bg-primary-600 text-white font-medium rounded-lg transition-colors flex items-center gap-2"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+          </svg>
+          New Purchase Order
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {/* Suppliers */}
+        <div className="card p-4 h-fit">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-lg font-semibold text-white">Suppliers</h3>
+            <button
+              onClick={() => openSupplierModal(null)}
+              className="text-sm text-primary-500 hover:text-primary-400 font-medium"
+            >
+              + Add
+            </button>
+          </div>
+
+          {suppliers.length === 0 ? (
+            <p className="text-surface-500 text-sm">No suppliers yet.</p>
+          ) : (
+            <div className="space-y-1">
+              <button
+                onClick={() => setSupplierFilter('')}
+                className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors ${
+                  supplierFilter === '' ? 'bg-primary-500/20 text-primary-400' : 'text-surface-300 hover:bg-surface-800'
+                }`}
+              >
+                All suppliers
+              </button>
+              {suppliers.map((supplier) => (
+                <div
+                  key={supplier.id}
+                  className={`group flex items-center gap-2 px-3 py-2 rounded-lg text-sm transition-colors ${
+                    supplierFilter === supplier.id ? 'bg-primary-500/20' : 'hover:bg-surface-800'
+                  }`}
+                >
+                  <button
+                    onClick={() => setSupplierFilter(supplier.id)}
+                    className={`flex-1 text-left truncate ${
+                      supplierFilter === supplier.id
+                        ? 'text-primary-400'
+                        : supplier.is_active
+                          ? 'text-surface-300'
+                          : 'text-surface-500 line-through'
+                    }`}
+                  >
+                    {supplier.name}
+                  </button>
+                  {openCount(supplier.id) > 0 && (
+                    <span className="px-1.5 py-0.5 rounded bg-blue-500/20 text-blue-400 text-xs" title="Open orders">
+                      {openCount(supplier.id)}
+                    </span>
+                  )}
+                  <button
+                    onClick={() => openSupplierModal(supplier)}
+                    className="p-1 text-surface-500 hover:text-white opacity-0 group-hover:opacity-100 transition-opacity"
+                    title="Edit supplier"
+                  >
+                    <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z"
+                      />
+                    </svg>
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Purchase Orders */}
+        <div className="lg:col-span-3">
+          <div className="flex flex-wrap gap-2 mb-4">
+            {(['open', 'received', 'cancelled', 'all'] as OrderFilter[]).map((filter) => (
+              <button
+                key={filter}
+                onClick={() => setOrderFilter(filter)}
+                className={`px-4 py-2 rounded-lg text-sm font-medium capitalize transition-all ${
+                  orderFilter === filter
+                    ? 'bg-primary-500 text-white'
+                    : 'bg-surface-800 text-surface-400 hover:bg-surface-700'
+                }`}
+              >
+                {filter}
+              </button>
+            ))}
+          </div>
+
+          {shownOrders.length === 0 ? (
+            <div className="card p-12 text-center">
+              <h3 className="text-lg font-medium text-white mb-2">No purchase orders</h3>
+              <p className="text-surface-400 text-sm">
+                {orderFilter === 'open'
+                  ? 'Nothing is waiting to be delivered.'
+                  : 'Create a purchase order to restock from a supplier.'}
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {shownOrders.map((order) => {
+                const orderLines = linesOf(order.id)
+                return (
+                  <div key={order.id} className="card p-4">
+                    <div className="flex items-start justify-between gap-4 mb-3">
+                      <div>
+                        <div className="flex items-center gap-2">
+                          <span className="font-mono font-bold text-white">{order.po_number}</span>
+                          <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_COLORS[order.status]}`}>
+                            {STATUS_LABELS[order.status]}
+                          </span>
+                        </div>
+                        <p className="text-surface-400 text-sm mt-1">
+                          {supplierName(order.supplier_id)}
+                          {order.expected_date &&
+                            ` · expected ${new Date(`${order.expected_date}T00:00:00`).toLocaleDateString()}`}
+                          {order.created_by_name && ` · by ${order.created_by_name}`}
+                        </p>
+                      </div>
+                      <p className="text-primary-500 font-mono font-bold whitespace-nowrap">
+                        ₱{orderTotal(order.id).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                      </p>
+                    </div>
+
+                    <div className="space-y-1 mb-3">
+                      {orderLines.map((line) => (
+                        <div key={line.id} className="flex items-center justify-between text-sm">
+                          <span className="text-surface-300">{itemName(line.item_id)}</span>
+                          <span
+                            className={`font-mono ${
+                              line.qty_received >= line.qty_ordered
+                                ? 'text-green-400'
+                                : line.qty_received > 0
+                                  ? 'text-yellow-400'
+                                  : 'text-surface-400'
+                            }`}
+                          >
+                            {Number(line.qty_received).toLocaleString()} / {Number(line.qty_ordered).toLocaleString()}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+
+                    {order.notes && <p className="text-surface-500 text-xs mb-3">{order.notes}</p>}
+
+                    {isOpen(order) && (
+                      <div className="flex flex-wrap gap-2 pt-3 border-t border-surface-800">
+                        {order.status === 'draft' && (
+                          <>
+                            <button
+                              onClick={() => openOrderEditor(order)}
+                              className="px-3 py-1.5 bg-surface-700 hover:bg-surface-600 text-white text-sm rounded-lg transition-colors"
+                            >
+                              Edit
+                            </button>
+                            <button
+                              onClick={() => updateOrderStatus(order, 'ordered')}
+                              className="px-3 py-1.5 bg-blue-500/20 hover:bg-blue-500/30 text-blue-400 text-sm rounded-lg transition-colors"
+                            >
+                              Mark as Ordered
+                            </button>
+                          </>
+                        )}
+                        <button
+                          onClick={() => setReceivingOrder(order)}
+                          className="px-3 py-1.5 bg-primary-500 hover:bg-primary-600 text-white text-sm rounded-lg transition-colors"
+                        >
+                          Receive
+                        </button>
+                        <div className="flex-1" />
+                        {order.status === 'draft' ? (
+                          <button
+                            onClick={() => handleDeleteDraft(order)}
+                            className="px-3 py-1.5 text-red-400 hover:bg-red-500/10 text-sm rounded-lg transition-colors"
+                          >
+                            Delete
+                          </button>
+                        ) : (
+                          <button
+                            onClick={() => handleCancelOrder(order)}
+                            className="px-3 py-1.5 text-red-400 hover:bg-red-500/10 text-sm rounded-lg transition-colors"
+                          >
+                            Cancel Order
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Supplier Modal */}
+      {showSupplierModal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="card p-6 max-w-md w-full max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-xl font-bold text-white">{editingSupplier ? 'Edit Supplier' : 'Add Supplier'}</h2>
+              <button onClick={() => setShowSupplierModal(false)} className="text-surface-400 hover:text-white">
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            <form onSubmit={handleSaveSupplier} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-surface-300 mb-2">Supplier Name</label>
+                <input
+                  type="text"
+                  value={supplierForm.name}
+                  onChange={(e) => setSupplierForm((prev) => ({ ...prev, name: e.target.value }))}
+                  className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+                  placeholder="e.g., Metro Dairy Supply"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-surface-300 mb-2">Contact Person</label>
+                <input
+                  type="text"
+                  value={supplierForm.contact_name}
+                  onChange={(e) => setSupplierForm((prev) => ({ ...prev, contact_name: e.target.value }))}
+                  className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-surface-300 mb-2">Phone</label>
+                  <input
+                    type="tel"
+                    value={supplierForm.phone}
+                    onChange={(e) => setSupplierForm((prev) => ({ ...prev, phone: e.target.value }))}
+                    className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-surface-300 mb-2">Email</label>
+                  <input
+                    type="email"
+                    value={supplierForm.email}
+                    onChange={(e) => setSupplierForm((prev) => ({ ...prev, email: e.target.value }))}
+                    className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-surface-300 mb-2">Notes</label>
+                <textarea
+                  value={supplierForm.notes}
+                  onChange={(e) => setSupplierForm((prev) => ({ ...prev, notes: e.target.value }))}
+                  rows={2}
+                  className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white text-sm"
+                  placeholder="Delivery days, payment terms…"
+                />
+              </div>
+
+              {editingSupplier && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    toggleSupplierActive(editingSupplier)
+                    setShowSupplierModal(false)
+                  }}
+                  className="text-sm text-surface-400 hover:text-white"
+                >
+                  {editingSupplier.is_active ? 'Deactivate supplier' : 'Reactivate supplier'}
+                </button>
+              )}
+
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="w-full py-3 px-4 bg-gradient-to-r from-primary-500 to-primary-600 hover:from-primary-600 hover:to-primary-700 text-white font-semibold rounded-lg transition-all disabled:opacity-50"
+              >
+                {isSubmitting ? 'Saving...' : editingSupplier ? 'Update Supplier' : 'Add Supplier'}
+              </button>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Purchase Order Editor */}
+      {showOrderEditor && (
+        <PurchaseOrderEditor
+          order={editingOrder}
+          lines={editingOrder ? linesOf(editingOrder.id) : []}
+          suppliers={suppliers}
+          items={items}
+          units={units}
+          defaultSupplierId={supplierFilter || undefined}
+          onClose={() => setShowOrderEditor(false)}
+          onSaved={() => {
+            setShowOrderEditor(false)
+            fetchData()
+          }}
+        />
+      )}
+
+      {/* Receive Modal */}
+      {receivingOrder && (
+        <ReceiveOrderModal
+          order={receivingOrder}
+          lines={linesOf(receivingOrder.id)}
+          items={items}
+          supplierName={supplierName(receivingOrder.supplier_id)}
+          onClose={() => setReceivingOrder(null)}
+          onReceived={() => {
+            setReceivingOrder(null)
+            fetchData()
+          }}
+        />
+      )}
+    </div>
+  )
+}
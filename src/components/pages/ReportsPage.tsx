@@ -2,8 +2,14 @@
 
 import { useState, useEffect, useCallback } from 'react'
 import { supabase } from '@/lib/supabase'
-import { Sale, PaymentMethod, CustomerType } from '@/types/database'
+import { useNotifications } from '@/contexts/NotificationContext'
+import { useAuth } from '@/contexts/AuthContext'
+import { Sale, SalePayment, PaymentMethod, CustomerType, TransactionNumberGap } from '@/types/database'
 import { format, startOfDay, endOfDay, subDays } from 'date-fns'
+import { Receipt, fetchReceipt } from '@/lib/receipt'
+import { describeSaleOptions } from '@/lib/modifiers'
+import { addMoney, multiplyMoney, sumMoney } from '@/lib/money'
+import ReceiptModal from '@/components/sales/ReceiptModal'
 import toast from 'react-hot-toast'
 
 interface SaleWithEarnings extends Omit<Sale, 'earnings_datetime'> {
@@ -17,7 +23,11 @@ interface Transaction {
   items: SaleWithEarnings[]
   total: number
   cost: number
+  discount: number
+  vat: number
+  vatExemption: number
   payment_method: string
+  payments: SalePayment[]
   customer_type: string
   dine_in_takeout: 'dine_in' | 'takeout'
   created_at: string
@@ -25,11 +35,23 @@ interface Transaction {
   customer_payment: number | null
 }
 
+// "Latte (Large · Oat milk) (2pcs)"
+const itemLabel = (item: SaleWithEarnings) => {
+  const options = describeSaleOptions(item)
+  return `${item.product_name}${options ? ` (${options})` : ''} (${item.qty}pcs)`
+}
+
 interface OpexItem {
   monthly_cost: number
 }
 
 export default function ReportsPage() {
+  const { voidTransaction } = useNotifications()
+  const { user, can } = useAuth()
+  const isOwner = user?.role === 'owner'
+  const canVoid = can('void_sales')
+  const canArchive = can('archive_reports')
+  const canEditReportDate = can('edit_report_date')
   const [sales, setSales] = useState<SaleWithEarnings[]>([])
   const [transactions, setTransactions] = useState<Transaction[]>([])
   const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([])
@@ -50,11 +72,25 @@ export default function ReportsPage() {
   // Editing
   const [editingField, setEditingField] = useState<string | null>(null)
 
+  // Transaction number audit
+  const [showAuditModal, setShowAuditModal] = useState(false)
+  const [numberGaps, setNumberGaps] = useState<TransactionNumberGap[]>([])
+  const [loadingGaps, setLoadingGaps] = useState(false)
+
+  // Voiding
+  const [voidTarget, setVoidTarget] = useState<Transaction | null>(null)
+  const [voidReason, setVoidReason] = useState('')
+  const [isVoiding, setIsVoiding] = useState(false)
+
+  // Reprinting
+  const [receipt, setReceipt] = useState<Receipt | null>(null)
+  const [loadingReceiptId, setLoadingReceiptId] = useState<string | null>(null)
+
   // Fetch OPEX data
   const fetchOpexData = useCallback(async () => {
     try {
       const { data } = await supabase.from('opex').select('monthly_cost')
-      const total = (data || []).reduce((sum: number, item: OpexItem) => sum + item.monthly_cost, 0)
+      const total = sumMoney((data || []).map((item: OpexItem) => item.monthly_cost))
       setTotalMonthlyOpex(total)
     } catch (error) {
       console.error('Error fetching OPEX:', error)
@@ -67,15 +103,24 @@ export default function ReportsPage() {
       const dateStart = startOfDay(new Date(startDate))
       const dateEnd = endOfDay(new Date(endDate))
 
-      const { data, error } = await supabase
-        .from('sales')
-        .select('*')
-        .eq('cancelled', false)
-        .gte('created_at', dateStart.toISOString())
-        .lte('created_at', dateEnd.toISOString())
-        .order('created_at', { ascending: false })
+      const [{ data, error }, paymentsRes] = await Promise.all([
+        supabase
+          .from('sales')
+          .select('*')
+          .eq('cancelled', false)
+          .gte('created_at', dateStart.toISOString())
+          .lte('created_at', dateEnd.toISOString())
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('sale_payments')
+          .select('*')
+          .eq('cancelled', false)
+          .gte('created_at', dateStart.toISOString())
+          .lte('created_at', dateEnd.toISOString()),
+      ])
 
       if (error) throw error
+      const payments = (paymentsRes.data || []) as SalePayment[]
       
       // Normalize field names for backward compatibility
       const normalizedSales: SaleWithEarnings[] = (data || []).map((sale: any) => ({
@@ -97,7 +142,11 @@ export default function ReportsPage() {
             items: [],
             total: 0,
             cost: 0,
+            discount: 0,
+            vat: 0,
+            vatExemption: 0,
             payment_method: sale.payment_method,
+            payments: payments.filter(p => p.transaction_id === txId),
             customer_type: sale.customer_type,
             dine_in_takeout: sale.dine_in_takeout,
             created_at: sale.created_at,
@@ -106,8 +155,11 @@ export default function ReportsPage() {
           }
         }
         acc[txId].items.push(sale)
-        acc[txId].total += sale.total
-        acc[txId].cost += (sale.cost * sale.qty)
+        acc[txId].total = addMoney(acc[txId].total, sale.total)
+        acc[txId].cost = addMoney(acc[txId].cost, multiplyMoney(sale.cost, sale.qty))
+        acc[txId].discount = addMoney(acc[txId].discount, sale.discount_amount || 0)
+        acc[txId].vat = addMoney(acc[txId].vat, sale.vat_amount || 0)
+        acc[txId].vatExemption = addMoney(acc[txId].vatExemption, sale.vat_exemption || 0)
         return acc
       }, {} as Record<string, Transaction>)
 
@@ -160,6 +212,20 @@ export default function ReportsPage() {
     }
   }
 
+  // Distinct discount reasons across a transaction's lines
+  const discountReasons = (tx: Transaction) =>
+    Array.from(new Set(tx.items.map(i => i.discount_reason).filter(Boolean))).join('; ')
+
+  // Tenders of a transaction, e.g. "Cash ₱124.00; GCash ₱100.00 (ref 998877)"
+  const describeTenders = (tx: Transaction) =>
+    tx.payments
+      .map(p => `${p.payment_method} ₱${Number(p.amount).toFixed(2)}${p.reference_number ? ` (ref ${p.reference_number})` : ''}`)
+      .join('; ')
+
+  // VAT breakdown of a transaction, summed over its lines
+  const vatColumn = (tx: Transaction, column: 'vatable_sales' | 'vat_exempt_sales' | 'zero_rated_sales') =>
+    sumMoney(tx.items.map(i => i[column] || 0))
+
   const handleArchive = async () => {
     if (selectedTransactions.size === 0) return
 
@@ -167,18 +233,23 @@ export default function ReportsPage() {
       // Get selected transactions
       const selectedTxs = transactions.filter((t) => selectedTransactions.has(t.id))
       
-      // Get all sale IDs for selected transactions
-      const salesToArchive = sales.filter((s) => selectedTransactions.has(s.transaction_id || s.id))
-
       // Generate CSV with exactly what's shown in the report
       const csvHeaders = [
         'Transaction #',
         'Items',
         'Payment',
+        'Tenders',
         'Customer',
         'Order',
         'Timestamp',
         'Report Date',
+        'Discount',
+        'Discount Reason',
+        'VATable Sales',
+        'VAT',
+        'VAT-Exempt Sales',
+        'Zero-Rated Sales',
+        'Senior/PWD ID',
         'Total',
         'Remaining OPEX',
         'Net Profit'
@@ -193,29 +264,39 @@ export default function ReportsPage() {
       const txCalculations = new Map<string, { remainingOpex: number, netProfit: number }>()
       
       for (const tx of sortedForCalc) {
-        const grossMargin = tx.total - tx.cost
-        runningGrossMargin += grossMargin
+        const grossMargin = addMoney(tx.total, -tx.vat, -tx.cost)
+        runningGrossMargin = addMoney(runningGrossMargin, grossMargin)
         
-        const remainingOpex = Math.max(0, totalMonthlyOpex - runningGrossMargin)
+        const remainingOpex = Math.max(0, addMoney(totalMonthlyOpex, -runningGrossMargin))
         const netProfit = runningGrossMargin > totalMonthlyOpex 
-          ? runningGrossMargin - totalMonthlyOpex 
+          ? addMoney(runningGrossMargin, -totalMonthlyOpex) 
           : 0
         
         txCalculations.set(tx.id, { remainingOpex, netProfit })
       }
       
       const csvRows = selectedTxs.map((tx) => {
-        const itemsList = tx.items.map(i => `${i.product_name} (${i.qty}pcs)`).join('; ')
+        const itemsList = tx.items.map(itemLabel).join('; ')
         const calc = txCalculations.get(tx.id) || { remainingOpex: totalMonthlyOpex, netProfit: 0 }
         
         return [
           tx.transaction_number,
           `"${itemsList}"`,
           tx.payment_method,
+          `"${describeTenders(tx).replace(/"/g, '""')}"`,
           tx.customer_type,
           tx.dine_in_takeout === 'dine_in' ? 'Dine In' : 'Takeout',
           format(new Date(tx.created_at), 'MMM d yyyy h:mm a'),
           format(new Date(tx.earnings_datetime), 'MMM d yyyy h:mm a'),
+          tx.discount.toFixed(2),
+          `"${discountReasons(tx).replace(/"/g, '""')}"`,
+          vatColumn(tx, 'vatable_sales').toFixed(2),
+          tx.vat.toFixed(2),
+          vatColumn(tx, 'vat_exempt_sales').toFixed(2),
+          vatColumn(tx, 'zero_rated_sales').toFixed(2),
+          tx.items[0].statutory_id_number
+            ? `"${`${tx.items[0].statutory_id_number} ${tx.items[0].statutory_id_name || ''}`.trim().replace(/"/g, '""')}"`
+            : '',
           tx.total.toFixed(2),
           calc.remainingOpex.toFixed(2),
           calc.netProfit.toFixed(2),
@@ -233,11 +314,10 @@ export default function ReportsPage() {
       a.click()
       window.URL.revokeObjectURL(url)
 
-      // Delete from database
-      const { error } = await supabase
-        .from('sales')
-        .delete()
-        .in('id', salesToArchive.map(s => s.id))
+      // Move the rows into sales_archive (records who archived them)
+      const { error } = await (supabase as any).rpc('archive_sales', {
+        p_transaction_ids: selectedTxs.map((t) => t.id),
+      })
 
       if (error) throw error
 
@@ -260,13 +340,32 @@ export default function ReportsPage() {
 
       if (error) throw error
 
+      // A single tender follows the corrected payment method
+      const tx = transactions.find(t => t.id === txId)
+      if (field === 'payment_method' && tx && tx.payments.length === 1) {
+        const { error: paymentError } = await (supabase as any)
+          .from('sale_payments')
+          .update({ payment_method: value })
+          .eq('id', tx.payments[0].id)
+
+        if (paymentError) throw paymentError
+      }
+
       // Update local state
       setSales(prev => prev.map(s => 
         (s.transaction_id || s.id) === txId ? { ...s, [field]: value } : s
       ))
       
       setTransactions(prev => prev.map(t => 
-        t.id === txId ? { ...t, [field]: value } : t
+        t.id === txId
+          ? {
+              ...t,
+              [field]: value,
+              payments: field === 'payment_method' && t.payments.length === 1
+                ? [{ ...t.payments[0], payment_method: value }]
+                : t.payments,
+            }
+          : t
       ))
       
       toast.success('Updated successfully')
@@ -280,22 +379,14 @@ export default function ReportsPage() {
   const handleUpdateEarningsDateTime = async (txId: string, newDateTime: string) => {
     try {
       const isoDateTime = new Date(newDateTime).toISOString()
-      
-      // Try new column name first, fall back to old
-      let result = await (supabase as any)
-        .from('sales')
-        .update({ earnings_datetime: isoDateTime })
-        .eq('transaction_id', txId)
-      
-      // If new column doesn't exist, try old column name
-      if (result.error && result.error.message.includes('earnings_datetime')) {
-        result = await (supabase as any)
-          .from('sales')
-          .update({ store_sale_datetime: isoDateTime })
-          .eq('transaction_id', txId)
-      }
 
-      if (result.error) throw result.error
+      // Checked against the edit_report_date permission in the database
+      const { error } = await (supabase as any).rpc('set_report_date', {
+        p_transaction_id: txId,
+        p_earnings_datetime: isoDateTime,
+      })
+
+      if (error) throw error
 
       setSales(prev => prev.map(s => 
         (s.transaction_id || s.id) === txId 
@@ -315,6 +406,57 @@ export default function ReportsPage() {
     }
   }
 
+  const openVoidModal = (tx: Transaction) => {
+    setVoidReason('')
+    setVoidTarget(tx)
+  }
+
+  const handleVoid = async () => {
+    if (!voidTarget || !voidReason.trim()) return
+
+    setIsVoiding(true)
+    const result = await voidTransaction(voidTarget.id, voidReason.trim())
+    setIsVoiding(false)
+
+    if (result) {
+      setSelectedTransactions((prev) => {
+        const newSet = new Set(prev)
+        newSet.delete(voidTarget.id)
+        return newSet
+      })
+      setVoidTarget(null)
+      fetchSales()
+    }
+  }
+
+  const openReceipt = async (tx: Transaction) => {
+    setLoadingReceiptId(tx.id)
+    try {
+      setReceipt(await fetchReceipt(tx.id))
+    } catch (error) {
+      console.error('Error loading receipt:', error)
+      toast.error('Failed to load receipt')
+    } finally {
+      setLoadingReceiptId(null)
+    }
+  }
+
+  const openAuditModal = async () => {
+    setShowAuditModal(true)
+    setLoadingGaps(true)
+    try {
+      const { data, error } = await (supabase as any).rpc('transaction_number_gaps')
+      if (error) throw error
+      setNumberGaps(data || [])
+    } catch (error) {
+      console.error('Error loading transaction number gaps:', error)
+      toast.error('Failed to load sequence audit')
+      setShowAuditModal(false)
+    } finally {
+      setLoadingGaps(false)
+    }
+  }
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -323,7 +465,10 @@ export default function ReportsPage() {
     )
   }
 
-  const totalSales = transactions.reduce((sum, t) => sum + t.total, 0)
+  const totalSales = sumMoney(transactions.map(t => t.total))
+  const totalDiscounts = sumMoney(transactions.map(t => t.discount))
+  const totalVat = sumMoney(transactions.map(t => t.vat))
+  const totalVatExemption = sumMoney(transactions.map(t => t.vatExemption))
 
   return (
     <div className="max-w-7xl mx-auto">
@@ -351,7 +496,14 @@ export default function ReportsPage() {
             />
           </div>
           
-          {selectedTransactions.size > 0 && (
+          <button
+            onClick={openAuditModal}
+            className="px-4 py-2 bg-surface-800 hover:bg-surface-700 text-surface-300 hover:text-white font-medium rounded-lg transition-colors text-sm"
+          >
+            Sequence Audit
+          </button>
+
+          {canArchive && selectedTransactions.size > 0 && (
             <button
               onClick={() => setShowArchiveModal(true)}
               className="px-4 py-2 bg-red-500 hover:bg-red-600 text-white font-medium rounded-lg transition-colors flex items-center gap-2"
@@ -384,15 +536,17 @@ export default function ReportsPage() {
       ) : (
         <div className="space-y-4">
           {/* Select All */}
-          <div className="flex items-center gap-2 px-2">
-            <input
-              type="checkbox"
-              checked={selectedTransactions.size === transactions.length && transactions.length > 0}
-              onChange={toggleSelectAll}
-              className="w-4 h-4 rounded border-surface-600 bg-surface-800 text-primary-500 focus:ring-primary-500"
-            />
-            <span className="text-surface-400 text-sm">Select All ({transactions.length} transactions)</span>
-          </div>
+          {canArchive && (
+            <div className="flex items-center gap-2 px-2">
+              <input
+                type="checkbox"
+                checked={selectedTransactions.size === transactions.length && transactions.length > 0}
+                onChange={toggleSelectAll}
+                className="w-4 h-4 rounded border-surface-600 bg-surface-800 text-primary-500 focus:ring-primary-500"
+              />
+              <span className="text-surface-400 text-sm">Select All ({transactions.length} transactions)</span>
+            </div>
+          )}
 
           {/* Transactions Table */}
           <div className="card overflow-hidden">
@@ -400,7 +554,7 @@ export default function ReportsPage() {
               <table className="w-full">
                 <thead>
                   <tr className="border-b border-surface-800 bg-surface-800/50">
-                    <th className="p-4 text-left w-12"></th>
+                    {canArchive && <th className="p-4 text-left w-12"></th>}
                     <th className="p-4 text-left text-sm font-medium text-surface-400">Transaction #</th>
                     <th className="p-4 text-left text-sm font-medium text-surface-400">Items</th>
                     <th className="p-4 text-left text-sm font-medium text-surface-400">Payment</th>
@@ -415,6 +569,7 @@ export default function ReportsPage() {
                     <th className="p-4 text-right text-sm font-medium text-surface-400">Total</th>
                     <th className="p-4 text-right text-sm font-medium text-yellow-400">Remaining OPEX</th>
                     <th className="p-4 text-right text-sm font-medium text-green-400">Net Profit</th>
+                    <th className="p-4 w-16"></th>
                   </tr>
                 </thead>
                 <tbody>
@@ -429,12 +584,12 @@ export default function ReportsPage() {
                     const txCalculations = new Map<string, { remainingOpex: number, netProfit: number }>()
                     
                     for (const tx of sortedForCalc) {
-                      const grossMargin = tx.total - tx.cost
-                      runningGrossMargin += grossMargin
+                      const grossMargin = addMoney(tx.total, -tx.vat, -tx.cost)
+                      runningGrossMargin = addMoney(runningGrossMargin, grossMargin)
                       
-                      const remainingOpex = Math.max(0, totalMonthlyOpex - runningGrossMargin)
+                      const remainingOpex = Math.max(0, addMoney(totalMonthlyOpex, -runningGrossMargin))
                       const netProfit = runningGrossMargin > totalMonthlyOpex 
-                        ? runningGrossMargin - totalMonthlyOpex 
+                        ? addMoney(runningGrossMargin, -totalMonthlyOpex) 
                         : 0
                       
                       txCalculations.set(tx.id, { remainingOpex, netProfit })
@@ -444,21 +599,23 @@ export default function ReportsPage() {
                       const calc = txCalculations.get(tx.id) || { remainingOpex: totalMonthlyOpex, netProfit: 0 }
                       return (
                     <tr key={tx.id} className="border-b border-surface-800/50 hover:bg-surface-800/30">
-                      <td className="p-4">
-                        <input
-                          type="checkbox"
-                          checked={selectedTransactions.has(tx.id)}
-                          onChange={() => toggleSelectTransaction(tx.id)}
-                          className="w-4 h-4 rounded border-surface-600 bg-surface-800 text-primary-500 focus:ring-primary-500"
-                        />
-                      </td>
+                      {canArchive && (
+                        <td className="p-4">
+                          <input
+                            type="checkbox"
+                            checked={selectedTransactions.has(tx.id)}
+                            onChange={() => toggleSelectTransaction(tx.id)}
+                            className="w-4 h-4 rounded border-surface-600 bg-surface-800 text-primary-500 focus:ring-primary-500"
+                          />
+                        </td>
+                      )}
                       <td className="p-4">
                         <span className="text-white font-mono text-sm">{tx.transaction_number}</span>
                       </td>
                       <td className="p-4">
                         <div className="max-w-xs">
                           <span className="text-white text-sm">
-                            {tx.items.map(i => `${i.product_name} (${i.qty}pcs)`).join(', ')}
+                            {tx.items.map(itemLabel).join(', ')}
                           </span>
                         </div>
                       </td>
@@ -478,9 +635,16 @@ export default function ReportsPage() {
                         ) : (
                           <button
                             onClick={() => setEditingField(`${tx.id}-payment`)}
-                            className="text-surface-300 hover:text-white text-sm"
+                            disabled={!isOwner || tx.payments.length > 1}
+                            title={describeTenders(tx)}
+                            className="text-surface-300 hover:text-white text-sm text-left"
                           >
                             {tx.payment_method}
+                            {tx.payments.length > 1 && (
+                              <span className="block text-xs text-surface-500 font-mono">
+                                {tx.payments.map(p => `₱${Number(p.amount).toFixed(2)}`).join(' + ')}
+                              </span>
+                            )}
                           </button>
                         )}
                       </td>
@@ -500,6 +664,7 @@ export default function ReportsPage() {
                         ) : (
                           <button
                             onClick={() => setEditingField(`${tx.id}-customer`)}
+                            disabled={!isOwner}
                             className="text-surface-300 hover:text-white text-sm"
                           >
                             {tx.customer_type}
@@ -521,6 +686,7 @@ export default function ReportsPage() {
                         ) : (
                           <button
                             onClick={() => setEditingField(`${tx.id}-order`)}
+                            disabled={!isOwner}
                             className={`px-2 py-1 rounded text-xs font-medium ${
                               tx.dine_in_takeout === 'dine_in' 
                                 ? 'bg-blue-500/20 text-blue-400' 
@@ -547,6 +713,7 @@ export default function ReportsPage() {
                         ) : (
                           <button
                             onClick={() => setEditingField(`${tx.id}-earnings`)}
+                            disabled={!canEditReportDate}
                             className="text-primary-400 hover:text-primary-300 text-sm font-mono"
                           >
                             {format(new Date(tx.earnings_datetime), 'MMM d yyyy h:mm a')}
@@ -555,6 +722,21 @@ export default function ReportsPage() {
                       </td>
                       <td className="p-4 text-right text-primary-500 font-bold font-mono">
                         ₱{tx.total.toFixed(2)}
+                        {tx.discount > 0 && (
+                          <span className="block text-xs font-normal text-green-400" title={discountReasons(tx)}>
+                            −₱{tx.discount.toFixed(2)} discount
+                          </span>
+                        )}
+                        {tx.vatExemption > 0 && (
+                          <span className="block text-xs font-normal text-green-400" title={tx.items[0].statutory_id_number || undefined}>
+                            −₱{tx.vatExemption.toFixed(2)} VAT exempt
+                          </span>
+                        )}
+                        {tx.vat > 0 && (
+                          <span className="block text-xs font-normal text-surface-500">
+                            incl. ₱{tx.vat.toFixed(2)} VAT
+                          </span>
+                        )}
                       </td>
                       <td className="p-4 text-right font-mono text-sm">
                         <span className={calc.remainingOpex > 0 ? 'text-yellow-400' : 'text-green-400'}>
@@ -566,6 +748,25 @@ export default function ReportsPage() {
                           ₱{calc.netProfit.toFixed(2)}
                         </span>
                       </td>
+                      <td className="p-4 text-right">
+                        <div className="flex items-center justify-end gap-1">
+                          <button
+                            onClick={() => openReceipt(tx)}
+                            disabled={loadingReceiptId === tx.id}
+                            className="px-2 py-1 text-xs font-medium text-surface-400 hover:text-white hover:bg-surface-700 rounded-md transition-colors disabled:opacity-50"
+                          >
+                            Receipt
+                          </button>
+                          {canVoid && (
+                            <button
+                              onClick={() => openVoidModal(tx)}
+                              className="px-2 py-1 text-xs font-medium text-red-400 hover:text-red-300 hover:bg-red-500/10 rounded-md transition-colors"
+                            >
+                              Void
+                            </button>
+                          )}
+                        </div>
+                      </td>
                     </tr>
                       )
                     })
@@ -581,9 +782,116 @@ export default function ReportsPage() {
               <span className="text-surface-400 font-medium text-lg">
                 Total Sales ({startDate === endDate ? format(new Date(startDate), 'MMM d, yyyy') : `${format(new Date(startDate), 'MMM d')} - ${format(new Date(endDate), 'MMM d, yyyy')}`})
               </span>
-              <span className="text-primary-500 font-bold text-xl font-mono">
-                ₱{totalSales.toFixed(2)}
-              </span>
+              <div className="text-right">
+                <span className="text-primary-500 font-bold text-xl font-mono">
+                  ₱{totalSales.toFixed(2)}
+                </span>
+                {totalDiscounts > 0 && (
+                  <p className="text-green-400 text-sm font-mono">after ₱{totalDiscounts.toFixed(2)} discounts</p>
+                )}
+                {totalVatExemption > 0 && (
+                  <p className="text-green-400 text-sm font-mono">and ₱{totalVatExemption.toFixed(2)} Senior/PWD VAT exemption</p>
+                )}
+                <p className="text-surface-400 text-sm font-mono">VAT payable ₱{totalVat.toFixed(2)}</p>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Sequence Audit Modal */}
+      {showAuditModal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="card p-6 max-w-lg w-full max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-white">Transaction Number Audit</h3>
+              <button onClick={() => setShowAuditModal(false)} className="text-surface-400 hover:text-white p-1">
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+            {loadingGaps ? (
+              <div className="flex justify-center py-8">
+                <div className="w-6 h-6 border-4 border-primary-500 border-t-transparent rounded-full animate-spin" />
+              </div>
+            ) : numberGaps.length === 0 ? (
+              <div className="p-3 bg-green-500/10 border border-green-500/20 rounded-lg">
+                <p className="text-green-400 text-sm">✓ No gaps. Every issued transaction number has its sales on record or in the archive.</p>
+              </div>
+            ) : (
+              <>
+                <p className="text-surface-400 text-sm mb-3">
+                  <strong className="text-white">Missing</strong> numbers were never issued by a counter.{' '}
+                  <strong className="text-white">No sales</strong> numbers were issued but their sale rows were removed without being archived.
+                </p>
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-surface-800">
+                      <th className="p-2 text-left text-xs font-medium text-surface-400">Period</th>
+                      <th className="p-2 text-left text-xs font-medium text-surface-400">Prefix</th>
+                      <th className="p-2 text-left text-xs font-medium text-surface-400">Number</th>
+                      <th className="p-2 text-left text-xs font-medium text-surface-400">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {numberGaps.map((gap) => (
+                      <tr key={`${gap.scope}-${gap.period}-${gap.seq}`} className="border-b border-surface-800/50">
+                        <td className="p-2 text-surface-300 text-sm font-mono">{gap.period}</td>
+                        <td className="p-2 text-surface-300 text-sm font-mono">{gap.scope || '—'}</td>
+                        <td className="p-2 text-white text-sm font-mono">{gap.transaction_number || `#${gap.seq}`}</td>
+                        <td className="p-2 text-sm">
+                          <span className={gap.status === 'missing' ? 'text-red-400' : 'text-yellow-400'}>
+                            {gap.status === 'missing' ? 'Missing' : 'No sales'}
+                          </span>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Void Transaction Modal */}
+      {voidTarget && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="card p-6 max-w-md w-full">
+            <h3 className="text-lg font-semibold text-white mb-2">Void Transaction {voidTarget.transaction_number}?</h3>
+            <p className="text-surface-400 text-sm mb-3">
+              All {voidTarget.items.length} item(s) will be marked as cancelled and their ingredients returned to inventory.
+            </p>
+            <div className="p-3 bg-surface-800/50 rounded-lg mb-4">
+              <p className="text-white text-sm">
+                {voidTarget.items.map(itemLabel).join(', ')}
+              </p>
+              <p className="text-primary-500 font-bold font-mono text-sm mt-1">₱{voidTarget.total.toFixed(2)}</p>
+            </div>
+            <label className="block text-sm font-medium text-surface-300 mb-2">Reason</label>
+            <input
+              type="text"
+              value={voidReason}
+              onChange={(e) => setVoidReason(e.target.value)}
+              placeholder="e.g. Wrong order, customer refund"
+              autoFocus
+              className="w-full px-4 py-2 mb-6 bg-surface-800 border border-surface-700 rounded-lg text-white"
+            />
+            <div className="flex gap-3">
+              <button
+                onClick={() => setVoidTarget(null)}
+                className="flex-1 px-4 py-2 text-surface-400 hover:text-white hover:bg-surface-800 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleVoid}
+                disabled={!voidReason.trim() || isVoiding}
+                className="flex-1 px-4 py-2 bg-red-500 hover:bg-red-600 text-white font-medium rounded-lg transition-colors disabled:opacity-50"
+              >
+                {isVoiding ? 'Voiding...' : 'Void Transaction'}
+              </button>
             </div>
           </div>
         </div>
@@ -595,11 +903,11 @@ export default function ReportsPage() {
           <div className="card p-6 max-w-md w-full">
             <h3 className="text-lg font-semibold text-white mb-2">Archive Selected Reports?</h3>
             <p className="text-surface-400 text-sm mb-4">
-              This will download a CSV file and <strong className="text-red-400">permanently delete</strong> the selected {selectedTransactions.size} transaction(s) from the database.
+              This will download a CSV file and <strong className="text-red-400">remove</strong> the selected {selectedTransactions.size} transaction(s) from reports. The rows are kept in the sales archive for auditing.
             </p>
             <div className="p-3 bg-yellow-500/10 border border-yellow-500/20 rounded-lg mb-4">
               <p className="text-yellow-400 text-sm">
-                ⚠️ This action cannot be undone. Make sure to keep the downloaded CSV as your backup.
+                ⚠️ Archived sales no longer appear in Reports or Earnings. Keep the downloaded CSV as your copy.
               </p>
             </div>
             <div className="flex gap-3">
@@ -613,12 +921,15 @@ export default function ReportsPage() {
                 onClick={handleArchive}
                 className="flex-1 px-4 py-2 bg-red-500 hover:bg-red-600 text-white font-medium rounded-lg transition-colors"
               >
-                Download & Delete
+                Download & Archive
               </button>
             </div>
           </div>
         </div>
       )}
+
+      {/* Receipt Modal */}
+      {receipt && <ReceiptModal receipt={receipt} onClose={() => setReceipt(null)} />}
     </div>
   )
 }
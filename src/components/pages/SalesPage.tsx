@@ -2,10 +2,45 @@
 
 import { useState, useEffect, useCallback } from 'react'
 import { supabase, getProductImageUrl, PRODUCT_IMAGES_BUCKET } from '@/lib/supabase'
-import { PaymentMethod, CustomerType } from '@/types/database'
+import { PaymentMethod, CustomerType, CheckoutResult, ManualDiscount, Promotion, Setting, VatStatus, OptionIngredient, UnitOfMeasure } from '@/types/database'
 import { useNotifications } from '@/contexts/NotificationContext'
 import { useAuth } from '@/contexts/AuthContext'
-import { format } from 'date-fns'
+import { getTerminalPrefix } from '@/lib/terminal'
+import { priceCart, isPromotionLive, normalizePromoCode } from '@/lib/pricing'
+import { Tender, summarizeTenders, isCashMethod } from '@/lib/payments'
+import { sumMoney, multiplyMoney } from '@/lib/money'
+import { recipeUnitLabel, toRecipeUnits, unitOptions, findUnitOption, unitOptionText, convertQuantity } from '@/lib/units'
+import {
+  ProductOptions,
+  OptionSelection,
+  NO_OPTIONS,
+  hasOptions,
+  isBundle,
+  groupProductOptions,
+  defaultSelection,
+  selectionKey,
+  optionsPriceDelta,
+  toggleModifier,
+  bundleItems,
+  substituteComponent,
+  selectionError,
+  describeSelection,
+  lineIngredients,
+  formatPriceDelta,
+} from '@/lib/modifiers'
+import { Receipt, ReceiptHeader, DEFAULT_RECEIPT_HEADER, fetchReceiptHeader, buildReceipt } from '@/lib/receipt'
+import {
+  taxCart,
+  sumVatBreakdown,
+  statutoryDiscountLabel,
+  VAT_STATUS_LABELS,
+  DEFAULT_VAT_RATE,
+  DEFAULT_STATUTORY_DISCOUNT_RATE,
+} from '@/lib/tax'
+import DiscountFields, { DiscountDraft, EMPTY_DISCOUNT, toDiscountDraft, parseDiscountDraft } from '@/components/sales/DiscountFields'
+import ReceiptModal from '@/components/sales/ReceiptModal'
+import ProductOptionsEditor from '@/components/sales/ProductOptionsEditor'
+import BundleEditor from '@/components/sales/BundleEditor'
 import toast from 'react-hot-toast'
 
 interface FinishedProduct {
@@ -14,6 +49,7 @@ interface FinishedProduct {
   image_url: string | null
   selling_price: number
   opex_cost: number
+  vat_status: VatStatus
   created_at: string
   updated_at: string
 }
@@ -23,6 +59,7 @@ interface ProductIngredient {
   product_id: string
   item_id: string
   qty: number
+  unit_id: string | null
 }
 
 interface InventoryItem {
@@ -33,33 +70,63 @@ interface InventoryItem {
   unit_type: 'weight' | 'quantity' | 'volume'
 }
 
+// One line per product and size/modifier selection (see selectionKey)
 interface CartItem {
+  key: string
   product: FinishedProduct
+  selection: OptionSelection
   quantity: number
+  discount?: ManualDiscount | null
+}
+
+interface StockShortage {
+  item_id: string
+  name: string
+  unit_type: 'weight' | 'quantity' | 'volume'
+  required: number
+  available: number
 }
 
 export default function SalesPage() {
-  const { user } = useAuth()
-  const { addRecentSale } = useNotifications()
+  const { can } = useAuth()
+  const { addRecentSale, checkLowStock, checkFoodCost } = useNotifications()
   const [products, setProducts] = useState<FinishedProduct[]>([])
   const [inventoryItems, setInventoryItems] = useState<InventoryItem[]>([])
   const [productIngredients, setProductIngredients] = useState<Record<string, ProductIngredient[]>>({})
+  const [productOptions, setProductOptions] = useState<Record<string, ProductOptions>>({})
+  const [optionIngredients, setOptionIngredients] = useState<OptionIngredient[]>([])
+  const [units, setUnits] = useState<UnitOfMeasure[]>([])
   const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([])
   const [customerTypes, setCustomerTypes] = useState<CustomerType[]>([])
+  const [promotions, setPromotions] = useState<Promotion[]>([])
+  const [vatRate, setVatRate] = useState(DEFAULT_VAT_RATE)
+  const [statutoryRate, setStatutoryRate] = useState(DEFAULT_STATUTORY_DISCOUNT_RATE)
   const [loading, setLoading] = useState(true)
 
   // Cart state
   const [cart, setCart] = useState<CartItem[]>([])
-  const [selectedPaymentMethod, setSelectedPaymentMethod] = useState<string>('')
+  const [tenders, setTenders] = useState<Tender[]>([])
   const [selectedCustomerType, setSelectedCustomerType] = useState<string>('')
   const [selectedDineInTakeout, setSelectedDineInTakeout] = useState<'dine_in' | 'takeout' | null>(null)
-  const [customerPayment, setCustomerPayment] = useState<string>('')
   const [isCheckingOut, setIsCheckingOut] = useState(false)
 
+  // Discount state
+  const [orderDiscount, setOrderDiscount] = useState<ManualDiscount | null>(null)
+  const [promoCodes, setPromoCodes] = useState<string[]>([])
+  const [promoCodeInput, setPromoCodeInput] = useState('')
+  const [showOrderDiscount, setShowOrderDiscount] = useState(false)
+  const [orderDiscountDraft, setOrderDiscountDraft] = useState<DiscountDraft>(EMPTY_DISCOUNT)
+
+  // Senior Citizen / PWD ID, required for customer types with the statutory discount
+  const [statutoryIdNumber, setStatutoryIdNumber] = useState('')
+  const [statutoryIdName, setStatutoryIdName] = useState('')
+
   // Product/Cart item modal state
   const [selectedProduct, setSelectedProduct] = useState<FinishedProduct | null>(null)
   const [editingCartItem, setEditingCartItem] = useState<CartItem | null>(null)
   const [modalQuantity, setModalQuantity] = useState<string>('1')
+  const [modalDiscount, setModalDiscount] = useState<DiscountDraft>(EMPTY_DISCOUNT)
+  const [modalSelection, setModalSelection] = useState<OptionSelection>(defaultSelection(NO_OPTIONS))
 
   // Delete confirmation modal
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
@@ -68,19 +135,44 @@ export default function SalesPage() {
   // Edit ingredients modal
   const [showEditIngredients, setShowEditIngredients] = useState(false)
   const [editingProductIngredients, setEditingProductIngredients] = useState<FinishedProduct | null>(null)
-  const [editIngredientsList, setEditIngredientsList] = useState<{item_id: string, qty: number}[]>([])
+  // Quantities in the ingredient's chosen unit (unit_key, see unitOptions)
+  const [editIngredientsList, setEditIngredientsList] = useState<{item_id: string, qty: number, unit_key: string}[]>([])
   const [isSavingIngredients, setIsSavingIngredients] = useState(false)
+  const [editVatStatus, setEditVatStatus] = useState<VatStatus>('vatable')
+
+  // Sizes and add-ons editor
+  const [editingOptionsProduct, setEditingOptionsProduct] = useState<FinishedProduct | null>(null)
+  const [editingBundle, setEditingBundle] = useState<FinishedProduct | null>(null)
 
-  const isOwner = user?.role === 'owner'
+  // Receipt for the last sale
+  const [receiptHeader, setReceiptHeader] = useState<ReceiptHeader>(DEFAULT_RECEIPT_HEADER)
+  const [receipt, setReceipt] = useState<Receipt | null>(null)
+
+  const canEditRecipes = can('edit_recipes')
+  const canApplyDiscounts = can('apply_discounts')
 
   const fetchData = useCallback(async () => {
+    checkFoodCost()
     try {
-      const [productsRes, inventoryRes, ingredientsRes, paymentRes, customerRes] = await Promise.all([
+      const [
+        productsRes, inventoryRes, ingredientsRes, variantsRes, groupsRes, modifierOptionsRes, optionIngredientsRes,
+        componentsRes, substitutesRes, paymentRes, customerRes, promotionsRes, taxRes, header, unitsRes,
+      ] = await Promise.all([
         supabase.from('finished_products').select('*').order('name'),
         supabase.from('products').select('*').order('name'),
         supabase.from('product_ingredients').select('*'),
+        supabase.from('product_variants').select('*'),
+        supabase.from('modifier_groups').select('*'),
+        supabase.from('modifier_options').select('*'),
+        supabase.from('option_ingredients').select('*'),
+        supabase.from('bundle_components').select('*'),
+        supabase.from('bundle_substitutes').select('*'),
         supabase.from('payment_methods').select('*').order('name'),
         supabase.from('customer_types').select('*').order('name'),
+        supabase.from('promotions').select('*').eq('is_active', true).order('name'),
+        supabase.from('settings').select('*').in('key', ['vat_rate', 'statutory_discount_rate']),
+        fetchReceiptHeader(),
+        supabase.from('units_of_measure').select('*').order('name'),
       ])
 
       if (productsRes.data) setProducts(productsRes.data)
@@ -94,56 +186,91 @@ export default function SalesPage() {
         }, {})
         setProductIngredients(grouped)
       }
+
+      setProductOptions(groupProductOptions(
+        variantsRes.data || [], groupsRes.data || [], modifierOptionsRes.data || [],
+        componentsRes.data || [], substitutesRes.data || []
+      ))
+      if (optionIngredientsRes.data) setOptionIngredients(optionIngredientsRes.data)
+      if (unitsRes.data) setUnits(unitsRes.data)
       
       if (paymentRes.data) setPaymentMethods(paymentRes.data)
       if (customerRes.data) setCustomerTypes(customerRes.data)
+      if (promotionsRes.data) setPromotions(promotionsRes.data)
+      for (const setting of (taxRes.data || []) as Setting[]) {
+        const rate = parseFloat(setting.value)
+        if (isNaN(rate)) continue
+        if (setting.key === 'vat_rate') setVatRate(rate)
+        if (setting.key === 'statutory_discount_rate') setStatutoryRate(rate)
+      }
+      setReceiptHeader(header)
     } catch (error) {
       console.error('Error fetching data:', error)
       toast.error('Failed to load data')
     } finally {
       setLoading(false)
     }
-  }, [])
+  }, [checkFoodCost])
 
   useEffect(() => {
     fetchData()
   }, [fetchData])
 
   // Get inventory stock in the same unit as ingredients
-  const getInventoryInIngredientUnit = (item: InventoryItem): number => {
-    if (item.unit_type === 'weight') return item.qty * 1000 // kg to g
-    if (item.unit_type === 'volume') return item.qty * 1000 // L to ml
-    return item.qty // pieces
-  }
+  const getInventoryInIngredientUnit = (item: InventoryItem): number => toRecipeUnits(item.qty, item.unit_type)
+
+  // Units a recipe line of an item can be entered in
+  const recipeUnitsOf = (itemId: string) => unitOptions(inventoryItems.find(i => i.id === itemId), units, 'recipe')
+
+  const optionsOf = (productId: string): ProductOptions => productOptions[productId] || NO_OPTIONS
 
-  // Check if product is out of stock (any ingredient has 0 stock)
+  const productNameOf = (productId: string): string => products.find(p => p.id === productId)?.name || ''
+
+  // Ingredients for one unit of a product with the chosen size and modifiers
+  // (a bundle's include its components' recipes)
+  const getLineIngredients = (productId: string, selection: OptionSelection) =>
+    lineIngredients(
+      productIngredients[productId] || [],
+      optionIngredients,
+      selection,
+      bundleItems(optionsOf(productId), selection).map(b => ({ qty: b.qty, ingredients: productIngredients[b.product_id] || [] }))
+    )
+
+  // Unit price including the size and modifier price changes
+  const getUnitPrice = (product: FinishedProduct, selection: OptionSelection): number =>
+    Number(product.selling_price) + optionsPriceDelta(optionsOf(product.id), selection)
+
+  // Check if product is out of stock (no size, or the plain product, can be made)
   const isProductOutOfStock = (product: FinishedProduct): boolean => {
-    const ingredients = productIngredients[product.id] || []
-    if (ingredients.length === 0) return true
-    
-    return ingredients.some(ing => {
-      const item = inventoryItems.find(i => i.id === ing.item_id)
-      if (!item) return true
-      const availableQty = getInventoryInIngredientUnit(item)
-      return availableQty < ing.qty
+    const options = optionsOf(product.id)
+    const selections: OptionSelection[] = options.variants.length > 0
+      ? options.variants.map(v => ({ ...defaultSelection(options), variantId: v.id }))
+      : [defaultSelection(options)]
+
+    return selections.every(selection => {
+      const ingredients = getLineIngredients(product.id, selection)
+      return ingredients.length === 0 || ingredients.some(ing => {
+        const item = inventoryItems.find(i => i.id === ing.item_id)
+        if (!item) return true
+        const availableQty = getInventoryInIngredientUnit(item)
+        return availableQty < ing.qty
+      })
     })
   }
 
-  // Calculate maximum quantity available for a product based on inventory
-  // Takes into account items already in cart
-  const getMaxAvailableQuantity = (product: FinishedProduct, excludeCurrentCart: boolean = false): number => {
-    const ingredients = productIngredients[product.id] || []
+  // Calculate maximum quantity available for a product and selection based on inventory.
+  // Ingredients used by the other cart lines are reserved; lines in excludeKeys are not
+  // counted (the line being edited, or the line the quantity will be merged into).
+  const getMaxAvailableQuantity = (product: FinishedProduct, selection: OptionSelection, excludeKeys: string[] = []): number => {
+    const ingredients = getLineIngredients(product.id, selection)
     if (ingredients.length === 0) return 0
     
     // Calculate how much of each ingredient is already reserved in cart
     const reservedIngredients: Record<string, number> = {}
-    if (!excludeCurrentCart) {
-      for (const cartItem of cart) {
-        if (cartItem.product.id === product.id) continue // Skip the product we're checking (for updates)
-        const cartIngredients = productIngredients[cartItem.product.id] || []
-        for (const ing of cartIngredients) {
-          reservedIngredients[ing.item_id] = (reservedIngredients[ing.item_id] || 0) + (ing.qty * cartItem.quantity)
-        }
+    for (const cartItem of cart) {
+      if (excludeKeys.includes(cartItem.key)) continue
+      for (const ing of getLineIngredients(cartItem.product.id, cartItem.selection)) {
+        reservedIngredients[ing.item_id] = (reservedIngredients[ing.item_id] || 0) + (ing.qty * cartItem.quantity)
       }
     }
 
@@ -175,54 +302,52 @@ export default function SalesPage() {
     return ingredientCost
   }
 
-  // Cart calculations
-  const cartTotal = cart.reduce((sum, item) => sum + (item.quantity * item.product.selling_price), 0)
-  const paymentAmount = parseFloat(customerPayment) || 0
-  const changeAmount = paymentAmount - cartTotal
+  // Cart calculations (discounts and VAT are re-computed by the database at checkout).
+  // Senior/PWD sales get the statutory discount instead of promotions and manual discounts.
+  const isStatutory = customerTypes.find(ct => ct.name === selectedCustomerType)?.statutory_discount || false
+  const pricedCart = priceCart(
+    cart.map(item => ({
+      productId: item.product.id,
+      qty: item.quantity,
+      sellingPrice: getUnitPrice(item.product, item.selection),
+      discount: isStatutory ? null : item.discount,
+    })),
+    isStatutory ? [] : promotions,
+    isStatutory ? null : orderDiscount,
+    isStatutory ? [] : promoCodes
+  )
+  const taxedLines = taxCart(
+    pricedCart.lines,
+    productId => products.find(p => p.id === productId)?.vat_status || 'vatable',
+    vatRate,
+    isStatutory ? { label: statutoryDiscountLabel(selectedCustomerType, statutoryRate), rate: statutoryRate } : null
+  )
+  const vatTotals = sumVatBreakdown(taxedLines)
+  const cartDiscount = sumMoney(taxedLines.map(l => l.discountAmount))
+  const cartTotal = vatTotals.total
+  const tenderSummary = summarizeTenders(tenders, paymentMethods, cartTotal)
 
   // Check if checkout is valid
   const canCheckout = cart.length > 0 && 
-    selectedPaymentMethod && 
+    tenders.length > 0 && 
     selectedCustomerType && 
     selectedDineInTakeout && 
-    paymentAmount >= cartTotal
-
-  // Generate transaction number (YY-MM-XXXXX format, resets monthly)
-  const generateTransactionNumber = async (): Promise<string> => {
-    const now = new Date()
-    const yearMonth = format(now, 'yy-MM')
-    
-    try {
-      // Get the highest transaction number for this month
-      const { data } = await supabase
-        .from('sales')
-        .select('transaction_number')
-        .like('transaction_number', `${yearMonth}-%`)
-        .order('transaction_number', { ascending: false })
-        .limit(1)
-
-      let nextNum = 1
-      if (data && data.length > 0 && data[0].transaction_number) {
-        const lastNum = parseInt(data[0].transaction_number.split('-')[2]) || 0
-        nextNum = lastNum + 1
-      }
-
-      return `${yearMonth}-${nextNum.toString().padStart(5, '0')}`
-    } catch (error) {
-      console.error('Error generating transaction number:', error)
-      return `${yearMonth}-00001`
-    }
-  }
+    (!isStatutory || (statutoryIdNumber.trim() && statutoryIdName.trim())) &&
+    !tenderSummary.error &&
+    tenderSummary.paid >= cartTotal
 
-  // Open modal for product
+  // Open modal for product. A product with sizes or modifiers always starts a
+  // new selection; a plain product already in the cart opens its cart line.
   const handleProductClick = (product: FinishedProduct) => {
-    const existingItem = cart.find(item => item.product.id === product.id)
+    const options = optionsOf(product.id)
+    const existingItem = hasOptions(options) ? undefined : cart.find(item => item.product.id === product.id)
     if (existingItem) {
-      setEditingCartItem(existingItem)
-      setModalQuantity(existingItem.quantity.toString())
+      handleCartItemClick(existingItem)
     } else {
     setSelectedProduct(product)
       setModalQuantity('1')
+      setModalDiscount(EMPTY_DISCOUNT)
+      setModalSelection(defaultSelection(options))
     }
   }
 
@@ -230,12 +355,25 @@ export default function SalesPage() {
   const handleCartItemClick = (item: CartItem) => {
     setEditingCartItem(item)
     setModalQuantity(item.quantity.toString())
+    setModalDiscount(toDiscountDraft(item.discount))
+    setModalSelection(item.selection)
   }
 
   const closeModal = () => {
     setSelectedProduct(null)
     setEditingCartItem(null)
     setModalQuantity('1')
+    setModalDiscount(EMPTY_DISCOUNT)
+    setModalSelection(defaultSelection(NO_OPTIONS))
+  }
+
+  // Most the modal can add: a line with the same selection is merged into, so
+  // its quantity counts against the stock too
+  const getModalMaxQuantity = (product: FinishedProduct): number => {
+    const key = selectionKey(product.id, modalSelection)
+    const mergeQty = cart.find(item => item.key === key && item.key !== editingCartItem?.key)?.quantity || 0
+    const excludeKeys = editingCartItem ? [key, editingCartItem.key] : [key]
+    return Math.max(0, getMaxAvailableQuantity(product, modalSelection, excludeKeys) - mergeQty)
   }
 
   // Handle quantity input change
@@ -250,15 +388,31 @@ export default function SalesPage() {
     }
   }
 
+  // Add a tender, prefilled with whatever is still owed
+  const addTender = (paymentMethod: string) => {
+    setTenders(prev => [
+      ...prev,
+      {
+        paymentMethod,
+        amount: tenderSummary.balance > 0 ? tenderSummary.balance.toFixed(2) : '',
+        referenceNumber: '',
+      },
+    ])
+  }
+
+  const updateTender = (index: number, changes: Partial<Tender>) => {
+    setTenders(prev => prev.map((t, i) => (i === index ? { ...t, ...changes } : t)))
+  }
+
+  const removeTender = (index: number) => {
+    setTenders(prev => prev.filter((_, i) => i !== index))
+  }
+
   // Handle payment input change
-  const handlePaymentChange = (value: string) => {
-    if (value === '') {
-      setCustomerPayment('')
-      return
-    }
+  const handlePaymentChange = (index: number, value: string) => {
     const regex = /^\d*\.?\d{0,2}$/
-    if (regex.test(value)) {
-      setCustomerPayment(value)
+    if (value === '' || regex.test(value)) {
+      updateTender(index, { amount: value })
     }
   }
 
@@ -273,48 +427,47 @@ export default function SalesPage() {
     const product = editingCartItem?.product || selectedProduct
     if (!product) return
 
-    // Check inventory availability
-    const maxAvailable = getMaxAvailableQuantity(product, false)
-    const currentInCart = editingCartItem 
-      ? 0 // When editing, we're replacing the quantity
-      : cart.find(item => item.product.id === product.id)?.quantity || 0
-    
-    const totalRequested = editingCartItem ? qty : currentInCart + qty
+    const optionsError = selectionError(optionsOf(product.id), modalSelection)
+    if (optionsError) {
+      toast.error(optionsError)
+      return
+    }
+
+    const discount = parseDiscountDraft(modalDiscount)
+    if (typeof discount === 'string') {
+      toast.error(discount)
+      return
+    }
 
-    if (totalRequested > maxAvailable + currentInCart) {
-      const available = maxAvailable
-      toast.error(`Only ${available} available in stock`)
+    // Check inventory availability
+    const maxAvailable = getModalMaxQuantity(product)
+    if (qty > maxAvailable) {
+      toast.error(`Only ${maxAvailable} available in stock`)
       return
     }
 
+    // A line with the same product and selection takes the quantity
+    const key = selectionKey(product.id, modalSelection)
+    const mergeInto = cart.find(item => item.key === key && item.key !== editingCartItem?.key)
+
     if (editingCartItem) {
-      if (qty > maxAvailable + editingCartItem.quantity) {
-        toast.error(`Only ${maxAvailable + editingCartItem.quantity} available in stock`)
-        return
-      }
-      setCart(cart.map(item => 
-        item.product.id === editingCartItem.product.id 
-          ? { ...item, quantity: qty }
-          : item
-      ))
+      setCart(cart
+        .filter(item => item !== mergeInto)
+        .map(item =>
+          item.key === editingCartItem.key
+            ? { ...item, key, selection: modalSelection, quantity: qty + (mergeInto?.quantity || 0), discount }
+            : item
+        ))
       toast.success('Cart updated')
     } else if (selectedProduct) {
-      const existingIndex = cart.findIndex(item => item.product.id === selectedProduct.id)
-      if (existingIndex >= 0) {
-        const newTotal = cart[existingIndex].quantity + qty
-        if (newTotal > maxAvailable + cart[existingIndex].quantity) {
-          toast.error(`Only ${maxAvailable + cart[existingIndex].quantity} available in stock`)
-          return
-        }
-        const updatedCart = [...cart]
-        updatedCart[existingIndex].quantity += qty
-        setCart(updatedCart)
+      if (mergeInto) {
+        setCart(cart.map(item =>
+          item === mergeInto
+            ? { ...item, quantity: item.quantity + qty, discount: discount || item.discount }
+            : item
+        ))
       } else {
-        if (qty > maxAvailable) {
-          toast.error(`Only ${maxAvailable} available in stock`)
-          return
-        }
-        setCart([...cart, { product: selectedProduct, quantity: qty }])
+        setCart([...cart, { key, product: selectedProduct, selection: modalSelection, quantity: qty, discount }])
       }
       toast.success('Added to cart')
     }
@@ -324,7 +477,7 @@ export default function SalesPage() {
   // Remove item from cart
   const handleRemoveFromCart = () => {
     if (editingCartItem) {
-      setCart(cart.filter(item => item.product.id !== editingCartItem.product.id))
+      setCart(cart.filter(item => item.key !== editingCartItem.key))
       toast.success('Removed from cart')
       closeModal()
     }
@@ -333,13 +486,17 @@ export default function SalesPage() {
   // Clear cart
   const clearCart = () => {
     setCart([])
-    setSelectedPaymentMethod('')
+    setTenders([])
     setSelectedCustomerType('')
     setSelectedDineInTakeout(null)
-    setCustomerPayment('')
+    setOrderDiscount(null)
+    setPromoCodes([])
+    setPromoCodeInput('')
+    setStatutoryIdNumber('')
+    setStatutoryIdName('')
   }
 
-  // Delete product (owner only)
+  // Delete product (edit_recipes permission)
   const handleDeleteProduct = async () => {
     if (!deletingProduct) return
 
@@ -385,19 +542,39 @@ export default function SalesPage() {
   // Open edit ingredients modal
   const openEditIngredients = (product: FinishedProduct) => {
     const ingredients = productIngredients[product.id] || []
-    setEditIngredientsList(ingredients.map(ing => ({ item_id: ing.item_id, qty: ing.qty })))
+    setEditIngredientsList(ingredients.map(ing => {
+      const unit = findUnitOption(recipeUnitsOf(ing.item_id), ing.unit_id)
+      return {
+        item_id: ing.item_id,
+        qty: unit ? convertQuantity(Number(ing.qty), 1, unit.factor) : Number(ing.qty),
+        unit_key: unit?.key || '',
+      }
+    }))
     setEditingProductIngredients(product)
+    setEditVatStatus(product.vat_status || 'vatable')
     setShowEditIngredients(true)
     closeModal()
   }
 
+  // Open the sizes and add-ons editor
+  const openEditOptions = (product: FinishedProduct) => {
+    setEditingOptionsProduct(product)
+    closeModal()
+  }
+
+  // Open the bundle items editor
+  const openEditBundle = (product: FinishedProduct) => {
+    setEditingBundle(product)
+    closeModal()
+  }
+
   // Add ingredient to edit list
   const addIngredientToEdit = (itemId: string) => {
     if (editIngredientsList.find(i => i.item_id === itemId)) {
       toast.error('Ingredient already added')
       return
     }
-    setEditIngredientsList([...editIngredientsList, { item_id: itemId, qty: 1 }])
+    setEditIngredientsList([...editIngredientsList, { item_id: itemId, qty: 1, unit_key: recipeUnitsOf(itemId)[0]?.key || '' }])
   }
 
   // Remove ingredient from edit list
@@ -412,6 +589,13 @@ export default function SalesPage() {
     ))
   }
 
+  // Change the unit an ingredient quantity is entered in
+  const updateIngredientUnit = (itemId: string, unitKey: string) => {
+    setEditIngredientsList(editIngredientsList.map(i =>
+      i.item_id === itemId ? { ...i, unit_key: unitKey } : i
+    ))
+  }
+
   // Save edited ingredients
   const saveEditedIngredients = async () => {
     if (!editingProductIngredients) return
@@ -429,11 +613,16 @@ export default function SalesPage() {
         .eq('product_id', editingProductIngredients.id)
 
       // Insert new ingredients
-      const ingredientsToInsert = editIngredientsList.map(ing => ({
-        product_id: editingProductIngredients.id,
-        item_id: ing.item_id,
-        qty: ing.qty,
-      }))
+      // Stored in recipe units (g/ml/pcs), remembering the unit they were entered in
+      const ingredientsToInsert = editIngredientsList.map(ing => {
+        const unit = recipeUnitsOf(ing.item_id).find(u => u.key === ing.unit_key)
+        return {
+          product_id: editingProductIngredients.id,
+          item_id: ing.item_id,
+          qty: unit ? convertQuantity(ing.qty, unit.factor, 1) : ing.qty,
+          unit_id: unit?.unitId || null,
+        }
+      })
 
       const { error } = await (supabase as any)
         .from('product_ingredients')
@@ -441,6 +630,15 @@ export default function SalesPage() {
 
       if (error) throw error
 
+      if (editVatStatus !== editingProductIngredients.vat_status) {
+        const { error: vatError } = await (supabase as any)
+          .from('finished_products')
+          .update({ vat_status: editVatStatus })
+          .eq('id', editingProductIngredients.id)
+
+        if (vatError) throw vatError
+      }
+
       toast.success('Ingredients updated!')
       setShowEditIngredients(false)
       setEditingProductIngredients(null)
@@ -461,79 +659,111 @@ export default function SalesPage() {
     setEditIngredientsList([])
   }
 
+  // Promo codes are checked against live promotions here and again at checkout
+  const handleApplyPromoCode = () => {
+    const code = normalizePromoCode(promoCodeInput)
+    if (!code) return
+    if (promoCodes.includes(code)) {
+      toast.error(`${code} is already applied`)
+      return
+    }
+    const promotion = promotions.find(p => p.code && normalizePromoCode(p.code) === code && isPromotionLive(p))
+    if (!promotion) {
+      toast.error(`Promo code ${code} is not valid`)
+      return
+    }
+    setPromoCodes([...promoCodes, code])
+    setPromoCodeInput('')
+    toast.success(`${promotion.name} applied`)
+  }
+
+  const openOrderDiscount = () => {
+    setOrderDiscountDraft(toDiscountDraft(orderDiscount))
+    setShowOrderDiscount(true)
+  }
+
+  const handleSaveOrderDiscount = () => {
+    const discount = parseDiscountDraft(orderDiscountDraft)
+    if (typeof discount === 'string') {
+      toast.error(discount)
+      return
+    }
+    setOrderDiscount(discount)
+    setShowOrderDiscount(false)
+  }
+
+  // Describe a stock shortage reported by process_checkout
+  const formatShortage = (shortage: StockShortage): string => {
+    const unitLabel = recipeUnitLabel(shortage.unit_type)
+    return `${shortage.name} (need ${shortage.required} ${unitLabel}, have ${shortage.available} ${unitLabel})`
+  }
+
   // Handle checkout
+  // Stock validation, transaction numbering, sale lines and ingredient deductions
+  // all happen inside the process_checkout database function as one transaction.
   const handleCheckout = async () => {
     if (!canCheckout) return
 
     setIsCheckingOut(true)
 
     try {
-      const transactionId = crypto.randomUUID()
-      const transactionNumber = await generateTransactionNumber()
-
-      // Calculate ingredient deductions
-      const ingredientDeductions: Record<string, number> = {}
-      for (const item of cart) {
-        const ingredients = productIngredients[item.product.id] || []
-        for (const ing of ingredients) {
-          ingredientDeductions[ing.item_id] = (ingredientDeductions[ing.item_id] || 0) + (ing.qty * item.quantity)
+      const { data, error } = await (supabase as any).rpc('process_checkout', {
+        p_items: cart.map(item => ({
+          product_id: item.product.id,
+          qty: item.quantity,
+          variant_id: item.selection.variantId,
+          modifier_ids: item.selection.modifierIds,
+          bundle_choices: Object.entries(item.selection.substitutions).map(([component_id, product_id]) => ({ component_id, product_id })),
+          ...(item.discount && !isStatutory ? { discount: item.discount } : {}),
+        })),
+        p_payment_method: tenders[0].paymentMethod,
+        p_customer_type: selectedCustomerType,
+        p_dine_in_takeout: selectedDineInTakeout,
+        p_customer_payment: tenderSummary.paid,
+        p_terminal_prefix: getTerminalPrefix(),
+        p_discount: isStatutory ? null : orderDiscount,
+        p_promo_codes: isStatutory ? [] : promoCodes,
+        p_statutory_id_number: isStatutory ? statutoryIdNumber.trim() : null,
+        p_statutory_id_name: isStatutory ? statutoryIdName.trim() : null,
+        p_payments: tenders.map(t => ({
+          payment_method: t.paymentMethod,
+          amount: parseFloat(t.amount) || 0,
+          reference_number: t.referenceNumber.trim() || null,
+        })),
+      })
+
+      if (error) {
+        if (error.hint === 'insufficient_stock') {
+          let shortages: StockShortage[] = []
+          try {
+            shortages = JSON.parse(error.details || '[]')
+          } catch {
+            shortages = []
+          }
+          toast.error(`Not enough stock: ${shortages.map(formatShortage).join(', ')}`, { duration: 6000 })
+          fetchData()
+          return
         }
-      }
-
-      // Create sale records (cost is ingredient cost only, no OPEX per unit)
-      const saleRecords = cart.map(item => ({
-        transaction_id: transactionId,
-        transaction_number: transactionNumber,
-        product_id: item.product.id,
-        product_name: item.product.name,
-        qty: item.quantity,
-        unit_type: 'quantity' as const,
-        cost: calculateProductCost(item.product),
-        selling_price: item.product.selling_price,
-        total: item.quantity * item.product.selling_price,
-        payment_method: selectedPaymentMethod,
-        customer_type: selectedCustomerType,
-        dine_in_takeout: selectedDineInTakeout,
-        customer_payment: paymentAmount,
-      }))
-      
-      const { data: saleData, error: saleError } = await (supabase as any)
-        .from('sales')
-        .insert(saleRecords)
-        .select()
-
-      if (saleError) {
-        console.error('Sale insert error:', saleError)
-        throw saleError
-      }
-
-      // Deduct ingredients from inventory
-      for (const [itemId, deduction] of Object.entries(ingredientDeductions)) {
-        const item = inventoryItems.find(i => i.id === itemId)
-        if (!item) continue
-        
-        // Convert deduction to storage unit
-        let deductionInStorageUnit = deduction
-        if (item.unit_type === 'weight') deductionInStorageUnit = deduction / 1000 // g to kg
-        if (item.unit_type === 'volume') deductionInStorageUnit = deduction / 1000 // ml to L
-        
-        const newQty = Math.max(0, item.qty - deductionInStorageUnit)
-        
-        const { error: updateError } = await (supabase as any)
-        .from('products')
-          .update({ qty: newQty })
-          .eq('id', itemId)
-        
-        if (updateError) {
-          console.error(`Failed to update inventory for ${item.name}:`, updateError)
+        // Promo codes, tenders, or sizes/modifiers changed since the cart was built
+        if (['Promo code', 'Non-cash', 'Choose', 'Unknown'].some(prefix => error.message?.startsWith(prefix)) || error.code === '42501') {
+          toast.error(error.message)
+          fetchData()
+          return
         }
+        console.error('Checkout error:', error)
+        throw error
       }
 
-      if (saleData && saleData.length > 0) {
-        addRecentSale(saleData[0])
-      }
+      const result = data as CheckoutResult
+      addRecentSale(result)
+      checkLowStock()
+      setReceipt(buildReceipt(receiptHeader, result.sales, result.payments))
 
-      toast.success(`Sale completed! Transaction: ${transactionNumber}`)
+      toast.success(
+        result.change > 0
+          ? `Sale completed! Transaction: ${result.transaction_number} · Change ₱${Number(result.change).toFixed(2)}`
+          : `Sale completed! Transaction: ${result.transaction_number}`
+      )
       clearCart()
       fetchData()
     } catch (error) {
@@ -552,10 +782,13 @@ export default function SalesPage() {
     )
   }
 
-  // Filter products that have ingredients
-  const availableProducts = products.filter(p => (productIngredients[p.id] || []).length > 0)
+  // Products that have ingredients, and bundles (made of other products)
+  const availableProducts = products.filter(
+    p => (productIngredients[p.id] || []).length > 0 || isBundle(optionsOf(p.id))
+  )
 
   const currentProduct = editingCartItem?.product || selectedProduct
+  const currentOptions = currentProduct ? optionsOf(currentProduct.id) : NO_OPTIONS
 
   return (
     <div className="max-w-7xl mx-auto flex flex-col h-full">
@@ -579,19 +812,35 @@ export default function SalesPage() {
             <p className="text-surface-500 text-sm text-center py-4">No items in cart</p>
           ) : (
             <div className="space-y-1">
-              {cart.map((item) => (
-                <button
-                  key={item.product.id}
-                  onClick={() => handleCartItemClick(item)}
-                  className="w-full flex items-center justify-between p-2 hover:bg-surface-700/50 rounded transition-colors text-left"
-                >
-                  <span className="text-white text-sm">{item.product.name}</span>
-                  <div className="flex items-center gap-4">
-                    <span className="text-surface-400 text-sm">{item.quantity} pcs</span>
-                    <span className="text-primary-500 font-mono text-sm">₱{(item.quantity * item.product.selling_price).toFixed(2)}</span>
-                  </div>
-                </button>
-              ))}
+              {cart.map((item, index) => {
+                const line = taxedLines[index]
+                return (
+                  <button
+                    key={item.key}
+                    onClick={() => handleCartItemClick(item)}
+                    className="w-full flex items-center justify-between p-2 hover:bg-surface-700/50 rounded transition-colors text-left"
+                  >
+                    <div className="min-w-0">
+                      <span className="text-white text-sm">{item.product.name}</span>
+                      {(hasOptions(optionsOf(item.product.id)) || isBundle(optionsOf(item.product.id))) && (
+                        <span className="block text-xs text-surface-400 truncate">
+                          {describeSelection(optionsOf(item.product.id), item.selection, productNameOf)}
+                        </span>
+                      )}
+                      {line.discountAmount > 0 && (
+                        <span className="block text-xs text-green-400 truncate">{line.discountReason}</span>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-4">
+                      <span className="text-surface-400 text-sm">{item.quantity} pcs</span>
+                      {line.total < line.gross && (
+                        <span className="text-surface-500 font-mono text-xs line-through">₱{line.gross.toFixed(2)}</span>
+                      )}
+                      <span className="text-primary-500 font-mono text-sm">₱{line.total.toFixed(2)}</span>
+                    </div>
+                  </button>
+                )
+              })}
             </div>
           )}
         </div>
@@ -619,16 +868,16 @@ export default function SalesPage() {
             </div>
           </div>
 
-          {/* Payment Method */}
+          {/* Payment Method (each click adds a tender) */}
           <div>
-            <label className="block text-xs font-medium text-surface-400 mb-1">Payment Method</label>
+            <label className="block text-xs font-medium text-surface-400 mb-1">Add Payment</label>
             <div className="flex flex-wrap gap-1">
               {paymentMethods.map((pm) => (
                 <button
                   key={pm.id}
-                  onClick={() => setSelectedPaymentMethod(pm.name)}
+                  onClick={() => addTender(pm.name)}
                   className={`px-2 py-1 rounded text-xs font-medium transition-all ${
-                    selectedPaymentMethod === pm.name
+                    tenders.some(t => t.paymentMethod === pm.name)
                       ? 'ring-2 ring-white ring-offset-1 ring-offset-surface-900'
                       : 'opacity-70 hover:opacity-100'
                   }`}
@@ -668,22 +917,174 @@ export default function SalesPage() {
           </div>
         </div>
 
-        {/* Payment Row */}
-        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 items-end">
-          {/* Payment Input */}
-          <div>
-            <label className="block text-xs font-medium text-surface-400 mb-1">Payment</label>
-            <div className="relative">
-              <span className="absolute left-3 top-1/2 -translate-y-1/2 text-surface-500">₱</span>
+        {/* Senior/PWD ID or Discounts Row */}
+        {isStatutory ? (
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-4 items-end">
+            <div>
+              <label className="block text-xs font-medium text-surface-400 mb-1">{selectedCustomerType} ID Number</label>
+              <input
+                type="text"
+                value={statutoryIdNumber}
+                onChange={(e) => setStatutoryIdNumber(e.target.value)}
+                placeholder="OSCA / PWD ID no."
+                className="w-full px-3 py-1.5 bg-surface-800 border border-surface-700 rounded-lg text-white text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-surface-400 mb-1">Name on ID</label>
               <input
                 type="text"
-                inputMode="decimal"
-                value={customerPayment}
-                onChange={(e) => handlePaymentChange(e.target.value)}
-                placeholder="0.00"
-                className="w-full pl-7 pr-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono text-right"
+                value={statutoryIdName}
+                onChange={(e) => setStatutoryIdName(e.target.value)}
+                placeholder="Customer name"
+                className="w-full px-3 py-1.5 bg-surface-800 border border-surface-700 rounded-lg text-white text-sm"
               />
             </div>
+            <p className="text-xs text-surface-500">
+              VAT is removed and a {statutoryRate}% discount applied. Promotions and other discounts do not apply.
+            </p>
+          </div>
+        ) : (
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          <input
+            type="text"
+            value={promoCodeInput}
+            onChange={(e) => setPromoCodeInput(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleApplyPromoCode()}
+            placeholder="Promo code"
+            className="w-36 px-3 py-1.5 bg-surface-800 border border-surface-700 rounded-lg text-white text-sm uppercase placeholder:normal-case"
+          />
+          <button
+            onClick={handleApplyPromoCode}
+            disabled={!promoCodeInput.trim()}
+            className="px-3 py-1.5 bg-surface-700 hover:bg-surface-600 text-white text-sm rounded-lg transition-colors disabled:opacity-50"
+          >
+            Apply
+          </button>
+          {promoCodes.map((code) => (
+            <span key={code} className="flex items-center gap-1 px-2 py-1 bg-green-500/10 text-green-400 text-xs font-mono rounded">
+              {code}
+              <button
+                onClick={() => setPromoCodes(promoCodes.filter(c => c !== code))}
+                className="hover:text-white"
+                aria-label={`Remove ${code}`}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+          {canApplyDiscounts && (
+            <button
+              onClick={openOrderDiscount}
+              className="ml-auto px-3 py-1.5 text-sm text-primary-400 hover:text-primary-300 hover:bg-surface-800/50 rounded-lg transition-colors"
+            >
+              {orderDiscount
+                ? `Order discount: ${orderDiscount.type === 'percent' ? `${orderDiscount.value}%` : `₱${orderDiscount.value.toFixed(2)}`}`
+                : 'Add order discount'}
+            </button>
+          )}
+        </div>
+        )}
+
+        {/* Totals and VAT Breakdown */}
+        {cart.length > 0 && (
+          <div className="flex flex-wrap justify-end gap-x-6 gap-y-1 mb-3 text-sm">
+            {cartDiscount > 0 && (
+              <>
+                <span className="text-surface-400">
+                  Subtotal <span className="font-mono text-white">₱{pricedCart.subtotal.toFixed(2)}</span>
+                </span>
+                {vatTotals.vatExemption > 0 && (
+                  <span className="text-surface-400">
+                    Less VAT <span className="font-mono text-green-400">−₱{vatTotals.vatExemption.toFixed(2)}</span>
+                  </span>
+                )}
+                <span className="text-surface-400">
+                  Discount <span className="font-mono text-green-400">−₱{cartDiscount.toFixed(2)}</span>
+                </span>
+              </>
+            )}
+            <span className="text-surface-500">
+              {VAT_STATUS_LABELS.vatable} <span className="font-mono">₱{vatTotals.vatableSales.toFixed(2)}</span>
+            </span>
+            <span className="text-surface-500">
+              VAT ({vatRate}%) <span className="font-mono">₱{vatTotals.vatAmount.toFixed(2)}</span>
+            </span>
+            {vatTotals.vatExemptSales > 0 && (
+              <span className="text-surface-500">
+                {VAT_STATUS_LABELS.exempt} <span className="font-mono">₱{vatTotals.vatExemptSales.toFixed(2)}</span>
+              </span>
+            )}
+            {vatTotals.zeroRatedSales > 0 && (
+              <span className="text-surface-500">
+                {VAT_STATUS_LABELS.zero_rated} <span className="font-mono">₱{vatTotals.zeroRatedSales.toFixed(2)}</span>
+              </span>
+            )}
+          </div>
+        )}
+
+        {/* Tenders */}
+        {tenders.length > 0 && (
+          <div className="space-y-2 mb-3">
+            {tenders.map((tender, index) => {
+              const method = paymentMethods.find(pm => pm.name === tender.paymentMethod)
+              const isCash = isCashMethod(paymentMethods, tender.paymentMethod)
+              return (
+                <div key={index} className="flex flex-wrap sm:flex-nowrap items-center gap-2">
+                  <span
+                    className="w-20 shrink-0 px-2 py-1 rounded text-xs font-medium text-center text-white truncate"
+                    style={{ backgroundColor: method?.color || '#3b82f6' }}
+                  >
+                    {tender.paymentMethod}
+                  </span>
+                  <div className="relative w-32 shrink-0">
+                    <span className="absolute left-3 top-1/2 -translate-y-1/2 text-surface-500">₱</span>
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      value={tender.amount}
+                      onChange={(e) => handlePaymentChange(index, e.target.value)}
+                      placeholder="0.00"
+                      className="w-full pl-7 pr-3 py-1.5 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono text-right text-sm"
+                    />
+                  </div>
+                  {isCash ? (
+                    <span className="flex-1 text-xs text-surface-500">Cash · change comes from here</span>
+                  ) : (
+                    <input
+                      type="text"
+                      value={tender.referenceNumber}
+                      onChange={(e) => updateTender(index, { referenceNumber: e.target.value })}
+                      placeholder="Reference no. (optional)"
+                      className="flex-1 min-w-0 px-3 py-1.5 bg-surface-800 border border-surface-700 rounded-lg text-white text-sm"
+                    />
+                  )}
+                  <button
+                    onClick={() => removeTender(index)}
+                    className="p-1 text-surface-500 hover:text-red-400"
+                    title="Remove payment"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                </div>
+              )
+            })}
+            {tenderSummary.error && <p className="text-xs text-red-400">{tenderSummary.error}</p>}
+          </div>
+        )}
+
+        {/* Payment Row */}
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 items-end">
+          {/* Paid Display */}
+          <div>
+            <label className="block text-xs font-medium text-surface-400 mb-1">
+              Paid{tenderSummary.balance > 0 && tenders.length > 0 ? ` (₱${tenderSummary.balance.toFixed(2)} due)` : ''}
+            </label>
+            <div className="px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono text-right">
+              ₱{tenderSummary.paid.toFixed(2)}
+            </div>
           </div>
 
           {/* Total Display */}
@@ -698,9 +1099,9 @@ export default function SalesPage() {
           <div>
             <label className="block text-xs font-medium text-surface-400 mb-1">Change</label>
             <div className={`px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg font-mono font-bold text-right ${
-              changeAmount >= 0 ? 'text-green-500' : 'text-red-500'
+              tenderSummary.balance === 0 && !tenderSummary.error ? 'text-green-500' : 'text-red-500'
             }`}>
-              ₱{changeAmount.toFixed(2)}
+              ₱{(tenderSummary.balance > 0 ? -tenderSummary.balance : tenderSummary.change).toFixed(2)}
             </div>
       </div>
 
@@ -760,7 +1161,7 @@ export default function SalesPage() {
                 )}
               </div>
                   <h4 className={`font-medium text-xs truncate ${outOfStock ? 'text-surface-500' : 'text-white'}`}>{product.name}</h4>
-                  <p className={`font-bold text-sm ${outOfStock ? 'text-surface-600' : 'text-primary-500'}`}>₱{product.selling_price.toFixed(2)}</p>
+                  <p className={`font-bold text-sm ${outOfStock ? 'text-surface-600' : 'text-primary-500'}`}>₱{getUnitPrice(product, defaultSelection(optionsOf(product.id))).toFixed(2)}</p>
             </button>
               )
             })}
@@ -792,7 +1193,7 @@ export default function SalesPage() {
                 </div>
                 <div>
                   <h3 className="text-lg font-bold text-white">{currentProduct.name}</h3>
-                  <p className="text-primary-500 font-bold">₱{currentProduct.selling_price.toFixed(2)}</p>
+                  <p className="text-primary-500 font-bold">₱{getUnitPrice(currentProduct, modalSelection).toFixed(2)}</p>
                 </div>
               </div>
               <button onClick={closeModal} className="text-surface-400 hover:text-white p-1">
@@ -802,10 +1203,104 @@ export default function SalesPage() {
               </button>
             </div>
 
+            {/* Size */}
+            {currentOptions.variants.length > 0 && (
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-surface-300 mb-2">Size</label>
+                <div className="flex flex-wrap gap-2">
+                  {currentOptions.variants.map((variant) => (
+                    <button
+                      key={variant.id}
+                      onClick={() => setModalSelection({ ...modalSelection, variantId: variant.id })}
+                      className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                        modalSelection.variantId === variant.id
+                          ? 'bg-primary-500 text-white'
+                          : 'bg-surface-700 text-surface-300 hover:bg-surface-600'
+                      }`}
+                    >
+                      {variant.name}
+                      {Number(variant.price_delta) !== 0 && (
+                        <span className="ml-1 text-xs opacity-80">{formatPriceDelta(variant.price_delta)}</span>
+                      )}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Modifiers */}
+            {currentOptions.groups.map((group) => (
+              <div key={group.id} className="mb-4">
+                <div className="flex items-center justify-between mb-2">
+                  <label className="text-sm font-medium text-surface-300">{group.name}</label>
+                  <span className="text-xs text-surface-500">
+                    {group.min_select > 0 ? 'Required' : 'Optional'}
+                    {group.max_select > 1 && ` · up to ${group.max_select}`}
+                  </span>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {group.options.map((option) => (
+                    <button
+                      key={option.id}
+                      onClick={() => setModalSelection(toggleModifier(group, modalSelection, option.id))}
+                      className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                        modalSelection.modifierIds.includes(option.id)
+                          ? 'bg-primary-500 text-white'
+                          : 'bg-surface-700 text-surface-300 hover:bg-surface-600'
+                      }`}
+                    >
+                      {option.name}
+                      {Number(option.price_delta) !== 0 && (
+                        <span className="ml-1 text-xs opacity-80">{formatPriceDelta(option.price_delta)}</span>
+                      )}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+
+            {/* Bundle Items */}
+            {currentOptions.components.length > 0 && (
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-surface-300 mb-2">Includes</label>
+                <div className="space-y-2">
+                  {currentOptions.components.map((component) => {
+                    const chosen = modalSelection.substitutions[component.id] || component.product_id
+                    const label = (productId: string) =>
+                      `${component.qty > 1 ? `${component.qty}× ` : ''}${productNameOf(productId)}`
+                    if (component.substitutes.length === 0) {
+                      return (
+                        <p key={component.id} className="text-sm text-surface-400">{label(component.product_id)}</p>
+                      )
+                    }
+                    return (
+                      <div key={component.id} className="flex flex-wrap gap-2">
+                        {[{ product_id: component.product_id, price_delta: 0 }, ...component.substitutes].map((choice) => (
+                          <button
+                            key={choice.product_id}
+                            onClick={() => setModalSelection(substituteComponent(component, modalSelection, choice.product_id))}
+                            className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                              chosen === choice.product_id
+                                ? 'bg-primary-500 text-white'
+                                : 'bg-surface-700 text-surface-300 hover:bg-surface-600'
+                            }`}
+                          >
+                            {label(choice.product_id)}
+                            {Number(choice.price_delta) !== 0 && (
+                              <span className="ml-1 text-xs opacity-80">{formatPriceDelta(choice.price_delta)}</span>
+                            )}
+                          </button>
+                        ))}
+                      </div>
+                    )
+                  })}
+                </div>
+              </div>
+            )}
+
             {/* Quantity Controls */}
             {(() => {
-              const currentCartQty = editingCartItem ? editingCartItem.quantity : (cart.find(item => item.product.id === currentProduct.id)?.quantity || 0)
-              const maxAvailable = getMaxAvailableQuantity(currentProduct, false) + currentCartQty
+              const maxAvailable = getModalMaxQuantity(currentProduct)
               const currentQty = parseInt(modalQuantity) || 0
               
               return (
@@ -857,11 +1352,19 @@ export default function SalesPage() {
               )
             })()}
 
+            {/* Line Discount */}
+            {canApplyDiscounts && (
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-surface-300 mb-2">Line Discount</label>
+                <DiscountFields draft={modalDiscount} onChange={setModalDiscount} />
+              </div>
+            )}
+
             {/* Subtotal */}
             <div className="flex items-center justify-between mb-4 p-3 bg-surface-800/50 rounded-lg">
               <span className="text-surface-400">Subtotal</span>
               <span className="text-xl font-bold text-primary-500">
-                ₱{((parseInt(modalQuantity) || 0) * currentProduct.selling_price).toFixed(2)}
+                ₱{multiplyMoney(getUnitPrice(currentProduct, modalSelection), parseInt(modalQuantity) || 0).toFixed(2)}
               </span>
             </div>
 
@@ -884,8 +1387,8 @@ export default function SalesPage() {
                   </button>
                 </div>
 
-            {/* Owner Actions */}
-            {isOwner && !editingCartItem && (
+            {/* Recipe Actions */}
+            {canEditRecipes && !editingCartItem && (
               <div className="mt-3 pt-3 border-t border-surface-800 space-y-2">
                 <button
                   onClick={() => openEditIngredients(currentProduct)}
@@ -896,6 +1399,26 @@ export default function SalesPage() {
                   </svg>
                   Edit Ingredients
                 </button>
+                <button
+                  onClick={() => openEditOptions(currentProduct)}
+                  className="w-full py-2 text-primary-400 hover:text-primary-300 text-sm flex items-center justify-center gap-2 hover:bg-surface-800/50 rounded-lg transition-colors"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h7" />
+                  </svg>
+                  Sizes & Add-ons
+                </button>
+                {isBundle(currentOptions) && (
+                  <button
+                    onClick={() => openEditBundle(currentProduct)}
+                    className="w-full py-2 text-primary-400 hover:text-primary-300 text-sm flex items-center justify-center gap-2 hover:bg-surface-800/50 rounded-lg transition-colors"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4" />
+                    </svg>
+                    Bundle Items
+                  </button>
+                )}
                 <button
                   onClick={() => openDeleteConfirm(currentProduct)}
                   className="w-full py-2 text-red-400 hover:text-red-300 text-sm flex items-center justify-center gap-2 hover:bg-red-500/10 rounded-lg transition-colors"
@@ -911,6 +1434,44 @@ export default function SalesPage() {
         </div>
       )}
 
+      {/* Order Discount Modal */}
+      {showOrderDiscount && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="card p-6 max-w-sm w-full">
+            <h3 className="text-lg font-semibold text-white mb-1">Order Discount</h3>
+            <p className="text-surface-400 text-sm mb-4">
+              Applied after line discounts and replaces any automatic order promotion.
+            </p>
+            <DiscountFields draft={orderDiscountDraft} onChange={setOrderDiscountDraft} />
+            <div className="flex gap-3 mt-6">
+              {orderDiscount && (
+                <button
+                  onClick={() => {
+                    setOrderDiscount(null)
+                    setShowOrderDiscount(false)
+                  }}
+                  className="px-4 py-2 text-red-400 hover:text-red-300 hover:bg-red-500/10 rounded-lg transition-colors"
+                >
+                  Remove
+                </button>
+              )}
+              <button
+                onClick={() => setShowOrderDiscount(false)}
+                className="flex-1 px-4 py-2 text-surface-400 hover:text-white hover:bg-surface-800 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSaveOrderDiscount}
+                className="flex-1 px-4 py-2 bg-primary-500 hover:bg-primary-600 text-white font-medium rounded-lg transition-colors"
+              >
+                Apply
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Delete Confirmation Modal */}
       {showDeleteConfirm && deletingProduct && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
@@ -961,6 +1522,20 @@ export default function SalesPage() {
               </button>
             </div>
 
+            {/* VAT Treatment */}
+            <div className="mb-4">
+              <h4 className="text-sm font-medium text-surface-400 mb-2">VAT Treatment</h4>
+              <select
+                value={editVatStatus}
+                onChange={(e) => setEditVatStatus(e.target.value as VatStatus)}
+                className="w-full px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white text-sm"
+              >
+                {(Object.keys(VAT_STATUS_LABELS) as VatStatus[]).map((status) => (
+                  <option key={status} value={status}>{VAT_STATUS_LABELS[status]}</option>
+                ))}
+              </select>
+            </div>
+
             {/* Current Ingredients */}
             <div className="mb-4">
               <h4 className="text-sm font-medium text-surface-400 mb-2">Current Ingredients</h4>
@@ -971,7 +1546,7 @@ export default function SalesPage() {
                   {editIngredientsList.map((ing) => {
                     const item = inventoryItems.find(i => i.id === ing.item_id)
                     if (!item) return null
-                    const unitLabel = item.unit_type === 'weight' ? 'g' : item.unit_type === 'volume' ? 'ml' : 'pcs'
+                    const itemUnits = recipeUnitsOf(item.id)
                     return (
                       <div key={ing.item_id} className="flex items-center gap-3 p-3 bg-surface-800/50 rounded-lg">
                         <span className="flex-1 text-white text-sm">{item.name}</span>
@@ -988,7 +1563,19 @@ export default function SalesPage() {
                             onChange={(e) => updateIngredientQty(ing.item_id, parseFloat(e.target.value) || 0)}
                             className="w-16 px-2 py-1 bg-surface-800 border border-surface-700 rounded text-white text-center font-mono text-sm"
                           />
-                          <span className="text-surface-400 text-xs w-8">{unitLabel}</span>
+                          {itemUnits.length > 1 ? (
+                            <select
+                              value={ing.unit_key}
+                              onChange={(e) => updateIngredientUnit(ing.item_id, e.target.value)}
+                              className="w-20 px-1 py-1 bg-surface-800 border border-surface-700 rounded text-surface-300 text-xs"
+                            >
+                              {itemUnits.map((u) => (
+                                <option key={u.key} value={u.key}>{unitOptionText(u, item.unit_type)}</option>
+                              ))}
+                            </select>
+                          ) : (
+                            <span className="text-surface-400 text-xs w-8">{recipeUnitLabel(item.unit_type)}</span>
+                          )}
                           <button
                             onClick={() => updateIngredientQty(ing.item_id, ing.qty + 1)}
                             className="w-8 h-8 flex items-center justify-center bg-surface-700 hover:bg-surface-600 rounded text-white"
@@ -1051,6 +1638,39 @@ export default function SalesPage() {
           </div>
         </div>
       )}
+
+      {/* Sizes & Add-ons Modal */}
+      {editingOptionsProduct && (
+        <ProductOptionsEditor
+          product={editingOptionsProduct}
+          options={optionsOf(editingOptionsProduct.id)}
+          optionIngredients={optionIngredients}
+          inventoryItems={inventoryItems}
+          onClose={() => setEditingOptionsProduct(null)}
+          onSaved={() => {
+            setEditingOptionsProduct(null)
+            fetchData()
+          }}
+        />
+      )}
+
+      {/* Bundle Items Modal */}
+      {editingBundle && (
+        <BundleEditor
+          bundle={editingBundle}
+          components={optionsOf(editingBundle.id).components}
+          products={products}
+          bundleIds={products.filter(p => isBundle(optionsOf(p.id))).map(p => p.id)}
+          onClose={() => setEditingBundle(null)}
+          onSaved={() => {
+            setEditingBundle(null)
+            fetchData()
+          }}
+        />
+      )}
+
+      {/* Receipt Modal */}
+      {receipt && <ReceiptModal receipt={receipt} onClose={() => setReceipt(null)} />}
     </div>
   )
 }
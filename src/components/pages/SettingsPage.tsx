@@ -2,8 +2,21 @@
 
 import { useState, useEffect, useCallback } from 'react'
 import { supabase } from '@/lib/supabase'
-import { PaymentMethod, CustomerType } from '@/types/database'
+import { PaymentMethod, CustomerType, Setting, CostingMethod } from '@/types/database'
 import { useAuth } from '@/contexts/AuthContext'
+import UsersSection from '@/components/settings/UsersSection'
+import PermissionsSection from '@/components/settings/PermissionsSection'
+import PromotionsSection from '@/components/settings/PromotionsSection'
+import { DEFAULT_VAT_RATE, DEFAULT_STATUTORY_DISCOUNT_RATE } from '@/lib/tax'
+import { ReceiptHeader, PaperWidth, DEFAULT_RECEIPT_HEADER, fetchReceiptHeader } from '@/lib/receipt'
+import {
+  COSTING_METHOD_DESCRIPTIONS,
+  COSTING_METHOD_LABELS,
+  DEFAULT_COSTING_METHOD,
+  fetchCostingMethod,
+} from '@/lib/costing'
+import { DEFAULT_TARGET_FOOD_COST_PCT } from '@/lib/foodCost'
+import { getTerminalPrefix, setTerminalPrefix, previewTransactionNumber, TERMINAL_PREFIX_PATTERN } from '@/lib/terminal'
 import toast from 'react-hot-toast'
 
 const COLOR_OPTIONS = [
@@ -33,20 +46,62 @@ export default function SettingsPage() {
   const [loading, setLoading] = useState(true)
 
   // Form states
-  const [newPaymentMethod, setNewPaymentMethod] = useState({ name: '', color: '#3b82f6' })
-  const [newCustomerType, setNewCustomerType] = useState({ name: '', color: '#22c55e' })
+  const [newPaymentMethod, setNewPaymentMethod] = useState({ name: '', color: '#3b82f6', is_cash: false })
+  const [newCustomerType, setNewCustomerType] = useState({ name: '', color: '#22c55e', statutory_discount: false })
   const [isAddingPayment, setIsAddingPayment] = useState(false)
   const [isAddingCustomer, setIsAddingCustomer] = useState(false)
 
+  // Transaction number state
+  const [numberFormat, setNumberFormat] = useState('{YY}-{MM}-{SEQ}')
+  const [terminalPrefix, setTerminalPrefixInput] = useState('')
+  const [isSavingNumbering, setIsSavingNumbering] = useState(false)
+
+  // Tax state
+  const [vatRate, setVatRate] = useState(DEFAULT_VAT_RATE.toString())
+  const [statutoryRate, setStatutoryRate] = useState(DEFAULT_STATUTORY_DISCOUNT_RATE.toString())
+  const [isSavingTax, setIsSavingTax] = useState(false)
+
+  // Receipt state
+  const [receiptHeader, setReceiptHeader] = useState<ReceiptHeader>(DEFAULT_RECEIPT_HEADER)
+  const [isSavingReceipt, setIsSavingReceipt] = useState(false)
+
+  // Costing state
+  const [costingMethod, setCostingMethod] = useState<CostingMethod>(DEFAULT_COSTING_METHOD)
+  const [isSavingCosting, setIsSavingCosting] = useState(false)
+
+  // Food cost state
+  const [targetFoodCostPct, setTargetFoodCostPct] = useState(DEFAULT_TARGET_FOOD_COST_PCT.toString())
+  const [isSavingFoodCost, setIsSavingFoodCost] = useState(false)
+
+  // Expiry state
+  const [expiryWarningDays, setExpiryWarningDays] = useState('3')
+  const [isSavingExpiry, setIsSavingExpiry] = useState(false)
+
   const fetchData = useCallback(async () => {
     try {
-      const [paymentRes, customerRes] = await Promise.all([
+      const [paymentRes, customerRes, formatRes, taxRes, header, method] = await Promise.all([
         supabase.from('payment_methods').select('*').order('name'),
         supabase.from('customer_types').select('*').order('name'),
+        supabase.from('settings').select('*').eq('key', 'transaction_number_format').maybeSingle(),
+        supabase
+          .from('settings')
+          .select('*')
+          .in('key', ['vat_rate', 'statutory_discount_rate', 'expiry_warning_days', 'target_food_cost_pct']),
+        fetchReceiptHeader(),
+        fetchCostingMethod(),
       ])
 
       if (paymentRes.data) setPaymentMethods(paymentRes.data)
       if (customerRes.data) setCustomerTypes(customerRes.data)
+      if (formatRes.data) setNumberFormat((formatRes.data as Setting).value)
+      for (const setting of (taxRes.data || []) as Setting[]) {
+        if (setting.key === 'vat_rate') setVatRate(setting.value)
+        if (setting.key === 'statutory_discount_rate') setStatutoryRate(setting.value)
+        if (setting.key === 'expiry_warning_days') setExpiryWarningDays(setting.value)
+        if (setting.key === 'target_food_cost_pct') setTargetFoodCostPct(setting.value)
+      }
+      setReceiptHeader(header)
+      setCostingMethod(method)
     } catch (error) {
       console.error('Error fetching settings:', error)
       toast.error('Failed to load settings')
@@ -57,6 +112,7 @@ export default function SettingsPage() {
 
   useEffect(() => {
     fetchData()
+    setTerminalPrefixInput(getTerminalPrefix())
   }, [fetchData])
 
   const addPaymentMethod = async () => {
@@ -70,11 +126,12 @@ export default function SettingsPage() {
       const { error } = await (supabase as any).from('payment_methods').insert({
         name: newPaymentMethod.name.trim(),
         color: newPaymentMethod.color,
+        is_cash: newPaymentMethod.is_cash,
       })
 
       if (error) throw error
       toast.success('Payment method added')
-      setNewPaymentMethod({ name: '', color: '#3b82f6' })
+      setNewPaymentMethod({ name: '', color: '#3b82f6', is_cash: false })
       fetchData()
     } catch (error) {
       console.error('Error adding payment method:', error)
@@ -109,11 +166,12 @@ export default function SettingsPage() {
       const { error } = await (supabase as any).from('customer_types').insert({
         name: newCustomerType.name.trim(),
         color: newCustomerType.color,
+        statutory_discount: newCustomerType.statutory_discount,
       })
 
       if (error) throw error
       toast.success('Customer type added')
-      setNewCustomerType({ name: '', color: '#22c55e' })
+      setNewCustomerType({ name: '', color: '#22c55e', statutory_discount: false })
       fetchData()
     } catch (error) {
       console.error('Error adding customer type:', error)
@@ -137,6 +195,190 @@ export default function SettingsPage() {
     }
   }
 
+  const toggleCash = async (pm: PaymentMethod) => {
+    try {
+      const { error } = await (supabase as any)
+        .from('payment_methods')
+        .update({ is_cash: !pm.is_cash })
+        .eq('id', pm.id)
+
+      if (error) throw error
+      setPaymentMethods((prev) => prev.map((p) => (p.id === pm.id ? { ...p, is_cash: !pm.is_cash } : p)))
+    } catch (error) {
+      console.error('Error updating payment method:', error)
+      toast.error('Failed to update payment method')
+    }
+  }
+
+  const toggleStatutoryDiscount = async (ct: CustomerType) => {
+    try {
+      const { error } = await (supabase as any)
+        .from('customer_types')
+        .update({ statutory_discount: !ct.statutory_discount })
+        .eq('id', ct.id)
+
+      if (error) throw error
+      setCustomerTypes((prev) =>
+        prev.map((c) => (c.id === ct.id ? { ...c, statutory_discount: !ct.statutory_discount } : c))
+      )
+    } catch (error) {
+      console.error('Error updating customer type:', error)
+      toast.error('Failed to update customer type')
+    }
+  }
+
+  const saveTax = async () => {
+    const vat = parseFloat(vatRate)
+    const statutory = parseFloat(statutoryRate)
+    if (isNaN(vat) || vat < 0 || vat > 100 || isNaN(statutory) || statutory < 0 || statutory > 100) {
+      toast.error('Rates must be between 0 and 100')
+      return
+    }
+
+    setIsSavingTax(true)
+    try {
+      const { error } = await (supabase as any)
+        .from('settings')
+        .upsert(
+          [
+            { key: 'vat_rate', value: vat.toString() },
+            { key: 'statutory_discount_rate', value: statutory.toString() },
+          ],
+          { onConflict: 'key' }
+        )
+
+      if (error) throw error
+      toast.success('Tax settings saved')
+    } catch (error) {
+      console.error('Error saving tax settings:', error)
+      toast.error('Failed to save tax settings')
+    } finally {
+      setIsSavingTax(false)
+    }
+  }
+
+  const saveCosting = async () => {
+    setIsSavingCosting(true)
+    try {
+      const { error } = await (supabase as any)
+        .from('settings')
+        .upsert({ key: 'costing_method', value: costingMethod }, { onConflict: 'key' })
+
+      if (error) throw error
+      toast.success('Costing method saved')
+    } catch (error) {
+      console.error('Error saving costing method:', error)
+      toast.error('Failed to save costing method')
+    } finally {
+      setIsSavingCosting(false)
+    }
+  }
+
+  const saveFoodCost = async () => {
+    const pct = parseFloat(targetFoodCostPct)
+    if (isNaN(pct) || pct <= 0 || pct > 100) {
+      toast.error('Target food cost must be above 0% and at most 100%')
+      return
+    }
+
+    setIsSavingFoodCost(true)
+    try {
+      const { error } = await (supabase as any)
+        .from('settings')
+        .upsert({ key: 'target_food_cost_pct', value: pct.toString() }, { onConflict: 'key' })
+
+      if (error) throw error
+      toast.success('Food cost target saved')
+    } catch (error) {
+      console.error('Error saving food cost target:', error)
+      toast.error('Failed to save food cost target')
+    } finally {
+      setIsSavingFoodCost(false)
+    }
+  }
+
+  const saveExpiry = async () => {
+    const days = parseInt(expiryWarningDays)
+    if (isNaN(days) || days < 0 || days > 365) {
+      toast.error('Warning days must be between 0 and 365')
+      return
+    }
+
+    setIsSavingExpiry(true)
+    try {
+      const { error } = await (supabase as any)
+        .from('settings')
+        .upsert({ key: 'expiry_warning_days', value: days.toString() }, { onConflict: 'key' })
+
+      if (error) throw error
+      toast.success('Expiry settings saved')
+    } catch (error) {
+      console.error('Error saving expiry settings:', error)
+      toast.error('Failed to save expiry settings')
+    } finally {
+      setIsSavingExpiry(false)
+    }
+  }
+
+  const saveReceipt = async () => {
+    if (!receiptHeader.storeName.trim()) {
+      toast.error('Enter a store name')
+      return
+    }
+
+    setIsSavingReceipt(true)
+    try {
+      const { error } = await (supabase as any)
+        .from('settings')
+        .upsert(
+          [
+            { key: 'receipt_store_name', value: receiptHeader.storeName.trim() },
+            { key: 'receipt_address', value: receiptHeader.address.trim() },
+            { key: 'receipt_tin', value: receiptHeader.tin.trim() },
+            { key: 'receipt_footer', value: receiptHeader.footer.trim() },
+            { key: 'receipt_paper_width', value: receiptHeader.paperWidth },
+          ],
+          { onConflict: 'key' }
+        )
+
+      if (error) throw error
+      toast.success('Receipt settings saved')
+    } catch (error) {
+      console.error('Error saving receipt settings:', error)
+      toast.error('Failed to save receipt settings')
+    } finally {
+      setIsSavingReceipt(false)
+    }
+  }
+
+  const saveNumbering = async () => {
+    const formatValue = numberFormat.trim()
+    if (!formatValue.includes('{SEQ}')) {
+      toast.error('Format must contain {SEQ}')
+      return
+    }
+    if (!TERMINAL_PREFIX_PATTERN.test(terminalPrefix.trim())) {
+      toast.error('Prefix may only use letters, numbers, - and _ (max 12)')
+      return
+    }
+
+    setIsSavingNumbering(true)
+    try {
+      const { error } = await (supabase as any)
+        .from('settings')
+        .upsert({ key: 'transaction_number_format', value: formatValue }, { onConflict: 'key' })
+
+      if (error) throw error
+      setTerminalPrefix(terminalPrefix)
+      toast.success('Transaction numbering saved')
+    } catch (error) {
+      console.error('Error saving transaction numbering:', error)
+      toast.error('Failed to save transaction numbering')
+    } finally {
+      setIsSavingNumbering(false)
+    }
+  }
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -156,7 +398,7 @@ export default function SettingsPage() {
       <div className="card p-6 mb-6">
         <h3 className="text-lg font-semibold text-white mb-4">Payment Methods</h3>
         <p className="text-surface-400 text-sm mb-4">
-          Add payment methods like Cash, Card, E-Wallet, etc.
+          Add payment methods like Cash, Card, E-Wallet, etc. Change is only given from methods marked as cash.
         </p>
 
         {/* Existing Payment Methods */}
@@ -171,6 +413,15 @@ export default function SettingsPage() {
                 style={{ backgroundColor: pm.color }}
               >
                 <span className="text-white font-medium">{pm.name}</span>
+                <button
+                  onClick={() => toggleCash(pm)}
+                  title={pm.is_cash ? 'Cash: gives change' : 'Not cash: no change given'}
+                  className={`px-1.5 py-0.5 text-xs font-medium rounded transition-colors ${
+                    pm.is_cash ? 'bg-white/90 text-surface-900' : 'bg-black/20 text-white/60 hover:text-white'
+                  }`}
+                >
+                  Cash
+                </button>
                 <button
                   onClick={() => deletePaymentMethod(pm.id)}
                   className="text-white/50 hover:text-white opacity-0 group-hover:opacity-100 transition-opacity"
@@ -193,6 +444,15 @@ export default function SettingsPage() {
             placeholder="Payment method name"
             className="flex-1 px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
           />
+          <label className="flex items-center gap-2 text-sm text-surface-300 whitespace-nowrap">
+            <input
+              type="checkbox"
+              checked={newPaymentMethod.is_cash}
+              onChange={(e) => setNewPaymentMethod((prev) => ({ ...prev, is_cash: e.target.checked }))}
+              className="w-4 h-4 rounded border-surface-600 bg-surface-800 text-primary-500 focus:ring-primary-500"
+            />
+            Cash
+          </label>
           <div className="flex gap-2">
             <div className="relative">
               <input
@@ -239,7 +499,8 @@ export default function SettingsPage() {
       <div className="card p-6">
         <h3 className="text-lg font-semibold text-white mb-4">Customer Types</h3>
         <p className="text-surface-400 text-sm mb-4">
-          Add customer types like Student, Nurse, Driver, etc.
+          Add customer types like Student, Nurse, Driver, etc. Senior/PWD types remove VAT and apply the statutory
+          discount, and need the customer&apos;s ID at checkout.
         </p>
 
         {/* Existing Customer Types */}
@@ -254,6 +515,15 @@ export default function SettingsPage() {
                 style={{ backgroundColor: ct.color }}
               >
                 <span className="text-white font-medium">{ct.name}</span>
+                <button
+                  onClick={() => toggleStatutoryDiscount(ct)}
+                  title={ct.statutory_discount ? 'Senior/PWD discount on' : 'Senior/PWD discount off'}
+                  className={`px-1.5 py-0.5 text-xs font-medium rounded transition-colors ${
+                    ct.statutory_discount ? 'bg-white/90 text-surface-900' : 'bg-black/20 text-white/60 hover:text-white'
+                  }`}
+                >
+                  SC/PWD
+                </button>
                 <button
                   onClick={() => deleteCustomerType(ct.id)}
                   className="text-white/50 hover:text-white opacity-0 group-hover:opacity-100 transition-opacity"
@@ -276,6 +546,15 @@ export default function SettingsPage() {
             placeholder="Customer type name"
             className="flex-1 px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
           />
+          <label className="flex items-center gap-2 text-sm text-surface-300 whitespace-nowrap">
+            <input
+              type="checkbox"
+              checked={newCustomerType.statutory_discount}
+              onChange={(e) => setNewCustomerType((prev) => ({ ...prev, statutory_discount: e.target.checked }))}
+              className="w-4 h-4 rounded border-surface-600 bg-surface-800 text-primary-500 focus:ring-primary-500"
+            />
+            Senior/PWD discount
+          </label>
           <div className="flex gap-2">
             <div className="relative">
               <input
@@ -318,6 +597,264 @@ export default function SettingsPage() {
         </div>
       </div>
 
+      {/* Transaction Numbers */}
+      <div className="card p-6 mt-6">
+        <h3 className="text-lg font-semibold text-white mb-4">Transaction Numbers</h3>
+        <p className="text-surface-400 text-sm mb-4">
+          Use {'{PREFIX}'}, {'{YYYY}'}, {'{YY}'}, {'{MM}'} and {'{SEQ}'}. Each terminal prefix gets its own sequence
+          when {'{PREFIX}'} is in the format; sequences reset monthly when {'{MM}'} is used.
+        </p>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-3">
+          <div>
+            <label className="block text-xs font-medium text-surface-400 mb-1">Format (all terminals)</label>
+            <input
+              type="text"
+              value={numberFormat}
+              onChange={(e) => setNumberFormat(e.target.value)}
+              className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-surface-400 mb-1">Prefix (this terminal)</label>
+            <input
+              type="text"
+              value={terminalPrefix}
+              onChange={(e) => setTerminalPrefixInput(e.target.value.toUpperCase())}
+              placeholder="e.g. MKT1"
+              className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono"
+            />
+          </div>
+        </div>
+        <div className="flex items-center justify-between">
+          <p className="text-surface-500 text-sm">
+            Next number looks like:{' '}
+            <span className="text-white font-mono">{previewTransactionNumber(numberFormat, terminalPrefix.trim())}</span>
+          </p>
+          <button
+            onClick={saveNumbering}
+            disabled={isSavingNumbering}
+            className="px-4 py-2 bg-primary-500 hover:bg-primary-600 text-white font-medium rounded-lg transition-colors disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+
+      {/* Tax, users, permissions and promotions (owner only) */}
+      {user?.role === 'owner' && (
+        <>
+          {/* Tax */}
+          <div className="card p-6 mt-6">
+            <h3 className="text-lg font-semibold text-white mb-4">Tax</h3>
+            <p className="text-surface-400 text-sm mb-4">
+              Selling prices include VAT. Senior/PWD sales have the VAT removed, then the statutory discount taken off
+              the VAT-exclusive price.
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-3">
+              <div>
+                <label className="block text-xs font-medium text-surface-400 mb-1">VAT rate (%)</label>
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.01"
+                  value={vatRate}
+                  onChange={(e) => setVatRate(e.target.value)}
+                  className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-surface-400 mb-1">Senior/PWD discount (%)</label>
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.01"
+                  value={statutoryRate}
+                  onChange={(e) => setStatutoryRate(e.target.value)}
+                  className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono"
+                />
+              </div>
+            </div>
+            <div className="flex justify-end">
+              <button
+                onClick={saveTax}
+                disabled={isSavingTax}
+                className="px-4 py-2 bg-primary-500 hover:bg-primary-600 text-white font-medium rounded-lg transition-colors disabled:opacity-50"
+              >
+                Save
+              </button>
+            </div>
+          </div>
+          {/* Inventory costing */}
+          <div className="card p-6 mt-6">
+            <h3 className="text-lg font-semibold text-white mb-4">Inventory Costing</h3>
+            <p className="text-surface-400 text-sm mb-4">
+              Sets what ingredients cost when they are sold, used in production or wasted, and so the stock value and
+              the item expenses in Earnings. A change applies from the next stock movement of each item.
+            </p>
+            <div className="space-y-2 mb-3">
+              {(Object.keys(COSTING_METHOD_LABELS) as CostingMethod[]).map((method) => (
+                <label
+                  key={method}
+                  className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${
+                    costingMethod === method ? 'border-primary-500 bg-primary-500/10' : 'border-surface-700'
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name="costing_method"
+                    checked={costingMethod === method}
+                    onChange={() => setCostingMethod(method)}
+                    className="mt-1"
+                  />
+                  <div>
+                    <p className="text-white font-medium">{COSTING_METHOD_LABELS[method]}</p>
+                    <p className="text-surface-400 text-sm">{COSTING_METHOD_DESCRIPTIONS[method]}</p>
+                  </div>
+                </label>
+              ))}
+            </div>
+            <div className="flex justify-end">
+              <button
+                onClick={saveCosting}
+                disabled={isSavingCosting}
+                className="px-4 py-2 bg-primary-500 hover:bg-primary-600 text-white font-medium rounded-lg transition-colors disabled:opacity-50"
+              >
+                Save
+              </button>
+            </div>
+          </div>
+          {/* Food cost */}
+          <div className="card p-6 mt-6">
+            <h3 className="text-lg font-semibold text-white mb-4">Food Cost</h3>
+            <p className="text-surface-400 text-sm mb-4">
+              Products whose ingredients cost more than this share of their price before VAT are flagged in Recipe
+              Costing on the Inventory page and in the notification bar.
+            </p>
+            <div className="flex items-end gap-3">
+              <div className="flex-1">
+                <label className="block text-xs font-medium text-surface-400 mb-1">Target food cost (%)</label>
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.1"
+                  value={targetFoodCostPct}
+                  onChange={(e) => setTargetFoodCostPct(e.target.value)}
+                  className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono"
+                />
+              </div>
+              <button
+                onClick={saveFoodCost}
+                disabled={isSavingFoodCost}
+                className="px-4 py-2 bg-primary-500 hover:bg-primary-600 text-white font-medium rounded-lg transition-colors disabled:opacity-50"
+              >
+                Save
+              </button>
+            </div>
+          </div>
+          {/* Expiry */}
+          <div className="card p-6 mt-6">
+            <h3 className="text-lg font-semibold text-white mb-4">Expiry</h3>
+            <p className="text-surface-400 text-sm mb-4">
+              Lots expiring within this many days are listed on the Inventory page and in the notification bar. Lots
+              past their expiry date are written off as waste automatically.
+            </p>
+            <div className="flex items-end gap-3">
+              <div className="flex-1">
+                <label className="block text-xs font-medium text-surface-400 mb-1">Warn days before expiry</label>
+                <input
+                  type="number"
+                  min="0"
+                  max="365"
+                  step="1"
+                  value={expiryWarningDays}
+                  onChange={(e) => setExpiryWarningDays(e.target.value)}
+                  className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono"
+                />
+              </div>
+              <button
+                onClick={saveExpiry}
+                disabled={isSavingExpiry}
+                className="px-4 py-2 bg-primary-500 hover:bg-primary-600 text-white font-medium rounded-lg transition-colors disabled:opacity-50"
+              >
+                Save
+              </button>
+            </div>
+          </div>
+          {/* Receipt */}
+          <div className="card p-6 mt-6">
+            <h3 className="text-lg font-semibold text-white mb-4">Receipt</h3>
+            <p className="text-surface-400 text-sm mb-4">
+              Printed at the top and bottom of every receipt. The paper width sets the line length for thermal printers.
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-3">
+              <div>
+                <label className="block text-xs font-medium text-surface-400 mb-1">Store name</label>
+                <input
+                  type="text"
+                  value={receiptHeader.storeName}
+                  onChange={(e) => setReceiptHeader({ ...receiptHeader, storeName: e.target.value })}
+                  className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-surface-400 mb-1">TIN</label>
+                <input
+                  type="text"
+                  value={receiptHeader.tin}
+                  onChange={(e) => setReceiptHeader({ ...receiptHeader, tin: e.target.value })}
+                  placeholder="000-000-000-00000"
+                  className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono"
+                />
+              </div>
+              <div className="sm:col-span-2">
+                <label className="block text-xs font-medium text-surface-400 mb-1">Address</label>
+                <input
+                  type="text"
+                  value={receiptHeader.address}
+                  onChange={(e) => setReceiptHeader({ ...receiptHeader, address: e.target.value })}
+                  className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-surface-400 mb-1">Footer</label>
+                <input
+                  type="text"
+                  value={receiptHeader.footer}
+                  onChange={(e) => setReceiptHeader({ ...receiptHeader, footer: e.target.value })}
+                  className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-surface-400 mb-1">Paper width</label>
+                <select
+                  value={receiptHeader.paperWidth}
+                  onChange={(e) => setReceiptHeader({ ...receiptHeader, paperWidth: e.target.value as PaperWidth })}
+                  className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+                >
+                  <option value="58">58mm</option>
+                  <option value="80">80mm</option>
+                </select>
+              </div>
+            </div>
+            <div className="flex justify-end">
+              <button
+                onClick={saveReceipt}
+                disabled={isSavingReceipt}
+                className="px-4 py-2 bg-primary-500 hover:bg-primary-600 text-white font-medium rounded-lg transition-colors disabled:opacity-50"
+              >
+                Save
+              </button>
+            </div>
+          </div>
+          <UsersSection />
+          <PermissionsSection />
+          <PromotionsSection />
+        </>
+      )}
+
       {/* Account Section */}
       <div className="card p-6 mt-6">
         <h3 className="text-lg font-semibold text-white mb-4">Account</h3>
@@ -330,7 +867,10 @@ export default function SettingsPage() {
             </div>
             <div>
               <p className="text-white font-medium">{user?.username}</p>
-              <p className="text-surface-400 text-sm capitalize">{user?.role}</p>
+              <p className="text-surface-400 text-sm">
+                <span className="capitalize">{user?.role}</span>
+                {user?.email && <> · {user.email}</>}
+              </p>
             </div>
           </div>
           <button
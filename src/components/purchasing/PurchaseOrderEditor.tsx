@@ -0,0 +1,308 @@
+'use client'
+
+import { useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { Product, PurchaseOrder, PurchaseOrderLine, Supplier, UnitOfMeasure } from '@/types/database'
+import {
+  convertQuantity,
+  findUnitOption,
+  storageFactor,
+  storageUnitCost,
+  unitOptions,
+  unitOptionText,
+} from '@/lib/units'
+import { multiplyMoney, roundPurchaseCost, roundQuantity, sumMoney } from '@/lib/money'
+import toast from 'react-hot-toast'
+
+// qty and unit_cost are in the line's chosen unit
+interface LineDraft {
+  item_id: string
+  unit_key: string
+  qty: string
+  unit_cost: string
+}
+
+// Create or edit a draft purchase order. Lines are stored as quantities in
+// storage units (kg/L/pcs) with the agreed price per storage unit, but can be
+// entered in any purchase unit of the item (a case of 24, a 5kg sack); the
+// last cost of each item is suggested when it is added. A new order can start
+// from suggested lines (e.g. the restock list).
+export default function PurchaseOrderEditor({
+  order,
+  lines,
+  suppliers,
+  items,
+  units,
+  defaultSupplierId,
+  onClose,
+  onSaved,
+}: {
+  order: PurchaseOrder | null
+  lines: (Pick<PurchaseOrderLine, 'item_id' | 'qty_ordered' | 'unit_cost'> & { unit_id?: string | null })[]
+  suppliers: Supplier[]
+  items: Product[]
+  units: UnitOfMeasure[]
+  defaultSupplierId?: string
+  onClose: () => void
+  onSaved: () => void
+}) {
+  const [supplierId, setSupplierId] = useState(order?.supplier_id || defaultSupplierId || '')
+  const [expectedDate, setExpectedDate] = useState(order?.expected_date || '')
+  const [notes, setNotes] = useState(order?.notes || '')
+  const itemOf = (id: string) => items.find((i) => i.id === id)
+  const optionsOf = (itemId: string) => unitOptions(itemOf(itemId), units, 'purchase')
+
+  // Saved lines are shown in the unit they were ordered in
+  const [drafts, setDrafts] = useState<LineDraft[]>(() =>
+    lines.map((l) => {
+      const item = itemOf(l.item_id)
+      const option = findUnitOption(optionsOf(l.item_id), l.unit_id)
+      const factor = item ? storageFactor(item.unit_type) : 1
+      return {
+        item_id: l.item_id,
+        unit_key: option?.key || '',
+        qty: option ? roundQuantity(convertQuantity(Number(l.qty_ordered), factor, option.factor)).toString() : l.qty_ordered.toString(),
+        unit_cost: option
+          ? roundPurchaseCost(convertQuantity(Number(l.unit_cost), option.factor, factor)).toString()
+          : l.unit_cost.toString(),
+      }
+    })
+  )
+  const [isSaving, setIsSaving] = useState(false)
+
+  const total = sumMoney(drafts.map((d) => multiplyMoney(parseFloat(d.unit_cost) || 0, parseFloat(d.qty) || 0)))
+
+  const updateDraft = (itemId: string, changes: Partial<LineDraft>) =>
+    setDrafts(drafts.map((d) => (d.item_id === itemId ? { ...d, ...changes } : d)))
+
+  const addItem = (itemId: string) => {
+    const item = itemOf(itemId)
+    if (!item) return
+    const lastCost = storageUnitCost(item.cost, item.unit_type)
+    setDrafts([
+      ...drafts,
+      { item_id: itemId, unit_key: optionsOf(itemId)[0].key, qty: '', unit_cost: lastCost > 0 ? roundPurchaseCost(lastCost).toString() : '' },
+    ])
+  }
+
+  // Switching a line's unit keeps the quantity typed and reprices it per the new unit
+  const changeUnit = (draft: LineDraft, unitKey: string) => {
+    const options = optionsOf(draft.item_id)
+    const from = options.find((o) => o.key === draft.unit_key)
+    const to = options.find((o) => o.key === unitKey)
+    if (!from || !to) return
+    const cost = parseFloat(draft.unit_cost)
+    updateDraft(draft.item_id, {
+      unit_key: unitKey,
+      unit_cost: cost > 0 ? roundPurchaseCost(convertQuantity(cost, to.factor, from.factor)).toString() : draft.unit_cost,
+    })
+  }
+
+  const handleSave = async () => {
+    if (!supplierId) {
+      toast.error('Choose a supplier')
+      return
+    }
+    if (drafts.length === 0) {
+      toast.error('Add at least one item')
+      return
+    }
+    if (drafts.some((d) => !(parseFloat(d.qty) > 0))) {
+      toast.error('Enter a quantity for every item')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const { error } = await (supabase as any).rpc('save_purchase_order', {
+        p_order_id: order?.id || null,
+        p_order: { supplier_id: supplierId, expected_date: expectedDate || null, notes: notes.trim() || null },
+        p_lines: drafts.map((d) => {
+          const item = itemOf(d.item_id)
+          const option = optionsOf(d.item_id).find((o) => o.key === d.unit_key)
+          const factor = item ? storageFactor(item.unit_type) : 1
+          const perStorageUnit = option ? option.factor / factor : 1
+          return {
+            item_id: d.item_id,
+            qty_ordered: roundQuantity(parseFloat(d.qty) * perStorageUnit),
+            unit_cost: roundPurchaseCost((parseFloat(d.unit_cost) || 0) / perStorageUnit),
+            unit_id: option?.unitId || null,
+          }
+        }),
+      })
+      if (error) throw error
+
+      toast.success(order ? 'Purchase order updated' : 'Purchase order created')
+      onSaved()
+    } catch (error: any) {
+      console.error('Error saving purchase order:', error)
+      toast.error(error?.code === '42501' || error?.code === 'P0001' ? error.message : 'Failed to save purchase order')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="card p-6 max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-bold text-white">
+            {order ? `Edit ${order.po_number}` : 'New Purchase Order'}
+          </h2>
+          <button onClick={onClose} className="text-surface-400 hover:text-white">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-surface-300 mb-2">Supplier</label>
+              <select
+                value={supplierId}
+                onChange={(e) => setSupplierId(e.target.value)}
+                className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+              >
+                <option value="">Choose a supplier…</option>
+                {suppliers
+                  .filter((s) => s.is_active || s.id === supplierId)
+                  .map((s) => (
+                    <option key={s.id} value={s.id}>
+                      {s.name}
+                    </option>
+                  ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-surface-300 mb-2">Expected Delivery</label>
+              <input
+                type="date"
+                value={expectedDate}
+                onChange={(e) => setExpectedDate(e.target.value)}
+                className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+              />
+            </div>
+          </div>
+
+          {/* Lines */}
+          <div>
+            <label className="block text-sm font-medium text-surface-300 mb-2">Items</label>
+            {drafts.length === 0 ? (
+              <p className="text-surface-500 text-sm p-3 bg-surface-800/50 rounded-lg">No items</p>
+            ) : (
+              <div className="space-y-2">
+                {drafts.map((draft) => {
+                  const item = itemOf(draft.item_id)
+                  const options = optionsOf(draft.item_id)
+                  const unit = options.find((o) => o.key === draft.unit_key)?.label || ''
+                  return (
+                    <div key={draft.item_id} className="flex items-center gap-2 p-2 bg-surface-800/50 rounded-lg">
+                      <span className="text-white text-sm truncate flex-1">{item?.name || 'Unknown item'}</span>
+                      <input
+                        type="text"
+                        inputMode="decimal"
+                        value={draft.qty}
+                        onChange={(e) =>
+                          /^\d*\.?\d{0,4}$/.test(e.target.value) && updateDraft(draft.item_id, { qty: e.target.value })
+                        }
+                        placeholder="Qty"
+                        className="w-20 px-2 py-1 bg-surface-800 border border-surface-700 rounded text-white text-center font-mono text-sm"
+                      />
+                      {options.length > 1 ? (
+                        <select
+                          value={draft.unit_key}
+                          onChange={(e) => changeUnit(draft, e.target.value)}
+                          className="w-24 px-1 py-1 bg-surface-800 border border-surface-700 rounded text-surface-300 text-xs"
+                        >
+                          {options.map((o) => (
+                            <option key={o.key} value={o.key}>
+                              {item ? unitOptionText(o, item.unit_type) : o.label}
+                            </option>
+                          ))}
+                        </select>
+                      ) : (
+                        <span className="text-surface-400 text-xs w-8">{unit}</span>
+                      )}
+                      <span className="text-surface-500 text-xs">× ₱</span>
+                      <input
+                        type="text"
+                        inputMode="decimal"
+                        value={draft.unit_cost}
+                        onChange={(e) =>
+                          /^\d*\.?\d{0,4}$/.test(e.target.value) &&
+                          updateDraft(draft.item_id, { unit_cost: e.target.value })
+                        }
+                        placeholder="0.00"
+                        className="w-24 px-2 py-1 bg-surface-800 border border-surface-700 rounded text-white text-right font-mono text-sm"
+                      />
+                      <span className="text-surface-400 text-xs w-16 truncate">/{unit}</span>
+                      <button
+                        onClick={() => setDrafts(drafts.filter((d) => d.item_id !== draft.item_id))}
+                        className="p-1 text-surface-500 hover:text-red-400"
+                        title="Remove item"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                      </button>
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+            <select
+              value=""
+              onChange={(e) => e.target.value && addItem(e.target.value)}
+              className="w-full mt-2 px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-surface-400 text-sm"
+            >
+              <option value="">+ Add item…</option>
+              {items
+                .filter((i) => !i.is_prep && !drafts.some((d) => d.item_id === i.id))
+                .map((i) => (
+                  <option key={i.id} value={i.id}>
+                    {i.name}
+                  </option>
+                ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-surface-300 mb-2">Notes</label>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+              className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white text-sm"
+              placeholder="Optional"
+            />
+          </div>
+
+          <div className="flex justify-between p-3 bg-surface-800/50 rounded-lg">
+            <span className="text-surface-400">Order total:</span>
+            <span className="text-primary-500 font-mono font-bold">
+              ₱{total.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+            </span>
+          </div>
+
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              className="flex-1 py-3 px-4 bg-surface-700 hover:bg-surface-600 text-white font-medium rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="flex-1 py-3 px-4 bg-gradient-to-r from-primary-500 to-primary-600 hover:from-primary-600 hover:to-primary-700 text-white font-semibold rounded-lg transition-all disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : order ? 'Save Changes' : 'Create Draft'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,265 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { GoodsReceipt, Product, PurchaseOrder, PurchaseOrderLine, ReceiveResult } from '@/types/database'
+import { storageUnitLabel } from '@/lib/units'
+import toast from 'react-hot-toast'
+
+interface ReceiptDraft {
+  qty: string
+  unit_cost: string
+  lot_code: string
+  expiry_date: string
+}
+
+// Receive a delivery against a purchase order: what arrived of each line, at
+// what price and with which lot and expiry date. Quantities default to what is
+// still outstanding.
+export default function ReceiveOrderModal({
+  order,
+  lines,
+  items,
+  supplierName,
+  onClose,
+  onReceived,
+}: {
+  order: PurchaseOrder
+  lines: PurchaseOrderLine[]
+  items: Product[]
+  supplierName: string
+  onClose: () => void
+  onReceived: () => void
+}) {
+  const [drafts, setDrafts] = useState<Record<string, ReceiptDraft>>(() =>
+    Object.fromEntries(
+      lines.map((l) => [
+        l.id,
+        {
+          qty: Math.max(0, l.qty_ordered - l.qty_received).toString(),
+          unit_cost: l.unit_cost.toString(),
+          lot_code: '',
+          expiry_date: '',
+        },
+      ])
+    )
+  )
+  const [notes, setNotes] = useState('')
+  const [closeOrder, setCloseOrder] = useState(false)
+  const [receipts, setReceipts] = useState<GoodsReceipt[]>([])
+  const [isReceiving, setIsReceiving] = useState(false)
+
+  useEffect(() => {
+    const fetchReceipts = async () => {
+      const { data } = await supabase
+        .from('goods_receipts')
+        .select('*')
+        .eq('purchase_order_id', order.id)
+        .order('created_at')
+      setReceipts(data || [])
+    }
+
+    fetchReceipts()
+  }, [order.id])
+
+  const itemOf = (id: string) => items.find((i) => i.id === id)
+  const updateDraft = (lineId: string, changes: Partial<ReceiptDraft>) =>
+    setDrafts({ ...drafts, [lineId]: { ...drafts[lineId], ...changes } })
+
+  const receivedValue = lines.reduce(
+    (sum, l) => sum + (parseFloat(drafts[l.id]?.qty) || 0) * (parseFloat(drafts[l.id]?.unit_cost) || 0),
+    0
+  )
+  const leavesShort = lines.some((l) => l.qty_received + (parseFloat(drafts[l.id]?.qty) || 0) < l.qty_ordered)
+
+  const handleReceive = async () => {
+    const receiptLines = lines
+      .map((l) => ({
+        line_id: l.id,
+        qty: parseFloat(drafts[l.id]?.qty) || 0,
+        unit_cost: parseFloat(drafts[l.id]?.unit_cost) || 0,
+        lot_code: drafts[l.id]?.lot_code.trim() || null,
+        expiry_date: drafts[l.id]?.expiry_date || null,
+      }))
+      .filter((l) => l.qty > 0)
+
+    if (receiptLines.length === 0 && !closeOrder) {
+      toast.error('Enter the quantities received')
+      return
+    }
+
+    setIsReceiving(true)
+    try {
+      const { data, error } = await (supabase as any).rpc('receive_purchase_order', {
+        p_order_id: order.id,
+        p_lines: receiptLines,
+        p_notes: notes.trim() || null,
+        p_close: closeOrder,
+      })
+
+      if (error) throw error
+
+      const result = data as ReceiveResult
+      toast.success(
+        result.status === 'received'
+          ? `${result.po_number} received in full`
+          : `Delivery recorded; ${result.po_number} still has items outstanding`
+      )
+      onReceived()
+    } catch (error: any) {
+      console.error('Error receiving purchase order:', error)
+      toast.error(error?.message || 'Failed to receive delivery')
+    } finally {
+      setIsReceiving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="card p-6 max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-xl font-bold text-white">Receive {order.po_number}</h2>
+          <button onClick={onClose} className="text-surface-400 hover:text-white">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+        <p className="text-surface-400 text-sm mb-4">
+          {supplierName}
+          {receipts.length > 0 &&
+            ` · ${receipts.length} earlier deliver${receipts.length === 1 ? 'y' : 'ies'} (last ${new Date(
+              receipts[receipts.length - 1].created_at
+            ).toLocaleDateString()})`}
+        </p>
+
+        <table className="w-full text-sm mb-4">
+          <thead>
+            <tr className="text-left text-surface-400 border-b border-surface-800">
+              <th className="py-2 pr-2 font-medium">Item</th>
+              <th className="py-2 pr-2 font-medium text-right">Ordered</th>
+              <th className="py-2 pr-2 font-medium text-right">Received</th>
+              <th className="py-2 pr-2 font-medium text-right">This Delivery</th>
+              <th className="py-2 font-medium text-right">Unit Cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {lines.map((line) => {
+              const item = itemOf(line.item_id)
+              const unit = storageUnitLabel(item?.unit_type)
+              const draft = drafts[line.id]
+              return (
+                <tr key={line.id} className="border-b border-surface-800/50 align-top">
+                  <td className="py-2 pr-2 text-white">
+                    {item?.name || 'Unknown item'}
+                    <div className="flex gap-1 mt-1">
+                      <input
+                        type="text"
+                        value={draft.lot_code}
+                        onChange={(e) => updateDraft(line.id, { lot_code: e.target.value })}
+                        placeholder="Lot"
+                        className="w-16 px-2 py-0.5 bg-surface-800 border border-surface-700 rounded text-white text-xs"
+                      />
+                      <input
+                        type="date"
+                        value={draft.expiry_date}
+                        onChange={(e) => updateDraft(line.id, { expiry_date: e.target.value })}
+                        title={
+                          item?.shelf_life_days
+                            ? `Expiry date; ${item.shelf_life_days} days from today when left empty`
+                            : 'Expiry date'
+                        }
+                        className="px-2 py-0.5 bg-surface-800 border border-surface-700 rounded text-white text-xs"
+                      />
+                    </div>
+                  </td>
+                  <td className="py-2 pr-2 text-right font-mono text-surface-300">
+                    {Number(line.qty_ordered).toLocaleString()} {unit}
+                  </td>
+                  <td
+                    className={`py-2 pr-2 text-right font-mono ${
+                      line.qty_received >= line.qty_ordered ? 'text-green-400' : 'text-surface-300'
+                    }`}
+                  >
+                    {Number(line.qty_received).toLocaleString()} {unit}
+                  </td>
+                  <td className="py-2 pr-2 text-right">
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      value={draft.qty}
+                      onChange={(e) =>
+                        /^\d*\.?\d{0,2}$/.test(e.target.value) && updateDraft(line.id, { qty: e.target.value })
+                      }
+                      className="w-20 px-2 py-1 bg-surface-800 border border-surface-700 rounded text-white text-center font-mono"
+                    />
+                  </td>
+                  <td className="py-2 text-right whitespace-nowrap">
+                    <span className="text-surface-500 text-xs mr-1">₱</span>
+                    <input
+                      type="text"
+                      inputMode="decimal"
+                      value={draft.unit_cost}
+                      onChange={(e) =>
+                        /^\d*\.?\d{0,2}$/.test(e.target.value) && updateDraft(line.id, { unit_cost: e.target.value })
+                      }
+                      className={`w-20 px-2 py-1 bg-surface-800 border rounded text-white text-right font-mono ${
+                        parseFloat(draft.unit_cost) !== Number(line.unit_cost) ? 'border-yellow-500/50' : 'border-surface-700'
+                      }`}
+                    />
+                    <span className="text-surface-500 text-xs ml-1">/{unit}</span>
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+
+        <div className="space-y-3">
+          <input
+            type="text"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Delivery notes, invoice number (optional)"
+            className="w-full px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white text-sm"
+          />
+
+          {leavesShort && (
+            <label className="flex items-center gap-2 text-sm text-surface-300">
+              <input
+                type="checkbox"
+                checked={closeOrder}
+                onChange={(e) => setCloseOrder(e.target.checked)}
+                className="rounded"
+              />
+              Close the order; the rest will not be delivered
+            </label>
+          )}
+
+          <div className="flex justify-between p-3 bg-surface-800/50 rounded-lg">
+            <span className="text-surface-400">This delivery:</span>
+            <span className="text-primary-500 font-mono font-bold">
+              ₱{receivedValue.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+            </span>
+          </div>
+
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              className="flex-1 py-3 px-4 bg-surface-700 hover:bg-surface-600 text-white font-medium rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleReceive}
+              disabled={isReceiving}
+              className="flex-1 py-3 px-4 bg-gradient-to-r from-primary-500 to-primary-600 hover:from-primary-600 hover:to-primary-700 text-white font-semibold rounded-lg transition-all disabled:opacity-50"
+            >
+              {isReceiving ? 'Receiving...' : 'Receive into Stock'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
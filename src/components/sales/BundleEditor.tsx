@@ -0,0 +1,323 @@
+'use client'
+
+import { useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { VatStatus } from '@/types/database'
+import { BundleComponentWithSubstitutes } from '@/lib/modifiers'
+import { VAT_STATUS_LABELS } from '@/lib/tax'
+import toast from 'react-hot-toast'
+
+interface ProductChoice {
+  id: string
+  name: string
+  selling_price: number
+}
+
+interface SubstituteDraft {
+  product_id: string
+  price_delta: string
+}
+
+interface ComponentDraft {
+  id?: string
+  product_id: string
+  qty: string
+  substitutes: SubstituteDraft[]
+}
+
+const inputClass = 'px-3 py-1.5 bg-surface-800 border border-surface-700 rounded-lg text-white text-sm'
+
+// Creates a bundle (bundle = null) or edits the components of one: finished
+// products sold together at the bundle price, each with the products the till
+// may swap in for it
+export default function BundleEditor({
+  bundle,
+  components,
+  products,
+  bundleIds,
+  onClose,
+  onSaved,
+}: {
+  bundle: { id: string; name: string; selling_price: number } | null
+  components: BundleComponentWithSubstitutes[]
+  products: ProductChoice[]
+  bundleIds: string[]
+  onClose: () => void
+  onSaved: () => void
+}) {
+  const [name, setName] = useState('')
+  const [sellingPrice, setSellingPrice] = useState('')
+  const [vatStatus, setVatStatus] = useState<VatStatus>('vatable')
+  const [drafts, setDrafts] = useState<ComponentDraft[]>(() =>
+    components.map((c) => ({
+      id: c.id,
+      product_id: c.product_id,
+      qty: c.qty.toString(),
+      substitutes: c.substitutes.map((s) => ({
+        product_id: s.product_id,
+        price_delta: Number(s.price_delta) ? s.price_delta.toString() : '',
+      })),
+    }))
+  )
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Bundles cannot contain bundles
+  const choices = products.filter((p) => p.id !== bundle?.id && !bundleIds.includes(p.id))
+  const productName = (id: string) => products.find((p) => p.id === id)?.name || 'Unknown product'
+  const bundlePrice = bundle ? Number(bundle.selling_price) : parseFloat(sellingPrice) || 0
+  const separatePrice = drafts.reduce(
+    (sum, d) => sum + (Number(products.find((p) => p.id === d.product_id)?.selling_price) || 0) * (parseInt(d.qty) || 0),
+    0
+  )
+
+  const updateDraft = (index: number, changes: Partial<ComponentDraft>) =>
+    setDrafts(drafts.map((d, i) => (i === index ? { ...d, ...changes } : d)))
+
+  const updateSubstitute = (index: number, subIndex: number, changes: Partial<SubstituteDraft>) =>
+    updateDraft(index, {
+      substitutes: drafts[index].substitutes.map((s, i) => (i === subIndex ? { ...s, ...changes } : s)),
+    })
+
+  const validate = (): string | null => {
+    if (!bundle && !name.trim()) return 'Please enter a bundle name'
+    if (!bundle && bundlePrice <= 0) return 'Please enter a valid bundle price'
+    if (drafts.length === 0) return 'Add at least one product to the bundle'
+    for (const draft of drafts) {
+      if (!draft.product_id) return 'Choose a product for every bundle item'
+      if (!(parseInt(draft.qty) >= 1)) return `Enter a quantity for ${productName(draft.product_id)}`
+      const subIds = draft.substitutes.map((s) => s.product_id)
+      if (subIds.some((id) => !id)) return `Choose a product for every substitute of ${productName(draft.product_id)}`
+      if (subIds.includes(draft.product_id) || new Set(subIds).size !== subIds.length) {
+        return `Substitutes of ${productName(draft.product_id)} must be different products`
+      }
+    }
+    return null
+  }
+
+  const handleSave = async () => {
+    const error = validate()
+    if (error) {
+      toast.error(error)
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      // Saved in one transaction by save_bundle, so a failure leaves nothing half-built
+      const { error } = await (supabase as any).rpc('save_bundle', {
+        p_bundle_id: bundle?.id || null,
+        p_bundle: bundle ? null : { name: name.trim(), selling_price: bundlePrice, vat_status: vatStatus },
+        p_components: drafts.map((draft) => ({
+          id: draft.id || null,
+          product_id: draft.product_id,
+          qty: parseInt(draft.qty),
+          substitutes: draft.substitutes.map((s) => ({
+            product_id: s.product_id,
+            price_delta: parseFloat(s.price_delta) || 0,
+          })),
+        })),
+      })
+      if (error) throw error
+
+      toast.success(bundle ? 'Bundle saved' : 'Bundle created!')
+      onSaved()
+    } catch (error: any) {
+      console.error('Error saving bundle:', error)
+      toast.error(error?.code === '42501' || error?.code === 'P0001' ? error.message : 'Failed to save bundle')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="card p-6 max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-lg font-semibold text-white">{bundle ? `Bundle Items: ${bundle.name}` : 'New Bundle'}</h3>
+          <button onClick={onClose} className="text-surface-400 hover:text-white p-1">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+        <p className="text-surface-400 text-sm mb-4">
+          A bundle sells as one line at its own price and takes each item&apos;s ingredients from stock. Substitutes can
+          be swapped in at the till for the price shown.
+        </p>
+
+        {/* Name, price and VAT of a new bundle */}
+        {!bundle && (
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-6">
+            <div className="sm:col-span-3">
+              <label className="block text-sm font-medium text-surface-300 mb-2">Bundle Name</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Burger Meal"
+                className={`w-full ${inputClass}`}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-surface-300 mb-2">Bundle Price</label>
+              <div className="relative">
+                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-surface-500 text-sm">₱</span>
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  value={sellingPrice}
+                  onChange={(e) => /^\d*\.?\d{0,2}$/.test(e.target.value) && setSellingPrice(e.target.value)}
+                  placeholder="0.00"
+                  className={`w-full pl-7 font-mono ${inputClass}`}
+                />
+              </div>
+            </div>
+            <div className="sm:col-span-2">
+              <label className="block text-sm font-medium text-surface-300 mb-2">VAT Treatment</label>
+              <select
+                value={vatStatus}
+                onChange={(e) => setVatStatus(e.target.value as VatStatus)}
+                className={`w-full ${inputClass}`}
+              >
+                {(Object.keys(VAT_STATUS_LABELS) as VatStatus[]).map((status) => (
+                  <option key={status} value={status}>{VAT_STATUS_LABELS[status]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        )}
+
+        {/* Bundle Items */}
+        <div className="mb-6">
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="text-sm font-medium text-surface-400">Bundle Items</h4>
+            <button
+              onClick={() => setDrafts([...drafts, { product_id: '', qty: '1', substitutes: [] }])}
+              className="text-sm text-primary-400 hover:text-primary-300"
+            >
+              + Add item
+            </button>
+          </div>
+          {drafts.length === 0 ? (
+            <p className="text-surface-500 text-sm p-3 bg-surface-800/50 rounded-lg">No items yet</p>
+          ) : (
+            <div className="space-y-3">
+              {drafts.map((draft, index) => (
+                <div key={draft.id || `new-${index}`} className="p-3 bg-surface-800/50 rounded-lg space-y-2">
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={draft.product_id}
+                      onChange={(e) => updateDraft(index, { product_id: e.target.value })}
+                      className={`flex-1 min-w-0 ${inputClass}`}
+                    >
+                      <option value="">Choose a product…</option>
+                      {choices.map((p) => (
+                        <option key={p.id} value={p.id}>{p.name}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      min="1"
+                      value={draft.qty}
+                      onChange={(e) => updateDraft(index, { qty: e.target.value })}
+                      title="Quantity per bundle"
+                      className="w-16 px-2 py-1.5 bg-surface-800 border border-surface-700 rounded-lg text-white text-center font-mono text-sm"
+                    />
+                    <button
+                      onClick={() => setDrafts(drafts.filter((_, i) => i !== index))}
+                      className="p-1 text-surface-500 hover:text-red-400"
+                      title="Remove"
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  </div>
+
+                  {draft.substitutes.map((sub, subIndex) => (
+                    <div key={subIndex} className="flex items-center gap-2 pl-4">
+                      <span className="text-surface-500 text-xs shrink-0">or</span>
+                      <select
+                        value={sub.product_id}
+                        onChange={(e) => updateSubstitute(index, subIndex, { product_id: e.target.value })}
+                        className="flex-1 min-w-0 px-2 py-1 bg-surface-800 border border-surface-700 rounded text-white text-xs"
+                      >
+                        <option value="">Choose a substitute…</option>
+                        {choices
+                          .filter((p) => p.id !== draft.product_id)
+                          .map((p) => (
+                            <option key={p.id} value={p.id}>{p.name}</option>
+                          ))}
+                      </select>
+                      <div className="relative w-24 shrink-0">
+                        <span className="absolute left-2 top-1/2 -translate-y-1/2 text-surface-500 text-xs">₱</span>
+                        <input
+                          type="text"
+                          inputMode="decimal"
+                          value={sub.price_delta}
+                          onChange={(e) =>
+                            /^-?\d*\.?\d{0,2}$/.test(e.target.value) &&
+                            updateSubstitute(index, subIndex, { price_delta: e.target.value })
+                          }
+                          placeholder="+0.00"
+                          title="Added to the bundle price when swapped in (negative to take off)"
+                          className="w-full pl-6 pr-2 py-1 bg-surface-800 border border-surface-700 rounded text-white font-mono text-right text-xs"
+                        />
+                      </div>
+                      <button
+                        onClick={() => updateDraft(index, { substitutes: draft.substitutes.filter((_, i) => i !== subIndex) })}
+                        className="p-1 text-surface-500 hover:text-red-400"
+                        title="Remove substitute"
+                      >
+                        <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    onClick={() => updateDraft(index, { substitutes: [...draft.substitutes, { product_id: '', price_delta: '' }] })}
+                    className="ml-4 text-xs text-primary-400 hover:text-primary-300"
+                  >
+                    + Substitute
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Price Comparison */}
+        {drafts.length > 0 && (
+          <div className="p-3 bg-surface-800/50 rounded-lg mb-6 space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span className="text-surface-400">Bought separately:</span>
+              <span className="text-white font-mono">₱{separatePrice.toFixed(2)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-surface-400">Bundle price:</span>
+              <span className="text-primary-500 font-mono font-bold">₱{bundlePrice.toFixed(2)}</span>
+            </div>
+          </div>
+        )}
+
+        {/* Actions */}
+        <div className="flex gap-3">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 text-surface-400 hover:text-white hover:bg-surface-800 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="flex-1 px-4 py-2 bg-primary-500 hover:bg-primary-600 text-white font-medium rounded-lg transition-colors disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : bundle ? 'Save' : 'Create Bundle'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
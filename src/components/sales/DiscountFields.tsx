@@ -0,0 +1,75 @@
+'use client'
+
+import { ManualDiscount } from '@/types/database'
+
+export interface DiscountDraft {
+  type: ManualDiscount['type']
+  value: string
+  reason: string
+}
+
+export const EMPTY_DISCOUNT: DiscountDraft = { type: 'percent', value: '', reason: '' }
+
+export const toDiscountDraft = (discount: ManualDiscount | null | undefined): DiscountDraft =>
+  discount ? { type: discount.type, value: discount.value.toString(), reason: discount.reason } : EMPTY_DISCOUNT
+
+// Returns null for an empty draft, or an error message when the draft is incomplete
+export const parseDiscountDraft = (draft: DiscountDraft): ManualDiscount | null | string => {
+  if (draft.value === '' && draft.reason.trim() === '') return null
+  const value = parseFloat(draft.value)
+  if (isNaN(value) || value <= 0) return 'Enter a discount amount'
+  if (draft.type === 'percent' && value > 100) return 'A percent discount cannot exceed 100%'
+  if (!draft.reason.trim()) return 'Enter a reason for the discount'
+  return { type: draft.type, value, reason: draft.reason.trim() }
+}
+
+// Percent / peso toggle, amount and reason for a manual discount
+export default function DiscountFields({
+  draft,
+  onChange,
+}: {
+  draft: DiscountDraft
+  onChange: (draft: DiscountDraft) => void
+}) {
+  const handleValueChange = (value: string) => {
+    if (value === '' || /^\d*\.?\d{0,2}$/.test(value)) {
+      onChange({ ...draft, value })
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <div className="flex rounded-lg overflow-hidden border border-surface-700">
+          {(['percent', 'fixed'] as const).map((type) => (
+            <button
+              key={type}
+              type="button"
+              onClick={() => onChange({ ...draft, type })}
+              className={`px-3 py-2 text-sm font-medium transition-colors ${
+                draft.type === type ? 'bg-primary-500 text-white' : 'bg-surface-800 text-surface-400 hover:text-white'
+              }`}
+            >
+              {type === 'percent' ? '%' : '₱'}
+            </button>
+          ))}
+        </div>
+        <input
+          type="text"
+          inputMode="decimal"
+          value={draft.value}
+          onChange={(e) => handleValueChange(e.target.value)}
+          placeholder={draft.type === 'percent' ? '0' : '0.00'}
+          className="flex-1 min-w-0 px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono text-right"
+        />
+      </div>
+      <input
+        type="text"
+        value={draft.reason}
+        onChange={(e) => onChange({ ...draft, reason: e.target.value })}
+        placeholder="Reason (e.g. Staff meal, Loyalty)"
+        className="w-full px-3 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white text-sm"
+      />
+    </div>
+  )
+}
@@ -0,0 +1,387 @@
+'use client'
+
+import { useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { OptionIngredient, UnitType } from '@/types/database'
+import { ProductOptions } from '@/lib/modifiers'
+import { recipeUnitLabel } from '@/lib/units'
+import toast from 'react-hot-toast'
+
+interface InventoryOption {
+  id: string
+  name: string
+  unit_type: UnitType
+}
+
+interface IngredientDraft {
+  item_id: string
+  qty: string
+}
+
+// A size or a modifier option: name, price change and recipe changes
+interface ChoiceDraft {
+  id?: string
+  name: string
+  price_delta: string
+  ingredients: IngredientDraft[]
+}
+
+interface GroupDraft {
+  id?: string
+  name: string
+  min_select: string
+  max_select: string
+  options: ChoiceDraft[]
+}
+
+const EMPTY_CHOICE: ChoiceDraft = { name: '', price_delta: '', ingredients: [] }
+
+const toIngredientDrafts = (rows: OptionIngredient[]): IngredientDraft[] =>
+  rows.map((r) => ({ item_id: r.item_id, qty: r.qty.toString() }))
+
+const hasDuplicates = (names: string[]) =>
+  new Set(names.map((n) => n.trim().toLowerCase())).size !== names.length
+
+// Recipe changes of one size or modifier option (edit_recipes permission)
+function ChoiceFields({
+  choice,
+  inventoryItems,
+  namePlaceholder,
+  onChange,
+  onRemove,
+}: {
+  choice: ChoiceDraft
+  inventoryItems: InventoryOption[]
+  namePlaceholder: string
+  onChange: (choice: ChoiceDraft) => void
+  onRemove: () => void
+}) {
+  const updateIngredient = (index: number, changes: Partial<IngredientDraft>) =>
+    onChange({ ...choice, ingredients: choice.ingredients.map((ing, i) => (i === index ? { ...ing, ...changes } : ing)) })
+
+  return (
+    <div className="p-3 bg-surface-800/50 rounded-lg space-y-2">
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          value={choice.name}
+          onChange={(e) => onChange({ ...choice, name: e.target.value })}
+          placeholder={namePlaceholder}
+          className="flex-1 min-w-0 px-3 py-1.5 bg-surface-800 border border-surface-700 rounded-lg text-white text-sm"
+        />
+        <div className="relative w-28 shrink-0">
+          <span className="absolute left-3 top-1/2 -translate-y-1/2 text-surface-500 text-sm">₱</span>
+          <input
+            type="text"
+            inputMode="decimal"
+            value={choice.price_delta}
+            onChange={(e) => /^-?\d*\.?\d{0,2}$/.test(e.target.value) && onChange({ ...choice, price_delta: e.target.value })}
+            placeholder="+0.00"
+            title="Added to the selling price (negative to take off)"
+            className="w-full pl-7 pr-3 py-1.5 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono text-right text-sm"
+          />
+        </div>
+        <button onClick={onRemove} className="p-1 text-surface-500 hover:text-red-400" title="Remove">
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      {choice.ingredients.map((ing, index) => {
+        const item = inventoryItems.find((i) => i.id === ing.item_id)
+        return (
+          <div key={index} className="flex items-center gap-2 pl-3">
+            <span className="flex-1 min-w-0 text-surface-300 text-xs truncate">{item?.name || 'Unknown item'}</span>
+            <input
+              type="text"
+              inputMode="decimal"
+              value={ing.qty}
+              onChange={(e) => /^-?\d*\.?\d{0,4}$/.test(e.target.value) && updateIngredient(index, { qty: e.target.value })}
+              className="w-20 px-2 py-1 bg-surface-800 border border-surface-700 rounded text-white text-center font-mono text-xs"
+            />
+            <span className="text-surface-400 text-xs w-8">{recipeUnitLabel(item?.unit_type)}</span>
+            <button
+              onClick={() => onChange({ ...choice, ingredients: choice.ingredients.filter((_, i) => i !== index) })}
+              className="p-1 text-surface-500 hover:text-red-400"
+              title="Remove ingredient change"
+            >
+              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        )
+      })}
+
+      <select
+        value=""
+        onChange={(e) => e.target.value && onChange({ ...choice, ingredients: [...choice.ingredients, { item_id: e.target.value, qty: '' }] })}
+        className="ml-3 px-2 py-1 bg-surface-800 border border-surface-700 rounded text-surface-400 text-xs"
+      >
+        <option value="">+ Ingredient change…</option>
+        {inventoryItems
+          .filter((item) => !choice.ingredients.some((ing) => ing.item_id === item.id))
+          .map((item) => (
+            <option key={item.id} value={item.id}>{item.name}</option>
+          ))}
+      </select>
+    </div>
+  )
+}
+
+// Sizes and modifier groups of a product, each with a price change and recipe
+// changes on top of the product's ingredients
+export default function ProductOptionsEditor({
+  product,
+  options,
+  optionIngredients,
+  inventoryItems,
+  onClose,
+  onSaved,
+}: {
+  product: { id: string; name: string }
+  options: ProductOptions
+  optionIngredients: OptionIngredient[]
+  inventoryItems: InventoryOption[]
+  onClose: () => void
+  onSaved: () => void
+}) {
+  const [variants, setVariants] = useState<ChoiceDraft[]>(() =>
+    options.variants.map((v) => ({
+      id: v.id,
+      name: v.name,
+      price_delta: Number(v.price_delta) ? v.price_delta.toString() : '',
+      ingredients: toIngredientDrafts(optionIngredients.filter((oi) => oi.variant_id === v.id)),
+    }))
+  )
+  const [groups, setGroups] = useState<GroupDraft[]>(() =>
+    options.groups.map((g) => ({
+      id: g.id,
+      name: g.name,
+      min_select: g.min_select.toString(),
+      max_select: g.max_select.toString(),
+      options: g.options.map((o) => ({
+        id: o.id,
+        name: o.name,
+        price_delta: Number(o.price_delta) ? o.price_delta.toString() : '',
+        ingredients: toIngredientDrafts(optionIngredients.filter((oi) => oi.modifier_option_id === o.id)),
+      })),
+    }))
+  )
+  const [isSaving, setIsSaving] = useState(false)
+
+  const updateGroup = (index: number, changes: Partial<GroupDraft>) =>
+    setGroups(groups.map((g, i) => (i === index ? { ...g, ...changes } : g)))
+
+  const validate = (): string | null => {
+    const choices = [...variants, ...groups.flatMap((g) => g.options)]
+    if (variants.some((v) => !v.name.trim())) return 'Every size needs a name'
+    if (hasDuplicates(variants.map((v) => v.name))) return 'Size names must be different'
+    if (groups.some((g) => !g.name.trim())) return 'Every modifier group needs a name'
+    if (hasDuplicates(groups.map((g) => g.name))) return 'Modifier group names must be different'
+    for (const group of groups) {
+      const min = parseInt(group.min_select)
+      const max = parseInt(group.max_select)
+      if (group.options.length === 0) return `Add at least one option to ${group.name}`
+      if (group.options.some((o) => !o.name.trim())) return `Every option in ${group.name} needs a name`
+      if (hasDuplicates(group.options.map((o) => o.name))) return `Option names in ${group.name} must be different`
+      if (isNaN(min) || isNaN(max) || min < 0 || max < 1 || min > max) {
+        return `${group.name}: choose a minimum of 0 or more and a maximum of at least 1 and the minimum`
+      }
+      if (min > group.options.length) return `${group.name} needs at least ${min} options`
+    }
+    if (choices.some((c) => c.ingredients.some((ing) => !parseFloat(ing.qty)))) {
+      return 'Enter an amount for every ingredient change (negative to use less)'
+    }
+    return null
+  }
+
+  const handleSave = async () => {
+    const error = validate()
+    if (error) {
+      toast.error(error)
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const toIngredients = (choice: ChoiceDraft) =>
+        choice.ingredients.map((ing) => ({ item_id: ing.item_id, qty: parseFloat(ing.qty) }))
+      const toChoice = (choice: ChoiceDraft) => ({
+        id: choice.id || null,
+        name: choice.name.trim(),
+        price_delta: parseFloat(choice.price_delta) || 0,
+        ingredients: toIngredients(choice),
+      })
+
+      const { error } = await (supabase as any).rpc('save_product_options', {
+        p_product_id: product.id,
+        p_variants: variants.map(toChoice),
+        p_groups: groups.map((group) => ({
+          id: group.id || null,
+          name: group.name.trim(),
+          min_select: parseInt(group.min_select),
+          max_select: parseInt(group.max_select),
+          options: group.options.map(toChoice),
+        })),
+      })
+      if (error) throw error
+
+      toast.success('Sizes and add-ons saved')
+      onSaved()
+    } catch (error: any) {
+      console.error('Error saving product options:', error)
+      toast.error(error?.code === '42501' || error?.code === 'P0001' ? error.message : 'Failed to save sizes and add-ons')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="card p-6 max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-lg font-semibold text-white">Sizes & Add-ons: {product.name}</h3>
+          <button onClick={onClose} className="text-surface-400 hover:text-white p-1">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+        <p className="text-surface-400 text-sm mb-4">
+          Prices and ingredient amounts are changes to the product&apos;s own price and recipe; use negative amounts to
+          take off.
+        </p>
+
+        {/* Sizes */}
+        <div className="mb-6">
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="text-sm font-medium text-surface-400">Sizes</h4>
+            <button
+              onClick={() => setVariants([...variants, { ...EMPTY_CHOICE }])}
+              className="text-sm text-primary-400 hover:text-primary-300"
+            >
+              + Add size
+            </button>
+          </div>
+          {variants.length === 0 ? (
+            <p className="text-surface-500 text-sm p-3 bg-surface-800/50 rounded-lg">One size only</p>
+          ) : (
+            <div className="space-y-2">
+              {variants.map((variant, index) => (
+                <ChoiceFields
+                  key={variant.id || `new-${index}`}
+                  choice={variant}
+                  inventoryItems={inventoryItems}
+                  namePlaceholder="e.g. Large"
+                  onChange={(choice) => setVariants(variants.map((v, i) => (i === index ? choice : v)))}
+                  onRemove={() => setVariants(variants.filter((_, i) => i !== index))}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Modifier Groups */}
+        <div className="mb-6">
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="text-sm font-medium text-surface-400">Modifier Groups</h4>
+            <button
+              onClick={() =>
+                setGroups([...groups, { name: '', min_select: '0', max_select: '1', options: [{ ...EMPTY_CHOICE }] }])
+              }
+              className="text-sm text-primary-400 hover:text-primary-300"
+            >
+              + Add group
+            </button>
+          </div>
+          {groups.length === 0 ? (
+            <p className="text-surface-500 text-sm p-3 bg-surface-800/50 rounded-lg">No add-ons or options</p>
+          ) : (
+            <div className="space-y-4">
+              {groups.map((group, index) => (
+                <div key={group.id || `new-${index}`} className="p-3 border border-surface-700 rounded-lg space-y-2">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <input
+                      type="text"
+                      value={group.name}
+                      onChange={(e) => updateGroup(index, { name: e.target.value })}
+                      placeholder="Group name (e.g. Milk, Add-ons)"
+                      className="flex-1 min-w-[10rem] px-3 py-1.5 bg-surface-800 border border-surface-700 rounded-lg text-white text-sm"
+                    />
+                    <label className="flex items-center gap-1 text-xs text-surface-400">
+                      Min
+                      <input
+                        type="number"
+                        min="0"
+                        value={group.min_select}
+                        onChange={(e) => updateGroup(index, { min_select: e.target.value })}
+                        className="w-14 px-2 py-1 bg-surface-800 border border-surface-700 rounded text-white text-center font-mono"
+                      />
+                    </label>
+                    <label className="flex items-center gap-1 text-xs text-surface-400">
+                      Max
+                      <input
+                        type="number"
+                        min="1"
+                        value={group.max_select}
+                        onChange={(e) => updateGroup(index, { max_select: e.target.value })}
+                        className="w-14 px-2 py-1 bg-surface-800 border border-surface-700 rounded text-white text-center font-mono"
+                      />
+                    </label>
+                    <button
+                      onClick={() => setGroups(groups.filter((_, i) => i !== index))}
+                      className="px-2 py-1 text-xs text-red-400 hover:text-red-300 hover:bg-red-500/10 rounded-md transition-colors"
+                    >
+                      Remove group
+                    </button>
+                  </div>
+                  <p className="text-xs text-surface-500">
+                    {parseInt(group.min_select) > 0 ? 'Required' : 'Optional'}: pick {group.min_select || 0} to{' '}
+                    {group.max_select || 1}
+                  </p>
+                  {group.options.map((option, optionIndex) => (
+                    <ChoiceFields
+                      key={option.id || `new-${optionIndex}`}
+                      choice={option}
+                      inventoryItems={inventoryItems}
+                      namePlaceholder="Option (e.g. Oat milk)"
+                      onChange={(choice) =>
+                        updateGroup(index, { options: group.options.map((o, i) => (i === optionIndex ? choice : o)) })
+                      }
+                      onRemove={() => updateGroup(index, { options: group.options.filter((_, i) => i !== optionIndex) })}
+                    />
+                  ))}
+                  <button
+                    onClick={() => updateGroup(index, { options: [...group.options, { ...EMPTY_CHOICE }] })}
+                    className="text-xs text-primary-400 hover:text-primary-300"
+                  >
+                    + Add option
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Actions */}
+        <div className="flex gap-3">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 text-surface-400 hover:text-white hover:bg-surface-800 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="flex-1 px-4 py-2 bg-primary-500 hover:bg-primary-600 text-white font-medium rounded-lg transition-colors disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,92 @@
+'use client'
+
+import { useState } from 'react'
+import { Receipt, receiptLines } from '@/lib/receipt'
+import { printReceipt, downloadReceipt } from '@/lib/escpos'
+import toast from 'react-hot-toast'
+
+// Receipt preview with browser printing (sized to the thermal paper) and raw
+// ESC/POS output for the receipt printer
+export default function ReceiptModal({
+  receipt,
+  onClose,
+}: {
+  receipt: Receipt
+  onClose: () => void
+}) {
+  const [isSending, setIsSending] = useState(false)
+
+  const handleSendToPrinter = async () => {
+    setIsSending(true)
+    try {
+      await printReceipt(receipt)
+      toast.success('Receipt sent to printer')
+    } catch (error) {
+      console.error('Error printing receipt:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to print receipt')
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="card p-6 max-w-md w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-white">
+            Receipt {receipt.transactionNumber}
+          </h3>
+          <button onClick={onClose} className="text-surface-400 hover:text-white p-1">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex justify-center mb-4">
+          <div
+            className="receipt-print bg-white text-black font-mono text-[11px] leading-tight p-3"
+            style={{ width: `${receipt.header.paperWidth}mm` }}
+          >
+            {receiptLines(receipt).map((line, index) => (
+              <div
+                key={index}
+                className={`whitespace-pre ${line.align === 'center' ? 'text-center' : ''} ${line.bold ? 'font-bold' : ''} ${line.large ? 'text-sm' : ''}`}
+              >
+                {line.text || ' '}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <button
+            onClick={() => window.print()}
+            className="px-4 py-2 bg-primary-500 hover:bg-primary-600 text-white font-medium rounded-lg transition-colors"
+          >
+            Print
+          </button>
+          <button
+            onClick={handleSendToPrinter}
+            disabled={isSending}
+            className="px-4 py-2 bg-surface-700 hover:bg-surface-600 text-white font-medium rounded-lg transition-colors disabled:opacity-50"
+          >
+            {isSending ? 'Sending...' : 'Send to Printer'}
+          </button>
+          <button
+            onClick={() => downloadReceipt(receipt)}
+            className="px-4 py-2 text-surface-400 hover:text-white hover:bg-surface-800 rounded-lg transition-colors"
+          >
+            Download ESC/POS
+          </button>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-surface-400 hover:text-white hover:bg-surface-800 rounded-lg transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
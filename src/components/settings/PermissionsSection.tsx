@@ -0,0 +1,107 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { supabase } from '@/lib/supabase'
+import { Permission, RolePermission, UserRole } from '@/types/database'
+import { PERMISSIONS, CONFIGURABLE_ROLES } from '@/lib/permissions'
+import toast from 'react-hot-toast'
+
+type ConfigurableRole = Exclude<UserRole, 'owner'>
+
+// Owner-only permission toggles for the manager and cashier roles
+export default function PermissionsSection() {
+  const [enabled, setEnabled] = useState<Set<string>>(new Set())
+  const [loading, setLoading] = useState(true)
+
+  const key = (role: ConfigurableRole, permission: Permission) => `${role}:${permission}`
+
+  const fetchPermissions = useCallback(async () => {
+    try {
+      const { data, error } = await supabase.from('role_permissions').select('*')
+      if (error) throw error
+      setEnabled(new Set(
+        ((data || []) as RolePermission[]).filter((rp) => rp.enabled).map((rp) => key(rp.role, rp.permission))
+      ))
+    } catch (error) {
+      console.error('Error fetching permissions:', error)
+      toast.error('Failed to load permissions')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchPermissions()
+  }, [fetchPermissions])
+
+  const togglePermission = async (role: ConfigurableRole, permission: Permission) => {
+    const value = !enabled.has(key(role, permission))
+
+    try {
+      const { error } = await (supabase as any)
+        .from('role_permissions')
+        .upsert({ role, permission, enabled: value }, { onConflict: 'role,permission' })
+
+      if (error) throw error
+      setEnabled((prev) => {
+        const next = new Set(prev)
+        if (value) next.add(key(role, permission))
+        else next.delete(key(role, permission))
+        return next
+      })
+    } catch (error) {
+      console.error('Error updating permission:', error)
+      toast.error('Failed to update permission')
+    }
+  }
+
+  return (
+    <div className="card p-6 mt-6">
+      <h3 className="text-lg font-semibold text-white mb-1">Permissions</h3>
+      <p className="text-surface-400 text-sm mb-4">
+        Owners always have every permission. Changes apply the next time a user signs in.
+      </p>
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <div className="w-6 h-6 border-4 border-primary-500 border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-surface-800">
+                <th className="p-2 text-left text-sm font-medium text-surface-400">Permission</th>
+                {CONFIGURABLE_ROLES.map((role) => (
+                  <th key={role} className="p-2 text-center text-sm font-medium text-surface-400 capitalize w-24">
+                    {role}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {PERMISSIONS.map((permission) => (
+                <tr key={permission.id} className="border-b border-surface-800/50">
+                  <td className="p-2">
+                    <p className="text-white text-sm">{permission.label}</p>
+                    <p className="text-surface-500 text-xs">{permission.description}</p>
+                  </td>
+                  {CONFIGURABLE_ROLES.map((role) => (
+                    <td key={role} className="p-2 text-center">
+                      <input
+                        type="checkbox"
+                        checked={enabled.has(key(role, permission.id))}
+                        onChange={() => togglePermission(role, permission.id)}
+                        className="w-4 h-4 rounded border-surface-600 bg-surface-800 text-primary-500 focus:ring-primary-500"
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,319 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { format } from 'date-fns'
+import { supabase } from '@/lib/supabase'
+import { Promotion, PromotionType } from '@/types/database'
+import { isPromotionLive, normalizePromoCode } from '@/lib/pricing'
+import toast from 'react-hot-toast'
+
+interface ProductOption {
+  id: string
+  name: string
+}
+
+const PROMOTION_TYPES: { id: PromotionType; label: string }[] = [
+  { id: 'percent', label: 'Percent off' },
+  { id: 'fixed', label: 'Fixed amount off' },
+  { id: 'bxgy', label: 'Buy X get Y free' },
+]
+
+const EMPTY_PROMOTION = {
+  name: '',
+  code: '',
+  discount_type: 'percent' as PromotionType,
+  value: '',
+  product_id: '',
+  buy_qty: '',
+  get_qty: '',
+  starts_at: '',
+  ends_at: '',
+}
+
+// Owner-only promotions: automatic or code-based, per product or whole order
+export default function PromotionsSection() {
+  const [promotions, setPromotions] = useState<Promotion[]>([])
+  const [products, setProducts] = useState<ProductOption[]>([])
+  const [loading, setLoading] = useState(true)
+  const [newPromotion, setNewPromotion] = useState(EMPTY_PROMOTION)
+  const [isAdding, setIsAdding] = useState(false)
+
+  const fetchPromotions = useCallback(async () => {
+    try {
+      const [promotionsRes, productsRes] = await Promise.all([
+        supabase.from('promotions').select('*').order('created_at', { ascending: false }),
+        supabase.from('finished_products').select('id, name').order('name'),
+      ])
+      if (promotionsRes.error) throw promotionsRes.error
+      setPromotions(promotionsRes.data || [])
+      setProducts(productsRes.data || [])
+    } catch (error) {
+      console.error('Error fetching promotions:', error)
+      toast.error('Failed to load promotions')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchPromotions()
+  }, [fetchPromotions])
+
+  const productName = (id: string | null) => products.find((p) => p.id === id)?.name || 'Unknown product'
+
+  const describe = (promotion: Promotion) => {
+    const target = promotion.product_id ? productName(promotion.product_id) : 'whole order'
+    if (promotion.discount_type === 'bxgy') {
+      return `Buy ${promotion.buy_qty} get ${promotion.get_qty} free · ${target}`
+    }
+    if (promotion.discount_type === 'percent') {
+      return `${promotion.value}% off · ${target}`
+    }
+    return `₱${promotion.value.toFixed(2)} off${promotion.product_id ? ' each' : ''} · ${target}`
+  }
+
+  const addPromotion = async () => {
+    const isBxgy = newPromotion.discount_type === 'bxgy'
+    const value = parseFloat(newPromotion.value) || 0
+    const buyQty = parseInt(newPromotion.buy_qty) || 0
+    const getQty = parseInt(newPromotion.get_qty) || 0
+
+    if (!newPromotion.name.trim()) {
+      toast.error('Please enter a promotion name')
+      return
+    }
+    if (isBxgy && (!newPromotion.product_id || buyQty <= 0 || getQty <= 0)) {
+      toast.error('Buy X get Y needs a product and both quantities')
+      return
+    }
+    if (!isBxgy && value <= 0) {
+      toast.error('Please enter a discount amount')
+      return
+    }
+    if (newPromotion.discount_type === 'percent' && value > 100) {
+      toast.error('A percent discount cannot exceed 100%')
+      return
+    }
+
+    setIsAdding(true)
+    try {
+      const { error } = await (supabase as any).from('promotions').insert({
+        name: newPromotion.name.trim(),
+        code: newPromotion.code.trim() ? normalizePromoCode(newPromotion.code) : null,
+        discount_type: newPromotion.discount_type,
+        value: isBxgy ? 0 : value,
+        product_id: newPromotion.product_id || null,
+        buy_qty: isBxgy ? buyQty : null,
+        get_qty: isBxgy ? getQty : null,
+        is_active: true,
+        // Dates run from the start of the first day to the end of the last, in local time
+        starts_at: newPromotion.starts_at ? new Date(`${newPromotion.starts_at}T00:00:00`).toISOString() : null,
+        ends_at: newPromotion.ends_at ? new Date(`${newPromotion.ends_at}T23:59:59.999`).toISOString() : null,
+      })
+
+      if (error) {
+        if (error.code === '23505') {
+          toast.error('That promo code is already in use')
+          return
+        }
+        throw error
+      }
+      toast.success('Promotion added')
+      setNewPromotion(EMPTY_PROMOTION)
+      fetchPromotions()
+    } catch (error) {
+      console.error('Error adding promotion:', error)
+      toast.error('Failed to add promotion')
+    } finally {
+      setIsAdding(false)
+    }
+  }
+
+  const toggleActive = async (promotion: Promotion) => {
+    try {
+      const { error } = await (supabase as any)
+        .from('promotions')
+        .update({ is_active: !promotion.is_active })
+        .eq('id', promotion.id)
+
+      if (error) throw error
+      setPromotions((prev) =>
+        prev.map((p) => (p.id === promotion.id ? { ...p, is_active: !promotion.is_active } : p))
+      )
+    } catch (error) {
+      console.error('Error updating promotion:', error)
+      toast.error('Failed to update promotion')
+    }
+  }
+
+  const deletePromotion = async (id: string) => {
+    try {
+      const { error } = await supabase.from('promotions').delete().eq('id', id)
+      if (error) throw error
+      toast.success('Promotion deleted')
+      setPromotions((prev) => prev.filter((p) => p.id !== id))
+    } catch (error) {
+      console.error('Error deleting promotion:', error)
+      toast.error('Failed to delete promotion')
+    }
+  }
+
+  return (
+    <div className="card p-6 mt-6">
+      <h3 className="text-lg font-semibold text-white mb-1">Promotions</h3>
+      <p className="text-surface-400 text-sm mb-4">
+        Promotions without a code apply automatically. The best product promotion and the best order promotion are
+        used; a manual discount at the till replaces them.
+      </p>
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <div className="w-6 h-6 border-4 border-primary-500 border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : (
+        <div className="space-y-2 mb-6">
+          {promotions.length === 0 && <p className="text-surface-500 text-sm">No promotions yet</p>}
+          {promotions.map((promotion) => (
+            <div
+              key={promotion.id}
+              className={`flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 bg-surface-800/50 rounded-lg ${
+                isPromotionLive(promotion) ? '' : 'opacity-60'
+              }`}
+            >
+              <div>
+                <p className="text-white font-medium">
+                  {promotion.name}
+                  {promotion.code && (
+                    <span className="ml-2 px-2 py-0.5 bg-green-500/10 text-green-400 text-xs font-mono rounded">
+                      {promotion.code}
+                    </span>
+                  )}
+                </p>
+                <p className="text-surface-400 text-sm">{describe(promotion)}</p>
+                {(promotion.starts_at || promotion.ends_at) && (
+                  <p className="text-surface-500 text-xs">
+                    {promotion.starts_at ? format(new Date(promotion.starts_at), 'MMM d, yyyy') : 'Now'}
+                    {' – '}
+                    {promotion.ends_at ? format(new Date(promotion.ends_at), 'MMM d, yyyy') : 'no end date'}
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => toggleActive(promotion)}
+                  className={`px-3 py-1 text-xs font-medium rounded-md transition-colors ${
+                    promotion.is_active
+                      ? 'text-yellow-400 hover:text-yellow-300 hover:bg-yellow-500/10'
+                      : 'text-green-400 hover:text-green-300 hover:bg-green-500/10'
+                  }`}
+                >
+                  {promotion.is_active ? 'Pause' : 'Resume'}
+                </button>
+                <button
+                  onClick={() => deletePromotion(promotion.id)}
+                  className="px-3 py-1 text-xs font-medium text-red-400 hover:text-red-300 hover:bg-red-500/10 rounded-md transition-colors"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Add New Promotion */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <input
+          type="text"
+          value={newPromotion.name}
+          onChange={(e) => setNewPromotion({ ...newPromotion, name: e.target.value })}
+          placeholder="Promotion name"
+          className="px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+        />
+        <input
+          type="text"
+          value={newPromotion.code}
+          onChange={(e) => setNewPromotion({ ...newPromotion, code: e.target.value })}
+          placeholder="Promo code (optional)"
+          className="px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white font-mono uppercase placeholder:normal-case placeholder:font-sans"
+        />
+        <select
+          value={newPromotion.discount_type}
+          onChange={(e) => setNewPromotion({ ...newPromotion, discount_type: e.target.value as PromotionType })}
+          className="px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+        >
+          {PROMOTION_TYPES.map((type) => (
+            <option key={type.id} value={type.id}>{type.label}</option>
+          ))}
+        </select>
+        <select
+          value={newPromotion.product_id}
+          onChange={(e) => setNewPromotion({ ...newPromotion, product_id: e.target.value })}
+          className="px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+        >
+          <option value="">{newPromotion.discount_type === 'bxgy' ? 'Select a product' : 'Whole order'}</option>
+          {products.map((product) => (
+            <option key={product.id} value={product.id}>{product.name}</option>
+          ))}
+        </select>
+        {newPromotion.discount_type === 'bxgy' ? (
+          <div className="flex gap-3">
+            <input
+              type="number"
+              min="1"
+              value={newPromotion.buy_qty}
+              onChange={(e) => setNewPromotion({ ...newPromotion, buy_qty: e.target.value })}
+              placeholder="Buy"
+              className="flex-1 min-w-0 px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+            />
+            <input
+              type="number"
+              min="1"
+              value={newPromotion.get_qty}
+              onChange={(e) => setNewPromotion({ ...newPromotion, get_qty: e.target.value })}
+              placeholder="Get free"
+              className="flex-1 min-w-0 px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+            />
+          </div>
+        ) : (
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={newPromotion.value}
+            onChange={(e) => setNewPromotion({ ...newPromotion, value: e.target.value })}
+            placeholder={
+              newPromotion.discount_type === 'percent'
+                ? 'Percent off'
+                : newPromotion.product_id ? 'Pesos off per item' : 'Pesos off the order'
+            }
+            className="px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+          />
+        )}
+        <div className="flex gap-3">
+          <input
+            type="date"
+            value={newPromotion.starts_at}
+            onChange={(e) => setNewPromotion({ ...newPromotion, starts_at: e.target.value })}
+            title="Starts"
+            className="flex-1 min-w-0 px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+          />
+          <input
+            type="date"
+            value={newPromotion.ends_at}
+            onChange={(e) => setNewPromotion({ ...newPromotion, ends_at: e.target.value })}
+            title="Ends"
+            className="flex-1 min-w-0 px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+          />
+        </div>
+      </div>
+      <button
+        onClick={addPromotion}
+        disabled={isAdding}
+        className="mt-3 px-4 py-2 bg-primary-500 hover:bg-primary-600 text-white font-medium rounded-lg transition-colors disabled:opacity-50"
+      >
+        Add Promotion
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,231 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Profile, UserRole } from '@/types/database'
+import { useAuth } from '@/contexts/AuthContext'
+import { listUsers, createUser, updateUser, USER_ROLES, MIN_PASSWORD_LENGTH, UserUpdateInput } from '@/lib/users'
+import toast from 'react-hot-toast'
+
+const EMPTY_USER = { email: '', username: '', password: '', role: 'cashier' as UserRole }
+
+// Owner-only staff account management (add, disable, change role, set password)
+export default function UsersSection() {
+  const { user } = useAuth()
+  const [users, setUsers] = useState<Profile[]>([])
+  const [loading, setLoading] = useState(true)
+  const [newUser, setNewUser] = useState(EMPTY_USER)
+  const [isAdding, setIsAdding] = useState(false)
+  const [passwordTarget, setPasswordTarget] = useState<Profile | null>(null)
+  const [newPassword, setNewPassword] = useState('')
+
+  const fetchUsers = useCallback(async () => {
+    try {
+      setUsers(await listUsers())
+    } catch (error) {
+      console.error('Error fetching users:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to load users')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchUsers()
+  }, [fetchUsers])
+
+  const addUser = async () => {
+    if (!newUser.email.trim() || !newUser.username.trim()) {
+      toast.error('Please enter an email and username')
+      return
+    }
+    if (newUser.password.length < MIN_PASSWORD_LENGTH) {
+      toast.error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`)
+      return
+    }
+
+    setIsAdding(true)
+    try {
+      await createUser(newUser)
+      toast.success('User added')
+      setNewUser(EMPTY_USER)
+      fetchUsers()
+    } catch (error) {
+      console.error('Error adding user:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to add user')
+    } finally {
+      setIsAdding(false)
+    }
+  }
+
+  const changeUser = async (id: string, changes: UserUpdateInput, successMessage: string) => {
+    try {
+      const updated = await updateUser(id, changes)
+      setUsers((prev) => prev.map((u) => (u.id === id ? updated : u)))
+      toast.success(successMessage)
+      return true
+    } catch (error) {
+      console.error('Error updating user:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to update user')
+      return false
+    }
+  }
+
+  const savePassword = async () => {
+    if (!passwordTarget) return
+    if (newPassword.length < MIN_PASSWORD_LENGTH) {
+      toast.error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`)
+      return
+    }
+    if (await changeUser(passwordTarget.id, { password: newPassword }, 'Password updated')) {
+      setPasswordTarget(null)
+      setNewPassword('')
+    }
+  }
+
+  return (
+    <div className="card p-6 mt-6">
+      <h3 className="text-lg font-semibold text-white mb-4">Users</h3>
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <div className="w-6 h-6 border-4 border-primary-500 border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : (
+        <div className="space-y-2 mb-6">
+          {users.map((u) => (
+            <div
+              key={u.id}
+              className={`flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 bg-surface-800/50 rounded-lg ${
+                u.is_active ? '' : 'opacity-60'
+              }`}
+            >
+              <div className="flex items-center gap-3">
+                <div className="w-8 h-8 rounded-full bg-surface-700 flex items-center justify-center">
+                  <span className="text-sm font-medium text-white">{u.username.charAt(0).toUpperCase()}</span>
+                </div>
+                <div>
+                  <p className="text-white font-medium">
+                    {u.username}
+                    {u.id === user?.id && <span className="text-surface-500 text-xs ml-2">(you)</span>}
+                    {!u.is_active && <span className="text-red-400 text-xs ml-2">Disabled</span>}
+                  </p>
+                  <p className="text-surface-400 text-sm">{u.email}</p>
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <select
+                  value={u.role}
+                  onChange={(e) => changeUser(u.id, { role: e.target.value as UserRole }, 'Role updated')}
+                  className="px-2 py-1 bg-surface-800 border border-surface-700 rounded text-white text-sm capitalize"
+                >
+                  {USER_ROLES.map((role) => (
+                    <option key={role} value={role}>{role}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => {
+                    setNewPassword('')
+                    setPasswordTarget(u)
+                  }}
+                  className="px-3 py-1 text-xs font-medium text-surface-300 hover:text-white hover:bg-surface-700 rounded-md transition-colors"
+                >
+                  Set Password
+                </button>
+                {u.id !== user?.id && (
+                  <button
+                    onClick={() =>
+                      changeUser(u.id, { is_active: !u.is_active }, u.is_active ? 'User disabled' : 'User enabled')
+                    }
+                    className={`px-3 py-1 text-xs font-medium rounded-md transition-colors ${
+                      u.is_active
+                        ? 'text-red-400 hover:text-red-300 hover:bg-red-500/10'
+                        : 'text-green-400 hover:text-green-300 hover:bg-green-500/10'
+                    }`}
+                  >
+                    {u.is_active ? 'Disable' : 'Enable'}
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Add New User */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <input
+          type="email"
+          value={newUser.email}
+          onChange={(e) => setNewUser({ ...newUser, email: e.target.value })}
+          placeholder="Email"
+          className="px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+        />
+        <input
+          type="text"
+          value={newUser.username}
+          onChange={(e) => setNewUser({ ...newUser, username: e.target.value })}
+          placeholder="Username"
+          className="px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+        />
+        <input
+          type="password"
+          value={newUser.password}
+          onChange={(e) => setNewUser({ ...newUser, password: e.target.value })}
+          placeholder={`Password (min ${MIN_PASSWORD_LENGTH} characters)`}
+          autoComplete="new-password"
+          className="px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white"
+        />
+        <div className="flex gap-3">
+          <select
+            value={newUser.role}
+            onChange={(e) => setNewUser({ ...newUser, role: e.target.value as UserRole })}
+            className="flex-1 px-4 py-2 bg-surface-800 border border-surface-700 rounded-lg text-white capitalize"
+          >
+            {USER_ROLES.map((role) => (
+              <option key={role} value={role}>{role}</option>
+            ))}
+          </select>
+          <button
+            onClick={addUser}
+            disabled={isAdding}
+            className="px-4 py-2 bg-primary-500 hover:bg-primary-600 text-white font-medium rounded-lg transition-colors disabled:opacity-50"
+          >
+            Add
+          </button>
+        </div>
+      </div>
+
+      {/* Set Password Modal */}
+      {passwordTarget && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="card p-6 max-w-md w-full">
+            <h3 className="text-lg font-semibold text-white mb-4">Set Password for {passwordTarget.username}</h3>
+            <input
+              type="password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              placeholder={`At least ${MIN_PASSWORD_LENGTH} characters`}
+              autoComplete="new-password"
+              autoFocus
+              className="w-full px-4 py-2 mb-6 bg-surface-800 border border-surface-700 rounded-lg text-white"
+            />
+            <div className="flex gap-3">
+              <button
+                onClick={() => setPasswordTarget(null)}
+                className="flex-1 px-4 py-2 text-surface-400 hover:text-white hover:bg-surface-800 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={savePassword}
+                className="flex-1 px-4 py-2 bg-primary-500 hover:bg-primary-600 text-white font-medium rounded-lg transition-colors"
+              >
+                Save Password
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,60 +1,117 @@
 'use client'
 
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react'
-import { User, UserRole } from '@/types/database'
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react'
+import { Session } from '@supabase/supabase-js'
+import { supabase } from '@/lib/supabase'
+import { User, Profile, Permission } from '@/types/database'
 
 interface AuthContextType {
   user: User | null
-  login: (username: string, password: string) => boolean
-  logout: () => void
+  can: (permission: Permission) => boolean
+  login: (email: string, password: string) => Promise<boolean>
+  logout: () => Promise<void>
+  requestPasswordReset: (email: string) => Promise<boolean>
+  updatePassword: (password: string) => Promise<boolean>
+  isPasswordRecovery: boolean
   isLoading: boolean
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined)
 
-const USERS: { username: string; password: string; role: UserRole }[] = [
-  { username: 'Altuadmin', password: 'Altuadmin2025', role: 'owner' },
-  { username: 'Altucashier', password: 'Altucashier', role: 'cashier' },
-]
-
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null)
   const [isLoading, setIsLoading] = useState(true)
+  const [isPasswordRecovery, setIsPasswordRecovery] = useState(false)
+  const [permissions, setPermissions] = useState<Permission[]>([])
 
-  useEffect(() => {
-    // Check for stored session
-    const storedUser = localStorage.getItem('altugreal_user')
-    if (storedUser) {
-      try {
-        setUser(JSON.parse(storedUser))
-      } catch {
-        localStorage.removeItem('altugreal_user')
-      }
+  // Resolve the profile (and its role's permissions) behind a Supabase session.
+  // Disabled or unknown accounts are signed out again.
+  const loadUser = useCallback(async (session: Session | null): Promise<boolean> => {
+    if (!session) {
+      setUser(null)
+      return false
     }
-    setIsLoading(false)
-  }, [])
 
-  const login = (username: string, password: string): boolean => {
-    const foundUser = USERS.find(
-      (u) => u.username === username && u.password === password
-    )
-    
-    if (foundUser) {
-      const userObj: User = { username: foundUser.username, role: foundUser.role }
-      setUser(userObj)
-      localStorage.setItem('altugreal_user', JSON.stringify(userObj))
-      return true
+    const { data } = await supabase
+      .from('profiles')
+      .select('*')
+      .eq('id', session.user.id)
+      .maybeSingle()
+
+    const profile = data as Profile | null
+    if (!profile || !profile.is_active) {
+      await supabase.auth.signOut()
+      setUser(null)
+      return false
     }
-    return false
+
+    const { data: granted } = await supabase
+      .from('role_permissions')
+      .select('permission')
+      .eq('role', profile.role)
+      .eq('enabled', true)
+
+    setPermissions(((granted || []) as { permission: Permission }[]).map((p) => p.permission))
+    setUser({ id: profile.id, username: profile.username, email: profile.email, role: profile.role })
+    return true
+  }, [])
+
+  useEffect(() => {
+    // Restore the stored session (verified and refreshed by Supabase Auth)
+    supabase.auth.getSession()
+      .then(({ data }) => loadUser(data.session))
+      .catch(() => setUser(null))
+      .finally(() => setIsLoading(false))
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      if (event === 'PASSWORD_RECOVERY') {
+        setIsPasswordRecovery(true)
+        // Defer so we don't query Supabase from inside its own auth callback
+        setTimeout(() => loadUser(session), 0)
+      } else if (event === 'SIGNED_OUT') {
+        setUser(null)
+        setIsPasswordRecovery(false)
+      }
+    })
+
+    return () => subscription.unsubscribe()
+  }, [loadUser])
+
+  // Owners hold every permission; the database enforces the same rule
+  const can = useCallback(
+    (permission: Permission) => user?.role === 'owner' || permissions.includes(permission),
+    [user, permissions]
+  )
+
+  const login = async (email: string, password: string): Promise<boolean> => {
+    const { data, error } = await supabase.auth.signInWithPassword({ email: email.trim(), password })
+    if (error) return false
+    return loadUser(data.session)
   }
 
-  const logout = () => {
+  const logout = async () => {
+    await supabase.auth.signOut()
     setUser(null)
-    localStorage.removeItem('altugreal_user')
+  }
+
+  const requestPasswordReset = async (email: string): Promise<boolean> => {
+    const { error } = await supabase.auth.resetPasswordForEmail(email.trim(), {
+      redirectTo: window.location.origin,
+    })
+    return !error
+  }
+
+  const updatePassword = async (password: string): Promise<boolean> => {
+    const { error } = await supabase.auth.updateUser({ password })
+    if (error) return false
+    setIsPasswordRecovery(false)
+    return true
   }
 
   return (
-    <AuthContext.Provider value={{ user, login, logout, isLoading }}>
+    <AuthContext.Provider
+      value={{ user, can, login, logout, requestPasswordReset, updatePassword, isPasswordRecovery, isLoading }}
+    >
       {children}
     </AuthContext.Provider>
   )
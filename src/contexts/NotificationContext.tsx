@@ -1,17 +1,34 @@
 'use client'
 
 import React, { createContext, useContext, useState, useCallback, ReactNode } from 'react'
-import { RecentSale, Sale } from '@/types/database'
+import {
+  RecentSale,
+  CheckoutResult,
+  VoidResult,
+  ExpiringLot,
+  ExpiredLot,
+  LowStockItem,
+  FoodCostAlert,
+} from '@/types/database'
 import { supabase } from '@/lib/supabase'
+import { fetchFoodCostAlerts } from '@/lib/foodCost'
+import { useAuth } from '@/contexts/AuthContext'
 import toast from 'react-hot-toast'
 
 interface NotificationContextType {
   recentSales: RecentSale[]
-  addRecentSale: (sale: Sale) => void
-  cancelSale: (saleId: string) => Promise<boolean>
-  removeRecentSale: (saleId: string) => void
+  addRecentSale: (checkout: CheckoutResult) => void
+  cancelSale: (transactionId: string, reason: string) => Promise<boolean>
+  voidTransaction: (transactionId: string, reason: string) => Promise<VoidResult | null>
+  removeRecentSale: (transactionId: string) => void
   storageWarning: string | null
   checkStorage: () => Promise<void>
+  expiringLots: ExpiringLot[]
+  checkExpiry: () => Promise<void>
+  lowStockItems: LowStockItem[]
+  checkLowStock: () => Promise<void>
+  foodCostAlerts: FoodCostAlert[]
+  checkFoodCost: () => Promise<void>
 }
 
 const NotificationContext = createContext<NotificationContextType | undefined>(undefined)
@@ -19,77 +36,72 @@ const NotificationContext = createContext<NotificationContextType | undefined>(u
 const CANCEL_WINDOW_MS = 30000 // 30 seconds
 
 export function NotificationProvider({ children }: { children: ReactNode }) {
+  const { user, can } = useAuth()
   const [recentSales, setRecentSales] = useState<RecentSale[]>([])
   const [storageWarning, setStorageWarning] = useState<string | null>(null)
+  const [expiringLots, setExpiringLots] = useState<ExpiringLot[]>([])
+  const [lowStockItems, setLowStockItems] = useState<LowStockItem[]>([])
+  const [foodCostAlerts, setFoodCostAlerts] = useState<FoodCostAlert[]>([])
 
-  const addRecentSale = useCallback((sale: Sale) => {
+  const addRecentSale = useCallback((checkout: CheckoutResult) => {
     const expiresAt = Date.now() + CANCEL_WINDOW_MS
     
     // Only keep ONE notification at a time - replace previous with new one
-    setRecentSales([{ sale, expiresAt }])
+    setRecentSales([{
+      transactionId: checkout.transaction_id,
+      transactionNumber: checkout.transaction_number,
+      sales: checkout.sales || [],
+      expiresAt,
+    }])
 
     // Auto-remove after expiry
     setTimeout(() => {
-      setRecentSales((prev) => prev.filter((rs) => rs.sale.id !== sale.id))
+      setRecentSales((prev) => prev.filter((rs) => rs.transactionId !== checkout.transaction_id))
     }, CANCEL_WINDOW_MS)
   }, [])
 
-  const cancelSale = useCallback(async (saleId: string): Promise<boolean> => {
-    const recentSale = recentSales.find((rs) => rs.sale.id === saleId)
+  // Void every line of a transaction and restore its ingredients (no time limit)
+  const voidTransaction = useCallback(async (transactionId: string, reason: string): Promise<VoidResult | null> => {
+    try {
+      const { data, error } = await (supabase as any).rpc('void_transaction', {
+        p_transaction_id: transactionId,
+        p_reason: reason,
+        p_voided_by: user?.username || null,
+      })
+
+      if (error) throw error
+
+      setRecentSales((prev) => prev.filter((rs) => rs.transactionId !== transactionId))
+      const result = data as VoidResult
+      toast.success(`Transaction ${result.transaction_number || ''} voided and inventory restored`)
+      return result
+    } catch (error: any) {
+      console.error('Error voiding transaction:', error)
+      toast.error(error?.message ? `Failed to void: ${error.message}` : 'Failed to void transaction')
+      return null
+    }
+  }, [user])
+
+  // Cancel a just-completed sale from the notification bar (within the cancel window)
+  const cancelSale = useCallback(async (transactionId: string, reason: string): Promise<boolean> => {
+    const recentSale = recentSales.find((rs) => rs.transactionId === transactionId)
     if (!recentSale) {
       toast.error('Sale cannot be cancelled - time expired')
       return false
     }
 
     if (Date.now() > recentSale.expiresAt) {
-      setRecentSales((prev) => prev.filter((rs) => rs.sale.id !== saleId))
+      setRecentSales((prev) => prev.filter((rs) => rs.transactionId !== transactionId))
       toast.error('Sale cannot be cancelled - time expired')
       return false
     }
 
-    try {
-      // Mark sale as cancelled
-      const { error: saleError } = await (supabase as any)
-        .from('sales')
-        .update({ cancelled: true, cancelled_at: new Date().toISOString() })
-        .eq('id', saleId)
-
-      if (saleError) throw saleError
-
-      // Restore inventory
-      const { error: inventoryError } = await (supabase as any).rpc('restore_inventory', {
-        p_product_id: recentSale.sale.product_id,
-        p_qty: recentSale.sale.qty
-      })
-
-      if (inventoryError) {
-        // Fallback: direct update
-        const { data: product } = await (supabase as any)
-          .from('products')
-          .select('qty')
-          .eq('id', recentSale.sale.product_id)
-          .single()
-
-        if (product) {
-          await (supabase as any)
-            .from('products')
-            .update({ qty: product.qty + recentSale.sale.qty })
-            .eq('id', recentSale.sale.product_id)
-        }
-      }
-
-      setRecentSales((prev) => prev.filter((rs) => rs.sale.id !== saleId))
-      toast.success('Sale cancelled and inventory restored')
-      return true
-    } catch (error) {
-      console.error('Error cancelling sale:', error)
-      toast.error('Failed to cancel sale')
-      return false
-    }
-  }, [recentSales])
+    const result = await voidTransaction(transactionId, reason)
+    return result !== null
+  }, [recentSales, voidTransaction])
 
-  const removeRecentSale = useCallback((saleId: string) => {
-    setRecentSales((prev) => prev.filter((rs) => rs.sale.id !== saleId))
+  const removeRecentSale = useCallback((transactionId: string) => {
+    setRecentSales((prev) => prev.filter((rs) => rs.transactionId !== transactionId))
   }, [])
 
   const checkStorage = useCallback(async () => {
@@ -123,15 +135,69 @@ export function NotificationProvider({ children }: { children: ReactNode }) {
     }
   }, [])
 
+  // Write off lots past their expiry date (for those who may), then list the
+  // ones expiring soon
+  const checkExpiry = useCallback(async () => {
+    if (!user) return
+    try {
+      if (can('log_waste') || can('manage_inventory')) {
+        const { data: expired, error: expireError } = await (supabase as any).rpc('expire_stock_lots')
+        if (expireError) throw expireError
+
+        const written = (expired || []) as ExpiredLot[]
+        if (written.length > 0) {
+          toast(`Expired stock written off as waste: ${Array.from(new Set(written.map((l) => l.name))).join(', ')}`, {
+            icon: '🗑️',
+          })
+        }
+      }
+
+      const { data, error } = await (supabase as any).rpc('expiring_stock_lots')
+      if (error) throw error
+      setExpiringLots((data || []) as ExpiringLot[])
+    } catch (error) {
+      console.error('Error checking expiring stock:', error)
+    }
+  }, [user, can])
+
+  // Items at or below their reorder point (checked after each checkout)
+  const checkLowStock = useCallback(async () => {
+    if (!user) return
+    try {
+      const { data, error } = await (supabase as any).rpc('low_stock_items')
+      if (error) throw error
+      setLowStockItems((data || []) as LowStockItem[])
+    } catch (error) {
+      console.error('Error checking low stock:', error)
+    }
+  }, [user])
+
+  // Products above the target food cost, for those who set prices and recipes
+  const checkFoodCost = useCallback(async () => {
+    if (!user || !can('edit_recipes')) return
+    try {
+      setFoodCostAlerts(await fetchFoodCostAlerts())
+    } catch (error) {
+      console.error('Error checking food cost:', error)
+    }
+  }, [user, can])
+
   return (
     <NotificationContext.Provider
       value={{
         recentSales,
         addRecentSale,
         cancelSale,
+        voidTransaction,
         removeRecentSale,
         storageWarning,
         checkStorage,
+        expiringLots,
+        checkExpiry,
+        lowStockItems,
+        checkLowStock,
+        foodCostAlerts,
+        checkFoodCost,
       }}
     >
       {children}
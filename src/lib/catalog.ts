@@ -0,0 +1,471 @@
+import { supabase } from '@/lib/supabase'
+import {
+  CatalogImportResult,
+  FinishedProduct,
+  PrepIngredient,
+  Product,
+  UnitOfMeasure,
+  UnitType,
+  VatStatus,
+} from '@/types/database'
+import { VAT_STATUS_LABELS } from '@/lib/tax'
+import {
+  convertQuantity,
+  recipeUnitLabel,
+  storageFactor,
+  storageUnitCost,
+  storageUnitLabel,
+  unitOptions,
+} from '@/lib/units'
+import { roundMoney, roundQuantity, roundUnitCost } from '@/lib/money'
+import { Cell, ReadSheet, Sheet } from '@/lib/spreadsheet'
+
+// Inventory items, finished products and recipes as spreadsheets, for setting
+// up a store or copying a catalog between branches. Rows are matched to what
+// is already there by name, ignoring case. planImport checks a file for the
+// preview the same way import_catalog does before it writes anything.
+
+export type CatalogSheet = 'items' | 'products' | 'recipes'
+
+export const CATALOG_SHEETS: { id: CatalogSheet; label: string; columns: string[]; notes: string }[] = [
+  {
+    id: 'items',
+    label: 'Items',
+    columns: ['name', 'unit_type', 'stock', 'cost', 'shelf_life_days', 'reorder_point', 'par_level', 'batch_yield'],
+    notes:
+      'unit_type is weight, volume or quantity. stock, reorder_point and par_level are in kg, L or pcs and cost is per kg, L or pc. A batch_yield (in g, ml or pcs) makes the item a prep item.',
+  },
+  {
+    id: 'products',
+    label: 'Products',
+    columns: ['name', 'selling_price', 'vat_status'],
+    notes: 'vat_status is vatable, exempt or zero_rated.',
+  },
+  {
+    id: 'recipes',
+    label: 'Recipes',
+    columns: ['recipe', 'ingredient', 'qty', 'unit'],
+    notes:
+      'One row per ingredient of a product or prep item. unit is g, ml, pcs, kg, L or a recipe unit such as tbsp; blank means g, ml or pcs. A recipe in the file replaces the whole recipe.',
+  },
+]
+
+const UNIT_TYPES: UnitType[] = ['weight', 'volume', 'quantity']
+
+// A product's ingredient (product_ingredients), in recipe units
+interface RecipeIngredient {
+  product_id: string
+  item_id: string
+  qty: number
+  unit_id: string | null
+}
+
+export interface CatalogData {
+  items: Product[]
+  products: FinishedProduct[]
+  productIngredients: RecipeIngredient[]
+  prepIngredients: PrepIngredient[]
+  units: UnitOfMeasure[]
+}
+
+export type ImportAction = 'create' | 'update' | 'unchanged' | 'error'
+
+export const IMPORT_ACTION_LABELS: Record<ImportAction, string> = {
+  create: 'New',
+  update: 'Update',
+  unchanged: 'No change',
+  error: 'Error',
+}
+
+// One row of the file as it would be imported; row is the spreadsheet row number
+export interface ImportRow {
+  sheet: CatalogSheet
+  sheetName: string
+  row: number
+  name: string
+  action: ImportAction
+  errors: string[]
+}
+
+// What import_catalog takes: stock, reorder_point and par_level in storage
+// units, cost per recipe unit, recipe quantities in recipe units; null leaves
+// an existing value as it is
+export interface CatalogImport {
+  items: {
+    name: string
+    unit_type: UnitType
+    stock: number | null
+    cost: number | null
+    shelf_life_days: number | null
+    reorder_point: number | null
+    par_level: number | null
+    batch_yield: number | null
+  }[]
+  products: { name: string; selling_price: number | null; vat_status: VatStatus | null }[]
+  recipes: { recipe: string; lines: { ingredient: string; qty: number; unit_id: string | null }[] }[]
+}
+
+export interface ImportPlan {
+  rows: ImportRow[]
+  // Sheets whose columns are not one of CATALOG_SHEETS
+  ignored: string[]
+  payload: CatalogImport
+}
+
+const nameKey = (name: string) => name.trim().toLowerCase()
+
+const headerKey = (header: string) =>
+  header
+    .trim()
+    .toLowerCase()
+    .replace(/[\s-]+/g, '_')
+
+// Which sheet a header row belongs to
+export const detectSheet = (headers: string[]): CatalogSheet | null => {
+  const keys = headers.map(headerKey)
+  if (keys.includes('recipe') && keys.includes('ingredient')) return 'recipes'
+  if (keys.includes('name') && keys.includes('unit_type')) return 'items'
+  if (keys.includes('name') && keys.includes('selling_price')) return 'products'
+  return null
+}
+
+// ---- Export ----
+
+const num = (value: number | null | undefined): Cell => (value === null || value === undefined ? null : Number(value))
+
+export const exportCatalog = (data: CatalogData, includeStock: boolean): Sheet[] => {
+  const itemOf = (id: string) => data.items.find((i) => i.id === id)
+  const byName = <T extends { name: string }>(a: T, b: T) => a.name.localeCompare(b.name)
+
+  // A recipe line in the unit it was entered in
+  const recipeRow = (recipe: string, line: { item_id: string; qty: number; unit_id: string | null }): Cell[] => {
+    const item = itemOf(line.item_id)
+    const unit = data.units.find((u) => u.id === line.unit_id)
+    return [
+      recipe,
+      item?.name || '',
+      unit ? convertQuantity(Number(line.qty), 1, Number(unit.factor)) : Number(line.qty),
+      unit ? unit.name : recipeUnitLabel(item?.unit_type),
+    ]
+  }
+
+  const items = [...data.items].sort(byName)
+  const products = [...data.products].sort(byName)
+
+  return [
+    {
+      name: 'Items',
+      rows: [
+        CATALOG_SHEETS[0].columns,
+        ...items.map((i) => [
+          i.name,
+          i.unit_type,
+          includeStock ? Number(i.qty) : null,
+          storageUnitCost(i.cost, i.unit_type),
+          num(i.shelf_life_days),
+          num(i.reorder_point),
+          num(i.par_level),
+          i.is_prep ? num(i.batch_yield) : null,
+        ]),
+      ],
+    },
+    {
+      name: 'Products',
+      rows: [CATALOG_SHEETS[1].columns, ...products.map((p) => [p.name, Number(p.selling_price), p.vat_status])],
+    },
+    {
+      name: 'Recipes',
+      rows: [
+        CATALOG_SHEETS[2].columns,
+        ...products.flatMap((p) =>
+          data.productIngredients
+            .filter((l) => l.product_id === p.id)
+            .map((l) => recipeRow(p.name, l))
+        ),
+        ...items
+          .filter((i) => i.is_prep)
+          .flatMap((i) => data.prepIngredients.filter((l) => l.prep_item_id === i.id).map((l) => recipeRow(i.name, l))),
+      ],
+    },
+  ]
+}
+
+// ---- Import ----
+
+// '' is null; anything else must be a number of at least min
+const parseNumber = (
+  value: string,
+  column: string,
+  errors: string[],
+  { min = 0, above = false, integer = false } = {}
+): number | null => {
+  const text = value.trim().replace(/,/g, '')
+  if (text === '') return null
+  const n = Number(text.replace(/^₱/, ''))
+  if (!Number.isFinite(n) || (above ? n <= min : n < min) || (integer && !Number.isInteger(n))) {
+    errors.push(
+      `${column} must be ${integer ? 'a whole number' : 'a number'} ${above ? `above ${min}` : `of at least ${min}`}`
+    )
+    return null
+  }
+  return n
+}
+
+const changed = (value: number | null, current: number | null | undefined) =>
+  value !== null && (current === null || current === undefined || Number(current) !== value)
+
+export const planImport = (
+  sheets: ReadSheet[],
+  data: CatalogData,
+  permissions: { items: boolean; recipes: boolean }
+): ImportPlan => {
+  const rows: ImportRow[] = []
+  const ignored: string[] = []
+  const payload: CatalogImport = { items: [], products: [], recipes: [] }
+  const input: Record<CatalogSheet, { sheetName: string; row: number; values: Record<string, string> }[]> = {
+    items: [],
+    products: [],
+    recipes: [],
+  }
+
+  for (const sheet of sheets) {
+    const headerIndex = sheet.rows.findIndex((r) => r.some((c) => c.trim() !== ''))
+    const sheetType = headerIndex >= 0 ? detectSheet(sheet.rows[headerIndex]) : null
+    if (!sheetType) {
+      ignored.push(sheet.name)
+      continue
+    }
+    const headers = sheet.rows[headerIndex].map(headerKey)
+    sheet.rows.forEach((r, i) => {
+      if (i <= headerIndex || r.every((c) => c.trim() === '')) return
+      input[sheetType].push({
+        sheetName: sheet.name,
+        row: i + 1,
+        values: Object.fromEntries(headers.map((h, c) => [h, (r[c] ?? '').trim()])),
+      })
+    })
+  }
+
+  const matches = <T extends { name: string }>(list: T[], name: string) => list.filter((x) => nameKey(x.name) === nameKey(name))
+  const addRow = (
+    sheet: CatalogSheet,
+    source: { sheetName: string; row: number },
+    name: string,
+    errors: string[],
+    action: Exclude<ImportAction, 'error'>
+  ) => rows.push({ sheet, sheetName: source.sheetName, row: source.row, name, errors, action: errors.length ? 'error' : action })
+
+  // Items
+  const importedItems = new Map<string, CatalogImport['items'][number]>()
+  for (const source of input.items) {
+    const v = source.values
+    const errors: string[] = []
+    const name = v.name || ''
+    const unitType = (v.unit_type || '').toLowerCase() as UnitType
+
+    if (!name) errors.push('name is empty')
+    else if (importedItems.has(nameKey(name))) errors.push(`${name} is listed more than once`)
+    if (!UNIT_TYPES.includes(unitType)) errors.push('unit_type must be weight, volume or quantity')
+    if (!permissions.items) errors.push('You do not have permission to edit inventory items')
+
+    const stock = parseNumber(v.stock || '', 'stock', errors)
+    const cost = parseNumber(v.cost || '', 'cost', errors)
+    const shelfLife = parseNumber(v.shelf_life_days || '', 'shelf_life_days', errors, { above: true, integer: true })
+    const reorderPoint = parseNumber(v.reorder_point || '', 'reorder_point', errors)
+    const parLevel = parseNumber(v.par_level || '', 'par_level', errors)
+    const batchYield = parseNumber(v.batch_yield || '', 'batch_yield', errors, { above: true })
+
+    const existing = name ? matches(data.items, name) : []
+    if (existing.length > 1) errors.push(`More than one item is called ${name}`)
+    const current = existing.length === 1 ? existing[0] : null
+    if (current && UNIT_TYPES.includes(unitType) && current.unit_type !== unitType) {
+      errors.push(`${current.name} is measured by ${current.unit_type}, not ${unitType}`)
+    }
+
+    const item = {
+      name,
+      unit_type: unitType,
+      stock: stock !== null ? roundQuantity(stock) : null,
+      cost: cost !== null && UNIT_TYPES.includes(unitType) ? roundUnitCost(cost / storageFactor(unitType)) : null,
+      shelf_life_days: shelfLife,
+      reorder_point: reorderPoint !== null ? roundQuantity(reorderPoint) : null,
+      par_level: parLevel !== null ? roundQuantity(parLevel) : null,
+      batch_yield: batchYield !== null ? roundQuantity(batchYield) : null,
+    }
+    if (name && !importedItems.has(nameKey(name))) importedItems.set(nameKey(name), item)
+    if (errors.length === 0) payload.items.push(item)
+
+    const isChanged =
+      !current ||
+      changed(item.stock, current.qty) ||
+      changed(item.cost, current.cost) ||
+      changed(item.shelf_life_days, current.shelf_life_days) ||
+      changed(item.reorder_point, current.reorder_point) ||
+      changed(item.par_level, current.par_level) ||
+      changed(item.batch_yield, current.batch_yield) ||
+      (item.batch_yield !== null && !current.is_prep)
+    addRow('items', source, name, errors, !current ? 'create' : isChanged ? 'update' : 'unchanged')
+  }
+
+  // Products
+  const importedProducts = new Set<string>()
+  for (const source of input.products) {
+    const v = source.values
+    const errors: string[] = []
+    const name = v.name || ''
+    const vatStatus = (v.vat_status || '').toLowerCase().replace(/[\s-]+/g, '_')
+
+    if (!name) errors.push('name is empty')
+    else if (importedProducts.has(nameKey(name))) errors.push(`${name} is listed more than once`)
+    if (vatStatus && !(vatStatus in VAT_STATUS_LABELS)) errors.push('vat_status must be vatable, exempt or zero_rated')
+    if (!permissions.recipes) errors.push('You do not have permission to edit products')
+
+    const price = parseNumber(v.selling_price || '', 'selling_price', errors)
+    const existing = name ? matches(data.products, name) : []
+    if (existing.length > 1) errors.push(`More than one product is called ${name}`)
+    const current = existing.length === 1 ? existing[0] : null
+    if (!current && price === null && errors.length === 0) errors.push('A new product needs a selling_price')
+
+    const product = {
+      name,
+      selling_price: price !== null ? roundMoney(price) : null,
+      vat_status: (vatStatus || null) as VatStatus | null,
+    }
+    if (name) importedProducts.add(nameKey(name))
+    if (errors.length === 0) payload.products.push(product)
+
+    const isChanged =
+      !current ||
+      changed(product.selling_price, current.selling_price) ||
+      (product.vat_status !== null && product.vat_status !== current.vat_status)
+    addRow('products', source, name, errors, !current ? 'create' : isChanged ? 'update' : 'unchanged')
+  }
+
+  // Recipes, grouped by the product or prep item they belong to
+  const itemUnitType = (name: string): { id: string; unit_type: UnitType } | null => {
+    const item = matches(data.items, name)[0]
+    if (item) return item
+    const imported = importedItems.get(nameKey(name))
+    return imported && UNIT_TYPES.includes(imported.unit_type) ? { id: '', unit_type: imported.unit_type } : null
+  }
+
+  const groups = new Map<string, typeof input.recipes>()
+  for (const source of input.recipes) {
+    const key = nameKey(source.values.recipe || '')
+    groups.set(key, [...(groups.get(key) || []), source])
+  }
+
+  groups.forEach((sources) => {
+    const recipe = sources[0].values.recipe || ''
+    const product = matches(data.products, recipe)
+    const prep = matches(
+      data.items.filter((i) => i.is_prep),
+      recipe
+    )
+    const isProduct = product.length > 0 || importedProducts.has(nameKey(recipe))
+    const isPrep = prep.length > 0 || (importedItems.get(nameKey(recipe))?.batch_yield ?? null) !== null
+
+    let recipeError: string | null = null
+    if (!recipe) recipeError = 'recipe is empty'
+    else if (isProduct && isPrep) recipeError = `Both a product and a prep item are called ${recipe}`
+    else if (!isProduct && !isPrep) recipeError = `No product or prep item is called ${recipe}`
+    else if (product.length > 1 || prep.length > 1) recipeError = `More than one ${isProduct ? 'product' : 'prep item'} is called ${recipe}`
+
+    const currentLines: { item_id: string; qty: number; unit_id: string | null }[] =
+      product.length === 1
+        ? data.productIngredients.filter((l) => l.product_id === product[0].id)
+        : prep.length === 1
+          ? data.prepIngredients.filter((l) => l.prep_item_id === prep[0].id)
+          : []
+
+    const lines: CatalogImport['recipes'][number]['lines'] = []
+    const seen = new Set<string>()
+    const rowErrors = sources.map((source) => {
+      const v = source.values
+      const errors: string[] = recipeError ? [recipeError] : []
+      const ingredient = v.ingredient || ''
+      const item = ingredient ? itemUnitType(ingredient) : null
+
+      if (!permissions.recipes) errors.push('You do not have permission to edit recipes')
+      if (!ingredient) errors.push('ingredient is empty')
+      else if (!item) errors.push(`No inventory item is called ${ingredient}`)
+      else if (nameKey(ingredient) === nameKey(recipe)) errors.push('A prep item cannot be made from itself')
+      else if (seen.has(nameKey(ingredient))) errors.push(`${ingredient} is already in this recipe`)
+      if (ingredient) seen.add(nameKey(ingredient))
+
+      const qty = parseNumber(v.qty || '', 'qty', errors, { above: true })
+      if (qty === null && (v.qty || '') === '') errors.push('qty is empty')
+
+      let factor = 1
+      let unitId: string | null = null
+      if (item && v.unit) {
+        const options = [
+          ...unitOptions(item, data.units, 'recipe'),
+          { key: 'storage', unitId: null, label: storageUnitLabel(item.unit_type), factor: storageFactor(item.unit_type) },
+        ]
+        const option = options.find((o) => nameKey(o.label) === nameKey(v.unit))
+        if (option) {
+          factor = option.factor
+          unitId = option.unitId
+        } else {
+          errors.push(`${v.unit} is not a unit of ${ingredient} (use ${options.map((o) => o.label).join(', ')})`)
+        }
+      }
+
+      if (errors.length === 0 && qty !== null) {
+        lines.push({ ingredient, qty: roundQuantity(qty * factor), unit_id: unitId })
+      }
+      return errors
+    })
+
+    if (rowErrors.every((e) => e.length === 0)) payload.recipes.push({ recipe, lines })
+
+    // Unchanged when every line is already there in the same amount
+    const unchanged =
+      currentLines.length === lines.length &&
+      lines.every((l) => {
+        const item = matches(data.items, l.ingredient)[0]
+        return currentLines.some((c) => c.item_id === item?.id && Number(c.qty) === l.qty && c.unit_id === l.unit_id)
+      })
+    sources.forEach((source, i) =>
+      addRow(
+        'recipes',
+        source,
+        `${recipe} · ${source.values.ingredient || ''}`,
+        rowErrors[i],
+        currentLines.length === 0 ? 'create' : unchanged ? 'unchanged' : 'update'
+      )
+    )
+  })
+
+  return { rows, ignored, payload }
+}
+
+export const fetchCatalog = async (): Promise<CatalogData> => {
+  const [itemsRes, productsRes, ingredientsRes, prepRes, unitsRes] = await Promise.all([
+    supabase.from('products').select('*').order('name'),
+    supabase.from('finished_products').select('*').order('name'),
+    supabase.from('product_ingredients').select('*'),
+    supabase.from('prep_ingredients').select('*'),
+    supabase.from('units_of_measure').select('*'),
+  ])
+  const error = itemsRes.error || productsRes.error || ingredientsRes.error || prepRes.error || unitsRes.error
+  if (error) throw error
+  return {
+    items: itemsRes.data || [],
+    products: productsRes.data || [],
+    productIngredients: (ingredientsRes.data || []) as RecipeIngredient[],
+    prepIngredients: prepRes.data || [],
+    units: unitsRes.data || [],
+  }
+}
+
+export const importCatalog = async (payload: CatalogImport): Promise<CatalogImportResult> => {
+  const { data, error } = await (supabase as any).rpc('import_catalog', {
+    p_items: payload.items,
+    p_products: payload.products,
+    p_recipes: payload.recipes,
+  })
+  if (error) throw error
+  return data as CatalogImportResult
+}
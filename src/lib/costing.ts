@@ -0,0 +1,24 @@
+import { supabase } from '@/lib/supabase'
+import { CostingMethod, Setting } from '@/types/database'
+
+// How stock leaving inventory is costed. The database applies the method when
+// stock moves (see log_stock_movement), so sale costs, stock value and the
+// Earnings item expenses all follow it.
+
+export const DEFAULT_COSTING_METHOD: CostingMethod = 'weighted_average'
+
+export const COSTING_METHOD_LABELS: Record<CostingMethod, string> = {
+  weighted_average: 'Weighted average',
+  fifo: 'FIFO',
+}
+
+export const COSTING_METHOD_DESCRIPTIONS: Record<CostingMethod, string> = {
+  weighted_average: "Each delivery is averaged into the item's cost; sales take stock out at that average.",
+  fifo: 'Each delivery keeps its own price; sales use up the oldest stock first, at what it cost.',
+}
+
+// The costing_method setting, falling back to the default
+export const fetchCostingMethod = async (): Promise<CostingMethod> => {
+  const { data } = await supabase.from('settings').select('*').eq('key', 'costing_method').maybeSingle()
+  return (data as Setting | null)?.value === 'fifo' ? 'fifo' : DEFAULT_COSTING_METHOD
+}
@@ -0,0 +1,68 @@
+import { supabase } from '@/lib/supabase'
+import { Receipt, receiptLines } from '@/lib/receipt'
+
+// Raw ESC/POS output for 58mm and 80mm thermal printers. Text is sent in the
+// printer's default code page, so anything outside plain ASCII is simplified.
+
+const ESC = 0x1b
+const GS = 0x1d
+const LF = 0x0a
+
+const INIT = [ESC, 0x40]
+const align = (center: boolean) => [ESC, 0x61, center ? 1 : 0]
+const bold = (on: boolean) => [ESC, 0x45, on ? 1 : 0]
+const size = (large: boolean) => [GS, 0x21, large ? 0x11 : 0x00]
+const FEED_AND_CUT = [ESC, 0x64, 4, GS, 0x56, 0x42, 0x00]
+
+// "Peña ₱" -> "Pena P"
+export const toPrinterText = (text: string): string =>
+  text
+    .replace(/₱/g, 'P')
+    .normalize('NFD')
+    .replace(/[̀-ͯ]/g, '')
+    .replace(/[^\x20-\x7e]/g, '?')
+
+export const encodeReceipt = (receipt: Receipt) => {
+  const bytes: number[] = [...INIT]
+  for (const line of receiptLines(receipt)) {
+    bytes.push(...align(line.align === 'center'), ...bold(!!line.bold), ...size(!!line.large))
+    for (const char of toPrinterText(line.text)) bytes.push(char.charCodeAt(0))
+    bytes.push(LF)
+  }
+  bytes.push(...bold(false), ...size(false), ...align(false), ...FEED_AND_CUT)
+  return Uint8Array.from(bytes)
+}
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = ''
+  bytes.forEach((b) => (binary += String.fromCharCode(b)))
+  return btoa(binary)
+}
+
+// Send a receipt to the printer configured on the server (RECEIPT_PRINTER)
+export async function printReceipt(receipt: Receipt): Promise<void> {
+  const { data } = await supabase.auth.getSession()
+  const response = await fetch('/api/print', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${data.session?.access_token ?? ''}`,
+    },
+    body: JSON.stringify({ data: toBase64(encodeReceipt(receipt)) }),
+  })
+  const body = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(body.error || `Request failed (${response.status})`)
+  }
+}
+
+// Save the ESC/POS bytes as a file, e.g. to check them with a printer emulator
+export const downloadReceipt = (receipt: Receipt) => {
+  const blob = new Blob([encodeReceipt(receipt)], { type: 'application/octet-stream' })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = `receipt-${receipt.transactionNumber}.bin`
+  a.click()
+  URL.revokeObjectURL(url)
+}
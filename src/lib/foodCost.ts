@@ -0,0 +1,41 @@
+import { supabase } from '@/lib/supabase'
+import { FoodCostAlert, ProductCost, ProductCostHistory, Setting } from '@/types/database'
+
+// Food cost: what a finished product's recipe costs as a percentage of its
+// price before VAT. The database works it out (see product_costs) and records
+// every change to it in product_cost_history.
+
+export const DEFAULT_TARGET_FOOD_COST_PCT = 30
+
+// The target_food_cost_pct setting, falling back to the default
+export const fetchTargetFoodCostPct = async (): Promise<number> => {
+  const { data } = await supabase.from('settings').select('*').eq('key', 'target_food_cost_pct').maybeSingle()
+  const pct = parseFloat((data as Setting | null)?.value ?? '')
+  return isNaN(pct) ? DEFAULT_TARGET_FOOD_COST_PCT : pct
+}
+
+// Every finished product's current food cost, with the figures recorded at `since`
+export const fetchProductCosts = async (since: Date | null): Promise<ProductCost[]> => {
+  const { data, error } = await (supabase as any).rpc('product_costs', {
+    p_since: since ? since.toISOString() : null,
+  })
+  if (error) throw error
+  return (data || []) as ProductCost[]
+}
+
+export const fetchProductCostHistory = async (productId: string): Promise<ProductCostHistory[]> => {
+  const { data, error } = await supabase
+    .from('product_cost_history')
+    .select('*')
+    .eq('product_id', productId)
+    .order('recorded_at', { ascending: false })
+    .limit(50)
+  if (error) throw error
+  return data || []
+}
+
+export const fetchFoodCostAlerts = async (): Promise<FoodCostAlert[]> => {
+  const { data, error } = await (supabase as any).rpc('food_cost_alerts')
+  if (error) throw error
+  return (data || []) as FoodCostAlert[]
+}
@@ -0,0 +1,237 @@
+import {
+  BundleComponent,
+  BundleSubstitute,
+  ModifierGroup,
+  ModifierOption,
+  OptionIngredient,
+  ProductVariant,
+  Sale,
+} from '@/types/database'
+import { roundMoney } from '@/lib/money'
+
+// Sizes, add-ons and bundle substitutions chosen at the till. Mirrors
+// cart_line_options and line_ingredients in the database, which check the
+// choice again at checkout.
+
+export interface ModifierGroupWithOptions extends ModifierGroup {
+  options: ModifierOption[]
+}
+
+export interface BundleComponentWithSubstitutes extends BundleComponent {
+  substitutes: BundleSubstitute[]
+}
+
+export interface ProductOptions {
+  variants: ProductVariant[]
+  groups: ModifierGroupWithOptions[]
+  components: BundleComponentWithSubstitutes[]
+}
+
+export interface OptionSelection {
+  variantId: string | null
+  modifierIds: string[]
+  // Bundle component id -> product swapped in for it
+  substitutions: Record<string, string>
+}
+
+// A bundle component as it will be made (see bundle_items on sales)
+export interface BundleItem {
+  component_id: string
+  product_id: string
+  qty: number
+  price_delta: number
+}
+
+export interface IngredientQty {
+  item_id: string
+  qty: number
+}
+
+export const NO_OPTIONS: ProductOptions = { variants: [], groups: [], components: [] }
+
+const bySortOrder = <T extends { sort_order: number; name: string }>(a: T, b: T): number =>
+  a.sort_order - b.sort_order || a.name.localeCompare(b.name)
+
+// Whether the till has anything to choose for the product
+export const hasOptions = (options: ProductOptions): boolean =>
+  options.variants.length > 0 || options.groups.length > 0 || options.components.some((c) => c.substitutes.length > 0)
+
+export const isBundle = (options: ProductOptions): boolean => options.components.length > 0
+
+// Option rows grouped by product (bundle components by bundle), in the order
+// the till shows them
+export const groupProductOptions = (
+  variants: ProductVariant[],
+  groups: ModifierGroup[],
+  modifierOptions: ModifierOption[],
+  components: BundleComponent[] = [],
+  substitutes: BundleSubstitute[] = []
+): Record<string, ProductOptions> => {
+  const byProduct: Record<string, ProductOptions> = {}
+  const forProduct = (productId: string) => (byProduct[productId] ||= { variants: [], groups: [], components: [] })
+
+  for (const variant of [...variants].sort(bySortOrder)) forProduct(variant.product_id).variants.push(variant)
+  for (const group of [...groups].sort(bySortOrder)) {
+    forProduct(group.product_id).groups.push({
+      ...group,
+      options: modifierOptions.filter((o) => o.group_id === group.id).sort(bySortOrder),
+    })
+  }
+  for (const component of [...components].sort((a, b) => a.sort_order - b.sort_order)) {
+    forProduct(component.bundle_id).components.push({
+      ...component,
+      substitutes: substitutes.filter((s) => s.component_id === component.id).sort((a, b) => a.sort_order - b.sort_order),
+    })
+  }
+  return byProduct
+}
+
+// First size, no modifiers, every bundle component as listed
+export const defaultSelection = (options: ProductOptions): OptionSelection => ({
+  variantId: options.variants[0]?.id || null,
+  modifierIds: [],
+  substitutions: {},
+})
+
+// Cart lines are one per product and selection
+export const selectionKey = (productId: string, selection: OptionSelection): string =>
+  [
+    productId,
+    selection.variantId || '',
+    [...selection.modifierIds].sort().join(','),
+    Object.entries(selection.substitutions)
+      .map(([componentId, productId]) => `${componentId}:${productId}`)
+      .sort()
+      .join(','),
+  ].join('|')
+
+const chosenSubstitute = (component: BundleComponentWithSubstitutes, selection: OptionSelection) =>
+  component.substitutes.find((s) => s.product_id === selection.substitutions[component.id])
+
+// Every component of a bundle as it will be made, substitutions applied
+export const bundleItems = (options: ProductOptions, selection: OptionSelection): BundleItem[] =>
+  options.components.map((component) => {
+    const substitute = chosenSubstitute(component, selection)
+    return {
+      component_id: component.id,
+      product_id: substitute?.product_id || component.product_id,
+      qty: Number(component.qty),
+      price_delta: Number(substitute?.price_delta || 0),
+    }
+  })
+
+// Swap a bundle component for one of its substitutes, or back to itself
+export const substituteComponent = (
+  component: BundleComponentWithSubstitutes,
+  selection: OptionSelection,
+  productId: string
+): OptionSelection => {
+  const substitutions = { ...selection.substitutions }
+  if (productId === component.product_id) delete substitutions[component.id]
+  else substitutions[component.id] = productId
+  return { ...selection, substitutions }
+}
+
+const chosenModifiers = (options: ProductOptions, selection: OptionSelection) =>
+  options.groups.flatMap((g) => g.options.filter((o) => selection.modifierIds.includes(o.id)).map((o) => ({ group: g, option: o })))
+
+// What the size and modifiers add to the product's selling price
+export const optionsPriceDelta = (options: ProductOptions, selection: OptionSelection): number => {
+  const variant = options.variants.find((v) => v.id === selection.variantId)
+  return roundMoney(
+    Number(variant?.price_delta || 0) +
+      chosenModifiers(options, selection).reduce((sum, m) => sum + Number(m.option.price_delta), 0) +
+      bundleItems(options, selection).reduce((sum, b) => sum + b.price_delta, 0)
+  )
+}
+
+// Pick or unpick a modifier. A group that allows one choice behaves like radio
+// buttons; other groups stop at max_select.
+export const toggleModifier = (
+  group: ModifierGroupWithOptions,
+  selection: OptionSelection,
+  optionId: string
+): OptionSelection => {
+  const groupIds = group.options.map((o) => o.id)
+  if (selection.modifierIds.includes(optionId)) {
+    return { ...selection, modifierIds: selection.modifierIds.filter((id) => id !== optionId) }
+  }
+  if (group.max_select === 1) {
+    return { ...selection, modifierIds: [...selection.modifierIds.filter((id) => !groupIds.includes(id)), optionId] }
+  }
+  if (selection.modifierIds.filter((id) => groupIds.includes(id)).length >= group.max_select) return selection
+  return { ...selection, modifierIds: [...selection.modifierIds, optionId] }
+}
+
+// Same rules and messages as cart_line_options, or null when the choice is complete
+export const selectionError = (options: ProductOptions, selection: OptionSelection): string | null => {
+  if (options.variants.length > 0 && !options.variants.some((v) => v.id === selection.variantId)) {
+    return 'Choose a size'
+  }
+  for (const group of options.groups) {
+    const chosen = group.options.filter((o) => selection.modifierIds.includes(o.id)).length
+    if (chosen < group.min_select) return `Choose at least ${group.min_select} from ${group.name}`
+    if (chosen > group.max_select) return `Choose at most ${group.max_select} from ${group.name}`
+  }
+  for (const [componentId, productId] of Object.entries(selection.substitutions)) {
+    const component = options.components.find((c) => c.id === componentId)
+    if (!component || (productId !== component.product_id && !chosenSubstitute(component, selection))) {
+      return 'Unknown substitute'
+    }
+  }
+  return null
+}
+
+const describeComponents = (items: { name: string; qty: number }[]): string =>
+  items.map((item) => (Number(item.qty) > 1 ? `${Number(item.qty)}× ${item.name}` : item.name)).join(', ')
+
+// "Large · Oat milk, Extra shot" or, for a bundle, "Burger, 2× Fries, Iced Tea"
+export const describeSelection = (
+  options: ProductOptions,
+  selection: OptionSelection,
+  productName: (productId: string) => string
+): string => {
+  const variant = options.variants.find((v) => v.id === selection.variantId)
+  const modifiers = chosenModifiers(options, selection).map((m) => m.option.name)
+  const components = bundleItems(options, selection).map((b) => ({ name: productName(b.product_id), qty: b.qty }))
+  return [variant?.name, modifiers.join(', '), describeComponents(components)].filter(Boolean).join(' · ')
+}
+
+// The same description for a recorded sale line
+export const describeSaleOptions = (sale: Pick<Sale, 'variant_name' | 'modifiers' | 'bundle_items'>): string =>
+  [sale.variant_name, (sale.modifiers || []).map((m) => m.name).join(', '), describeComponents(sale.bundle_items || [])]
+    .filter(Boolean)
+    .join(' · ')
+
+// Ingredients (recipe units) for one unit: the base recipe plus the size's and
+// modifiers' changes, plus each bundle component's recipe (components: the
+// bundleItems with their base ingredients), never below zero
+export const lineIngredients = (
+  baseIngredients: IngredientQty[],
+  optionIngredients: OptionIngredient[],
+  selection: OptionSelection,
+  components: { qty: number; ingredients: IngredientQty[] }[] = []
+): IngredientQty[] => {
+  const totals: Record<string, number> = {}
+  const add = (itemId: string, qty: number) => (totals[itemId] = (totals[itemId] || 0) + Number(qty))
+
+  for (const ing of baseIngredients) add(ing.item_id, ing.qty)
+  for (const component of components) {
+    for (const ing of component.ingredients) add(ing.item_id, Number(ing.qty) * component.qty)
+  }
+  for (const ing of optionIngredients) {
+    if (
+      (ing.variant_id && ing.variant_id === selection.variantId) ||
+      (ing.modifier_option_id && selection.modifierIds.includes(ing.modifier_option_id))
+    ) {
+      add(ing.item_id, ing.qty)
+    }
+  }
+  return Object.entries(totals)
+    .filter(([, qty]) => qty > 0)
+    .map(([item_id, qty]) => ({ item_id, qty }))
+}
+
+// "+₱30.00" / "−₱10.00"
+export const formatPriceDelta = (delta: number): string =>
+  `${delta < 0 ? '−' : '+'}₱${Math.abs(Number(delta)).toFixed(2)}`
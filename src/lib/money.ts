@@ -0,0 +1,41 @@
+// Money and quantity arithmetic. Amounts are added up in whole centavos so
+// that a column of prices totals the same here as in the database, and every
+// rounding goes through roundTo, which rounds halves away from zero like
+// Postgres round(). Scales follow the schema: money DECIMAL(10,2), quantities
+// DECIMAL(12,4), purchase prices per storage unit DECIMAL(12,4) and costs per
+// recipe unit DECIMAL(12,6).
+
+export const MONEY_SCALE = 2
+export const QUANTITY_SCALE = 4
+export const PURCHASE_COST_SCALE = 4
+export const UNIT_COST_SCALE = 6
+
+export const roundTo = (value: number, scale: number): number => {
+  const factor = 10 ** scale
+  // toPrecision drops the binary noise in e.g. 1.005 * 100 = 100.49999999999999
+  const n = Number(value) || 0
+  const scaled = Number((Math.abs(n) * factor).toPrecision(15))
+  const rounded = (Math.sign(n) * Math.round(scaled)) / factor
+  return rounded === 0 ? 0 : rounded
+}
+
+export const roundMoney = (value: number): number => roundTo(value, MONEY_SCALE)
+
+export const roundQuantity = (value: number): number => roundTo(value, QUANTITY_SCALE)
+
+export const roundPurchaseCost = (value: number): number => roundTo(value, PURCHASE_COST_SCALE)
+
+export const roundUnitCost = (value: number): number => roundTo(value, UNIT_COST_SCALE)
+
+export const toCentavos = (value: number): number => Math.round(roundMoney(value) * 100)
+
+export const fromCentavos = (centavos: number): number => centavos / 100
+
+// Each amount rounded to the centavo, then added as integers
+export const sumMoney = (amounts: number[]): number =>
+  fromCentavos(amounts.reduce((sum, amount) => sum + toCentavos(Number(amount) || 0), 0))
+
+export const addMoney = (...amounts: number[]): number => sumMoney(amounts)
+
+// A quantity (or rate) times a price, rounded to the centavo once
+export const multiplyMoney = (amount: number, by: number): number => roundMoney(Number(amount) * Number(by))
@@ -0,0 +1,46 @@
+import { PaymentMethod } from '@/types/database'
+import { addMoney, roundMoney, sumMoney } from '@/lib/money'
+
+// Split tenders at the till. Mirrors the tender checks in process_checkout:
+// change only comes out of cash, so non-cash tenders may not exceed the total.
+
+export interface Tender {
+  paymentMethod: string
+  amount: string
+  referenceNumber: string
+}
+
+export interface TenderSummary {
+  paid: number
+  cash: number
+  nonCash: number
+  balance: number
+  change: number
+  error: string | null
+}
+
+export const isCashMethod = (paymentMethods: PaymentMethod[], name: string): boolean =>
+  paymentMethods.find((pm) => pm.name === name)?.is_cash || false
+
+export const summarizeTenders = (tenders: Tender[], paymentMethods: PaymentMethod[], total: number): TenderSummary => {
+  const amountsOf = (cashTenders: boolean) =>
+    tenders
+      .filter((t) => isCashMethod(paymentMethods, t.paymentMethod) === cashTenders)
+      .map((t) => parseFloat(t.amount) || 0)
+  const cash = sumMoney(amountsOf(true))
+  const nonCash = sumMoney(amountsOf(false))
+  const paid = addMoney(cash, nonCash)
+
+  let error: string | null = null
+  if (tenders.some((t) => !(parseFloat(t.amount) > 0))) error = 'Each payment needs an amount'
+  else if (nonCash > total) error = 'Change can only be given from cash'
+
+  return {
+    paid,
+    cash,
+    nonCash,
+    balance: Math.max(0, roundMoney(total - paid)),
+    change: Math.max(0, roundMoney(paid - total)),
+    error,
+  }
+}
@@ -0,0 +1,39 @@
+import { Permission, UserRole } from '@/types/database'
+
+export const PERMISSIONS: { id: Permission; label: string; description: string }[] = [
+  { id: 'view_reports', label: 'View reports', description: 'Open Reports and the sequence audit' },
+  { id: 'void_sales', label: 'Void sales', description: 'Void transactions after the 1-minute cancel window' },
+  { id: 'edit_report_date', label: 'Edit Report Date', description: 'Move a transaction to another earnings date' },
+  { id: 'archive_reports', label: 'Archive reports', description: 'Export and archive transactions' },
+  { id: 'manage_inventory', label: 'Manage inventory', description: 'Add, restock and delete inventory items, and manage purchasing' },
+  { id: 'edit_recipes', label: 'Edit recipes', description: 'Create products and change their ingredients' },
+  { id: 'view_earnings', label: 'View earnings', description: 'Open the Earnings page' },
+  { id: 'manage_opex', label: 'Manage OPEX', description: 'Open and edit operating expenses' },
+  { id: 'apply_discounts', label: 'Apply discounts', description: 'Give manual line and order discounts at checkout' },
+  { id: 'log_waste', label: 'Log waste', description: 'Record spoiled, spilled or comped stock and take it out of inventory' },
+  { id: 'count_stock', label: 'Count stock', description: 'Run stock counts and enter counted quantities for the owner to approve' },
+]
+
+// Owners always hold every permission; these roles are configured in Settings
+export const CONFIGURABLE_ROLES: Exclude<UserRole, 'owner'>[] = ['manager', 'cashier']
+
+export type NavPage = 'sales' | 'reports' | 'inventory' | 'purchasing' | 'earnings' | 'opex' | 'settings'
+
+// Sales is open to everyone and Settings to owners only; other pages need any of these
+const PAGE_PERMISSIONS: Record<Exclude<NavPage, 'sales' | 'settings'>, Permission[]> = {
+  reports: ['view_reports'],
+  inventory: ['manage_inventory', 'edit_recipes', 'log_waste', 'count_stock'],
+  purchasing: ['manage_inventory'],
+  earnings: ['view_earnings'],
+  opex: ['manage_opex'],
+}
+
+export function canAccessPage(
+  page: NavPage,
+  role: UserRole | undefined,
+  can: (permission: Permission) => boolean
+): boolean {
+  if (page === 'sales') return true
+  if (page === 'settings') return role === 'owner'
+  return PAGE_PERMISSIONS[page].some(can)
+}
@@ -0,0 +1,150 @@
+import { ManualDiscount, Promotion } from '@/types/database'
+import { roundMoney, sumMoney } from '@/lib/money'
+
+// Cart pricing shown at the till. Mirrors price_cart in the database, which
+// re-prices the cart at checkout and is what actually gets recorded.
+
+export interface PricingLine {
+  productId: string
+  qty: number
+  sellingPrice: number
+  discount?: ManualDiscount | null
+}
+
+export interface PricedLine {
+  productId: string
+  gross: number
+  discountAmount: number
+  discountReason: string | null
+  promotionId: string | null
+}
+
+export interface PricedCart {
+  lines: PricedLine[]
+  subtotal: number
+  discount: number
+  total: number
+}
+
+export const normalizePromoCode = (code: string): string => code.trim().toUpperCase()
+
+export const isPromotionLive = (promotion: Promotion, now: Date = new Date()): boolean =>
+  promotion.is_active &&
+  (!promotion.starts_at || new Date(promotion.starts_at) <= now) &&
+  (!promotion.ends_at || new Date(promotion.ends_at) > now)
+
+// Same cap and rounding as manual_discount_amount
+export const manualDiscountAmount = (discount: ManualDiscount, base: number): number =>
+  discount.type === 'percent'
+    ? roundMoney((base * discount.value) / 100)
+    : Math.min(roundMoney(discount.value), base)
+
+const lineDiscountAmount = (promotion: Promotion, line: PricingLine, gross: number): number => {
+  let amount: number
+  if (promotion.discount_type === 'percent') {
+    amount = roundMoney((gross * promotion.value) / 100)
+  } else if (promotion.discount_type === 'fixed') {
+    amount = roundMoney(promotion.value * line.qty)
+  } else {
+    const groupSize = (promotion.buy_qty || 0) + (promotion.get_qty || 0)
+    amount = groupSize > 0 ? Math.floor(line.qty / groupSize) * (promotion.get_qty || 0) * line.sellingPrice : 0
+  }
+  return Math.min(amount, gross)
+}
+
+const orderDiscountAmount = (promotion: Promotion, subtotal: number): number =>
+  Math.min(
+    promotion.discount_type === 'percent' ? roundMoney((subtotal * promotion.value) / 100) : roundMoney(promotion.value),
+    subtotal
+  )
+
+// Highest discount wins; ties go to the alphabetically first promotion
+const best = (candidates: { promotion: Promotion; amount: number }[]): { promotion: Promotion; amount: number } | null =>
+  candidates
+    .filter((c) => c.amount > 0)
+    .sort((a, b) => b.amount - a.amount || a.promotion.name.localeCompare(b.promotion.name))[0] || null
+
+export const priceCart = (
+  lines: PricingLine[],
+  promotions: Promotion[],
+  orderDiscount: ManualDiscount | null = null,
+  promoCodes: string[] = []
+): PricedCart => {
+  const codes = promoCodes.map(normalizePromoCode)
+  const usable = promotions.filter(
+    (p) => isPromotionLive(p) && (!p.code || codes.includes(normalizePromoCode(p.code)))
+  )
+
+  const priced: PricedLine[] = lines.map((line) => {
+    const gross = roundMoney(line.qty * line.sellingPrice)
+    if (line.discount) {
+      return {
+        productId: line.productId,
+        gross,
+        discountAmount: manualDiscountAmount(line.discount, gross),
+        discountReason: line.discount.reason.trim(),
+        promotionId: null,
+      }
+    }
+    const winner = best(
+      usable
+        .filter((p) => p.product_id === line.productId)
+        .map((promotion) => ({ promotion, amount: lineDiscountAmount(promotion, line, gross) }))
+    )
+    return {
+      productId: line.productId,
+      gross,
+      discountAmount: winner ? winner.amount : 0,
+      discountReason: winner ? winner.promotion.name : null,
+      promotionId: winner ? winner.promotion.id : null,
+    }
+  })
+
+  const afterLineDiscounts = sumMoney(priced.map((l) => l.gross - l.discountAmount))
+
+  let orderAmount = 0
+  let orderReason: string | null = null
+  let orderPromotionId: string | null = null
+  if (orderDiscount) {
+    orderAmount = manualDiscountAmount(orderDiscount, afterLineDiscounts)
+    orderReason = orderDiscount.reason.trim()
+  } else {
+    const winner = best(
+      usable
+        .filter((p) => !p.product_id && p.discount_type !== 'bxgy')
+        .map((promotion) => ({ promotion, amount: orderDiscountAmount(promotion, afterLineDiscounts) }))
+    )
+    if (winner) {
+      orderAmount = winner.amount
+      orderReason = winner.promotion.name
+      orderPromotionId = winner.promotion.id
+    }
+  }
+
+  // Spread the order discount by net amount; the last discountable line takes the remainder
+  let lastIndex = -1
+  priced.forEach((l, i) => {
+    if (l.gross > l.discountAmount) lastIndex = i
+  })
+  let allocated = 0
+  const withOrder = priced.map((line, i) => {
+    const net = roundMoney(line.gross - line.discountAmount)
+    if (orderAmount <= 0 || net <= 0) return line
+    const share = Math.max(
+      0,
+      Math.min(i === lastIndex ? roundMoney(orderAmount - allocated) : roundMoney((orderAmount * net) / afterLineDiscounts), net)
+    )
+    allocated = roundMoney(allocated + share)
+    if (share <= 0) return line
+    return {
+      ...line,
+      discountAmount: roundMoney(line.discountAmount + share),
+      discountReason: [line.discountReason, orderReason].filter(Boolean).join('; '),
+      promotionId: line.promotionId || orderPromotionId,
+    }
+  })
+
+  const subtotal = sumMoney(withOrder.map((l) => l.gross))
+  const discount = sumMoney(withOrder.map((l) => l.discountAmount))
+  return { lines: withOrder, subtotal, discount, total: roundMoney(subtotal - discount) }
+}
@@ -0,0 +1,239 @@
+import { format } from 'date-fns'
+import { supabase } from '@/lib/supabase'
+import { Sale, SalePayment, Setting } from '@/types/database'
+import { describeSaleOptions } from '@/lib/modifiers'
+import { roundMoney, sumMoney } from '@/lib/money'
+
+// Receipt layout shared by the HTML print view and the ESC/POS encoder, so the
+// paper receipt and the thermal receipt always carry the same lines.
+
+export type PaperWidth = '58' | '80'
+
+// Characters per line in the printer's default font
+export const PAPER_COLUMNS: Record<PaperWidth, number> = { '58': 32, '80': 48 }
+
+export const RECEIPT_SETTING_KEYS = [
+  'receipt_store_name',
+  'receipt_address',
+  'receipt_tin',
+  'receipt_footer',
+  'receipt_paper_width',
+] as const
+
+export interface ReceiptHeader {
+  storeName: string
+  address: string
+  tin: string
+  footer: string
+  paperWidth: PaperWidth
+}
+
+export const DEFAULT_RECEIPT_HEADER: ReceiptHeader = {
+  storeName: 'Altu Greal',
+  address: '',
+  tin: '',
+  footer: 'Thank you!',
+  paperWidth: '58',
+}
+
+export interface ReceiptLine {
+  text: string
+  align?: 'left' | 'center'
+  bold?: boolean
+  large?: boolean
+}
+
+export interface Receipt {
+  header: ReceiptHeader
+  transactionNumber: string
+  createdAt: string
+  customerType: string
+  dineInTakeout: 'dine_in' | 'takeout' | null
+  items: { name: string; options: string; qty: number; unitPrice: number; gross: number; discount: number; discountReason: string | null }[]
+  subtotal: number
+  discount: number
+  vatExemption: number
+  total: number
+  vatableSales: number
+  vatAmount: number
+  vatExemptSales: number
+  zeroRatedSales: number
+  tenders: { method: string; tendered: number; reference: string | null }[]
+  change: number
+  statutoryIdNumber: string | null
+  statutoryIdName: string | null
+  voided: boolean
+  reprint: boolean
+}
+
+const sum = <T>(rows: T[], pick: (row: T) => number): number => sumMoney(rows.map((r) => Number(pick(r) || 0)))
+
+export const formatReceiptMoney = (value: number): string =>
+  value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+
+// Store header from the receipt_* settings, falling back to the defaults
+export const fetchReceiptHeader = async (): Promise<ReceiptHeader> => {
+  const { data } = await supabase.from('settings').select('*').in('key', RECEIPT_SETTING_KEYS as unknown as string[])
+  const values = Object.fromEntries(((data || []) as Setting[]).map((s) => [s.key, s.value]))
+  return {
+    storeName: values.receipt_store_name || DEFAULT_RECEIPT_HEADER.storeName,
+    address: values.receipt_address ?? DEFAULT_RECEIPT_HEADER.address,
+    tin: values.receipt_tin ?? DEFAULT_RECEIPT_HEADER.tin,
+    footer: values.receipt_footer ?? DEFAULT_RECEIPT_HEADER.footer,
+    paperWidth: values.receipt_paper_width === '80' ? '80' : '58',
+  }
+}
+
+// Build a receipt from a transaction's sale lines and tenders
+export const buildReceipt = (
+  header: ReceiptHeader,
+  sales: Sale[],
+  payments: SalePayment[],
+  reprint: boolean = false
+): Receipt => {
+  const first = sales[0]
+  const lines = [...sales].sort((a, b) => a.product_name.localeCompare(b.product_name))
+  const subtotal = sum(lines, (s) => s.selling_price * s.qty)
+  const total = sum(lines, (s) => s.total)
+  const tenders = payments.map((p) => ({
+    method: p.payment_method,
+    tendered: Number(p.tendered),
+    reference: p.reference_number,
+  }))
+  const paid = sum(tenders, (t) => t.tendered)
+
+  return {
+    header,
+    transactionNumber: first?.transaction_number || (first?.transaction_id || first?.id || '').substring(0, 8),
+    createdAt: first?.created_at || new Date().toISOString(),
+    customerType: first?.customer_type || '',
+    dineInTakeout: first?.dine_in_takeout || null,
+    items: lines.map((s) => ({
+      name: s.product_name,
+      options: describeSaleOptions(s),
+      qty: Number(s.qty),
+      unitPrice: Number(s.selling_price),
+      gross: roundMoney(s.selling_price * s.qty),
+      discount: Number(s.discount_amount || 0),
+      discountReason: s.discount_reason,
+    })),
+    subtotal,
+    discount: sum(lines, (s) => s.discount_amount),
+    vatExemption: sum(lines, (s) => s.vat_exemption),
+    total,
+    vatableSales: sum(lines, (s) => s.vatable_sales),
+    vatAmount: sum(lines, (s) => s.vat_amount),
+    vatExemptSales: sum(lines, (s) => s.vat_exempt_sales),
+    zeroRatedSales: sum(lines, (s) => s.zero_rated_sales),
+    tenders,
+    change: Math.max(0, roundMoney(paid - total)),
+    statutoryIdNumber: first?.statutory_id_number || null,
+    statutoryIdName: first?.statutory_id_name || null,
+    voided: lines.length > 0 && lines.every((s) => s.cancelled),
+    reprint,
+  }
+}
+
+// Load a recorded transaction for reprinting (needs read access to sales)
+export const fetchReceipt = async (transactionId: string): Promise<Receipt> => {
+  const [header, salesRes, paymentsRes] = await Promise.all([
+    fetchReceiptHeader(),
+    supabase.from('sales').select('*').eq('transaction_id', transactionId),
+    supabase.from('sale_payments').select('*').eq('transaction_id', transactionId),
+  ])
+  if (salesRes.error) throw salesRes.error
+  if (paymentsRes.error) throw paymentsRes.error
+  if (!salesRes.data || salesRes.data.length === 0) throw new Error('Transaction not found')
+  return buildReceipt(header, salesRes.data as Sale[], (paymentsRes.data || []) as SalePayment[], true)
+}
+
+// Wrap text to the paper width, breaking on spaces where possible
+const wrap = (text: string, columns: number): string[] => {
+  const result: string[] = []
+  let line = ''
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (!line) line = word
+    else if (line.length + 1 + word.length <= columns) line += ` ${word}`
+    else {
+      result.push(line)
+      line = word
+    }
+    while (line.length > columns) {
+      result.push(line.slice(0, columns))
+      line = line.slice(columns)
+    }
+  }
+  if (line) result.push(line)
+  return result
+}
+
+// Label on the left, amount on the right
+const row = (label: string, amount: string, columns: number): string => {
+  const room = Math.max(1, columns - amount.length - 1)
+  const left = label.length > room ? label.slice(0, room) : label
+  return `${left}${' '.repeat(columns - left.length - amount.length)}${amount}`
+}
+
+export const receiptLines = (receipt: Receipt): ReceiptLine[] => {
+  const columns = PAPER_COLUMNS[receipt.header.paperWidth]
+  const rule: ReceiptLine = { text: '-'.repeat(columns) }
+  const money = formatReceiptMoney
+  const lines: ReceiptLine[] = []
+  const center = (text: string, extra: Partial<ReceiptLine> = {}) =>
+    wrap(text, extra.large ? Math.floor(columns / 2) : columns).forEach((t) => lines.push({ text: t, align: 'center', ...extra }))
+  const left = (text: string, extra: Partial<ReceiptLine> = {}) => lines.push({ text, ...extra })
+
+  center(receipt.header.storeName, { bold: true, large: true })
+  if (receipt.header.address) center(receipt.header.address)
+  if (receipt.header.tin) center(`TIN ${receipt.header.tin}`)
+  if (receipt.voided) center('*** VOID ***', { bold: true })
+  if (receipt.reprint) center('REPRINT')
+  lines.push(rule)
+
+  left(row('Txn', receipt.transactionNumber, columns))
+  left(row('Date', format(new Date(receipt.createdAt), 'MMM d yyyy h:mm a'), columns))
+  const orderType = receipt.dineInTakeout === 'dine_in' ? 'Dine In' : receipt.dineInTakeout === 'takeout' ? 'Takeout' : ''
+  left(row(receipt.customerType, orderType, columns))
+  lines.push(rule)
+
+  for (const item of receipt.items) {
+    wrap(item.name, columns - money(item.gross).length - 1).forEach((name, i, all) =>
+      left(i === all.length - 1 ? row(name, money(item.gross), columns) : name)
+    )
+    if (item.options) wrap(item.options, columns - 2).forEach((text) => left(`  ${text}`))
+    left(`  ${item.qty} x ${money(item.unitPrice)}`)
+    if (item.discount > 0) left(row(`  Less ${item.discountReason || 'discount'}`, `-${money(item.discount)}`, columns))
+  }
+  lines.push(rule)
+
+  if (receipt.discount > 0 || receipt.vatExemption > 0) {
+    left(row('Subtotal', money(receipt.subtotal), columns))
+    if (receipt.vatExemption > 0) left(row('Less VAT (exempt)', `-${money(receipt.vatExemption)}`, columns))
+    if (receipt.discount > 0) left(row('Discounts', `-${money(receipt.discount)}`, columns))
+  }
+  left(row('TOTAL', money(receipt.total), columns), { bold: true })
+  for (const tender of receipt.tenders) {
+    left(row(tender.method, money(tender.tendered), columns))
+    if (tender.reference) left(`  Ref ${tender.reference}`)
+  }
+  left(row('Change', money(receipt.change), columns))
+  lines.push(rule)
+
+  left(row('VATable Sales', money(receipt.vatableSales), columns))
+  left(row('VAT', money(receipt.vatAmount), columns))
+  left(row('VAT-Exempt Sales', money(receipt.vatExemptSales), columns))
+  left(row('Zero-Rated Sales', money(receipt.zeroRatedSales), columns))
+
+  if (receipt.statutoryIdNumber) {
+    lines.push(rule)
+    left(`${receipt.customerType} ID: ${receipt.statutoryIdNumber}`)
+    if (receipt.statutoryIdName) left(`Name: ${receipt.statutoryIdName}`)
+    left('Signature: ____________________')
+  }
+
+  if (receipt.header.footer) {
+    lines.push(rule)
+    center(receipt.header.footer)
+  }
+  return lines
+}
@@ -0,0 +1,146 @@
+import type { CellValue } from 'exceljs'
+
+// Reading and writing CSV and XLSX files in the browser, for catalog import
+// and export. XLSX files are read and written with exceljs, which handles the
+// shared strings, compression and formulas Excel, LibreOffice and Google
+// Sheets save.
+
+export type Cell = string | number | null
+
+export interface Sheet {
+  name: string
+  rows: Cell[][]
+}
+
+// Rows of text, as read from a file; empty cells are '' and empty rows are
+// kept so row numbers match the spreadsheet
+export interface ReadSheet {
+  name: string
+  rows: string[][]
+}
+
+// Plain decimal text, as import reads it back: spreadsheets store 0.3 as
+// 0.30000000000000004, and String() writes 0.0000001 as 1e-7
+export const formatNumber = (n: number): string =>
+  n.toLocaleString('en-US', { useGrouping: false, maximumSignificantDigits: 15 })
+
+// ---- CSV ----
+
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+  const input = text.replace(/^\uFEFF/, '')
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows
+}
+
+const csvField = (cell: Cell): string => {
+  const text = cell === null ? '' : typeof cell === 'number' ? formatNumber(cell) : cell
+  return /[",\r\n]/.test(text) || text.trim() !== text ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// With a byte order mark so Excel reads ₱ and ñ as UTF-8
+export const toCsv = (rows: Cell[][]): string => '\uFEFF' + rows.map((r) => r.map(csvField).join(',')).join('\r\n')
+
+// ---- XLSX ----
+
+// exceljs is large, so it is only loaded when a file is read or written
+const loadExcel = async () => (await import('exceljs')).default
+
+export const toXlsx = async (sheets: Sheet[]): Promise<Blob> => {
+  const ExcelJS = await loadExcel()
+  const workbook = new ExcelJS.Workbook()
+  for (const sheet of sheets) {
+    workbook.addWorksheet(sheet.name.slice(0, 31)).addRows(sheet.rows.map((row) => row.map((cell) => cell ?? undefined)))
+  }
+  const data = await workbook.xlsx.writeBuffer()
+  return new Blob([data], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' })
+}
+
+// What a cell shows: formulas by their result, rich text and links by their text
+const cellText = (value: CellValue): string => {
+  if (value === null || value === undefined) return ''
+  if (typeof value === 'number') return formatNumber(value)
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE'
+  if (typeof value === 'string') return value
+  if (value instanceof Date) return value.toISOString().slice(0, 10)
+  if ('richText' in value) return value.richText.map((t) => t.text).join('')
+  if ('result' in value) return cellText(value.result as CellValue)
+  if ('text' in value) return cellText(value.text as CellValue)
+  return ''
+}
+
+const readXlsx = async (buffer: ArrayBuffer): Promise<ReadSheet[]> => {
+  const ExcelJS = await loadExcel()
+  const workbook = new ExcelJS.Workbook()
+  try {
+    await workbook.xlsx.load(buffer)
+  } catch {
+    throw new Error('Not an XLSX file')
+  }
+
+  return workbook.worksheets.map((worksheet) => {
+    const rows: string[][] = []
+    worksheet.eachRow((row, number) => {
+      // Empty rows are left out; keep the row numbers people see
+      while (rows.length < number - 1) rows.push([])
+      const values: string[] = []
+      row.eachCell((cell, column) => {
+        while (values.length < column - 1) values.push('')
+        values[column - 1] = cellText(cell.value)
+      })
+      rows.push(values)
+    })
+    return { name: worksheet.name, rows }
+  })
+}
+
+// A CSV file is one sheet named after the file; an XLSX file has its own sheets
+export const readSpreadsheet = async (file: File): Promise<ReadSheet[]> => {
+  if (/\.xlsx$/i.test(file.name)) return readXlsx(await file.arrayBuffer())
+  if (/\.csv$/i.test(file.name) || file.type === 'text/csv') {
+    return [{ name: file.name.replace(/\.csv$/i, ''), rows: parseCsv(await file.text()) }]
+  }
+  throw new Error(`${file.name} is not a CSV or XLSX file`)
+}
+
+export const downloadFile = (blob: Blob, filename: string) => {
+  const url = window.URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  a.click()
+  window.URL.revokeObjectURL(url)
+}
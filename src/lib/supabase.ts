@@ -16,4 +16,9 @@ export const getProductImageUrl = (path: string) => {
   return data.publicUrl
 }
 
-
+// Run a query and throw its error
+export const runQuery = async (query: PromiseLike<{ data: any; error: any }>) => {
+  const { data, error } = await query
+  if (error) throw error
+  return data
+}
@@ -0,0 +1,45 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { Profile } from '@/types/database'
+
+// Server-side only: the service role key bypasses RLS and can manage Auth users.
+// Never import this module from a client component.
+let adminClient: SupabaseClient | null = null
+
+export function getSupabaseAdmin(): SupabaseClient {
+  if (!adminClient) {
+    const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+    if (!serviceRoleKey) {
+      throw new Error('SUPABASE_SERVICE_ROLE_KEY is not set')
+    }
+    adminClient = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, serviceRoleKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    })
+  }
+  return adminClient
+}
+
+// Verify the bearer token on a request and return the caller's profile
+// if their account is active, otherwise null.
+export async function getStaffFromRequest(request: Request): Promise<Profile | null> {
+  const token = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '')
+  if (!token) return null
+
+  const admin = getSupabaseAdmin()
+  const { data: { user }, error } = await admin.auth.getUser(token)
+  if (error || !user) return null
+
+  const { data: profile } = await admin
+    .from('profiles')
+    .select('*')
+    .eq('id', user.id)
+    .maybeSingle()
+
+  if (!profile || !profile.is_active) return null
+  return profile as Profile
+}
+
+// Same as getStaffFromRequest, but only for owners
+export async function getOwnerFromRequest(request: Request): Promise<Profile | null> {
+  const profile = await getStaffFromRequest(request)
+  return profile?.role === 'owner' ? profile : null
+}
@@ -0,0 +1,97 @@
+import { VatStatus } from '@/types/database'
+import { roundMoney } from '@/lib/money'
+import { PricedLine } from '@/lib/pricing'
+
+// Philippine VAT on VAT-inclusive prices, shown at the till. Mirrors tax_cart in
+// the database, which computes what is actually recorded on each sale line.
+
+export const DEFAULT_VAT_RATE = 12
+export const DEFAULT_STATUTORY_DISCOUNT_RATE = 20
+
+export const VAT_STATUS_LABELS: Record<VatStatus, string> = {
+  vatable: 'VATable',
+  exempt: 'VAT-exempt',
+  zero_rated: 'Zero-rated',
+}
+
+export interface TaxedLine extends PricedLine {
+  vatStatus: VatStatus
+  vatableSales: number
+  vatAmount: number
+  vatExemptSales: number
+  zeroRatedSales: number
+  vatExemption: number
+  statutoryDiscount: number
+  total: number
+}
+
+export interface VatBreakdown {
+  vatableSales: number
+  vatAmount: number
+  vatExemptSales: number
+  zeroRatedSales: number
+  vatExemption: number
+  statutoryDiscount: number
+  total: number
+}
+
+// Label stored as the discount reason, e.g. "Senior 20% discount"
+export const statutoryDiscountLabel = (customerType: string, rate: number): string =>
+  `${customerType} ${rate}% discount`
+
+export const taxCart = (
+  lines: PricedLine[],
+  vatStatusOf: (productId: string) => VatStatus,
+  vatRate: number,
+  statutory: { label: string; rate: number } | null = null
+): TaxedLine[] =>
+  lines.map((line) => {
+    const vatStatus = vatStatusOf(line.productId)
+    const net = roundMoney(line.gross - line.discountAmount)
+    const base = vatStatus === 'vatable' ? roundMoney(net / (1 + vatRate / 100)) : net
+
+    if (!statutory) {
+      return {
+        ...line,
+        vatStatus,
+        vatableSales: vatStatus === 'vatable' ? base : 0,
+        vatAmount: vatStatus === 'vatable' ? roundMoney(net - base) : 0,
+        vatExemptSales: vatStatus === 'exempt' ? net : 0,
+        zeroRatedSales: vatStatus === 'zero_rated' ? net : 0,
+        vatExemption: 0,
+        statutoryDiscount: 0,
+        total: net,
+      }
+    }
+
+    const statutoryDiscount = roundMoney((base * statutory.rate) / 100)
+    const total = roundMoney(base - statutoryDiscount)
+    return {
+      ...line,
+      discountAmount: roundMoney(line.discountAmount + statutoryDiscount),
+      discountReason: [line.discountReason, statutory.label].filter(Boolean).join('; '),
+      vatStatus,
+      vatableSales: 0,
+      vatAmount: 0,
+      vatExemptSales: vatStatus === 'zero_rated' ? 0 : total,
+      zeroRatedSales: vatStatus === 'zero_rated' ? total : 0,
+      vatExemption: roundMoney(net - base),
+      statutoryDiscount,
+      total,
+    }
+  })
+
+// Sum the VAT columns of taxed lines or recorded sale rows
+export const sumVatBreakdown = (lines: VatBreakdown[]): VatBreakdown =>
+  lines.reduce(
+    (sum, l) => ({
+      vatableSales: roundMoney(sum.vatableSales + l.vatableSales),
+      vatAmount: roundMoney(sum.vatAmount + l.vatAmount),
+      vatExemptSales: roundMoney(sum.vatExemptSales + l.vatExemptSales),
+      zeroRatedSales: roundMoney(sum.zeroRatedSales + l.zeroRatedSales),
+      vatExemption: roundMoney(sum.vatExemption + l.vatExemption),
+      statutoryDiscount: roundMoney(sum.statutoryDiscount + l.statutoryDiscount),
+      total: roundMoney(sum.total + l.total),
+    }),
+    { vatableSales: 0, vatAmount: 0, vatExemptSales: 0, zeroRatedSales: 0, vatExemption: 0, statutoryDiscount: 0, total: 0 }
+  )
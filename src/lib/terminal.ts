@@ -0,0 +1,33 @@
+// Per-device terminal settings (each till keeps its own prefix in localStorage)
+const TERMINAL_PREFIX_KEY = 'altugreal_terminal_prefix'
+
+export const TERMINAL_PREFIX_PATTERN = /^[A-Za-z0-9_-]{0,12}$/
+
+export const getTerminalPrefix = (): string => {
+  if (typeof window === 'undefined') return ''
+  return localStorage.getItem(TERMINAL_PREFIX_KEY) || ''
+}
+
+export const setTerminalPrefix = (prefix: string) => {
+  const trimmed = prefix.trim()
+  if (trimmed) {
+    localStorage.setItem(TERMINAL_PREFIX_KEY, trimmed)
+  } else {
+    localStorage.removeItem(TERMINAL_PREFIX_KEY)
+  }
+}
+
+// Preview a transaction number format the same way next_transaction_number renders it
+export const previewTransactionNumber = (formatString: string, prefix: string, seq: number = 1): string => {
+  const now = new Date()
+  const yyyy = now.getFullYear().toString()
+  const mm = (now.getMonth() + 1).toString().padStart(2, '0')
+  let result = prefix ? formatString : formatString.replace('{PREFIX}-', '')
+  result = result
+    .split('{PREFIX}').join(prefix)
+    .split('{YYYY}').join(yyyy)
+    .split('{YY}').join(yyyy.slice(2))
+    .split('{MM}').join(mm)
+    .split('{SEQ}').join(seq.toString().padStart(5, '0'))
+  return result
+}
@@ -0,0 +1,96 @@
+import { supabase } from '@/lib/supabase'
+import { roundQuantity, roundUnitCost } from '@/lib/money'
+import { UnitKind, UnitOfMeasure, UnitType } from '@/types/database'
+
+// Every conversion between units of measure goes through here. Stock on hand,
+// purchase orders and restocking levels are kept in storage units (kg/L/pcs);
+// recipes, item costs and stock movements in recipe units (g/ml/pcs). Other
+// units (units_of_measure, e.g. a case of 24 or a tbsp) are a number of recipe
+// units. The database side of this is unit_storage_factor.
+
+// Recipe units in one storage unit
+export const storageFactor = (unitType: UnitType): number => (unitType === 'quantity' ? 1 : 1000)
+
+export const recipeUnitLabel = (unitType: UnitType | undefined) =>
+  unitType === 'weight' ? 'g' : unitType === 'volume' ? 'ml' : 'pcs'
+
+export const storageUnitLabel = (unitType: UnitType | undefined) =>
+  unitType === 'weight' ? 'kg' : unitType === 'volume' ? 'L' : 'pcs'
+
+// Rounded to the scale quantities are stored at, so 0.035 kg is 35 g, not 35.00000000000001
+export const toRecipeUnits = (storageQty: number, unitType: UnitType) =>
+  roundQuantity(Number(storageQty) * storageFactor(unitType))
+
+export const toStorageUnits = (recipeQty: number, unitType: UnitType) =>
+  roundQuantity(Number(recipeQty) / storageFactor(unitType))
+
+// Item costs are per recipe unit; purchase prices are per storage unit
+export const storageUnitCost = (cost: number, unitType: UnitType) => roundUnitCost(Number(cost) * storageFactor(unitType))
+
+// Stock in storage units, shown in recipe units like the Inventory grid does
+export const stockQuantity = (qty: number, unitType: UnitType) =>
+  unitType === 'quantity'
+    ? `${Number(qty).toLocaleString()} pcs`
+    : `${toRecipeUnits(qty, unitType).toLocaleString()}${recipeUnitLabel(unitType)}`
+
+// A unit a quantity can be entered in; factor is recipe units per one of it
+export interface UnitOption {
+  key: string
+  unitId: string | null
+  label: string
+  factor: number
+}
+
+export const RECIPE_UNIT_KEY = 'recipe'
+
+export const UNIT_KIND_LABELS: Record<UnitKind, string> = {
+  purchase: 'Purchase unit',
+  recipe: 'Recipe unit',
+}
+
+// Units an item can be entered in: recipe quantities in its recipe unit and
+// the recipe units of its type; stock and purchases in its storage unit, its
+// recipe unit and the purchase units of its type. Units defined for the item
+// itself come after the shared ones.
+export const unitOptions = (
+  item: { id: string; unit_type: UnitType } | undefined,
+  units: UnitOfMeasure[],
+  kind: UnitKind
+): UnitOption[] => {
+  if (!item) return []
+  const recipe: UnitOption = {
+    key: RECIPE_UNIT_KEY,
+    unitId: null,
+    label: recipeUnitLabel(item.unit_type),
+    factor: 1,
+  }
+  const storage: UnitOption = {
+    key: 'storage',
+    unitId: null,
+    label: storageUnitLabel(item.unit_type),
+    factor: storageFactor(item.unit_type),
+  }
+  const base = kind === 'recipe' || item.unit_type === 'quantity' ? [recipe] : [storage, recipe]
+  const custom = units
+    .filter((u) => u.kind === kind && u.unit_type === item.unit_type && (u.item_id === null || u.item_id === item.id))
+    .sort((a, b) => Number(a.item_id !== null) - Number(b.item_id !== null) || Number(a.factor) - Number(b.factor))
+    .map((u) => ({ key: u.id, unitId: u.id, label: u.name, factor: Number(u.factor) }))
+  return [...base, ...custom]
+}
+
+// The option for a saved unit_id, or the default (first) one
+export const findUnitOption = (options: UnitOption[], unitId: string | null | undefined) =>
+  options.find((o) => o.unitId === unitId) || options[0]
+
+// "case of 24 (24 pcs)", for a select
+export const unitOptionText = (option: UnitOption, unitType: UnitType) =>
+  option.unitId === null ? option.label : `${option.label} (${option.factor.toLocaleString()} ${recipeUnitLabel(unitType)})`
+
+// Converted quantities are rounded so that e.g. 3 tbsp comes back as 45 ml
+export const convertQuantity = (qty: number, fromFactor: number, toFactor: number) =>
+  Number(((qty * fromFactor) / toFactor).toFixed(6))
+
+export const fetchUnits = async (): Promise<UnitOfMeasure[]> => {
+  const { data } = await supabase.from('units_of_measure').select('*').order('name')
+  return data || []
+}
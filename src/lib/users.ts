@@ -0,0 +1,45 @@
+import { supabase } from '@/lib/supabase'
+import { Profile, UserRole } from '@/types/database'
+
+export const USER_ROLES: UserRole[] = ['owner', 'manager', 'cashier']
+
+export const MIN_PASSWORD_LENGTH = 8
+
+export interface NewUserInput {
+  email: string
+  username: string
+  password: string
+  role: UserRole
+}
+
+export interface UserUpdateInput {
+  role?: UserRole
+  is_active?: boolean
+  password?: string
+}
+
+// Call the owner-only /api/users routes with the current session's access token
+async function usersApi<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const { data } = await supabase.auth.getSession()
+  const response = await fetch(`/api/users${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${data.session?.access_token ?? ''}`,
+    },
+  })
+  const body = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(body.error || `Request failed (${response.status})`)
+  }
+  return body as T
+}
+
+export const listUsers = () =>
+  usersApi<{ users: Profile[] }>('').then((body) => body.users)
+
+export const createUser = (input: NewUserInput) =>
+  usersApi<{ user: Profile }>('', { method: 'POST', body: JSON.stringify(input) }).then((body) => body.user)
+
+export const updateUser = (id: string, input: UserUpdateInput) =>
+  usersApi<{ user: Profile }>(`/${id}`, { method: 'PATCH', body: JSON.stringify(input) }).then((body) => body.user)
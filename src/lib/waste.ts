@@ -0,0 +1,15 @@
+import { WasteReason } from '@/types/database'
+
+// Why stock was wasted. 'expired' is also what expire_stock_lots records when
+// it writes off a lot past its expiry date.
+
+export const WASTE_REASONS: WasteReason[] = ['spoiled', 'spilled', 'expired', 'damaged', 'comped', 'other']
+
+export const WASTE_REASON_LABELS: Record<WasteReason, string> = {
+  spoiled: 'Spoiled',
+  spilled: 'Spilled / dropped',
+  expired: 'Expired',
+  damaged: 'Damaged',
+  comped: 'Comped / given away',
+  other: 'Other',
+}
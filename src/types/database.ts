@@ -10,10 +10,24 @@ export interface Database {
           qty: number
           cost: number
           selling_price: number
+          is_prep: boolean
+          batch_yield: number | null
+          shelf_life_days: number | null
+          reorder_point: number | null
+          par_level: number | null
           created_at: string
           updated_at: string
         }
-        Insert: Omit<Database['public']['Tables']['products']['Row'], 'id' | 'created_at' | 'updated_at'>
+        Insert: Omit<
+          Database['public']['Tables']['products']['Row'],
+          'id' | 'created_at' | 'updated_at' | 'is_prep' | 'batch_yield' | 'shelf_life_days' | 'reorder_point' | 'par_level'
+        > & {
+          is_prep?: boolean
+          batch_yield?: number | null
+          shelf_life_days?: number | null
+          reorder_point?: number | null
+          par_level?: number | null
+        }
         Update: Partial<Database['public']['Tables']['products']['Insert']>
       }
       finished_products: {
@@ -23,6 +37,7 @@ export interface Database {
           image_url: string | null
           selling_price: number
           opex_cost: number
+          vat_status: VatStatus
           created_at: string
           updated_at: string
         }
@@ -45,20 +60,52 @@ export interface Database {
           created_at: string
           cancelled: boolean
           cancelled_at: string | null
+          void_reason: string | null
+          voided_by: string | null
+          user_id: string | null
           transaction_id: string | null
           earnings_datetime: string | null
           customer_payment: number | null
           transaction_number: string | null
           opex_cost: number | null
+          discount_amount: number
+          discount_reason: string | null
+          promotion_id: string | null
+          vat_status: VatStatus | null
+          vatable_sales: number
+          vat_amount: number
+          vat_exempt_sales: number
+          zero_rated_sales: number
+          vat_exemption: number
+          statutory_discount: number
+          statutory_id_number: string | null
+          statutory_id_name: string | null
+          variant_id: string | null
+          variant_name: string | null
+          modifiers: SaleModifier[]
+          bundle_items: SaleBundleItem[]
+        }
+        Insert: Omit<Database['public']['Tables']['sales']['Row'], 'id' | 'created_at' | 'cancelled' | 'cancelled_at' | 'void_reason' | 'voided_by' | 'user_id'>
+        Update: Partial<Database['public']['Tables']['sales']['Insert'] & { cancelled: boolean; cancelled_at: string | null; void_reason: string | null; voided_by: string | null }>
+      }
+      sale_deductions: {
+        Row: {
+          id: string
+          sale_id: string
+          item_id: string
+          qty: number
+          cost: number | null
+          created_at: string
         }
-        Insert: Omit<Database['public']['Tables']['sales']['Row'], 'id' | 'created_at' | 'cancelled' | 'cancelled_at'>
-        Update: Partial<Database['public']['Tables']['sales']['Insert'] & { cancelled: boolean; cancelled_at: string | null }>
+        Insert: Omit<Database['public']['Tables']['sale_deductions']['Row'], 'id' | 'created_at'>
+        Update: Partial<Database['public']['Tables']['sale_deductions']['Insert']>
       }
       payment_methods: {
         Row: {
           id: string
           name: string
           color: string
+          is_cash: boolean
           created_at: string
         }
         Insert: Omit<Database['public']['Tables']['payment_methods']['Row'], 'id' | 'created_at'>
@@ -69,6 +116,7 @@ export interface Database {
           id: string
           name: string
           color: string
+          statutory_discount: boolean
           created_at: string
         }
         Insert: Omit<Database['public']['Tables']['customer_types']['Row'], 'id' | 'created_at'>
@@ -106,6 +154,416 @@ export interface Database {
         Insert: Omit<Database['public']['Tables']['opex_settings']['Row'], 'id' | 'created_at' | 'updated_at'>
         Update: Partial<Database['public']['Tables']['opex_settings']['Insert']>
       }
+      transaction_counters: {
+        Row: {
+          scope: string
+          period: string
+          last_value: number
+          updated_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['transaction_counters']['Row'], 'updated_at'>
+        Update: Partial<Database['public']['Tables']['transaction_counters']['Insert']>
+      }
+      transaction_numbers: {
+        Row: {
+          transaction_number: string
+          transaction_id: string
+          scope: string
+          period: string
+          seq: number
+          issued_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['transaction_numbers']['Row'], 'issued_at'>
+        Update: Partial<Database['public']['Tables']['transaction_numbers']['Insert']>
+      }
+      sales_archive: {
+        Row: {
+          id: string
+          transaction_id: string | null
+          transaction_number: string | null
+          sale: Database['public']['Tables']['sales']['Row']
+          payments: Database['public']['Tables']['sale_payments']['Row'][] | null
+          archived_at: string
+          archived_by: string | null
+          archived_by_name: string | null
+        }
+        Insert: Omit<Database['public']['Tables']['sales_archive']['Row'], 'archived_at'>
+        Update: Partial<Database['public']['Tables']['sales_archive']['Insert']>
+      }
+      role_permissions: {
+        Row: {
+          role: Exclude<UserRole, 'owner'>
+          permission: Permission
+          enabled: boolean
+          updated_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['role_permissions']['Row'], 'updated_at'>
+        Update: Partial<Database['public']['Tables']['role_permissions']['Insert']>
+      }
+      promotions: {
+        Row: {
+          id: string
+          name: string
+          code: string | null
+          discount_type: PromotionType
+          value: number
+          product_id: string | null
+          buy_qty: number | null
+          get_qty: number | null
+          is_active: boolean
+          starts_at: string | null
+          ends_at: string | null
+          created_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['promotions']['Row'], 'id' | 'created_at'>
+        Update: Partial<Database['public']['Tables']['promotions']['Insert']>
+      }
+      sale_payments: {
+        Row: {
+          id: string
+          transaction_id: string
+          transaction_number: string | null
+          payment_method: string
+          amount: number
+          tendered: number
+          change_given: number
+          reference_number: string | null
+          cancelled: boolean
+          created_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['sale_payments']['Row'], 'id' | 'created_at'>
+        Update: Partial<Database['public']['Tables']['sale_payments']['Insert']>
+      }
+      product_variants: {
+        Row: {
+          id: string
+          product_id: string
+          name: string
+          price_delta: number
+          sort_order: number
+          created_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['product_variants']['Row'], 'id' | 'created_at'>
+        Update: Partial<Database['public']['Tables']['product_variants']['Insert']>
+      }
+      modifier_groups: {
+        Row: {
+          id: string
+          product_id: string
+          name: string
+          min_select: number
+          max_select: number
+          sort_order: number
+          created_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['modifier_groups']['Row'], 'id' | 'created_at'>
+        Update: Partial<Database['public']['Tables']['modifier_groups']['Insert']>
+      }
+      modifier_options: {
+        Row: {
+          id: string
+          group_id: string
+          name: string
+          price_delta: number
+          sort_order: number
+          created_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['modifier_options']['Row'], 'id' | 'created_at'>
+        Update: Partial<Database['public']['Tables']['modifier_options']['Insert']>
+      }
+      option_ingredients: {
+        Row: {
+          id: string
+          variant_id: string | null
+          modifier_option_id: string | null
+          item_id: string
+          qty: number
+          created_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['option_ingredients']['Row'], 'id' | 'created_at'>
+        Update: Partial<Database['public']['Tables']['option_ingredients']['Insert']>
+      }
+      prep_ingredients: {
+        Row: {
+          id: string
+          prep_item_id: string
+          item_id: string
+          qty: number
+          unit_id: string | null
+          created_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['prep_ingredients']['Row'], 'id' | 'created_at' | 'unit_id'> & {
+          unit_id?: string | null
+        }
+        Update: Partial<Database['public']['Tables']['prep_ingredients']['Insert']>
+      }
+      production_runs: {
+        Row: {
+          id: string
+          item_id: string | null
+          item_name: string
+          unit_type: UnitType
+          batches: number
+          expected_qty: number
+          actual_qty: number
+          yield_pct: number
+          total_cost: number
+          unit_cost: number
+          consumed: ProductionConsumed[]
+          notes: string | null
+          produced_by: string | null
+          produced_by_name: string | null
+          created_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['production_runs']['Row'], 'id' | 'created_at'>
+        Update: Partial<Database['public']['Tables']['production_runs']['Insert']>
+      }
+      stock_movements: {
+        Row: {
+          id: string
+          item_id: string | null
+          item_name: string
+          unit_type: UnitType
+          movement_type: StockMovementType
+          qty_before: number
+          qty_after: number
+          qty_change: number
+          value_change: number
+          reference_id: string | null
+          note: string | null
+          user_id: string | null
+          username: string | null
+          created_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['stock_movements']['Row'], 'id' | 'created_at'>
+        Update: Partial<Database['public']['Tables']['stock_movements']['Insert']>
+      }
+      cost_layers: {
+        Row: {
+          id: string
+          item_id: string
+          movement_id: string | null
+          qty_received: number
+          qty_remaining: number
+          unit_cost: number
+          created_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['cost_layers']['Row'], 'id' | 'created_at'>
+        Update: Partial<Database['public']['Tables']['cost_layers']['Insert']>
+      }
+      stock_lots: {
+        Row: {
+          id: string
+          item_id: string
+          movement_id: string | null
+          lot_code: string | null
+          expiry_date: string | null
+          qty_received: number
+          qty_remaining: number
+          received_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['stock_lots']['Row'], 'id' | 'received_at'>
+        Update: Partial<Database['public']['Tables']['stock_lots']['Insert']>
+      }
+      waste_entries: {
+        Row: {
+          id: string
+          item_id: string | null
+          product_id: string | null
+          variant_id: string | null
+          name: string
+          unit_type: UnitType
+          qty: number
+          reason: WasteReason
+          notes: string | null
+          cost: number
+          consumed: ProductionConsumed[]
+          user_id: string | null
+          username: string | null
+          created_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['waste_entries']['Row'], 'id' | 'created_at'>
+        Update: Partial<Database['public']['Tables']['waste_entries']['Insert']>
+      }
+      stock_counts: {
+        Row: {
+          id: string
+          count_number: string
+          status: StockCountStatus
+          notes: string | null
+          created_by: string | null
+          created_by_name: string | null
+          submitted_at: string | null
+          submitted_by_name: string | null
+          approved_by: string | null
+          approved_by_name: string | null
+          closed_at: string | null
+          created_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['stock_counts']['Row'], 'id' | 'count_number' | 'created_at'>
+        Update: Partial<Database['public']['Tables']['stock_counts']['Insert']>
+      }
+      stock_count_lines: {
+        Row: {
+          id: string
+          count_id: string
+          item_id: string | null
+          item_name: string
+          unit_type: UnitType
+          expected_qty: number
+          counted_qty: number | null
+          unit_cost: number
+          variance_qty: number | null
+          variance_value: number | null
+        }
+        Insert: Omit<Database['public']['Tables']['stock_count_lines']['Row'], 'id'>
+        Update: Partial<Database['public']['Tables']['stock_count_lines']['Insert']>
+      }
+      units_of_measure: {
+        Row: {
+          id: string
+          item_id: string | null
+          unit_type: UnitType
+          name: string
+          factor: number
+          kind: UnitKind
+          created_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['units_of_measure']['Row'], 'id' | 'created_at'>
+        Update: Partial<Database['public']['Tables']['units_of_measure']['Insert']>
+      }
+      suppliers: {
+        Row: {
+          id: string
+          name: string
+          contact_name: string | null
+          phone: string | null
+          email: string | null
+          notes: string | null
+          is_active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['suppliers']['Row'], 'id' | 'created_at' | 'updated_at'>
+        Update: Partial<Database['public']['Tables']['suppliers']['Insert']>
+      }
+      purchase_orders: {
+        Row: {
+          id: string
+          po_number: string
+          supplier_id: string
+          status: PurchaseOrderStatus
+          expected_date: string | null
+          notes: string | null
+          created_by: string | null
+          created_by_name: string | null
+          ordered_at: string | null
+          closed_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: Omit<
+          Database['public']['Tables']['purchase_orders']['Row'],
+          'id' | 'po_number' | 'created_at' | 'updated_at'
+        >
+        Update: Partial<Database['public']['Tables']['purchase_orders']['Insert']>
+      }
+      purchase_order_lines: {
+        Row: {
+          id: string
+          purchase_order_id: string
+          item_id: string
+          qty_ordered: number
+          unit_cost: number
+          qty_received: number
+          unit_id: string | null
+          created_at: string
+        }
+        Insert: Omit<
+          Database['public']['Tables']['purchase_order_lines']['Row'],
+          'id' | 'created_at' | 'qty_received' | 'unit_id'
+        > & {
+          unit_id?: string | null
+        }
+        Update: Partial<Database['public']['Tables']['purchase_order_lines']['Insert']>
+      }
+      goods_receipts: {
+        Row: {
+          id: string
+          purchase_order_id: string
+          notes: string | null
+          received_by: string | null
+          received_by_name: string | null
+          created_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['goods_receipts']['Row'], 'id' | 'created_at'>
+        Update: Partial<Database['public']['Tables']['goods_receipts']['Insert']>
+      }
+      goods_receipt_lines: {
+        Row: {
+          id: string
+          receipt_id: string
+          line_id: string
+          item_id: string
+          qty: number
+          unit_cost: number
+          lot_code: string | null
+          expiry_date: string | null
+          created_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['goods_receipt_lines']['Row'], 'id' | 'created_at'>
+        Update: Partial<Database['public']['Tables']['goods_receipt_lines']['Insert']>
+      }
+      bundle_components: {
+        Row: {
+          id: string
+          bundle_id: string
+          product_id: string
+          qty: number
+          sort_order: number
+          created_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['bundle_components']['Row'], 'id' | 'created_at'>
+        Update: Partial<Database['public']['Tables']['bundle_components']['Insert']>
+      }
+      bundle_substitutes: {
+        Row: {
+          id: string
+          component_id: string
+          product_id: string
+          price_delta: number
+          sort_order: number
+          created_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['bundle_substitutes']['Row'], 'id' | 'created_at'>
+        Update: Partial<Database['public']['Tables']['bundle_substitutes']['Insert']>
+      }
+      product_cost_history: {
+        Row: {
+          id: string
+          product_id: string
+          ingredient_cost: number
+          selling_price: number
+          net_price: number
+          food_cost_pct: number | null
+          recorded_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['product_cost_history']['Row'], 'id' | 'recorded_at'>
+        Update: Partial<Database['public']['Tables']['product_cost_history']['Insert']>
+      }
+      profiles: {
+        Row: {
+          id: string
+          username: string
+          email: string | null
+          role: UserRole
+          is_active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['profiles']['Row'], 'created_at' | 'updated_at'>
+        Update: Partial<Database['public']['Tables']['profiles']['Insert']>
+      }
     }
   }
 }
@@ -118,13 +576,104 @@ export type CustomerType = Database['public']['Tables']['customer_types']['Row']
 export type Setting = Database['public']['Tables']['settings']['Row']
 export type Opex = Database['public']['Tables']['opex']['Row']
 export type OpexSettings = Database['public']['Tables']['opex_settings']['Row']
+export type SaleDeduction = Database['public']['Tables']['sale_deductions']['Row']
+export type TransactionNumber = Database['public']['Tables']['transaction_numbers']['Row']
+export type SalesArchive = Database['public']['Tables']['sales_archive']['Row']
+export type RolePermission = Database['public']['Tables']['role_permissions']['Row']
+export type Profile = Database['public']['Tables']['profiles']['Row']
+export type Promotion = Database['public']['Tables']['promotions']['Row']
+export type SalePayment = Database['public']['Tables']['sale_payments']['Row']
+export type ProductVariant = Database['public']['Tables']['product_variants']['Row']
+export type ModifierGroup = Database['public']['Tables']['modifier_groups']['Row']
+export type ModifierOption = Database['public']['Tables']['modifier_options']['Row']
+export type OptionIngredient = Database['public']['Tables']['option_ingredients']['Row']
+export type PrepIngredient = Database['public']['Tables']['prep_ingredients']['Row']
+export type ProductionRun = Database['public']['Tables']['production_runs']['Row']
+export type StockMovement = Database['public']['Tables']['stock_movements']['Row']
+export type CostLayer = Database['public']['Tables']['cost_layers']['Row']
+export type StockLot = Database['public']['Tables']['stock_lots']['Row']
+export type WasteEntry = Database['public']['Tables']['waste_entries']['Row']
+export type StockCount = Database['public']['Tables']['stock_counts']['Row']
+export type StockCountLine = Database['public']['Tables']['stock_count_lines']['Row']
+export type UnitOfMeasure = Database['public']['Tables']['units_of_measure']['Row']
+export type Supplier = Database['public']['Tables']['suppliers']['Row']
+export type PurchaseOrder = Database['public']['Tables']['purchase_orders']['Row']
+export type PurchaseOrderLine = Database['public']['Tables']['purchase_order_lines']['Row']
+export type GoodsReceipt = Database['public']['Tables']['goods_receipts']['Row']
+export type GoodsReceiptLine = Database['public']['Tables']['goods_receipt_lines']['Row']
+export type BundleComponent = Database['public']['Tables']['bundle_components']['Row']
+export type BundleSubstitute = Database['public']['Tables']['bundle_substitutes']['Row']
+export type ProductCostHistory = Database['public']['Tables']['product_cost_history']['Row']
+
+export interface TransactionNumberGap {
+  scope: string
+  period: string
+  seq: number
+  transaction_number: string | null
+  status: 'missing' | 'no_sales'
+}
 
 export type UnitType = 'weight' | 'quantity' | 'volume'
 
-export type UserRole = 'owner' | 'cashier'
+export type UnitKind = 'purchase' | 'recipe'
+
+export type VatStatus = 'vatable' | 'exempt' | 'zero_rated'
+
+export type StockMovementType = 'sale' | 'void' | 'purchase' | 'adjustment' | 'waste' | 'production' | 'transfer'
+
+export type CostingMethod = 'weighted_average' | 'fifo'
+
+export type WasteReason = 'spoiled' | 'spilled' | 'expired' | 'damaged' | 'comped' | 'other'
+
+export type PurchaseOrderStatus = 'draft' | 'ordered' | 'partial' | 'received' | 'cancelled'
+
+export type StockCountStatus = 'open' | 'submitted' | 'approved' | 'cancelled'
+
+export type UserRole = 'owner' | 'manager' | 'cashier'
+
+export type Permission =
+  | 'view_reports'
+  | 'void_sales'
+  | 'edit_report_date'
+  | 'archive_reports'
+  | 'manage_inventory'
+  | 'edit_recipes'
+  | 'view_earnings'
+  | 'manage_opex'
+  | 'apply_discounts'
+  | 'log_waste'
+  | 'count_stock'
+
+export type PromotionType = 'percent' | 'fixed' | 'bxgy'
+
+// A modifier as recorded on a sale line
+export interface SaleModifier {
+  id: string
+  group: string
+  name: string
+  price_delta: number
+}
+
+// A bundle component as made for a sale line (after any substitution)
+export interface SaleBundleItem {
+  component_id: string
+  product_id: string
+  name: string
+  qty: number
+  price_delta: number
+}
+
+// A discount typed in at the till; percent or pesos, always with a reason
+export interface ManualDiscount {
+  type: 'percent' | 'fixed'
+  value: number
+  reason: string
+}
 
 export interface User {
+  id: string
   username: string
+  email: string | null
   role: UserRole
 }
 
@@ -136,7 +685,132 @@ export interface CartItem {
   dineInTakeout: 'dine_in' | 'takeout' | null
 }
 
+export interface CheckoutResult {
+  transaction_id: string
+  transaction_number: string
+  total: number
+  change: number
+  sales: Sale[]
+  payments: SalePayment[]
+}
+
+// An ingredient taken from stock by a production run or a waste entry (recipe units)
+export interface ProductionConsumed {
+  item_id: string
+  name: string
+  unit_type: UnitType
+  qty: number
+  cost: number
+}
+
+export interface ProduceResult {
+  run_id: string
+  item_id: string
+  name: string
+  batches: number
+  expected: number
+  produced: number
+  yield_pct: number
+  cost: number
+  consumed: ProductionConsumed[]
+}
+
+export interface ReceiveResult {
+  receipt_id: string | null
+  po_number: string
+  status: PurchaseOrderStatus
+  received: {
+    item_id: string
+    name: string
+    unit_type: UnitType
+    qty: number
+    unit_cost: number
+    lot_code: string | null
+    expiry_date: string | null
+  }[]
+}
+
+// A lot from expiring_stock_lots; days_left is negative once it has expired
+export interface ExpiringLot {
+  lot_id: string
+  item_id: string
+  name: string
+  unit_type: UnitType
+  lot_code: string | null
+  expiry_date: string
+  qty_remaining: number
+  days_left: number
+}
+
+// A lot written off by expire_stock_lots
+export interface ExpiredLot {
+  lot_id: string
+  item_id: string
+  name: string
+  unit_type: UnitType
+  lot_code: string | null
+  expiry_date: string
+  qty: number
+}
+
+// An item from low_stock_items; quantities in storage units (kg/L/pcs)
+export interface LowStockItem {
+  item_id: string
+  name: string
+  unit_type: UnitType
+  qty: number
+  reorder_point: number
+  par_level: number | null
+  restock_qty: number
+}
+
+// A finished product's food cost from product_costs: ingredient_cost at the
+// ingredients' current costs, net_price before VAT. The since_ figures are the
+// ones recorded at the date asked for (null before the product's first record).
+export interface ProductCost {
+  product_id: string
+  name: string
+  selling_price: number
+  net_price: number
+  ingredient_cost: number
+  food_cost_pct: number | null
+  margin: number
+  since_ingredient_cost: number | null
+  since_food_cost_pct: number | null
+}
+
+// A product from food_cost_alerts, above the target food cost
+export interface FoodCostAlert {
+  product_id: string
+  name: string
+  food_cost_pct: number
+  target_pct: number
+}
+
+// What import_catalog wrote
+export interface CatalogImportResult {
+  items_created: number
+  items_updated: number
+  products_created: number
+  products_updated: number
+  recipes_replaced: number
+}
+
+export interface StockValuation {
+  item_id: string
+  value: number
+}
+
+export interface VoidResult {
+  transaction_id: string
+  transaction_number: string | null
+  lines: number
+  restored: { item_id: string; name: string; unit_type: UnitType; qty: number }[]
+}
+
 export interface RecentSale {
-  sale: Sale
+  transactionId: string
+  transactionNumber: string
+  sales: Sale[]
   expiresAt: number
 }
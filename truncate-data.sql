@@ -3,14 +3,41 @@
 -- 
 -- ⚠️ WARNING: This will DELETE ALL DATA from the following tables:
 -- - sales
+-- - sale_deductions
+-- - sale_payments
+-- - sales_archive
 -- - finished_products
 -- - product_ingredients
+-- - product_variants
+-- - modifier_groups
+-- - modifier_options
+-- - option_ingredients
+-- - bundle_components
+-- - bundle_substitutes
+-- - product_cost_history
+-- - prep_ingredients
+-- - production_runs
+-- - stock_movements
+-- - cost_layers
+-- - stock_lots
+-- - waste_entries
+-- - stock_counts
+-- - stock_count_lines
+-- - suppliers
+-- - purchase_orders
+-- - purchase_order_lines
+-- - goods_receipts
+-- - goods_receipt_lines
 -- - products (inventory)
+-- - units_of_measure
 -- - payment_methods
 -- - customer_types
 -- - settings
+-- - promotions
 -- - opex
 -- - opex_settings
+-- - transaction_counters
+-- - transaction_numbers
 --
 -- This action CANNOT be undone!
 -- NOTE: Product images in Supabase Storage must be deleted separately via the Storage dashboard.
@@ -21,11 +48,40 @@
 
 -- First, delete from tables with foreign key dependencies
 TRUNCATE TABLE product_ingredients CASCADE;
+TRUNCATE TABLE prep_ingredients CASCADE;
+TRUNCATE TABLE production_runs CASCADE;
+TRUNCATE TABLE cost_layers CASCADE;
+TRUNCATE TABLE stock_lots CASCADE;
+TRUNCATE TABLE waste_entries CASCADE;
+TRUNCATE TABLE stock_count_lines CASCADE;
+TRUNCATE TABLE stock_counts CASCADE;
+TRUNCATE TABLE stock_movements CASCADE;
+TRUNCATE TABLE goods_receipt_lines CASCADE;
+TRUNCATE TABLE goods_receipts CASCADE;
+TRUNCATE TABLE purchase_order_lines CASCADE;
+TRUNCATE TABLE purchase_orders CASCADE;
+ALTER SEQUENCE purchase_order_number_seq RESTART;
+ALTER SEQUENCE stock_count_number_seq RESTART;
+TRUNCATE TABLE option_ingredients CASCADE;
+TRUNCATE TABLE bundle_substitutes CASCADE;
+TRUNCATE TABLE product_cost_history CASCADE;
+TRUNCATE TABLE bundle_components CASCADE;
+TRUNCATE TABLE modifier_options CASCADE;
+TRUNCATE TABLE modifier_groups CASCADE;
+TRUNCATE TABLE product_variants CASCADE;
+TRUNCATE TABLE sale_deductions CASCADE;
+TRUNCATE TABLE sale_payments CASCADE;
+TRUNCATE TABLE sales_archive CASCADE;
 TRUNCATE TABLE sales CASCADE;
+TRUNCATE TABLE transaction_numbers CASCADE;
+TRUNCATE TABLE transaction_counters CASCADE;
 
 -- Then delete from main tables
+TRUNCATE TABLE promotions CASCADE;
+TRUNCATE TABLE suppliers CASCADE;
 TRUNCATE TABLE finished_products CASCADE;
 TRUNCATE TABLE products CASCADE;
+TRUNCATE TABLE units_of_measure CASCADE;
 
 -- Delete from reference tables
 TRUNCATE TABLE payment_methods CASCADE;
@@ -43,18 +99,27 @@ TRUNCATE TABLE opex_settings CASCADE;
 -- ============================================
 -- Uncomment the lines below if you want to restore default data after truncating
 
--- INSERT INTO payment_methods (name, color) VALUES
---   ('Cash', '#22c55e'),
---   ('Card', '#3b82f6'),
---   ('GCash', '#0ea5e9')
+-- INSERT INTO payment_methods (name, color, is_cash) VALUES
+--   ('Cash', '#22c55e', true),
+--   ('Card', '#3b82f6', false),
+--   ('GCash', '#0ea5e9', false)
 -- ON CONFLICT (name) DO NOTHING;
 
--- INSERT INTO customer_types (name, color) VALUES
---   ('Regular', '#B3855D'),
---   ('Student', '#f59e0b'),
---   ('Senior', '#ec4899')
+-- INSERT INTO customer_types (name, color, statutory_discount) VALUES
+--   ('Regular', '#B3855D', false),
+--   ('Student', '#f59e0b', false),
+--   ('Senior', '#ec4899', true),
+--   ('PWD', '#8b5cf6', true)
 -- ON CONFLICT (name) DO NOTHING;
 
+-- INSERT INTO units_of_measure (unit_type, name, factor, kind) VALUES
+--   ('volume', 'tsp', 5, 'recipe'),
+--   ('volume', 'tbsp', 15, 'recipe'),
+--   ('volume', 'shot', 30, 'recipe'),
+--   ('volume', 'cup', 240, 'recipe'),
+--   ('volume', 'gallon', 3785.41, 'purchase'),
+--   ('weight', 'lb', 453.592, 'purchase');
+
 -- INSERT INTO opex_settings (target_monthly_sales) VALUES (100);
 
 -- ============================================
@@ -65,18 +130,70 @@ SELECT 'Data truncation completed!' as status;
 -- Show counts for all tables (should all be 0)
 SELECT 'sales' as table_name, COUNT(*) as row_count FROM sales
 UNION ALL
+SELECT 'sale_deductions', COUNT(*) FROM sale_deductions
+UNION ALL
+SELECT 'sale_payments', COUNT(*) FROM sale_payments
+UNION ALL
+SELECT 'sales_archive', COUNT(*) FROM sales_archive
+UNION ALL
 SELECT 'finished_products', COUNT(*) FROM finished_products
 UNION ALL
 SELECT 'product_ingredients', COUNT(*) FROM product_ingredients
 UNION ALL
+SELECT 'product_variants', COUNT(*) FROM product_variants
+UNION ALL
+SELECT 'modifier_groups', COUNT(*) FROM modifier_groups
+UNION ALL
+SELECT 'modifier_options', COUNT(*) FROM modifier_options
+UNION ALL
+SELECT 'option_ingredients', COUNT(*) FROM option_ingredients
+UNION ALL
+SELECT 'bundle_components', COUNT(*) FROM bundle_components
+UNION ALL
+SELECT 'bundle_substitutes', COUNT(*) FROM bundle_substitutes
+UNION ALL
+SELECT 'product_cost_history', COUNT(*) FROM product_cost_history
+UNION ALL
+SELECT 'prep_ingredients', COUNT(*) FROM prep_ingredients
+UNION ALL
+SELECT 'production_runs', COUNT(*) FROM production_runs
+UNION ALL
+SELECT 'stock_movements', COUNT(*) FROM stock_movements
+UNION ALL
+SELECT 'cost_layers', COUNT(*) FROM cost_layers
+UNION ALL
+SELECT 'stock_lots', COUNT(*) FROM stock_lots
+UNION ALL
+SELECT 'waste_entries', COUNT(*) FROM waste_entries
+UNION ALL
+SELECT 'stock_counts', COUNT(*) FROM stock_counts
+UNION ALL
+SELECT 'suppliers', COUNT(*) FROM suppliers
+UNION ALL
+SELECT 'purchase_orders', COUNT(*) FROM purchase_orders
+UNION ALL
+SELECT 'purchase_order_lines', COUNT(*) FROM purchase_order_lines
+UNION ALL
+SELECT 'goods_receipts', COUNT(*) FROM goods_receipts
+UNION ALL
+SELECT 'goods_receipt_lines', COUNT(*) FROM goods_receipt_lines
+UNION ALL
 SELECT 'products', COUNT(*) FROM products
 UNION ALL
+SELECT 'units_of_measure', COUNT(*) FROM units_of_measure
+UNION ALL
 SELECT 'payment_methods', COUNT(*) FROM payment_methods
 UNION ALL
 SELECT 'customer_types', COUNT(*) FROM customer_types
 UNION ALL
 SELECT 'settings', COUNT(*) FROM settings
 UNION ALL
+SELECT 'promotions', COUNT(*) FROM promotions
+UNION ALL
 SELECT 'opex', COUNT(*) FROM opex
 UNION ALL
-SELECT 'opex_settings', COUNT(*) FROM opex_settings;
+SELECT 'opex_settings', COUNT(*) FROM opex_settings
+UNION ALL
+SELECT 'transaction_counters', COUNT(*) FROM transaction_counters
+UNION ALL
+SELECT 'transaction_numbers', COUNT(*) FROM transaction_numbers;